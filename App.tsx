@@ -11,6 +11,7 @@ import { Sidebar } from './components/Sidebar';
 import { DocumentPreview } from './components/DocumentPreview';
 import { ExportOverlay } from './components/ExportOverlay';
 import { DebugModal } from './components/DebugModal';
+import { PdfPasswordDialog } from './components/PdfPasswordDialog';
 import { MobileWorkspaceShell } from './components/MobileWorkspaceShell';
 import { useMobileLayout } from './hooks/useMobileLayout';
 import { useViewportHeight } from './hooks/useViewportHeight';
@@ -31,6 +32,7 @@ export default function App() {
     sidebarProps,
     debugModalProps,
     exportOverlayProps,
+    pdfPasswordDialogProps,
   } = useAppController();
 
   return (
@@ -87,6 +89,7 @@ export default function App() {
       </div>
 
       <DebugModal {...debugModalProps} />
+      <PdfPasswordDialog {...pdfPasswordDialogProps} />
     </div>
   );
 }
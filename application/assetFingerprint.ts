@@ -0,0 +1,96 @@
+import { AssetHint } from '../domain/project';
+
+// A 16x16 difference hash: fine enough to tell apart storyboard pages that share one template
+export const FINGERPRINT_GRID_SIZE = 16;
+export const FINGERPRINT_SAMPLE_WIDTH = FINGERPRINT_GRID_SIZE + 1;
+export const FINGERPRINT_SAMPLE_HEIGHT = FINGERPRINT_GRID_SIZE;
+
+const FINGERPRINT_PREFIX = 'dhash16:';
+const FINGERPRINT_BITS = FINGERPRINT_GRID_SIZE * FINGERPRINT_GRID_SIZE;
+// Redrawn panels and re-scans stay well under this; different pages differ in a third or more of the bits
+export const MAX_FINGERPRINT_DISTANCE = Math.round(FINGERPRINT_BITS * 0.1);
+
+/**
+ * Hashes a FINGERPRINT_SAMPLE_WIDTH x FINGERPRINT_SAMPLE_HEIGHT grayscale sample, row by row.
+ * Each bit records whether a pixel is brighter than its right neighbour, so the hash survives
+ * re-exports, recompression and small brightness changes but not different drawings.
+ */
+export const createDifferenceHash = (grayscale: ArrayLike<number>) => {
+  let hex = '';
+  let nibble = 0;
+  let bitCount = 0;
+
+  for (let y = 0; y < FINGERPRINT_SAMPLE_HEIGHT; y++) {
+    for (let x = 0; x < FINGERPRINT_GRID_SIZE; x++) {
+      const index = y * FINGERPRINT_SAMPLE_WIDTH + x;
+      nibble = (nibble << 1) | (grayscale[index] > grayscale[index + 1] ? 1 : 0);
+      bitCount++;
+      if (bitCount % 4 === 0) {
+        hex += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+
+  return `${FINGERPRINT_PREFIX}${hex}`;
+};
+
+const parseFingerprint = (fingerprint: string | undefined) => {
+  if (!fingerprint?.startsWith(FINGERPRINT_PREFIX)) return null;
+  const hex = fingerprint.slice(FINGERPRINT_PREFIX.length);
+  return hex.length === FINGERPRINT_BITS / 4 && /^[0-9a-f]+$/.test(hex) ? hex : null;
+};
+
+// Number of differing bits, or null when either side has no usable fingerprint
+export const getFingerprintDistance = (left: string | undefined, right: string | undefined) => {
+  const leftHex = parseFingerprint(left);
+  const rightHex = parseFingerprint(right);
+  if (!leftHex || !rightHex) return null;
+
+  let distance = 0;
+  for (let index = 0; index < leftHex.length; index++) {
+    let diff = Number.parseInt(leftHex[index], 16) ^ Number.parseInt(rightHex[index], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+/**
+ * Whether two assets show the same page by content, regardless of file name or page number.
+ * Null when either was never fingerprinted, so callers fall back to comparing names.
+ */
+export const assetFingerprintsMatch = (
+  expectedAsset: AssetHint | null | undefined,
+  currentAsset: AssetHint | null | undefined
+) => {
+  const distance = getFingerprintDistance(expectedAsset?.fingerprint, currentAsset?.fingerprint);
+  return distance == null ? null : distance <= MAX_FINGERPRINT_DISTANCE;
+};
+
+// What is learned about an asset by rendering it: its fingerprint and its size once oriented
+export type AssetContentHint = Pick<AssetHint, 'fingerprint' | 'width' | 'height'>;
+
+export const attachAssetContentHints = (
+  hints: AssetHint[],
+  contentHints: Array<AssetContentHint | undefined>
+): AssetHint[] =>
+  hints.map((hint, index) => {
+    const { fingerprint, width, height } = contentHints[index] ?? {};
+    return {
+      ...hint,
+      ...(fingerprint ? { fingerprint } : {}),
+      ...(width != null && height != null ? { width, height } : {}),
+    };
+  });
+
+// Fingerprints are computed after the document loads; their arrival is worth a fresh suggestion
+export const hasNewAssetFingerprints = (
+  previousAssets: Array<AssetHint | null | undefined>,
+  currentAssets: Array<AssetHint | null | undefined>
+) =>
+  previousAssets.length === currentAssets.length &&
+  !previousAssets.some((asset) => asset?.fingerprint) &&
+  currentAssets.some((asset) => asset?.fingerprint);
@@ -1,9 +1,11 @@
 import { AssetHint } from '../domain/project';
-import { DocType } from '../types';
+import { DocType, PdfSource } from '../types';
+import { locatePdfSourcePage } from './pdfSources';
 
 interface CurrentDocumentHintOptions {
   docType: DocType | null;
   pdfFile: File | null;
+  pdfSources?: PdfSource[];
   imageFiles: File[];
   pageCount: number;
 }
@@ -11,9 +13,25 @@ interface CurrentDocumentHintOptions {
 export const createAssetHintsFromCurrentDocument = ({
   docType,
   pdfFile,
+  pdfSources = [],
   imageFiles,
   pageCount,
 }: CurrentDocumentHintOptions): AssetHint[] => {
+  // Merged pages keep the file name (and PDF page number) of the source each page came from
+  if (docType === 'pdf' && pdfSources.length > 0) {
+    return Array.from({ length: pageCount }, (_, index): AssetHint => {
+      const sourcePage = locatePdfSourcePage(pdfSources, index);
+      if (sourcePage?.source.kind === 'image') {
+        return { sourceKind: 'image', sourceLabel: sourcePage.source.file.name };
+      }
+      return {
+        sourceKind: 'pdf-page',
+        sourceLabel: sourcePage?.source.file.name ?? pdfFile?.name ?? '',
+        pageNumber: sourcePage?.pageNumber ?? index + 1,
+      };
+    });
+  }
+
   if (docType === 'pdf' && pdfFile) {
     return Array.from({ length: pageCount }, (_, index) => ({
       sourceKind: 'pdf-page',
@@ -49,7 +67,7 @@ export const deriveCurrentProjectName = ({
   docType,
   pdfFile,
   imageFiles,
-}: Omit<CurrentDocumentHintOptions, 'pageCount'>) => {
+}: Omit<CurrentDocumentHintOptions, 'pageCount' | 'pdfSources'>) => {
   const stripExtension = (name?: string) => name?.replace(/\.[^.]+$/, '') || name;
 
   if (docType === 'pdf') {
@@ -72,6 +72,7 @@ export const syncProjectWithInputs = (
         ...options.settings,
         nextNumber: numberingFallback.nextNumber,
         branchChar: numberingFallback.branchChar,
+        sceneNumber: numberingFallback.sceneNumber,
       },
     });
   }
@@ -82,6 +83,7 @@ export const syncProjectWithInputs = (
       ...options.settings,
       nextNumber: project.numbering.nextNumber,
       branchChar: project.numbering.branchChar,
+      sceneNumber: project.numbering.sceneNumber,
     },
     cuts: createCutsFromProjectDocument(project),
     savedAt: project.meta.savedAt,
@@ -11,6 +11,7 @@ import {
 import {
   renumberLogicalPagesFromCut,
   renumberLogicalPagesFromPage,
+  setLogicalPageCutStartsScene,
 } from '../domain/numbering';
 export type EditorAction =
   | { type: 'selectLogicalPage'; logicalPageId: LogicalPageId | null }
@@ -35,7 +36,8 @@ export type EditorAction =
   | { type: 'setPreviewMode'; mode: EditorState['preview']['mode'] }
   | { type: 'updateNumberingPolicy'; numbering: Partial<NumberingPolicy> }
   | { type: 'renumberFromCut'; cutId: string; numbering: NumberingPolicy }
-  | { type: 'renumberFromLogicalPage'; logicalPageId: LogicalPageId; numbering: NumberingPolicy };
+  | { type: 'renumberFromLogicalPage'; logicalPageId: LogicalPageId; numbering: NumberingPolicy }
+  | { type: 'setCutStartsScene'; cutId: string; startsScene: boolean; numbering: NumberingPolicy };
 
 const clampIndex = (value: number, min: number, max: number) =>
   Math.max(min, Math.min(max, value));
@@ -242,6 +244,7 @@ export const editorReducer = (
             ...action.numbering,
             nextNumber: result.nextNumbering.nextNumber,
             branchChar: result.nextNumbering.branchChar,
+            sceneNumber: result.nextNumbering.sceneNumber,
           },
         },
       };
@@ -265,6 +268,32 @@ export const editorReducer = (
             ...action.numbering,
             nextNumber: result.nextNumbering.nextNumber,
             branchChar: result.nextNumbering.branchChar,
+            sceneNumber: result.nextNumbering.sceneNumber,
+          },
+        },
+      };
+    }
+
+    case 'setCutStartsScene': {
+      const result = setLogicalPageCutStartsScene(
+        state.project.logicalPages,
+        action.cutId,
+        action.startsScene,
+        action.numbering
+      );
+
+      if (!result.found) return state;
+
+      return {
+        ...state,
+        project: {
+          ...state.project,
+          logicalPages: result.logicalPages,
+          numbering: {
+            ...action.numbering,
+            nextNumber: result.nextNumbering.nextNumber,
+            branchChar: result.nextNumbering.branchChar,
+            sceneNumber: result.nextNumbering.sceneNumber,
           },
         },
       };
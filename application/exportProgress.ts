@@ -0,0 +1,12 @@
+import { ExportProgress } from '../types';
+
+// The page in progress is not finished yet, so the estimate uses completed pages only
+export const estimateRemainingTime = (progress: ExportProgress, now: number) => {
+  const completed = progress.current - 1;
+  if (completed <= 0 || progress.total <= 0) {
+    return null;
+  }
+
+  const elapsed = now - progress.startedAt;
+  return (elapsed / completed) * (progress.total - completed);
+};
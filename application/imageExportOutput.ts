@@ -0,0 +1,60 @@
+import { ImageExportOptions } from '../types';
+
+export type ImageOutputType = 'png' | 'jpeg' | 'webp';
+
+export const IMAGE_OUTPUT_EXTENSIONS: Record<ImageOutputType, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+};
+
+export const IMAGE_OUTPUT_MIME_TYPES: Record<ImageOutputType, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+export const DEFAULT_IMAGE_EXPORT_OPTIONS: ImageExportOptions = {
+  format: 'keep',
+  quality: 0.8,
+  maxLongEdge: null,
+};
+
+// A null input is a format canvases cannot write (TIFF, BMP), which 'keep' turns into lossless PNG
+export const resolveImageOutputType = (
+  inputType: ImageOutputType | null,
+  { format }: ImageExportOptions
+): ImageOutputType => (format === 'keep' ? (inputType ?? 'png') : format);
+
+// Encoders fall back to PNG for types they cannot write (e.g. WebP in older Safari)
+export const getImageOutputTypeFromMime = (mimeType: string): ImageOutputType | null => {
+  const match = (Object.keys(IMAGE_OUTPUT_MIME_TYPES) as ImageOutputType[]).find(
+    (type) => IMAGE_OUTPUT_MIME_TYPES[type] === mimeType
+  );
+  return match ?? null;
+};
+
+// Only ever shrinks; images already within the limit keep their size
+export const getImageExportScale = (
+  width: number,
+  height: number,
+  { maxLongEdge }: Pick<ImageExportOptions, 'maxLongEdge'>
+) => {
+  const longEdge = Math.max(width, height);
+  if (!maxLongEdge || longEdge <= maxLongEdge) {
+    return 1;
+  }
+  return maxLongEdge / longEdge;
+};
+
+export const getImageOutputFileName = (
+  fileName: string,
+  inputType: ImageOutputType | null,
+  outputType: ImageOutputType
+) => {
+  if (inputType === outputType) {
+    return fileName;
+  }
+  const baseName = fileName.replace(/\.[^./]+$/, '');
+  return `${baseName}.${IMAGE_OUTPUT_EXTENSIONS[outputType]}`;
+};
@@ -0,0 +1,98 @@
+import { Cut, PdfSource } from '../types';
+
+export interface PdfSourcePage {
+  source: PdfSource;
+  pageNumber: number; // 1-based within the source
+}
+
+export interface PdfSourceCuts {
+  source: PdfSource;
+  // Pages written by the exports before this one, and by this one
+  pageOffset: number;
+  pageCount: number;
+  // Merged pages the export is assembled from when the source file cannot be written as is
+  mergedPages: number[] | null;
+  cuts: Cut[];
+}
+
+export const locatePdfSourcePage = (sources: PdfSource[], pageIndex: number): PdfSourcePage | null => {
+  if (pageIndex < 0) return null;
+
+  let pageOffset = 0;
+  for (const source of sources) {
+    if (pageIndex < pageOffset + source.pageCount) {
+      return { source, pageNumber: pageIndex - pageOffset + (source.firstPage ?? 1) };
+    }
+    pageOffset += source.pageCount;
+  }
+  return null;
+};
+
+// Moves cuts from their merged page to where that page lands in pageOrder
+export const arrangeCutsByPageOrder = (cuts: Cut[], pageOrder: number[]) => {
+  const arrangedIndices = new Map<number, number>();
+  pageOrder.forEach((pageIndex, arrangedIndex) => {
+    if (!arrangedIndices.has(pageIndex)) arrangedIndices.set(pageIndex, arrangedIndex);
+  });
+  return cuts.flatMap((cut) => {
+    const pageIndex = arrangedIndices.get(cut.pageIndex);
+    return pageIndex === undefined ? [] : [{ ...cut, pageIndex }];
+  });
+};
+
+// A scan named after a PDF page is written into that PDF's export
+const getExportFile = (source: PdfSource) => source.replacedPage?.file ?? source.file;
+
+/**
+ * Cut numbering runs across the merged pages; each source file gets its own cuts back on its own
+ * page indices. A PDF listed in several runs around replaced pages is exported once, assembled
+ * from the merged pages so its scans stand in for the pages they replace. With a bound page order
+ * each file keeps its own pages in that order, and a file with no bound pages is left out.
+ */
+export const splitCutsByPdfSource = (
+  cuts: Cut[],
+  sources: PdfSource[],
+  pageOrder: number[] | null = null
+): PdfSourceCuts[] => {
+  const pageFiles = sources.flatMap((source) => Array<File>(source.pageCount).fill(getExportFile(source)));
+
+  let pageOffset = 0;
+  return [...new Set(pageFiles)].flatMap((file) => {
+    const fileSources = sources.filter((source) => getExportFile(source) === file);
+    const sourcePages = pageFiles.flatMap((pageFile, pageIndex) => (pageFile === file ? [pageIndex] : []));
+    const pages = pageOrder?.filter((pageIndex) => pageFiles[pageIndex] === file) ?? sourcePages;
+    if (pages.length === 0) return [];
+
+    const isSourceFile =
+      !fileSources.some((source) => source.replacedPage) &&
+      pages.length === sourcePages.length &&
+      pages.every((pageIndex, index) => pageIndex === sourcePages[index]);
+    const split: PdfSourceCuts = {
+      source: fileSources.find((source) => source.file === file) ?? fileSources[0],
+      pageOffset,
+      pageCount: pages.length,
+      mergedPages: isSourceFile ? null : pages,
+      cuts: arrangeCutsByPageOrder(cuts, pages),
+    };
+    pageOffset += pages.length;
+    return [split];
+  });
+};
+
+export const countPdfSourcePages = (sources: PdfSource[]) =>
+  sources.reduce((total, source) => total + source.pageCount, 0);
+
+// Whether the bound page order is the merged order, every page in place
+export const isMergedPageOrder = (pageOrder: number[], sources: PdfSource[]) =>
+  pageOrder.length === countPdfSourcePages(sources) &&
+  pageOrder.every((pageIndex, index) => pageIndex === index);
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// e.g. "ep01_A.pdf" + "ep01_B.pdf" -> "ep01_A+ep01_B.pdf"
+export const createMergedPdfName = (files: File[]) =>
+  `${files.map((file) => stripExtension(file.name)).join('+')}.pdf`;
+
+// Image sources are exported as a PDF of their own, named after the image
+export const toMarkedPdfSourceName = (source: PdfSource) =>
+  `marked_${source.kind === 'pdf' ? source.file.name : `${stripExtension(source.file.name)}.pdf`}`;
@@ -1,4 +1,5 @@
 import { AssetHint, LogicalPageId, ProjectDocument } from '../domain/project';
+import { assetFingerprintsMatch, getFingerprintDistance, MAX_FINGERPRINT_DISTANCE } from './assetFingerprint';
 
 export type ProjectAssetBindings = Record<LogicalPageId, number | null>;
 
@@ -7,6 +8,8 @@ const hintsStrictlyMatch = (
   currentAsset: AssetHint | null | undefined
 ) => {
   if (!expectedAsset || !currentAsset) return false;
+  // Same name and page number but different content: the revision inserted or reordered pages
+  if (assetFingerprintsMatch(expectedAsset, currentAsset) === false) return false;
   if (expectedAsset.sourceKind !== currentAsset.sourceKind) return false;
   if (expectedAsset.sourceLabel !== currentAsset.sourceLabel) return false;
   if (
@@ -19,6 +22,86 @@ const hintsStrictlyMatch = (
   return true;
 };
 
+export type ProjectPageAlignmentStep =
+  | { kind: 'match'; logicalPageId: LogicalPageId; assetIndex: number }
+  | { kind: 'replace'; logicalPageId: LogicalPageId; assetIndex: number }
+  | { kind: 'insert'; logicalPageId: null; assetIndex: number }
+  | { kind: 'remove'; logicalPageId: LogicalPageId; assetIndex: null };
+
+// A pair of different pages must still beat removing one and inserting the other
+const MATCH_SCORE = 2;
+const REPLACE_SCORE = -1;
+const GAP_SCORE = -1;
+
+const pagesLookAlike = (
+  expectedAsset: AssetHint | null | undefined,
+  currentAsset: AssetHint | null | undefined
+) => {
+  const fingerprintsMatch = assetFingerprintsMatch(expectedAsset, currentAsset);
+  return fingerprintsMatch ?? hintsStrictlyMatch(expectedAsset, currentAsset);
+};
+
+/**
+ * Aligns the saved logical pages with the current assets in order (Needleman-Wunsch), so a page
+ * inserted into or removed from a revised storyboard only affects its own position.
+ * Inserted assets have no logical page yet and removed pages are left without an asset.
+ */
+export const alignProjectPagesToAssets = (
+  project: ProjectDocument,
+  currentAssets: Array<AssetHint | null | undefined>
+): ProjectPageAlignmentStep[] => {
+  const pages = project.logicalPages;
+  const columns = currentAssets.length + 1;
+  const pairScore = (pageIndex: number, assetIndex: number) => {
+    const asset = currentAssets[assetIndex];
+    if (!asset) return Number.NEGATIVE_INFINITY;
+    return pagesLookAlike(pages[pageIndex].expectedAssetHint, asset) ? MATCH_SCORE : REPLACE_SCORE;
+  };
+
+  const scores = new Float64Array((pages.length + 1) * columns);
+  for (let pageIndex = 0; pageIndex <= pages.length; pageIndex++) {
+    for (let assetIndex = 0; assetIndex <= currentAssets.length; assetIndex++) {
+      const cell = pageIndex * columns + assetIndex;
+      if (pageIndex === 0 || assetIndex === 0) {
+        scores[cell] = (pageIndex + assetIndex) * GAP_SCORE;
+        continue;
+      }
+      scores[cell] = Math.max(
+        scores[cell - columns - 1] + pairScore(pageIndex - 1, assetIndex - 1),
+        scores[cell - columns] + GAP_SCORE,
+        scores[cell - 1] + GAP_SCORE
+      );
+    }
+  }
+
+  const steps: ProjectPageAlignmentStep[] = [];
+  let pageIndex = pages.length;
+  let assetIndex = currentAssets.length;
+  // Walks back taking gaps first on ties, so pages that cannot be told apart pair up from the front
+  while (pageIndex > 0 || assetIndex > 0) {
+    const cell = pageIndex * columns + assetIndex;
+    if (pageIndex > 0 && scores[cell] === scores[cell - columns] + GAP_SCORE) {
+      pageIndex--;
+      steps.push({ kind: 'remove', logicalPageId: pages[pageIndex].id, assetIndex: null });
+      continue;
+    }
+    if (assetIndex > 0 && scores[cell] === scores[cell - 1] + GAP_SCORE) {
+      assetIndex--;
+      steps.push({ kind: 'insert', logicalPageId: null, assetIndex });
+      continue;
+    }
+    pageIndex--;
+    assetIndex--;
+    steps.push({
+      kind: pairScore(pageIndex, assetIndex) === MATCH_SCORE ? 'match' : 'replace',
+      logicalPageId: pages[pageIndex].id,
+      assetIndex,
+    });
+  }
+
+  return steps.reverse();
+};
+
 export const createSuggestedProjectAssetBindings = (
   project: ProjectDocument,
   currentAssets: Array<AssetHint | null | undefined>
@@ -28,38 +111,31 @@ export const createSuggestedProjectAssetBindings = (
   ) as ProjectAssetBindings;
   const usedAssetIndexes = new Set<number>();
 
-  project.logicalPages.forEach((page) => {
-    const matchIndex = currentAssets.findIndex(
-      (asset, index) =>
-        !usedAssetIndexes.has(index) &&
-        hintsStrictlyMatch(page.expectedAssetHint ?? null, asset ?? null)
-    );
-
-    if (matchIndex >= 0) {
-      bindings[page.id] = matchIndex;
-      usedAssetIndexes.add(matchIndex);
-    }
-  });
-
-  project.logicalPages.forEach((page, index) => {
-    if (bindings[page.id] != null) return;
-    if (index < currentAssets.length && !usedAssetIndexes.has(index)) {
-      bindings[page.id] = index;
-      usedAssetIndexes.add(index);
-    }
+  alignProjectPagesToAssets(project, currentAssets).forEach((step) => {
+    if (step.kind !== 'match' && step.kind !== 'replace') return;
+    bindings[step.logicalPageId] = step.assetIndex;
+    usedAssetIndexes.add(step.assetIndex);
   });
 
-  project.logicalPages.forEach((page) => {
-    if (bindings[page.id] != null) return;
-
-    const nextIndex = currentAssets.findIndex(
-      (asset, index) => asset && !usedAssetIndexes.has(index)
-    );
-    if (nextIndex >= 0) {
-      bindings[page.id] = nextIndex;
-      usedAssetIndexes.add(nextIndex);
-    }
-  });
+  // Pages moved within the revision fall outside the alignment; pair them by content, closest first
+  const movedPairs = project.logicalPages.flatMap((page) =>
+    bindings[page.id] != null
+      ? []
+      : currentAssets.flatMap((asset, assetIndex) => {
+          if (usedAssetIndexes.has(assetIndex) || !pagesLookAlike(page.expectedAssetHint, asset)) {
+            return [];
+          }
+          const distance = getFingerprintDistance(page.expectedAssetHint?.fingerprint, asset?.fingerprint);
+          return [{ pageId: page.id, assetIndex, distance: distance ?? MAX_FINGERPRINT_DISTANCE }];
+        })
+  );
+  movedPairs
+    .sort((left, right) => left.distance - right.distance)
+    .forEach(({ pageId, assetIndex }) => {
+      if (bindings[pageId] != null || usedAssetIndexes.has(assetIndex)) return;
+      bindings[pageId] = assetIndex;
+      usedAssetIndexes.add(assetIndex);
+    });
 
   return bindings;
 };
@@ -1,4 +1,5 @@
 import { AssetHint, LogicalPageId, ProjectDocument } from '../domain/project';
+import { assetFingerprintsMatch } from './assetFingerprint';
 
 export type ProjectAssetComparisonStatus =
   | 'matched'
@@ -29,6 +30,8 @@ const assetHintMatches = (
   currentAsset: AssetHint | null | undefined
 ) => {
   if (!expectedAsset || !currentAsset) return false;
+  const fingerprintsMatch = assetFingerprintsMatch(expectedAsset, currentAsset);
+  if (fingerprintsMatch != null) return fingerprintsMatch;
   if (expectedAsset.sourceKind !== currentAsset.sourceKind) return false;
   if (
     expectedAsset.sourceLabel &&
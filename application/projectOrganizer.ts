@@ -7,6 +7,7 @@ import {
   LogicalPageId,
   PageBindingStatus,
 } from '../domain/project';
+import { assetFingerprintsMatch, getFingerprintDistance, MAX_FINGERPRINT_DISTANCE } from './assetFingerprint';
 import { ProjectAssetBindings } from './projectBindings';
 
 const ASSET_ID_PREFIX = 'asset-';
@@ -22,6 +23,9 @@ export interface ConteOrganizerSlot {
   logicalPage: LogicalPage | null;
   expectedAsset: AssetHint | null;
   status: ConteOrganizerSlotStatus;
+  // 0 to 1; null for conte pages without a logical page
+  confidence: number | null;
+  reasons: string[];
   cutCount: number;
   isSelected: boolean;
 }
@@ -73,6 +77,8 @@ const assetHintMatches = (
   currentAsset: AssetHint | null | undefined
 ) => {
   if (!expectedAsset || !currentAsset) return false;
+  const fingerprintsMatch = assetFingerprintsMatch(expectedAsset, currentAsset);
+  if (fingerprintsMatch != null) return fingerprintsMatch;
   if (expectedAsset.sourceKind !== currentAsset.sourceKind) return false;
   if (
     expectedAsset.sourceLabel &&
@@ -91,6 +97,91 @@ const assetHintMatches = (
   return true;
 };
 
+interface BindingAssessment {
+  confidence: number;
+  reasons: string[];
+}
+
+// Sizes within this ratio are the same page re-exported; rescans at another resolution are not
+const PAGE_SIZE_TOLERANCE = 0.01;
+
+const sizesDiffer = (expectedAsset: AssetHint, currentAsset: AssetHint) => {
+  if (
+    expectedAsset.width == null ||
+    expectedAsset.height == null ||
+    currentAsset.width == null ||
+    currentAsset.height == null
+  ) {
+    return false;
+  }
+  return (
+    Math.abs(expectedAsset.width - currentAsset.width) > expectedAsset.width * PAGE_SIZE_TOLERANCE ||
+    Math.abs(expectedAsset.height - currentAsset.height) > expectedAsset.height * PAGE_SIZE_TOLERANCE
+  );
+};
+
+/**
+ * Scores how sure the automatic binding is from what the saved and current assets have in common.
+ * Differences in name or position weigh little once the content itself matches.
+ */
+const assessBinding = (
+  expectedAsset: AssetHint | null,
+  currentAsset: AssetHint | null,
+  status: ConteOrganizerSlotStatus
+): BindingAssessment => {
+  if (!currentAsset) {
+    return { confidence: 0, reasons: ['素材が読み込まれていない'] };
+  }
+  if (!expectedAsset) {
+    return status === 'matched'
+      ? { confidence: 1, reasons: ['手動で割付済み'] }
+      : { confidence: 0.5, reasons: ['前回の素材情報がない'] };
+  }
+
+  const reasons: string[] = [];
+  let penalty = 0;
+  const distance = getFingerprintDistance(expectedAsset.fingerprint, currentAsset.fingerprint);
+  const contentMatches = distance != null && distance <= MAX_FINGERPRINT_DISTANCE;
+  const addReason = (reason: string, weight: number) => {
+    reasons.push(reason);
+    penalty += contentMatches ? weight / 4 : weight;
+  };
+
+  if (distance != null && distance > MAX_FINGERPRINT_DISTANCE) {
+    reasons.push('内容が異なる');
+    penalty += 0.6;
+  } else if (distance != null && distance > MAX_FINGERPRINT_DISTANCE / 2) {
+    reasons.push('内容が少し異なる');
+    penalty += 0.1;
+  }
+  if (expectedAsset.sourceKind !== currentAsset.sourceKind) {
+    addReason(currentAsset.sourceKind === 'pdf-page' ? '画像からPDFに変わった' : 'PDFから画像に変わった', 0.3);
+  }
+  if (expectedAsset.sourceLabel !== currentAsset.sourceLabel) {
+    addReason('ファイル名が異なる', 0.3);
+  }
+  if (
+    expectedAsset.pageNumber != null &&
+    currentAsset.pageNumber != null &&
+    expectedAsset.pageNumber !== currentAsset.pageNumber
+  ) {
+    addReason('ページ番号が異なる', 0.2);
+  }
+  if (expectedAsset.sourceKind === currentAsset.sourceKind && sizesDiffer(expectedAsset, currentAsset)) {
+    addReason('ページサイズが異なる', 0.2);
+  }
+
+  // A reviewer who placed the page by hand has already accepted the differences
+  if (status === 'matched' && !assetHintMatches(expectedAsset, currentAsset)) {
+    return { confidence: 1, reasons: ['手動で割付済み', ...reasons] };
+  }
+
+  return {
+    confidence: Math.round(Math.max(0, 1 - penalty) * 100) / 100,
+    reasons,
+  };
+};
+
 const createOrganizerLayout = (
   logicalPages: LogicalPage[],
   bindings: ProjectAssetBindings,
@@ -305,6 +396,7 @@ export const createProjectConteOrganizerSummary = (
     if (status === 'matched') matchedCount += 1;
     if (status === 'needs_review') needsReviewCount += 1;
     if (status === 'unassigned') unassignedConteCount += 1;
+    const assessment = logicalPage ? assessBinding(expectedAsset, asset ?? null, status) : null;
 
     return {
       assetIndex,
@@ -315,6 +407,8 @@ export const createProjectConteOrganizerSummary = (
       logicalPage,
       expectedAsset,
       status,
+      confidence: assessment?.confidence ?? null,
+      reasons: assessment?.reasons ?? [],
       cutCount: logicalPage?.cuts.length ?? 0,
       isSelected: logicalPage?.id === selectedLogicalPageId,
     };
@@ -376,6 +470,44 @@ export const insertBlankLogicalPageAtConte = (
   );
 };
 
+// Gives every unassigned conte page its own blank logical page without shifting the others,
+// e.g. for pages a revised storyboard inserted
+export const fillUnassignedContesWithBlankPages = (
+  state: EditorState,
+  currentAssets: Array<AssetHint | null | undefined>,
+  createPage: () => LogicalPage = createLogicalPage
+): EditorState => {
+  const layout = createOrganizerLayout(
+    state.project.logicalPages,
+    getProjectBindingsFromState(state),
+    currentAssets.length
+  );
+  const blankPages: LogicalPage[] = [];
+  const slots = layout.slots.map((pageId) => {
+    if (pageId != null) return pageId;
+    const blankPage = createPage();
+    blankPages.push(blankPage);
+    return blankPage.id;
+  });
+
+  if (blankPages.length < 1) {
+    return state;
+  }
+
+  return applyOrganizerLayoutToState(
+    {
+      ...state,
+      project: {
+        ...state.project,
+        logicalPages: [...state.project.logicalPages, ...blankPages],
+      },
+    },
+    { slots, unplacedIds: layout.unplacedIds },
+    currentAssets,
+    { resolvedLogicalPageIds: new Set(blankPages.map((page) => page.id)) }
+  );
+};
+
 export const removeLogicalPageFromConte = (
   state: EditorState,
   currentAssets: Array<AssetHint | null | undefined>,
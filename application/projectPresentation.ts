@@ -5,12 +5,15 @@ export const createAppSettingsFromProjectDocument = (
   project: ProjectDocument
 ): AppSettings => ({
   fontSize: project.style.fontSize,
+  labelFont: project.style.labelFont ? { ...project.style.labelFont } : null,
   useWhiteBackground: project.style.useWhiteBackground,
   backgroundPadding: project.style.backgroundPadding,
   nextNumber: project.numbering.nextNumber,
   branchChar: project.numbering.branchChar,
+  sceneNumber: project.numbering.sceneNumber,
   autoIncrement: project.numbering.autoIncrement,
   minDigits: project.numbering.minDigits,
+  labelFormat: { ...project.numbering.labelFormat },
   textOutlineWidth: project.style.textOutlineWidth,
   enableClickSnapToRows: project.style.enableClickSnapToRows,
 });
@@ -61,6 +61,7 @@ export const createProjectDocumentFromCuts = ({
           y: cut.y,
           label: cut.label,
           isBranch: cut.isBranch,
+          ...(cut.startsScene ? { startsScene: true } : {}),
         })),
       expectedAssetHint: assetHints[index] ?? null,
     })),
@@ -83,6 +84,7 @@ export const createCutsFromProjectDocument = (
             y: cut.y,
             label: cut.label,
             isBranch: cut.isBranch,
+            ...(cut.startsScene ? { startsScene: true } : {}),
           }));
         })
         .sort((left, right) => {
@@ -102,5 +104,18 @@ export const createCutsFromProjectDocument = (
           y: cut.y,
           label: cut.label,
           isBranch: cut.isBranch,
+          ...(cut.startsScene ? { startsScene: true } : {}),
         }))
       ));
+
+// The document pages in the order their logical pages are bound; unbound logical pages are skipped
+export const createPageOrderFromProjectDocument = (
+  project: ProjectDocument,
+  bindings?: Record<string, number | null>
+): number[] =>
+  bindings
+    ? project.logicalPages.flatMap((page) => {
+        const pageIndex = bindings[page.id];
+        return pageIndex == null || pageIndex < 0 ? [] : [pageIndex];
+      })
+    : project.logicalPages.map((_, pageIndex) => pageIndex);
@@ -0,0 +1,242 @@
+import { assetFingerprintsMatch } from './assetFingerprint';
+import { CurrentProjectSessionPresent } from './currentProjectSessionState';
+import { HistoryState } from './history';
+import { createSequentialProjectAssetBindings } from './projectBindings';
+import {
+  AssetHint,
+  createEditorState,
+  createPageBinding,
+  EditorState,
+  ProjectDocument,
+} from '../domain/project';
+import { getLabelFontId } from '../services/labelFont';
+import { DocType, LabelFont, PdfSource } from '../types';
+
+// Bump when AutosavedSession changes shape; older autosaves are then ignored rather than migrated
+export const AUTOSAVED_SESSION_VERSION = 2;
+
+export interface AutosavedMaterialFile {
+  name: string;
+  size: number;
+}
+
+// The material the session was placed on, so re-dropped files can be recognised
+export interface AutosavedMaterial {
+  docType: DocType;
+  files: AutosavedMaterialFile[];
+  assets: AssetHint[];
+}
+
+/**
+ * An undo step as stored. Embedded label fonts are kept once in AutosavedSession.labelFonts and
+ * referenced by id: every step shares the same font, and fonts run to megabytes.
+ */
+export interface AutosavedHistoryEntry {
+  state: EditorState;
+  labelFontId: string | null;
+}
+
+export interface AutosavedSession {
+  version: typeof AUTOSAVED_SESSION_VERSION;
+  savedAt: string;
+  history: HistoryState<AutosavedHistoryEntry>;
+  labelFonts: LabelFont[];
+  material: AutosavedMaterial | null;
+}
+
+const ASSET_ID_PREFIX = 'asset-';
+
+// Undo steps never change once taken, so each is converted and packed once and reused by later saves
+const currentSessionEditorStates = new WeakMap<
+  CurrentProjectSessionPresent,
+  { assetCount: number; state: EditorState | null }
+>();
+const packedHistoryEntries = new WeakMap<EditorState, AutosavedHistoryEntry>();
+
+const countCuts = (project: ProjectDocument) =>
+  project.logicalPages.reduce((count, page) => count + page.cuts.length, 0);
+
+export const getMaterialFiles = (
+  docType: DocType | null,
+  pdfFile: File | null,
+  pdfSources: PdfSource[],
+  imageFiles: File[]
+): File[] => {
+  if (docType === 'images') return imageFiles;
+  if (docType === 'pdf') {
+    // A PDF split around its replaced pages is listed once
+    if (pdfSources.length > 0) return [...new Set(pdfSources.map((source) => source.file))];
+    return pdfFile ? [pdfFile] : [];
+  }
+  return [];
+};
+
+export const describeMaterialFiles = (files: File[]): AutosavedMaterialFile[] =>
+  files.map((file) => ({ name: file.name, size: file.size }));
+
+/**
+ * Brings the session without a .cutmark into the project editor's shape. Its pages are bound to
+ * the material in order; steps taken before any material was loaded have no project and are left out.
+ */
+export const createEditorHistoryFromCurrentSession = (
+  history: HistoryState<CurrentProjectSessionPresent>,
+  assetCount: number
+): HistoryState<EditorState> | null => {
+  const convertToEditorState = ({ project, selectedCutId }: CurrentProjectSessionPresent) => {
+    if (!project) return null;
+    const bindings = createSequentialProjectAssetBindings(project, assetCount);
+    return createEditorState(project, {
+      bindings: Object.fromEntries(
+        project.logicalPages.map((page) => {
+          const assetIndex = bindings[page.id];
+          return [
+            page.id,
+            createPageBinding(page.id, assetIndex != null ? `${ASSET_ID_PREFIX}${assetIndex}` : null),
+          ];
+        })
+      ),
+      selection: {
+        logicalPageId: selectedCutId
+          ? project.logicalPages.find((page) => page.cuts.some((cut) => cut.id === selectedCutId))?.id
+          : undefined,
+        cutId: selectedCutId,
+      },
+    });
+  };
+  const toEditorState = (entry: CurrentProjectSessionPresent) => {
+    const cached = currentSessionEditorStates.get(entry);
+    if (cached?.assetCount === assetCount) return cached.state;
+    const state = convertToEditorState(entry);
+    currentSessionEditorStates.set(entry, { assetCount, state });
+    return state;
+  };
+  const toEditorStates = (entries: CurrentProjectSessionPresent[]) =>
+    entries.map(toEditorState).filter((state): state is EditorState => state !== null);
+
+  const present = toEditorState(history.present);
+  if (!present) return null;
+
+  return {
+    past: toEditorStates(history.past),
+    present,
+    future: toEditorStates(history.future),
+  };
+};
+
+// An empty workspace is not worth replacing the last autosave with
+export const hasAutosavableWork = (
+  history: HistoryState<EditorState> | null,
+  isLoadedProject: boolean
+) => !!history && (isLoadedProject || countCuts(history.present.project) > 0 || history.past.length > 0);
+
+export const createAutosavedSession = (
+  history: HistoryState<EditorState>,
+  material: AutosavedMaterial | null,
+  savedAt = new Date().toISOString()
+): AutosavedSession => {
+  const labelFonts = new Map<string, LabelFont>();
+  const packEntry = (state: EditorState): AutosavedHistoryEntry => {
+    const labelFont = state.project.style.labelFont;
+    const labelFontId = labelFont ? getLabelFontId(labelFont) : null;
+    if (labelFont && labelFontId && !labelFonts.has(labelFontId)) {
+      labelFonts.set(labelFontId, labelFont);
+    }
+
+    let entry = packedHistoryEntries.get(state);
+    if (!entry) {
+      entry = labelFont
+        ? {
+            state: {
+              ...state,
+              project: { ...state.project, style: { ...state.project.style, labelFont: null } },
+            },
+            labelFontId,
+          }
+        : { state, labelFontId: null };
+      packedHistoryEntries.set(state, entry);
+    }
+    return entry;
+  };
+
+  return {
+    version: AUTOSAVED_SESSION_VERSION,
+    savedAt,
+    history: {
+      past: history.past.map(packEntry),
+      present: packEntry(history.present),
+      future: history.future.map(packEntry),
+    },
+    labelFonts: [...labelFonts.values()],
+    material,
+  };
+};
+
+export const restoreAutosavedHistory = (session: AutosavedSession): HistoryState<EditorState> => {
+  const labelFonts = new Map(session.labelFonts.map((font) => [getLabelFontId(font), font]));
+  const unpackEntry = (entry: AutosavedHistoryEntry): EditorState => {
+    const { state, labelFontId } = entry;
+    const restored =
+      labelFontId == null
+        ? state
+        : {
+            ...state,
+            project: {
+              ...state.project,
+              style: { ...state.project.style, labelFont: labelFonts.get(labelFontId) ?? null },
+            },
+          };
+    // Saving the restored history again reuses the stored steps
+    packedHistoryEntries.set(restored, entry);
+    return restored;
+  };
+
+  return {
+    past: session.history.past.map(unpackEntry),
+    present: unpackEntry(session.history.present),
+    future: session.history.future.map(unpackEntry),
+  };
+};
+
+export const summarizeAutosavedSession = (session: AutosavedSession) => {
+  const { project } = session.history.present.state;
+  return {
+    projectName: project.meta.name,
+    savedAt: session.savedAt,
+    pageCount: project.logicalPages.length,
+    cutCount: countCuts(project),
+    materialFiles: session.material?.files ?? [],
+  };
+};
+
+export type AutosavedSessionSummary = ReturnType<typeof summarizeAutosavedSession>;
+
+/**
+ * Whether newly loaded material is what the session was placed on. Files match by name and size;
+ * renamed or re-exported files still match when every page looks the same. 'pending' means the
+ * names differ and the page fingerprints needed to decide are still being computed.
+ */
+export const compareAutosavedMaterial = (
+  material: AutosavedMaterial,
+  files: File[],
+  currentAssets: Array<AssetHint | null | undefined>
+): 'same' | 'different' | 'pending' => {
+  if (files.length === 0 || currentAssets.length === 0) return 'pending';
+
+  const contentMatches = material.assets.map((asset, index) =>
+    assetFingerprintsMatch(asset, currentAssets[index])
+  );
+  if (material.assets.length !== currentAssets.length || contentMatches.includes(false)) {
+    return 'different';
+  }
+
+  const sameFiles =
+    material.files.length === files.length &&
+    material.files.every((file, index) => file.name === files[index].name && file.size === files[index].size);
+  if (sameFiles) return 'same';
+
+  if (contentMatches.length > 0 && contentMatches.every((match) => match === true)) return 'same';
+  const awaitingFingerprints =
+    material.assets.some((asset) => asset.fingerprint) &&
+    !currentAssets.some((asset) => asset?.fingerprint);
+  return awaitingFingerprints ? 'pending' : 'different';
+};
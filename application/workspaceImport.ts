@@ -1,7 +1,10 @@
 import { createAssetHintsFromCurrentDocument } from './currentDocumentProjection';
 import type { ProjectImportContext } from '../hooks/useProjectLifecycle';
+import { PdfMergeSource, PdfSource } from '../types';
 
-const VALID_IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png'];
+const VALID_IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.tif', '.tiff', '.bmp'];
+// Written by Windows and macOS next to images; never part of the storyboard
+const SYSTEM_FILE_NAMES = ['thumbs.db', 'desktop.ini', '.ds_store'];
 
 export class WorkspaceImportValidationError extends Error {}
 
@@ -15,7 +18,12 @@ export interface WorkspaceImportSelection {
 export interface WorkspaceImportPlan {
   projectFile: File | null;
   assetType: 'none' | 'pdf' | 'images';
+  // The merged document once several files are prepared, otherwise the only PDF
   pdfFile: File | null;
+  pdfFiles: File[];
+  // Filled in when several files were merged into pdfFile, empty for a single PDF
+  pdfSources: PdfSource[];
+  // The image sequence, or the scanned pages merged alongside the PDFs when assetType is 'pdf'
   imageFiles: File[];
   unsupportedFiles: File[];
 }
@@ -39,10 +47,43 @@ const isImageFile = (file: File) => {
   return VALID_IMAGE_EXTENSIONS.some((ext) => lowerName.endsWith(ext));
 };
 
-export const sortImageFilesNaturally = (files: File[]) =>
-  [...files].sort((a, b) =>
-    a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' })
+export const isZipFile = (file: File) => {
+  const lowerName = file.name.toLowerCase();
+  return (
+    file.type === 'application/zip' ||
+    file.type === 'application/x-zip-compressed' ||
+    lowerName.endsWith('.zip')
   );
+};
+
+// Includes the "._" resource forks macOS adds to archives under __MACOSX/
+export const isSystemFilePath = (path: string) => {
+  const segments = path.split('/');
+  const name = segments[segments.length - 1].toLowerCase();
+  return (
+    segments.includes('__MACOSX') ||
+    name.startsWith('._') ||
+    SYSTEM_FILE_NAMES.includes(name)
+  );
+};
+
+const compareNames = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+// Files unpacked from a ZIP or a dropped folder are named without their folders; their paths are kept here
+const importPaths = new WeakMap<File, string>();
+
+export const withImportPath = (file: File, path: string) => {
+  importPaths.set(file, path);
+  return file;
+};
+
+const getImportPath = (file: File) =>
+  importPaths.get(file) ?? (file.webkitRelativePath || file.name);
+
+// Sorted by folder path first, so folders that reuse file names (A/001, B/001) do not interleave
+export const sortFilesNaturally = (files: File[]) =>
+  [...files].sort((a, b) => compareNames(getImportPath(a), getImportPath(b)));
 
 export const classifyImportFiles = (files: FileList | File[]): WorkspaceImportSelection => {
   const selection: WorkspaceImportSelection = {
@@ -54,7 +95,7 @@ export const classifyImportFiles = (files: FileList | File[]): WorkspaceImportSe
 
   for (let index = 0; index < files.length; index++) {
     const file = files[index];
-    if (!file) continue;
+    if (!file || isSystemFilePath(getImportPath(file))) continue;
 
     if (isProjectFile(file)) {
       selection.projectFiles.push(file);
@@ -86,7 +127,7 @@ export const createWorkspaceImportPlan = ({
   const supportedFileCount = projectFiles.length + pdfFiles.length + imageFiles.length;
   if (supportedFileCount === 0) {
     throw new WorkspaceImportValidationError(
-      '読み込めるファイルが見つかりませんでした。PDF、プロジェクトファイル、JPG/PNG を選んでください。'
+      '読み込めるファイルが見つかりませんでした。PDF、プロジェクトファイル、画像（JPG/PNG/WebP/TIFF/BMP）を選んでください。'
     );
   }
 
@@ -94,22 +135,16 @@ export const createWorkspaceImportPlan = ({
     throw new WorkspaceImportValidationError('プロジェクトファイルは1つだけ選んでください。');
   }
 
-  if (pdfFiles.length > 1) {
-    throw new WorkspaceImportValidationError('PDFは1つだけ選んでください。');
-  }
-
-  if (pdfFiles.length > 0 && imageFiles.length > 0) {
-    throw new WorkspaceImportValidationError(
-      '素材は PDF 1つ か 連番画像(JPG/PNG) のどちらか一方だけを選んでください。'
-    );
-  }
-
-  if (pdfFiles.length === 1) {
+  // Several PDFs (e.g. A-part and B-part) and scanned pages are merged in name order into one storyboard
+  if (pdfFiles.length > 0) {
+    const sortedPdfFiles = sortFilesNaturally(pdfFiles);
     return {
       projectFile: projectFiles[0] ?? null,
       assetType: 'pdf',
-      pdfFile: pdfFiles[0],
-      imageFiles: [],
+      pdfFile: sortedPdfFiles[0],
+      pdfFiles: sortedPdfFiles,
+      pdfSources: [],
+      imageFiles: sortFilesNaturally(imageFiles),
       unsupportedFiles,
     };
   }
@@ -119,7 +154,9 @@ export const createWorkspaceImportPlan = ({
       projectFile: projectFiles[0] ?? null,
       assetType: 'images',
       pdfFile: null,
-      imageFiles: sortImageFilesNaturally(imageFiles),
+      pdfFiles: [],
+      pdfSources: [],
+      imageFiles: sortFilesNaturally(imageFiles),
       unsupportedFiles,
     };
   }
@@ -128,11 +165,85 @@ export const createWorkspaceImportPlan = ({
     projectFile: projectFiles[0] ?? null,
     assetType: 'none',
     pdfFile: null,
+    pdfFiles: [],
+    pdfSources: [],
     imageFiles: [],
     unsupportedFiles,
   };
 };
 
+// The /Encrypt entry lives in a trailer or cross-reference stream: at the end, or at the start when linearized
+const ENCRYPT_ENTRY_PATTERN = /\/Encrypt\s*(?:\d+\s+\d+\s+R|<<)/;
+const ENCRYPTION_SCAN_LENGTH = 256 * 1024;
+
+const readLatin1 = async (blob: Blob) => new TextDecoder('latin1').decode(await blob.arrayBuffer());
+
+export const detectEncryptedPdf = async (file: File) => {
+  const head = file.slice(0, ENCRYPTION_SCAN_LENGTH);
+  const tail = file.slice(Math.max(0, file.size - ENCRYPTION_SCAN_LENGTH));
+  return (
+    ENCRYPT_ENTRY_PATTERN.test(await readLatin1(tail)) ||
+    (file.size > ENCRYPTION_SCAN_LENGTH && ENCRYPT_ENTRY_PATTERN.test(await readLatin1(head)))
+  );
+};
+
+export const needsPdfMerge = (plan: WorkspaceImportPlan) =>
+  plan.assetType === 'pdf' && plan.pdfFiles.length + plan.imageFiles.length > 1;
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// "ep01_p12.png", "ep01-p012.jpg" or "ep01 p12.tif" replace page 12 of ep01.pdf
+const REPLACEMENT_PAGE_PATTERN = /^(.+?)[_\- ]p(\d+)$/i;
+
+const findReplacedPage = (image: File, pdfFiles: File[]) => {
+  const match = REPLACEMENT_PAGE_PATTERN.exec(stripExtension(image.name));
+  if (!match) return null;
+
+  const pageNumber = Number(match[2]);
+  const pdfFile = pdfFiles.find((file) => stripExtension(file.name) === match[1]);
+  return pdfFile && pageNumber > 0 ? { pdfFile, pageNumber } : null;
+};
+
+/**
+ * Ordered by name without the extension, so "ep01.pdf" comes before "ep01_extra.jpg".
+ * A scan named after a page of one of the PDFs goes with that PDF and takes the page's place;
+ * when two scans name the same page, the first by name wins and the other is added as a page.
+ */
+export const listPdfMergeSources = (plan: WorkspaceImportPlan): PdfMergeSource[] => {
+  const replacementPages = new Map<File, Array<{ pageNumber: number; file: File }>>();
+  const addedImages: File[] = [];
+
+  for (const image of plan.imageFiles) {
+    const replaced = findReplacedPage(image, plan.pdfFiles);
+    const pages = replaced ? replacementPages.get(replaced.pdfFile) ?? [] : [];
+    if (!replaced || pages.some(({ pageNumber }) => pageNumber === replaced.pageNumber)) {
+      addedImages.push(image);
+      continue;
+    }
+    replacementPages.set(replaced.pdfFile, [...pages, { pageNumber: replaced.pageNumber, file: image }]);
+  }
+
+  return [...plan.pdfFiles, ...addedImages]
+    .sort(
+      (a, b) =>
+        compareNames(stripExtension(a.name), stripExtension(b.name)) || compareNames(a.name, b.name)
+    )
+    .map((file): PdfMergeSource => {
+      if (!plan.pdfFiles.includes(file)) {
+        return { kind: 'image', file };
+      }
+      const pages = replacementPages.get(file);
+      return pages ? { kind: 'pdf', file, replacementPages: pages } : { kind: 'pdf', file };
+    });
+};
+
+// A project embedded in an exported PDF is only offered for a single PDF chosen without a project file
+export const canRecoverEmbeddedProject = (plan: WorkspaceImportPlan) =>
+  plan.assetType === 'pdf' &&
+  plan.pdfFile !== null &&
+  !needsPdfMerge(plan) &&
+  plan.projectFile === null;
+
 export const createProjectImportContextFromPlan = async (
   plan: WorkspaceImportPlan
 ): Promise<ProjectImportContext | undefined> => {
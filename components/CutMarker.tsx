@@ -1,6 +1,7 @@
 import React from 'react';
 import { Cut, AppSettings } from '../types';
 import { X } from 'lucide-react';
+import { getLabelFontStack, getLabelFontWeight } from '../services/labelFont';
 
 const POINTER_DRAG_SLOP_PX = 6;
 
@@ -134,8 +135,8 @@ export const CutMarker: React.FC<CutMarkerProps> = ({
         <span
           style={{
             fontSize: `${settings.fontSize}px`,
-            fontFamily: 'Helvetica, Arial, sans-serif',
-            fontWeight: 'bold',
+            fontFamily: getLabelFontStack(settings.labelFont),
+            fontWeight: getLabelFontWeight(settings.labelFont),
             lineHeight: 1,
             display: 'block',
             whiteSpace: 'pre',
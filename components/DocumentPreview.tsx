@@ -1,22 +1,23 @@
 
-import React from 'react';
+import React, { useEffect, useMemo } from 'react';
 import { Document, Page } from 'react-pdf';
 import { TemplateOverlay } from './TemplateOverlay';
 import { CutMarker } from './CutMarker';
 import { DocumentPreviewHud } from './documentPreview/DocumentPreviewHud';
 import { DocumentPreviewNotice } from './documentPreview/DocumentPreviewNotice';
 import { DocumentPreviewSnapOverlay } from './documentPreview/DocumentPreviewSnapOverlay';
-import { DocumentPreviewWelcome } from './documentPreview/DocumentPreviewWelcome';
+import {
+  DocumentPreviewWelcome,
+  RecentProjectsNotice,
+  SessionRecoveryCard,
+  SessionRecoveryNotice,
+} from './documentPreview/DocumentPreviewWelcome';
 import { useDocumentPlacementInteraction } from '../hooks/useDocumentPlacementInteraction';
 import { useDocumentPreviewViewport } from '../hooks/useDocumentPreviewViewport';
+import { loadLabelFontFace } from '../services/labelFont';
+import { getPdfDocumentOptions } from '../services/pdfjsDocument';
 import { AppSettings, Cut, Template, DocType } from '../types';
 
-const pdfDocumentOptions = {
-  cMapUrl: `${import.meta.env.BASE_URL}cmaps/`,
-  cMapPacked: true,
-  standardFontDataUrl: `${import.meta.env.BASE_URL}standard_fonts/`,
-} as const;
-
 interface DocumentPreviewProps {
   layoutMode?: 'desktop' | 'mobile';
   docType: DocType | null;
@@ -56,6 +57,8 @@ interface DocumentPreviewProps {
     title: string;
     message: string;
   } | null;
+  sessionRecovery?: SessionRecoveryNotice | null;
+  recentProjects?: RecentProjectsNotice | null;
   
   // Events
   onContentClick: (x: number, y: number) => void;
@@ -94,6 +97,8 @@ export const DocumentPreview: React.FC<DocumentPreviewProps> = ({
   onTemplateInteractionEnd,
   settings,
   projectNotice,
+  sessionRecovery,
+  recentProjects,
   onContentClick,
   onPdfLoadSuccess,
   onPdfLoadError,
@@ -103,6 +108,15 @@ export const DocumentPreview: React.FC<DocumentPreviewProps> = ({
   onImageLoadError,
 }) => {
   const isMobileLayout = layoutMode === 'mobile';
+  // react-pdf reloads the document whenever the options object changes
+  const pdfOptions = useMemo(() => getPdfDocumentOptions(pdfFile), [pdfFile]);
+
+  useEffect(() => {
+    loadLabelFontFace(settings.labelFont).catch((error) => {
+      console.error(error);
+    });
+  }, [settings.labelFont]);
+
   const showPersistentMobileSnapGuide =
     isMobileLayout &&
     mode === 'edit' &&
@@ -170,9 +184,24 @@ export const DocumentPreview: React.FC<DocumentPreviewProps> = ({
       onClick={() => setSelectedCutId(null)}
     >
       {!docType ? (
-        <DocumentPreviewWelcome isDragging={isDragging} />
+        <DocumentPreviewWelcome
+          isDragging={isDragging}
+          sessionRecovery={sessionRecovery}
+          recentProjects={recentProjects}
+        />
       ) : (
         <>
+          {/* Loading material does not answer the offer; autosave stays off until it is answered */}
+          {sessionRecovery?.status === 'available' && (
+            <div
+              className="absolute bottom-4 left-1/2 z-30 -translate-x-1/2"
+              onMouseDown={(event) => event.stopPropagation()}
+              onClick={(event) => event.stopPropagation()}
+            >
+              <SessionRecoveryCard notice={sessionRecovery} />
+            </div>
+          )}
+
           {projectNotice && (
             <DocumentPreviewNotice
               title={projectNotice.title}
@@ -193,7 +222,7 @@ export const DocumentPreview: React.FC<DocumentPreviewProps> = ({
             {docType === 'pdf' && pdfFile && (
                 <Document
                 file={pdfFile}
-                options={pdfDocumentOptions}
+                options={pdfOptions}
                 onLoadSuccess={({ numPages }) => {
                   setNumPages(numPages);
                   onPdfLoadSuccess?.(numPages);
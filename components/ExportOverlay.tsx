@@ -1,19 +1,78 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { estimateRemainingTime } from '../application/exportProgress';
+import { ExportProgress } from '../types';
 
 interface ExportOverlayProps {
   isExporting: boolean;
+  progress: ExportProgress | null;
+  onCancel: () => void;
 }
 
-export const ExportOverlay: React.FC<ExportOverlayProps> = ({ isExporting }) => {
+const formatDuration = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.round(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+export const ExportOverlay: React.FC<ExportOverlayProps> = ({ isExporting, progress, onCancel }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!isExporting) return;
+
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [isExporting]);
+
   if (!isExporting) {
     return null;
   }
 
+  // The clock only ticks while exporting, so it can lag behind the start of a new export
+  const currentTime = progress ? Math.max(now, progress.startedAt) : now;
+  const hasPageCount = progress !== null && progress.total > 0;
+  const percent = hasPageCount ? Math.round((progress.current / progress.total) * 100) : 0;
+  const remaining = progress ? estimateRemainingTime(progress, currentTime) : null;
+
   return (
     <div className="absolute inset-0 bg-black/50 z-50 flex items-center justify-center text-white flex-col gap-2">
       <div className="animate-spin rounded-full h-10 w-10 border-4 border-white border-t-transparent" />
-      <div className="font-bold">書き出し処理中...</div>
-      <div className="text-sm opacity-80">大量の画像の場合、時間がかかることがあります</div>
+      <div className="font-bold">
+        {progress?.isCancelling ? 'キャンセルしています...' : '書き出し処理中...'}
+      </div>
+      {hasPageCount ? (
+        <div className="w-64 space-y-1">
+          <div
+            className="h-2 overflow-hidden rounded-full bg-white/30"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={progress.total}
+            aria-valuenow={progress.current}
+          >
+            <div className="h-full bg-white transition-[width]" style={{ width: `${percent}%` }} />
+          </div>
+          <div className="flex justify-between text-sm opacity-80">
+            <span>{progress.current} / {progress.total} ページ</span>
+            <span>
+              経過 {formatDuration(currentTime - progress.startedAt)}
+              {remaining !== null && ` ・ 残り約 ${formatDuration(remaining)}`}
+            </span>
+          </div>
+        </div>
+      ) : (
+        <div className="text-sm opacity-80">大量の画像の場合、時間がかかることがあります</div>
+      )}
+      {progress && (
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={progress.isCancelling}
+          className="mt-2 rounded-md border border-white/60 px-4 py-1.5 text-sm hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          キャンセル
+        </button>
+      )}
     </div>
   );
 };
@@ -1,10 +1,27 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { Upload, RotateCcw, RotateCw, ChevronDown, Save } from 'lucide-react';
-import { DocType } from '../types';
+import {
+  DocType,
+  ImageExportFormat,
+  ImageExportOptions,
+  PdfImageExportOptions,
+  PdfImageFormat,
+  PdfMarkMode,
+  PdfSourceExportMode,
+  PdfWriteMode,
+} from '../types';
+import { CURRENT_PROJECT_VERSION, OLDEST_PROJECT_VERSION } from '../domain/project';
 import { useElementSize } from '../hooks/useElementSize';
 
 const MOBILE_HEADER_COMPACT_WIDTH = 780;
 const MOBILE_HEADER_TIGHT_WIDTH = 620;
+const PDF_IMAGE_DPI_OPTIONS = [150, 300, 600];
+const IMAGE_EXPORT_QUALITY_OPTIONS = [0.6, 0.8, 0.9, 1];
+const IMAGE_EXPORT_MAX_LONG_EDGE_OPTIONS = [4000, 3000, 2000, 1200];
+const PROJECT_FILE_VERSION_OPTIONS = Array.from(
+  { length: CURRENT_PROJECT_VERSION - OLDEST_PROJECT_VERSION + 1 },
+  (_, index) => CURRENT_PROJECT_VERSION - index
+);
 
 interface HeaderProps {
   docType: DocType | null;
@@ -13,6 +30,25 @@ interface HeaderProps {
   onExportImages: () => void;
   includeProjectFileOnExport: boolean;
   onToggleIncludeProjectFileOnExport: (next: boolean) => void;
+  projectFileVersion: number;
+  onChangeProjectFileVersion: (next: number) => void;
+  canSaveProject: boolean;
+  projectFileName: string | null; // The file saves overwrite, null until saved through the picker
+  hasUnsavedProjectChanges: boolean;
+  onSaveProject: () => void;
+  onSaveProjectAs: () => void;
+  pdfMarkMode: PdfMarkMode;
+  onChangePdfMarkMode: (next: PdfMarkMode) => void;
+  pdfWriteMode: PdfWriteMode;
+  onChangePdfWriteMode: (next: PdfWriteMode) => void;
+  canAppendToPdf: boolean; // False once the loaded PDF was decrypted or stripped of earlier labels
+  pdfSourceCount: number; // Files merged into the workspace PDF, 0 for a single PDF
+  pdfSourceExportMode: PdfSourceExportMode;
+  onChangePdfSourceExportMode: (next: PdfSourceExportMode) => void;
+  pdfImageExportOptions: PdfImageExportOptions;
+  onChangePdfImageExportOptions: (next: PdfImageExportOptions) => void;
+  imageExportOptions: ImageExportOptions;
+  onChangeImageExportOptions: (next: ImageExportOptions) => void;
   isExporting: boolean;
   mode: 'edit' | 'template';
   setMode: (mode: 'edit' | 'template') => void;
@@ -34,6 +70,25 @@ export const Header: React.FC<HeaderProps> = ({
   onExportImages,
   includeProjectFileOnExport,
   onToggleIncludeProjectFileOnExport,
+  projectFileVersion,
+  onChangeProjectFileVersion,
+  canSaveProject,
+  projectFileName,
+  hasUnsavedProjectChanges,
+  onSaveProject,
+  onSaveProjectAs,
+  pdfMarkMode,
+  onChangePdfMarkMode,
+  pdfWriteMode,
+  onChangePdfWriteMode,
+  canAppendToPdf,
+  pdfSourceCount,
+  pdfSourceExportMode,
+  onChangePdfSourceExportMode,
+  pdfImageExportOptions,
+  onChangePdfImageExportOptions,
+  imageExportOptions,
+  onChangeImageExportOptions,
   isExporting,
   mode,
   setMode,
@@ -75,11 +130,26 @@ export const Header: React.FC<HeaderProps> = ({
     };
   }, [showExportMenu]);
 
+  const saveButtonTitle = docType
+    ? 'プロジェクトファイルを保存するか、PDFまたは連番画像を書き出します'
+    : canSaveProject
+      ? 'プロジェクトファイルを保存します。書き出すにはPDFまたは画像を読み込んでください'
+      : '先にPDFまたは画像を読み込んでください';
+
+  const unsavedIndicator = hasUnsavedProjectChanges && (
+    <span
+      role="status"
+      aria-label="未保存の変更があります"
+      title="未保存の変更があります"
+      className="absolute -right-1 -top-1 h-2.5 w-2.5 rounded-full border border-slate-800 bg-amber-400"
+    />
+  );
+
   const importInput = (
     <input
       ref={importInputRef}
       type="file"
-      accept=".pdf,.cutmark,.json,.jpg,.jpeg,.png,image/*,application/json"
+      accept=".pdf,.cutmark,.json,.jpg,.jpeg,.png,.webp,.tif,.tiff,.bmp,.zip,image/*,application/json,application/zip"
       multiple
       className="hidden"
       onChange={onImportFileChange}
@@ -92,6 +162,28 @@ export const Header: React.FC<HeaderProps> = ({
       style={exportMenuStyle}
       onClick={(e) => e.stopPropagation()}
     >
+      <div className="px-4 pt-2 pb-1 text-xs text-slate-500">
+        <span className="block truncate" title={projectFileName ?? undefined}>
+          {projectFileName ? `プロジェクト: ${projectFileName}` : 'プロジェクト: 未保存'}
+          {hasUnsavedProjectChanges && ' （変更あり）'}
+        </span>
+      </div>
+      <button
+        onClick={() => { setShowExportMenu(false); onSaveProject(); }}
+        disabled={!canSaveProject}
+        className="block w-full text-left px-4 py-2 text-sm hover:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed"
+        title={projectFileName ? `${projectFileName} に上書き保存 (Ctrl+S)` : '保存先を選んで保存 (Ctrl+S)'}
+      >
+        プロジェクトを上書き保存
+      </button>
+      <button
+        onClick={() => { setShowExportMenu(false); onSaveProjectAs(); }}
+        disabled={!canSaveProject}
+        className="block w-full text-left px-4 py-2 text-sm hover:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed"
+      >
+        プロジェクトに名前を付けて保存
+      </button>
+      <div className="mx-2 border-t border-gray-100" />
       <label className="flex cursor-pointer items-start gap-3 px-4 py-3 text-sm hover:bg-gray-50">
         <input
           type="checkbox"
@@ -108,6 +200,97 @@ export const Header: React.FC<HeaderProps> = ({
           </span>
         </span>
       </label>
+      {includeProjectFileOnExport && (
+        <label className="flex items-center justify-between gap-3 px-4 pb-3 text-xs text-slate-600">
+          <span>プロジェクトファイルの形式</span>
+          <select
+            value={projectFileVersion}
+            onChange={(event) => onChangeProjectFileVersion(Number(event.target.value))}
+            className="rounded border border-gray-300 bg-white px-2 py-1 text-xs text-slate-700 focus:border-sky-500 focus:ring-sky-500"
+          >
+            {PROJECT_FILE_VERSION_OPTIONS.map((version) => (
+              <option key={version} value={version}>
+                {version === CURRENT_PROJECT_VERSION ? `最新 (v${version})` : `旧バージョン向け (v${version})`}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      <div className="mx-2 border-t border-gray-100" />
+      <div className="px-4 py-3 text-sm">
+        <span className="block font-medium text-slate-800">PDFのカット番号</span>
+        <div className="mt-2 space-y-1.5">
+          <label className="flex cursor-pointer items-start gap-3">
+            <input
+              type="radio"
+              name="pdf-mark-mode"
+              checked={pdfMarkMode === 'layer'}
+              onChange={() => onChangePdfMarkMode('layer')}
+              className="mt-0.5 h-4 w-4 border-gray-300 text-sky-600 focus:ring-sky-500"
+            />
+            <span className="space-y-1">
+              <span className="block text-slate-700">レイヤーに配置</span>
+              <span className="block text-xs leading-5 text-slate-500">
+                Acrobat などで「CutMark」レイヤーを表示・印刷から外せる
+              </span>
+            </span>
+          </label>
+          <label className="flex cursor-pointer items-start gap-3">
+            <input
+              type="radio"
+              name="pdf-mark-mode"
+              checked={pdfMarkMode === 'flatten'}
+              onChange={() => onChangePdfMarkMode('flatten')}
+              className="mt-0.5 h-4 w-4 border-gray-300 text-sky-600 focus:ring-sky-500"
+            />
+            <span className="space-y-1">
+              <span className="block text-slate-700">ページに直接描画</span>
+              <span className="block text-xs leading-5 text-slate-500">
+                レイヤー非対応のビューアー向け
+              </span>
+            </span>
+          </label>
+        </div>
+        {docType === 'pdf' && (
+          <label className="mt-3 flex cursor-pointer items-start gap-3">
+            <input
+              type="checkbox"
+              checked={canAppendToPdf && pdfWriteMode === 'incremental'}
+              disabled={!canAppendToPdf}
+              onChange={(event) =>
+                onChangePdfWriteMode(event.target.checked ? 'incremental' : 'rewrite')
+              }
+              className="mt-0.5 h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500 disabled:opacity-40"
+            />
+            <span className="space-y-1">
+              <span className="block text-slate-700">元のPDFに追記して保存</span>
+              <span className="block text-xs leading-5 text-slate-500">
+                {canAppendToPdf
+                  ? '電子署名や元のデータをそのまま残す（書き出すたびにサイズが増えます）'
+                  : '読み込み時に復号や既存カット番号の除去で書き直したため、全体を書き直して保存します'}
+              </span>
+            </span>
+          </label>
+        )}
+        {docType === 'pdf' && pdfSourceCount > 1 && (
+          <label className="mt-3 flex cursor-pointer items-start gap-3">
+            <input
+              type="checkbox"
+              checked={pdfSourceExportMode === 'per-source'}
+              onChange={(event) =>
+                onChangePdfSourceExportMode(event.target.checked ? 'per-source' : 'combined')
+              }
+              className="mt-0.5 h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+            />
+            <span className="space-y-1">
+              <span className="block text-slate-700">元のファイルごとに分けて保存</span>
+              <span className="block text-xs leading-5 text-slate-500">
+                読み込んだ{pdfSourceCount}個のファイルをそれぞれPDFで書き出す（カット番号は通しのまま）
+              </span>
+            </span>
+          </label>
+        )}
+      </div>
       <div className="mx-2 border-t border-gray-100" />
       <button
         onClick={() => { setShowExportMenu(false); onExportPdf(); }}
@@ -116,22 +299,143 @@ export const Header: React.FC<HeaderProps> = ({
       >
         PDFとして書き出し
       </button>
-      {docType === 'images' ? (
-        <button
-          onClick={() => { setShowExportMenu(false); onExportImages(); }}
-          className="block w-full text-left px-4 py-2 text-sm hover:bg-gray-100"
-        >
-          連番画像(ZIP)として書き出し
-        </button>
-      ) : (
-        <button
-          disabled
-          className="block w-full text-left px-4 py-2 text-sm text-gray-400 cursor-not-allowed"
-          title="連番画像の書き出しは画像読み込み時のみ利用できます"
-        >
-          連番画像(ZIP)として書き出し
-        </button>
+      {docType === 'pdf' && (
+        <div className="space-y-2 px-4 py-2 text-xs text-slate-600">
+          <div className="flex items-center gap-2">
+            <span className="w-8 shrink-0">画像化</span>
+            <select
+              aria-label="画像化の解像度"
+              value={pdfImageExportOptions.dpi}
+              onChange={(event) =>
+                onChangePdfImageExportOptions({
+                  ...pdfImageExportOptions,
+                  dpi: Number(event.target.value),
+                })
+              }
+              className="min-w-0 flex-1 rounded border border-gray-300 px-1.5 py-1"
+            >
+              {PDF_IMAGE_DPI_OPTIONS.map((dpi) => (
+                <option key={dpi} value={dpi}>{dpi} dpi</option>
+              ))}
+            </select>
+            <select
+              aria-label="画像化の形式"
+              value={pdfImageExportOptions.format}
+              onChange={(event) =>
+                onChangePdfImageExportOptions({
+                  ...pdfImageExportOptions,
+                  format: event.target.value as PdfImageFormat,
+                })
+              }
+              className="min-w-0 flex-1 rounded border border-gray-300 px-1.5 py-1"
+            >
+              <option value="png">PNG</option>
+              <option value="jpeg">JPEG</option>
+              <option value="webp">WebP</option>
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="w-8 shrink-0">長辺</span>
+            <select
+              aria-label="画像化の最大長辺"
+              value={pdfImageExportOptions.maxLongEdge ?? ''}
+              onChange={(event) =>
+                onChangePdfImageExportOptions({
+                  ...pdfImageExportOptions,
+                  maxLongEdge: event.target.value ? Number(event.target.value) : null,
+                })
+              }
+              className="min-w-0 flex-1 rounded border border-gray-300 px-1.5 py-1"
+            >
+              <option value="">原寸</option>
+              {IMAGE_EXPORT_MAX_LONG_EDGE_OPTIONS.map((maxLongEdge) => (
+                <option key={maxLongEdge} value={maxLongEdge}>{maxLongEdge} px まで縮小</option>
+              ))}
+            </select>
+            <select
+              aria-label="画像化の品質"
+              value={pdfImageExportOptions.quality}
+              disabled={pdfImageExportOptions.format === 'png'}
+              onChange={(event) =>
+                onChangePdfImageExportOptions({
+                  ...pdfImageExportOptions,
+                  quality: Number(event.target.value),
+                })
+              }
+              className="min-w-0 flex-1 rounded border border-gray-300 px-1.5 py-1 disabled:text-gray-400"
+            >
+              {IMAGE_EXPORT_QUALITY_OPTIONS.map((quality) => (
+                <option key={quality} value={quality}>品質 {Math.round(quality * 100)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+      {docType === 'images' && (
+        <div className="space-y-2 px-4 py-2 text-xs text-slate-600">
+          <div className="flex items-center gap-2">
+            <span className="w-8 shrink-0">形式</span>
+            <select
+              aria-label="画像の書き出し形式"
+              value={imageExportOptions.format}
+              onChange={(event) =>
+                onChangeImageExportOptions({
+                  ...imageExportOptions,
+                  format: event.target.value as ImageExportFormat,
+                })
+              }
+              className="min-w-0 flex-1 rounded border border-gray-300 px-1.5 py-1"
+            >
+              <option value="keep">元の形式</option>
+              <option value="png">PNG</option>
+              <option value="jpeg">JPEG</option>
+              <option value="webp">WebP</option>
+            </select>
+            <select
+              aria-label="画像の書き出し品質"
+              value={imageExportOptions.quality}
+              disabled={imageExportOptions.format === 'png'}
+              onChange={(event) =>
+                onChangeImageExportOptions({
+                  ...imageExportOptions,
+                  quality: Number(event.target.value),
+                })
+              }
+              className="min-w-0 flex-1 rounded border border-gray-300 px-1.5 py-1 disabled:text-gray-400"
+            >
+              {IMAGE_EXPORT_QUALITY_OPTIONS.map((quality) => (
+                <option key={quality} value={quality}>品質 {Math.round(quality * 100)}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="w-8 shrink-0">長辺</span>
+            <select
+              aria-label="画像の最大長辺"
+              value={imageExportOptions.maxLongEdge ?? ''}
+              onChange={(event) =>
+                onChangeImageExportOptions({
+                  ...imageExportOptions,
+                  maxLongEdge: event.target.value ? Number(event.target.value) : null,
+                })
+              }
+              className="min-w-0 flex-1 rounded border border-gray-300 px-1.5 py-1"
+            >
+              <option value="">原寸</option>
+              {IMAGE_EXPORT_MAX_LONG_EDGE_OPTIONS.map((maxLongEdge) => (
+                <option key={maxLongEdge} value={maxLongEdge}>{maxLongEdge} px まで縮小</option>
+              ))}
+            </select>
+          </div>
+        </div>
       )}
+      <button
+        onClick={() => { setShowExportMenu(false); onExportImages(); }}
+        disabled={!docType}
+        className="block w-full text-left px-4 py-2 text-sm hover:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed"
+      >
+        連番画像(ZIP)として書き出し
+      </button>
     </div>
   );
 
@@ -209,20 +513,17 @@ export const Header: React.FC<HeaderProps> = ({
                   e.stopPropagation();
                   setShowExportMenu((current) => !current);
                 }}
-                disabled={!docType || isExporting}
-                className={`inline-flex items-center rounded-xl bg-green-600 font-medium transition-colors shadow-sm hover:bg-green-500 disabled:bg-slate-700 disabled:text-slate-500 ${
+                disabled={(!docType && !canSaveProject) || isExporting}
+                className={`relative inline-flex items-center rounded-xl bg-green-600 font-medium transition-colors shadow-sm hover:bg-green-500 disabled:bg-slate-700 disabled:text-slate-500 ${
                   isTight ? 'gap-1 px-2.5 text-xs' : 'gap-1.5 px-3 text-sm'
                 }`}
                 style={{ minHeight: 'var(--header-action-h)' }}
-                title={
-                  docType
-                    ? 'PDFまたは連番画像を書き出します。必要ならプロジェクトファイルも一緒に保存できます'
-                    : '先にPDFまたは画像を読み込んでください'
-                }
+                title={saveButtonTitle}
               >
                 <Save size={17} />
                 <span>保存</span>
                 {!isCompact && <ChevronDown size={13} />}
+                {unsavedIndicator}
               </button>
 
               {showExportMenu && exportMenu}
@@ -319,15 +620,12 @@ export const Header: React.FC<HeaderProps> = ({
               e.stopPropagation();
               setShowExportMenu((current) => !current);
             }}
-            disabled={!docType || isExporting}
-            className="flex items-center gap-2 px-4 py-1.5 bg-green-600 hover:bg-green-500 disabled:bg-slate-700 disabled:text-slate-500 rounded font-medium text-sm transition-colors shadow-sm"
-            title={
-              docType
-                ? 'PDFまたは連番画像を書き出します。必要ならプロジェクトファイルも一緒に保存できます'
-                : '先にPDFまたは画像を読み込んでください'
-            }
+            disabled={(!docType && !canSaveProject) || isExporting}
+            className="relative flex items-center gap-2 px-4 py-1.5 bg-green-600 hover:bg-green-500 disabled:bg-slate-700 disabled:text-slate-500 rounded font-medium text-sm transition-colors shadow-sm"
+            title={saveButtonTitle}
           >
             <Save size={16} /> 保存 <ChevronDown size={14} />
+            {unsavedIndicator}
           </button>
 
           {showExportMenu && exportMenu}
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Lock } from 'lucide-react';
+
+export interface PdfPasswordRequest {
+  fileName: string;
+  isRetry: boolean; // Asked again after a wrong password
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+interface PdfPasswordDialogProps {
+  request: PdfPasswordRequest | null;
+}
+
+export const PdfPasswordDialog: React.FC<PdfPasswordDialogProps> = ({ request }) => {
+  if (!request) {
+    return null;
+  }
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const password = new FormData(event.currentTarget).get('password');
+    request.onSubmit(typeof password === 'string' ? password : '');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 p-4">
+      <form
+        role="dialog"
+        aria-label="PDFのパスワード"
+        onSubmit={handleSubmit}
+        onKeyDown={(event) => {
+          if (event.key === 'Escape') request.onCancel();
+        }}
+        className="w-full max-w-sm bg-white rounded-lg shadow-2xl overflow-hidden"
+      >
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200 font-bold text-sm text-gray-800">
+          <Lock size={16} className="text-gray-500" />
+          PDFのパスワード
+        </div>
+        <div className="p-4 space-y-3">
+          <p className="text-xs text-gray-600">
+            {request.isRetry
+              ? 'パスワードが違います。もう一度入力してください。'
+              : `「${request.fileName}」はパスワードで保護されています。パスワードを入力してください。`}
+          </p>
+          <input
+            key={`${request.fileName}-${request.isRetry}`}
+            name="password"
+            type="password"
+            aria-label="パスワード"
+            autoComplete="off"
+            autoFocus
+            className="w-full rounded border border-gray-300 px-2 py-1.5 text-sm"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={request.onCancel}
+              className="px-3 py-1.5 rounded border border-gray-300 text-xs text-gray-600 hover:bg-gray-50"
+            >
+              キャンセル
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-1.5 rounded bg-blue-600 text-xs font-bold text-white hover:bg-blue-700"
+            >
+              開く
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { ChevronDown, GripVertical, Plus, RotateCcw, Trash2 } from 'lucide-react';
-import { ProjectConteOrganizerSummary } from '../application/projectOrganizer';
+import { ConteOrganizerSlot, ProjectConteOrganizerSummary } from '../application/projectOrganizer';
 import { AssetHint } from '../domain/project';
 
 export interface ProjectOrganizerPanelProps {
@@ -14,6 +14,7 @@ export interface ProjectOrganizerPanelProps {
   onSelectLogicalPage: (logicalPageId: string) => void;
   onSelectContePage: (assetIndex: number, logicalPageId: string | null) => void;
   onInsertBlankPageAtAsset: (assetIndex: number) => void;
+  onFillUnassignedContesWithBlanks: () => void;
   onRemoveLogicalPageFromConte: (logicalPageId: string) => void;
   onUnassignLogicalPage: (logicalPageId: string) => void;
   onMoveLogicalPageToAsset: (logicalPageId: string, assetIndex: number) => void;
@@ -61,6 +62,19 @@ const getStatusClassName = (status: ProjectConteOrganizerSummary['slots'][number
   return 'bg-slate-100 text-slate-600 border-slate-200';
 };
 
+// Conte pages without a logical page come first: they need attention before any uncertain binding
+const sortSlotsByConfidence = (slots: ConteOrganizerSlot[]) =>
+  [...slots].sort(
+    (left, right) =>
+      (left.confidence ?? -1) - (right.confidence ?? -1) || left.assetIndex - right.assetIndex
+  );
+
+const getConfidenceClassName = (confidence: number) => {
+  if (confidence >= 0.8) return 'text-emerald-700';
+  if (confidence >= 0.5) return 'text-amber-700';
+  return 'text-rose-700';
+};
+
 const getPageChipClassName = (
   status: ProjectConteOrganizerSummary['slots'][number]['status'],
   isSelected: boolean
@@ -88,6 +102,7 @@ export const ProjectOrganizerPanel: React.FC<ProjectOrganizerPanelProps> = ({
   onSelectLogicalPage,
   onSelectContePage,
   onInsertBlankPageAtAsset,
+  onFillUnassignedContesWithBlanks,
   onRemoveLogicalPageFromConte,
   onUnassignLogicalPage,
   onMoveLogicalPageToAsset,
@@ -97,6 +112,7 @@ export const ProjectOrganizerPanel: React.FC<ProjectOrganizerPanelProps> = ({
   const [draggedLogicalPageId, setDraggedLogicalPageId] = useState<string | null>(null);
   const [dragOverAssetIndex, setDragOverAssetIndex] = useState<number | null>(null);
   const [deleteMenuLogicalPageId, setDeleteMenuLogicalPageId] = useState<string | null>(null);
+  const [sortByConfidence, setSortByConfidence] = useState(false);
   const pageRefs = useRef<Record<string, HTMLDivElement | null>>({});
 
   useEffect(() => {
@@ -134,6 +150,10 @@ export const ProjectOrganizerPanel: React.FC<ProjectOrganizerPanelProps> = ({
     organizer.unplacedLogicalPageCount,
   ]);
   const unplacedLogicalPageCount = organizer.unplacedLogicalPageCount;
+  const visibleSlots = useMemo(
+    () => (sortByConfidence ? sortSlotsByConfidence(organizer.slots) : organizer.slots),
+    [organizer.slots, sortByConfidence]
+  );
 
   return (
     <section className="flex h-full min-h-0 flex-col overflow-hidden rounded-xl border border-sky-200 bg-sky-50/70 p-3">
@@ -184,11 +204,40 @@ export const ProjectOrganizerPanel: React.FC<ProjectOrganizerPanelProps> = ({
             コンテ順でカット番号ページを整理します。上段をドラッグすると差し込み移動、空欄挿入で後ろをずらせます。
           </div>
 
+          {organizer.unassignedConteCount > 0 && (
+            <div className="flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50/80 px-3 py-2 text-xs leading-5 text-amber-800">
+              <div className="min-w-0 flex-1">
+                割り付けのないコンテページが {organizer.unassignedConteCount} ページあります。修正版で差し込まれたページなら、空欄のカット番号ページを割り付けられます。
+              </div>
+              <button
+                type="button"
+                onClick={onFillUnassignedContesWithBlanks}
+                className="shrink-0 rounded-lg border border-amber-300 bg-white px-2 py-1 text-[10px] font-medium text-amber-800 transition-colors hover:bg-amber-100"
+              >
+                空欄で埋める
+              </button>
+            </div>
+          )}
+
           {organizer.contePageCount > 0 && (
             <div className="space-y-3">
-          <div className="text-xs font-semibold text-slate-700">コンテ順のページ整理</div>
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-xs font-semibold text-slate-700">コンテ順のページ整理</div>
+            <button
+              type="button"
+              onClick={() => setSortByConfidence((current) => !current)}
+              aria-pressed={sortByConfidence}
+              className={`shrink-0 rounded-full border px-2 py-0.5 text-[10px] font-medium transition-colors ${
+                sortByConfidence
+                  ? 'border-sky-300 bg-sky-100 text-sky-800'
+                  : 'border-sky-100 bg-white text-slate-600 hover:bg-sky-50'
+              }`}
+            >
+              信頼度の低い順
+            </button>
+          </div>
           <div className="space-y-2.5">
-            {organizer.slots.map((slot) => {
+            {visibleSlots.map((slot) => {
               const isActiveContePage = currentContePage === slot.contePageNumber;
 
               return (
@@ -365,6 +414,14 @@ export const ProjectOrganizerPanel: React.FC<ProjectOrganizerPanelProps> = ({
                       </div>
                     )}
                   </button>
+                  {slot.confidence != null && (slot.confidence < 1 || slot.reasons.length > 0) && (
+                    <div className="mt-1 break-all px-1 text-[10px] leading-4 text-slate-500">
+                      <span className={`font-medium ${getConfidenceClassName(slot.confidence)}`}>
+                        信頼度 {Math.round(slot.confidence * 100)}%
+                      </span>
+                      {slot.reasons.length > 0 && ` ${slot.reasons.join('・')}`}
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -30,6 +30,8 @@ interface SidebarProps {
   onLiveSettingsEnd?: () => void;
   setNumberingState: (next: NumberingState) => void;
   onRenumberFromSelected: (cutId: string) => void;
+  selectedCutStartsScene?: boolean;
+  onToggleSceneStartFromSelected?: (cutId: string) => void;
   mobileAutoUiScale?: number;
   mobileUserUiScale?: number;
   mobileEffectiveUiScale?: number;
@@ -56,6 +58,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onLiveSettingsEnd,
   setNumberingState,
   onRenumberFromSelected,
+  selectedCutStartsScene,
+  onToggleSceneStartFromSelected,
   mobileAutoUiScale,
   mobileUserUiScale,
   mobileEffectiveUiScale,
@@ -121,6 +125,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
               setNumberingState={setNumberingState}
               selectedCutId={selectedCutId}
               onRenumberFromSelected={onRenumberFromSelected}
+              selectedCutStartsScene={selectedCutStartsScene}
+              onToggleSceneStartFromSelected={onToggleSceneStartFromSelected}
             />
 
             <SidebarStyleSettings
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Settings } from 'lucide-react';
-import { AppSettings, NumberingState } from '../types';
+import { formatCutNumberPart } from '../domain/numbering';
+import { AppSettings, CutLabelFormat, NumberingState } from '../types';
 
 interface SidebarNumberingSettingsProps {
   settings: AppSettings;
@@ -8,6 +9,8 @@ interface SidebarNumberingSettingsProps {
   setNumberingState: (next: NumberingState) => void;
   selectedCutId: string | null;
   onRenumberFromSelected: (cutId: string) => void;
+  selectedCutStartsScene?: boolean;
+  onToggleSceneStartFromSelected?: (cutId: string) => void;
 }
 
 export const SidebarNumberingSettings: React.FC<SidebarNumberingSettingsProps> = ({
@@ -16,8 +19,15 @@ export const SidebarNumberingSettings: React.FC<SidebarNumberingSettingsProps> =
   setNumberingState,
   selectedCutId,
   onRenumberFromSelected,
+  selectedCutStartsScene = false,
+  onToggleSceneStartFromSelected,
 }) => {
   const canRenumber = !!selectedCutId;
+  const { labelFormat } = settings;
+
+  const updateLabelFormat = (patch: Partial<CutLabelFormat>) => {
+    setSettings({ ...settings, labelFormat: { ...labelFormat, ...patch } });
+  };
 
   return (
     <div>
@@ -36,6 +46,7 @@ export const SidebarNumberingSettings: React.FC<SidebarNumberingSettingsProps> =
                 setNumberingState({
                   nextNumber: parseInt(e.target.value) || 1,
                   branchChar: settings.branchChar,
+                  sceneNumber: settings.sceneNumber,
                 })
               }
               className="w-16 p-1 text-right border rounded text-lg font-bold"
@@ -70,6 +81,78 @@ export const SidebarNumberingSettings: React.FC<SidebarNumberingSettingsProps> =
           </div>
         </div>
 
+        <div className="space-y-1.5">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-600">ラベル書式</span>
+            <span className="text-xs font-bold text-gray-800" title="配置する番号の表示例">
+              {formatCutNumberPart(
+                settings.nextNumber,
+                settings.minDigits,
+                labelFormat,
+                settings.sceneNumber
+              )}
+            </span>
+          </div>
+          <div className="grid grid-cols-2 gap-1.5">
+            <label className="flex flex-col gap-0.5 text-[11px] text-gray-500">
+              シーン記号
+              <input
+                type="text"
+                value={labelFormat.scenePrefix}
+                placeholder="S"
+                onChange={(e) => updateLabelFormat({ scenePrefix: e.target.value })}
+                className="w-full p-1 border rounded text-xs"
+              />
+            </label>
+            <label className="flex flex-col gap-0.5 text-[11px] text-gray-500">
+              シーン番号
+              <input
+                type="number"
+                min={0}
+                value={settings.sceneNumber ?? ''}
+                placeholder="なし"
+                onChange={(e) =>
+                  setNumberingState({
+                    nextNumber: settings.nextNumber,
+                    branchChar: settings.branchChar,
+                    sceneNumber: e.target.value === '' ? null : parseInt(e.target.value) || 0,
+                  })
+                }
+                className="w-full p-1 border rounded text-xs"
+              />
+            </label>
+            <label className="flex flex-col gap-0.5 text-[11px] text-gray-500">
+              区切り
+              <input
+                type="text"
+                value={labelFormat.separator}
+                placeholder="-"
+                onChange={(e) => updateLabelFormat({ separator: e.target.value })}
+                className="w-full p-1 border rounded text-xs"
+              />
+            </label>
+            <label className="flex flex-col gap-0.5 text-[11px] text-gray-500">
+              カット記号
+              <input
+                type="text"
+                value={labelFormat.prefix}
+                placeholder="C"
+                onChange={(e) => updateLabelFormat({ prefix: e.target.value })}
+                className="w-full p-1 border rounded text-xs"
+              />
+            </label>
+            <label className="col-span-2 flex flex-col gap-0.5 text-[11px] text-gray-500">
+              末尾
+              <input
+                type="text"
+                value={labelFormat.suffix}
+                onChange={(e) => updateLabelFormat({ suffix: e.target.value })}
+                className="w-full p-1 border rounded text-xs"
+              />
+            </label>
+          </div>
+        </div>
+
         <div className="flex items-center justify-between">
           <label className="text-sm text-gray-600">A-B分け</label>
           <button
@@ -79,12 +162,14 @@ export const SidebarNumberingSettings: React.FC<SidebarNumberingSettingsProps> =
                 setNumberingState({
                   nextNumber: settings.nextNumber + 1,
                   branchChar: null,
+                  sceneNumber: settings.sceneNumber,
                 });
               } else {
                 // Turn on
                 setNumberingState({
                   nextNumber: settings.nextNumber,
                   branchChar: 'A',
+                  sceneNumber: settings.sceneNumber,
                 });
               }
             }}
@@ -168,6 +253,31 @@ export const SidebarNumberingSettings: React.FC<SidebarNumberingSettingsProps> =
           >
             カット番号を振り直し
           </button>
+          {onToggleSceneStartFromSelected && (
+            <button
+              type="button"
+              disabled={!canRenumber}
+              aria-pressed={selectedCutStartsScene}
+              onClick={() => {
+                if (!selectedCutId) return;
+                onToggleSceneStartFromSelected(selectedCutId);
+              }}
+              className={`mt-1.5 w-full px-3 py-2 rounded text-xs font-bold transition-colors ${
+                !canRenumber
+                  ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                  : selectedCutStartsScene
+                    ? 'bg-indigo-500 text-white hover:bg-indigo-400'
+                    : 'bg-white border border-slate-300 text-slate-700 hover:bg-slate-50'
+              }`}
+              title={
+                canRenumber
+                  ? '選択中のカットを新しいシーンの先頭にして、シーン番号を進めカット番号を 1 から振り直します。再度押すと解除して前のカットの続きに戻します'
+                  : '既存のカット番号を選択してください'
+              }
+            >
+              {selectedCutStartsScene ? 'シーン開始を解除' : 'ここから新しいシーン'}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -1,4 +1,6 @@
-import React from 'react';
+import React, { useRef } from 'react';
+import { Type } from 'lucide-react';
+import { readLabelFontFile } from '../services/labelFont';
 import { AppSettings } from '../types';
 
 interface SidebarStyleSettingsProps {
@@ -17,6 +19,21 @@ export const SidebarStyleSettings: React.FC<SidebarStyleSettingsProps> = ({
   onLiveChangeEnd,
 }) => {
   const applyLiveSettings = setLiveSettings ?? setSettings;
+  const fontInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFontFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const labelFont = await readLabelFontFile(file);
+      setSettings({ ...settings, labelFont });
+    } catch (error) {
+      console.error(error);
+      alert('フォントを読み込めませんでした。TTF / OTF ファイルを選択してください');
+    }
+  };
 
   return (
     <div>
@@ -24,6 +41,46 @@ export const SidebarStyleSettings: React.FC<SidebarStyleSettingsProps> = ({
         表示スタイル
       </h3>
       <div className="space-y-3">
+        <div>
+          <div className="flex items-center justify-between gap-2 text-sm mb-1 text-gray-600">
+            <span>フォント</span>
+            <span
+              className="min-w-0 truncate text-xs text-gray-500"
+              title={settings.labelFont?.name}
+            >
+              {settings.labelFont ? settings.labelFont.name : '標準 (Helvetica Bold)'}
+            </span>
+          </div>
+          <input
+            ref={fontInputRef}
+            type="file"
+            accept=".ttf,.otf,font/ttf,font/otf"
+            className="hidden"
+            onChange={(event) => {
+              void handleFontFileChange(event);
+            }}
+          />
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => fontInputRef.current?.click()}
+              className="inline-flex items-center justify-center gap-1.5 rounded border border-gray-200 bg-white px-3 py-1.5 text-xs text-gray-700 transition-colors hover:bg-gray-50 hover:text-blue-700"
+              title="かなや漢字を含むカット番号を書き出すときは、TTF / OTF フォントを指定します。PDF には使用文字だけを埋め込みます。"
+            >
+              <Type size={14} /> フォントを選択
+            </button>
+            {settings.labelFont && (
+              <button
+                type="button"
+                onClick={() => setSettings({ ...settings, labelFont: null })}
+                className="rounded px-2 py-1.5 text-xs text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+              >
+                標準に戻す
+              </button>
+            )}
+          </div>
+        </div>
+
         <div>
           <div className="flex justify-between text-sm mb-1 text-gray-600">
             <span>文字サイズ</span>
@@ -1,18 +1,159 @@
 import React from 'react';
-import { Upload } from 'lucide-react';
+import { FolderOpen, History, Upload, X } from 'lucide-react';
+import { AutosavedMaterialFile, AutosavedSessionSummary } from '../../application/sessionAutosave';
+
+export type SessionRecoveryNotice =
+  | {
+      status: 'available';
+      summary: AutosavedSessionSummary;
+      onRestore: () => void;
+      onDiscard: () => void;
+    }
+  | {
+      status: 'awaiting-material';
+      materialFiles: AutosavedMaterialFile[];
+    };
+
+export interface RecentProjectsNotice {
+  projects: Array<{
+    id: string;
+    name: string;
+    savedAt: string;
+    materialFiles: AutosavedMaterialFile[];
+  }>;
+  onOpen: (id: string) => void;
+  onRemove: (id: string) => void;
+}
 
 interface DocumentPreviewWelcomeProps {
   isDragging: boolean;
+  sessionRecovery?: SessionRecoveryNotice | null;
+  recentProjects?: RecentProjectsNotice | null;
 }
 
+const formatFileSize = (size: number) =>
+  size >= 1024 * 1024
+    ? `${(size / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(size / 1024))} KB`;
+
+const MaterialFileList: React.FC<{ files: AutosavedMaterialFile[] }> = ({ files }) => (
+  <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+    {files.map((file, index) => (
+      <li key={`${file.name}-${index}`} className="truncate">
+        {file.name}（{formatFileSize(file.size)}）
+      </li>
+    ))}
+  </ul>
+);
+
+export const SessionRecoveryCard: React.FC<{ notice: SessionRecoveryNotice }> = ({ notice }) => {
+  if (notice.status === 'awaiting-material') {
+    return (
+      <div className="mx-auto mb-6 max-w-md rounded-lg border border-blue-200 bg-white p-4 text-left shadow-sm">
+        <p className="text-sm font-bold text-gray-700">前回の作業を復元しました</p>
+        {notice.materialFiles.length > 0 ? (
+          <>
+            <p className="mt-1 text-xs text-gray-500">
+              同じ素材を読み込むと、割付もそのまま戻ります。
+            </p>
+            <MaterialFileList files={notice.materialFiles} />
+          </>
+        ) : (
+          <p className="mt-1 text-xs text-gray-500">素材を読み込むと、ページを割り付けます。</p>
+        )}
+      </div>
+    );
+  }
+
+  const { summary } = notice;
+  return (
+    <div
+      className="mx-auto mb-6 max-w-md rounded-lg border border-amber-200 bg-white p-4 text-left shadow-sm"
+      role="region"
+      aria-label="前回の作業"
+    >
+      <p className="flex items-center gap-2 text-sm font-bold text-gray-700">
+        <History size={16} className="text-amber-500" />
+        前回の作業が残っています
+      </p>
+      <p className="mt-1 text-xs text-gray-500">
+        {summary.projectName} / {summary.pageCount} ページ・カット {summary.cutCount} 件
+        （{new Date(summary.savedAt).toLocaleString('ja-JP')} 自動保存）
+      </p>
+      {summary.materialFiles.length > 0 && <MaterialFileList files={summary.materialFiles} />}
+      <div className="mt-3 flex gap-2">
+        <button
+          type="button"
+          onClick={notice.onRestore}
+          className="rounded bg-blue-600 px-3 py-1.5 text-xs font-bold text-white hover:bg-blue-700"
+        >
+          復元する
+        </button>
+        <button
+          type="button"
+          onClick={notice.onDiscard}
+          className="rounded border border-gray-300 px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50"
+        >
+          破棄
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const RecentProjectList: React.FC<{ notice: RecentProjectsNotice }> = ({ notice }) => (
+  <div
+    className="mx-auto mb-6 max-w-md rounded-lg border border-gray-200 bg-white p-4 text-left shadow-sm"
+    role="region"
+    aria-label="最近のプロジェクト"
+  >
+    <p className="flex items-center gap-2 text-sm font-bold text-gray-700">
+      <FolderOpen size={16} className="text-sky-500" />
+      最近のプロジェクト
+    </p>
+    <ul className="mt-2 divide-y divide-gray-100">
+      {notice.projects.map((project) => (
+        <li key={project.id} className="flex items-center gap-2 py-1.5">
+          <button
+            type="button"
+            onClick={() => notice.onOpen(project.id)}
+            className="min-w-0 flex-1 rounded px-1 py-0.5 text-left hover:bg-gray-50"
+            title={project.materialFiles.map((file) => file.name).join('\n') || undefined}
+          >
+            <span className="block truncate text-sm text-gray-700">{project.name}</span>
+            <span className="block text-xs text-gray-500">
+              {new Date(project.savedAt).toLocaleString('ja-JP')} 保存 ・{' '}
+              {project.materialFiles.length > 0
+                ? `素材 ${project.materialFiles.length} ファイル`
+                : '素材なし（開いたあとで読み込み）'}
+            </span>
+          </button>
+          <button
+            type="button"
+            onClick={() => notice.onRemove(project.id)}
+            aria-label={`${project.name} を一覧から削除`}
+            className="shrink-0 rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+          >
+            <X size={14} />
+          </button>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
 export const DocumentPreviewWelcome: React.FC<DocumentPreviewWelcomeProps> = ({
   isDragging,
+  sessionRecovery,
+  recentProjects,
 }) => (
   <div
     className={`m-auto text-center ${
       isDragging ? 'text-blue-500' : 'text-gray-400'
     }`}
   >
+    {sessionRecovery && !isDragging && <SessionRecoveryCard notice={sessionRecovery} />}
+    {recentProjects && !isDragging && <RecentProjectList notice={recentProjects} />}
     <Upload
       size={64}
       className={`mx-auto mb-4 ${
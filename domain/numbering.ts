@@ -1,4 +1,4 @@
-import { Cut, NumberingState } from '../types';
+import { Cut, CutLabelFormat, NumberingState } from '../types';
 import { CutPlacement, LogicalPage, LogicalPageId, NumberingPolicy } from './project';
 
 const sortByPositionWithinPage = <T extends { x: number; y: number; id: string }>(a: T, b: T) => {
@@ -7,30 +7,80 @@ const sortByPositionWithinPage = <T extends { x: number; y: number; id: string }
   return a.id.localeCompare(b.id);
 };
 
+export const DEFAULT_CUT_LABEL_FORMAT: CutLabelFormat = {
+  prefix: '',
+  suffix: '',
+  scenePrefix: '',
+  sceneMinDigits: 2,
+  separator: '-',
+};
+
 interface ParsedCutLabelOrder {
+  sceneNumber: number | null;
   numberPart: number;
   branchPart: string | null;
 }
 
-const parseCutLabelOrder = (label: string): ParsedCutLabelOrder | null => {
+const PLAIN_CUT_LABEL_PATTERN = /^(\d+)([A-Za-z]+)?$/;
+
+const escapeLabelPart = (value: string) =>
+  value.replace(/\s+/g, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const createCutLabelPattern = (format: CutLabelFormat) => {
+  const scenePrefix = escapeLabelPart(format.scenePrefix);
+  const separator = escapeLabelPart(format.separator);
+  // Without a scene prefix or separator the scene digits cannot be told apart from the cut digits.
+  const scenePart =
+    scenePrefix || separator ? `(?:${scenePrefix}(\\d+)${separator})?` : '()';
+  return new RegExp(
+    `^${scenePart}${escapeLabelPart(format.prefix)}(\\d+)${escapeLabelPart(format.suffix)}([A-Za-z]+)?$`
+  );
+};
+
+const parseCutLabelOrder = (
+  label: string,
+  pattern: RegExp
+): ParsedCutLabelOrder | null => {
   const normalized = label.trim().replace(/\s+/g, '');
-  const match = normalized.match(/^(\d+)([A-Za-z]+)?$/);
+  const formatted = normalized.match(pattern);
 
-  if (!match) {
+  if (formatted) {
+    return {
+      sceneNumber: formatted[1] ? Number.parseInt(formatted[1], 10) : null,
+      numberPart: Number.parseInt(formatted[2], 10),
+      branchPart: formatted[3]?.toUpperCase() ?? null,
+    };
+  }
+
+  // Labels placed before the format was changed still sort by their bare number.
+  const plain = normalized.match(PLAIN_CUT_LABEL_PATTERN);
+
+  if (!plain) {
     return null;
   }
 
   return {
-    numberPart: Number.parseInt(match[1], 10),
-    branchPart: match[2]?.toUpperCase() ?? null,
+    sceneNumber: null,
+    numberPart: Number.parseInt(plain[1], 10),
+    branchPart: plain[2]?.toUpperCase() ?? null,
   };
 };
 
-const compareCutLabelOrder = (left: string, right: string) => {
-  const parsedLeft = parseCutLabelOrder(left);
-  const parsedRight = parseCutLabelOrder(right);
+const compareCutLabelOrder = (
+  left: string,
+  right: string,
+  pattern: RegExp
+) => {
+  const parsedLeft = parseCutLabelOrder(left, pattern);
+  const parsedRight = parseCutLabelOrder(right, pattern);
 
   if (parsedLeft && parsedRight) {
+    if (parsedLeft.sceneNumber !== parsedRight.sceneNumber) {
+      if (parsedLeft.sceneNumber === null) return -1;
+      if (parsedRight.sceneNumber === null) return 1;
+      return parsedLeft.sceneNumber - parsedRight.sceneNumber;
+    }
+
     if (parsedLeft.numberPart !== parsedRight.numberPart) {
       return parsedLeft.numberPart - parsedRight.numberPart;
     }
@@ -49,23 +99,42 @@ const compareCutLabelOrder = (left: string, right: string) => {
   return 0;
 };
 
-const sortCutsForRenumberWithinPage = <T extends { x: number; y: number; id: string; label: string }>(
-  a: T,
-  b: T
-) => {
-  const labelOrder = compareCutLabelOrder(a.label, b.label);
-  if (labelOrder !== 0) return labelOrder;
-  return sortByPositionWithinPage(a, b);
+const createCutRenumberComparator = (format: CutLabelFormat) => {
+  const pattern = createCutLabelPattern(format);
+  return <T extends { x: number; y: number; id: string; label: string }>(a: T, b: T) => {
+    const labelOrder = compareCutLabelOrder(a.label, b.label, pattern);
+    if (labelOrder !== 0) return labelOrder;
+    return sortByPositionWithinPage(a, b);
+  };
 };
 
 export const formatNumberLabel = (number: number, minDigits: number) =>
   number.toString().padStart(minDigits, '0');
 
+export const formatCutNumberPart = (
+  number: number,
+  minDigits: number,
+  format: CutLabelFormat = DEFAULT_CUT_LABEL_FORMAT,
+  sceneNumber: number | null = null
+) => {
+  const scenePart =
+    sceneNumber === null
+      ? ''
+      : `${format.scenePrefix}${formatNumberLabel(sceneNumber, format.sceneMinDigits)}${format.separator}`;
+  return `${scenePart}${format.prefix}${formatNumberLabel(number, minDigits)}${format.suffix}`;
+};
+
 export const buildNumberLabel = (
   numbering: NumberingState,
-  minDigits: number
+  minDigits: number,
+  format: CutLabelFormat = DEFAULT_CUT_LABEL_FORMAT
 ) => {
-  const numStr = formatNumberLabel(numbering.nextNumber, minDigits);
+  const numStr = formatCutNumberPart(
+    numbering.nextNumber,
+    minDigits,
+    format,
+    numbering.sceneNumber
+  );
   return numbering.branchChar ? `${numStr}\n${numbering.branchChar}` : numStr;
 };
 
@@ -79,21 +148,36 @@ export const advanceNumberingState = (
     return {
       nextNumber: numbering.nextNumber,
       branchChar: String.fromCharCode(numbering.branchChar.charCodeAt(0) + 1),
+      sceneNumber: numbering.sceneNumber,
     };
   }
 
   return {
     nextNumber: numbering.nextNumber + 1,
     branchChar: null,
+    sceneNumber: numbering.sceneNumber,
   };
 };
 
+export const startNextScene = (numbering: NumberingState): NumberingState => ({
+  nextNumber: 1,
+  branchChar: null,
+  sceneNumber: (numbering.sceneNumber ?? 0) + 1,
+});
+
+export const toNumberingState = (numbering: NumberingState): NumberingState => ({
+  nextNumber: numbering.nextNumber,
+  branchChar: numbering.branchChar,
+  sceneNumber: numbering.sceneNumber,
+});
+
 export const isSameNumberingState = (
   left: NumberingState,
   right: NumberingState
 ) =>
   left.nextNumber === right.nextNumber &&
-  left.branchChar === right.branchChar;
+  left.branchChar === right.branchChar &&
+  left.sceneNumber === right.sceneNumber;
 
 export const sortFlatCutsForRenumber = (a: Cut, b: Cut) => {
   if (a.pageIndex !== b.pageIndex) return a.pageIndex - b.pageIndex;
@@ -105,7 +189,8 @@ export const renumberFlatCuts = (
   startCutId: string,
   startNumbering: NumberingState,
   minDigits: number,
-  autoIncrement: boolean
+  autoIncrement: boolean,
+  labelFormat: CutLabelFormat = DEFAULT_CUT_LABEL_FORMAT
 ): { cuts: Cut[]; nextNumbering: NumberingState; found: boolean } => {
   const sortedCuts = [...cuts].sort(sortFlatCutsForRenumber);
   const startIndex = sortedCuts.findIndex((cut) => cut.id === startCutId);
@@ -123,8 +208,11 @@ export const renumberFlatCuts = (
 
   for (let i = startIndex; i < sortedCuts.length; i++) {
     const cut = sortedCuts[i];
+    if (i > startIndex && cut.startsScene) {
+      currentNumbering = startNextScene(currentNumbering);
+    }
     updates.set(cut.id, {
-      label: buildNumberLabel(currentNumbering, minDigits),
+      label: buildNumberLabel(currentNumbering, minDigits, labelFormat),
       isBranch: !!currentNumbering.branchChar,
     });
     currentNumbering = advanceNumberingState(currentNumbering, autoIncrement);
@@ -142,10 +230,13 @@ export const renumberFlatCuts = (
   };
 };
 
-const flattenLogicalPageCuts = (logicalPages: LogicalPage[]) =>
+const flattenLogicalPageCuts = (
+  logicalPages: LogicalPage[],
+  format: CutLabelFormat
+) =>
   logicalPages.flatMap((page) =>
     [...page.cuts]
-      .sort(sortCutsForRenumberWithinPage)
+      .sort(createCutRenumberComparator(format))
       .map((cut) => ({ logicalPageId: page.id, cut }))
   );
 
@@ -168,30 +259,27 @@ export const renumberLogicalPagesFromCut = (
   startCutId: string,
   policy: NumberingPolicy
 ): { logicalPages: LogicalPage[]; nextNumbering: NumberingState; found: boolean } => {
-  const orderedCuts = flattenLogicalPageCuts(logicalPages);
+  const orderedCuts = flattenLogicalPageCuts(logicalPages, policy.labelFormat);
   const startIndex = orderedCuts.findIndex((entry) => entry.cut.id === startCutId);
 
   if (startIndex === -1) {
     return {
       logicalPages,
-      nextNumbering: {
-        nextNumber: policy.nextNumber,
-        branchChar: policy.branchChar,
-      },
+      nextNumbering: toNumberingState(policy),
       found: false,
     };
   }
 
   const updates = new Map<string, { label: string; isBranch: boolean }>();
-  let currentNumbering: NumberingState = {
-    nextNumber: policy.nextNumber,
-    branchChar: policy.branchChar,
-  };
+  let currentNumbering = toNumberingState(policy);
 
   for (let i = startIndex; i < orderedCuts.length; i++) {
     const cut = orderedCuts[i].cut;
+    if (i > startIndex && cut.startsScene) {
+      currentNumbering = startNextScene(currentNumbering);
+    }
     updates.set(cut.id, {
-      label: buildNumberLabel(currentNumbering, policy.minDigits),
+      label: buildNumberLabel(currentNumbering, policy.minDigits, policy.labelFormat),
       isBranch: !!currentNumbering.branchChar,
     });
     currentNumbering = advanceNumberingState(currentNumbering, policy.autoIncrement);
@@ -214,27 +302,28 @@ export const renumberLogicalPagesFromPage = (
   if (startIndex === -1) {
     return {
       logicalPages,
-      nextNumbering: {
-        nextNumber: policy.nextNumber,
-        branchChar: policy.branchChar,
-      },
+      nextNumbering: toNumberingState(policy),
       found: false,
     };
   }
 
   const updates = new Map<string, { label: string; isBranch: boolean }>();
-  let currentNumbering: NumberingState = {
-    nextNumber: policy.nextNumber,
-    branchChar: policy.branchChar,
-  };
+  let currentNumbering = toNumberingState(policy);
+
+  const compareCuts = createCutRenumberComparator(policy.labelFormat);
+  let isFirstCut = true;
 
   for (let pageIndex = startIndex; pageIndex < logicalPages.length; pageIndex++) {
     const page = logicalPages[pageIndex];
-    const orderedCuts = [...page.cuts].sort(sortCutsForRenumberWithinPage);
+    const orderedCuts = [...page.cuts].sort(compareCuts);
 
     for (const cut of orderedCuts) {
+      if (!isFirstCut && cut.startsScene) {
+        currentNumbering = startNextScene(currentNumbering);
+      }
+      isFirstCut = false;
       updates.set(cut.id, {
-        label: buildNumberLabel(currentNumbering, policy.minDigits),
+        label: buildNumberLabel(currentNumbering, policy.minDigits, policy.labelFormat),
         isBranch: !!currentNumbering.branchChar,
       });
       currentNumbering = advanceNumberingState(currentNumbering, policy.autoIncrement);
@@ -248,6 +337,74 @@ export const renumberLogicalPagesFromPage = (
   };
 };
 
+/**
+ * Marks or unmarks a cut as the first cut of a scene, then renumbers from it so
+ * the cut counter resets (or continues) relative to the cut placed before it.
+ */
+export const setLogicalPageCutStartsScene = (
+  logicalPages: LogicalPage[],
+  cutId: string,
+  startsScene: boolean,
+  policy: NumberingPolicy
+): { logicalPages: LogicalPage[]; nextNumbering: NumberingState; found: boolean } => {
+  const orderedCuts = flattenLogicalPageCuts(logicalPages, policy.labelFormat);
+  const index = orderedCuts.findIndex((entry) => entry.cut.id === cutId);
+
+  if (index === -1) {
+    return {
+      logicalPages,
+      nextNumbering: toNumberingState(policy),
+      found: false,
+    };
+  }
+
+  const flaggedPages = logicalPages.map((page) => ({
+    ...page,
+    cuts: page.cuts.map((cut) =>
+      cut.id === cutId ? { ...cut, startsScene } : cut
+    ),
+  }));
+  const previous =
+    index > 0
+      ? parseCutLabelOrder(
+          orderedCuts[index - 1].cut.label,
+          createCutLabelPattern(policy.labelFormat)
+        )
+      : null;
+
+  if (startsScene) {
+    return renumberLogicalPagesFromCut(flaggedPages, cutId, {
+      ...policy,
+      ...startNextScene({
+        nextNumber: 0,
+        branchChar: null,
+        sceneNumber: previous?.sceneNumber ?? null,
+      }),
+    });
+  }
+
+  if (!previous) {
+    return {
+      logicalPages: flaggedPages,
+      nextNumbering: toNumberingState(policy),
+      found: true,
+    };
+  }
+
+  // Continues from the previous cut as placing a new cut after it would, branch sequence included
+  return renumberLogicalPagesFromCut(flaggedPages, cutId, {
+    ...policy,
+    ...advanceNumberingState(
+      {
+        nextNumber: previous.numberPart,
+        branchChar: previous.branchPart,
+        sceneNumber: previous.sceneNumber,
+      },
+      policy.autoIncrement
+    ),
+  });
+};
+
 export const sortCutPlacementsWithinPage = (
   cuts: CutPlacement[]
 ) => [...cuts].sort(sortByPositionWithinPage);
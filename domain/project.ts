@@ -1,6 +1,10 @@
-import { AppSettings, NumberingState, Template } from '../types';
+import { AppSettings, CutLabelFormat, LabelFont, NumberingState, Template } from '../types';
 
-export type ProjectVersion = 1;
+// Bump together with a migration in repositories/projectMigrations
+export const CURRENT_PROJECT_VERSION = 2;
+// Still readable and writable, for colleagues on builds that predate the current version
+export const OLDEST_PROJECT_VERSION = 1;
+export type ProjectVersion = typeof CURRENT_PROJECT_VERSION;
 export type LogicalPageId = string;
 export type AssetId = string;
 export type CutPlacementId = string;
@@ -20,6 +24,7 @@ export interface CutPlacement {
   y: number;
   label: string;
   isBranch: boolean;
+  startsScene?: boolean;
 }
 
 export interface LogicalPage {
@@ -32,10 +37,12 @@ export interface LogicalPage {
 export interface NumberingPolicy extends NumberingState {
   autoIncrement: boolean;
   minDigits: number;
+  labelFormat: CutLabelFormat;
 }
 
 export interface StyleSettings {
   fontSize: number;
+  labelFont: LabelFont | null;
   useWhiteBackground: boolean;
   backgroundPadding: number;
   textOutlineWidth: number;
@@ -113,8 +120,14 @@ const cloneProjectDocument = (project: ProjectDocument): ProjectDocument => ({
   ...project,
   meta: { ...project.meta },
   logicalPages: project.logicalPages.map(cloneLogicalPage),
-  numbering: { ...project.numbering },
-  style: { ...project.style },
+  numbering: {
+    ...project.numbering,
+    labelFormat: { ...project.numbering.labelFormat },
+  },
+  style: {
+    ...project.style,
+    labelFont: project.style.labelFont ? { ...project.style.labelFont } : null,
+  },
   template: {
     ...project.template,
     rowPositions: [...project.template.rowPositions],
@@ -124,12 +137,15 @@ const cloneProjectDocument = (project: ProjectDocument): ProjectDocument => ({
 export const toNumberingPolicy = (settings: AppSettings): NumberingPolicy => ({
   nextNumber: settings.nextNumber,
   branchChar: settings.branchChar,
+  sceneNumber: settings.sceneNumber,
   autoIncrement: settings.autoIncrement,
   minDigits: settings.minDigits,
+  labelFormat: { ...settings.labelFormat },
 });
 
 export const toStyleSettings = (settings: AppSettings): StyleSettings => ({
   fontSize: settings.fontSize,
+  labelFont: settings.labelFont ? { ...settings.labelFont } : null,
   useWhiteBackground: settings.useWhiteBackground,
   backgroundPadding: settings.backgroundPadding,
   textOutlineWidth: settings.textOutlineWidth,
@@ -178,7 +194,7 @@ export const createProjectDocument = ({
   savedAt = new Date().toISOString(),
   logicalPages = [createLogicalPage()],
 }: CreateProjectDocumentOptions): ProjectDocument => ({
-  version: 1,
+  version: CURRENT_PROJECT_VERSION,
   meta: {
     name,
     savedAt,
@@ -20,6 +20,7 @@ export interface LogicalCutEditorApi {
   deleteCut: (cutId: string) => void;
   setNumberingState: (next: NumberingState) => void;
   renumberFromCut: (cutId: string, numbering: NumberingPolicy) => void;
+  setCutStartsScene: (cutId: string, startsScene: boolean, numbering: NumberingPolicy) => void;
   undo: () => void;
   redo: () => void;
 }
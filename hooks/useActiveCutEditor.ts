@@ -16,6 +16,7 @@ export const useActiveCutEditor = ({
     const currentNumbering = {
       nextNumber: editor.settings.nextNumber,
       branchChar: editor.settings.branchChar,
+      sceneNumber: editor.settings.sceneNumber,
     };
     const nextNumbering = advanceNumberingState(
       currentNumbering,
@@ -27,7 +28,11 @@ export const useActiveCutEditor = ({
         id: crypto.randomUUID(),
         x,
         y,
-        label: buildNumberLabel(currentNumbering, editor.settings.minDigits),
+        label: buildNumberLabel(
+          currentNumbering,
+          editor.settings.minDigits,
+          editor.settings.labelFormat
+        ),
         isBranch: !!editor.settings.branchChar,
       },
       nextNumbering
@@ -58,8 +63,38 @@ export const useActiveCutEditor = ({
     editor.renumberFromCut(cutId, {
       nextNumber: editor.settings.nextNumber,
       branchChar: editor.settings.branchChar,
+      sceneNumber: editor.settings.sceneNumber,
       minDigits: editor.settings.minDigits,
       autoIncrement: editor.settings.autoIncrement,
+      labelFormat: editor.settings.labelFormat,
+    });
+  }, [editor]);
+
+  const selectedCut = editor.selectedCutId
+    ? editor.project?.logicalPages
+        .flatMap((page) => page.cuts)
+        .find((cut) => cut.id === editor.selectedCutId) ?? null
+    : null;
+
+  const toggleSceneStartFromSelected = useCallback((cutId: string) => {
+    if (!editor.project) {
+      return;
+    }
+
+    const cut = editor.project.logicalPages
+      .flatMap((page) => page.cuts)
+      .find((candidate) => candidate.id === cutId);
+    if (!cut) {
+      return;
+    }
+
+    editor.setCutStartsScene(cutId, !cut.startsScene, {
+      nextNumber: editor.settings.nextNumber,
+      branchChar: editor.settings.branchChar,
+      sceneNumber: editor.settings.sceneNumber,
+      minDigits: editor.settings.minDigits,
+      autoIncrement: editor.settings.autoIncrement,
+      labelFormat: editor.settings.labelFormat,
     });
   }, [editor]);
 
@@ -77,6 +112,7 @@ export const useActiveCutEditor = ({
 
   return {
     selectedCutId: editor.selectedCutId,
+    selectedCutStartsScene: !!selectedCut?.startsScene,
     canUndo: editor.canUndo,
     canRedo: editor.canRedo,
     historyIndex: editor.historyIndex,
@@ -88,6 +124,7 @@ export const useActiveCutEditor = ({
     commitCutDrag,
     setNumberingState,
     renumberFromSelected,
+    toggleSceneStartFromSelected,
     undo,
     redo,
   };
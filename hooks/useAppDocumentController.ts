@@ -14,13 +14,15 @@ export const useAppDocumentController = () => {
       ...prev,
       nextNumber: next.nextNumber,
       branchChar: next.branchChar,
+      sceneNumber: next.sceneNumber,
     }));
   }, [setSettings]);
 
   const numberingState = useMemo(() => ({
     nextNumber: settings.nextNumber,
     branchChar: settings.branchChar,
-  }), [settings.branchChar, settings.nextNumber]);
+    sceneNumber: settings.sceneNumber,
+  }), [settings.branchChar, settings.nextNumber, settings.sceneNumber]);
 
   const {
     handleDocumentReset,
@@ -29,6 +31,7 @@ export const useAppDocumentController = () => {
   const {
     docType,
     pdfFile,
+    pdfSources,
     imageFiles,
     currentImageUrl,
     numPages,
@@ -62,6 +65,7 @@ export const useAppDocumentController = () => {
   } = useCurrentDocumentMetadata({
     docType,
     pdfFile,
+    pdfSources,
     imageFiles,
     numPages,
   });
@@ -74,6 +78,7 @@ export const useAppDocumentController = () => {
     setResetHandler,
     docType,
     pdfFile,
+    pdfSources,
     imageFiles,
     currentImageUrl,
     numPages,
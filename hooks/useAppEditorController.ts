@@ -1,6 +1,7 @@
 import { useEffect } from 'react';
 import { useEditorCanvasBehavior } from './useEditorCanvasBehavior';
 import { useEditorWorkspace } from './useEditorWorkspace';
+import { useSessionAutosave } from './useSessionAutosave';
 import type { AppDocumentControllerState } from './useAppDocumentController';
 
 type DebugLogData = unknown | (() => unknown);
@@ -61,10 +62,24 @@ export const useAppEditorController = ({
     createCutAt: editorWorkspace.activeCutEditor.createCutAt,
   });
 
+  const { sessionRecovery } = useSessionAutosave({
+    docType: documentState.docType,
+    pdfFile: documentState.pdfFile,
+    pdfSources: documentState.pdfSources,
+    imageFiles: documentState.imageFiles,
+    currentAssetHints: documentState.currentAssetHints,
+    currentProjectHistory: editorWorkspace.currentProjectHistory,
+    loadedProjectHistory: editorWorkspace.loadedProjectHistory,
+    restoreLoadedProjectHistory: editorWorkspace.restoreLoadedProjectHistory,
+    resetLoadedProjectBindings: editorWorkspace.resetLoadedProjectBindings,
+    logDebug,
+  });
+
   return {
     ...editorWorkspace,
     handleRowSnap,
     applyPdfDefaultFontSize,
+    sessionRecovery,
   };
 };
 
@@ -1,11 +1,22 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { pdfjs } from 'react-pdf';
 import { useKeyboardShortcuts } from './useKeyboardShortcuts';
 import { useDebugPanel } from './useDebugPanel';
 import { useAppShellProps } from './useAppShellProps';
 import { useWorkspaceFileActions } from './useWorkspaceFileActions';
+import { useRecentProjects } from './useRecentProjects';
 import type { AppWorkspaceControllerState } from './useAppWorkspaceController';
 import type { DebugLog } from './useDebugLogger';
+import { DEFAULT_IMAGE_EXPORT_OPTIONS } from '../application/imageExportOutput';
+import { CURRENT_PROJECT_VERSION, ProjectDocument } from '../domain/project';
+import { isRewrittenOnImport } from '../services/pdfImport';
+import {
+  ImageExportOptions,
+  PdfImageExportOptions,
+  PdfMarkMode,
+  PdfSourceExportMode,
+  PdfWriteMode,
+} from '../types';
 
 type DebugLogData = unknown | (() => unknown);
 type AppPresentationWorkspace = Pick<
@@ -14,6 +25,7 @@ type AppPresentationWorkspace = Pick<
   | 'setMode'
   | 'docType'
   | 'pdfFile'
+  | 'pdfSources'
   | 'imageFiles'
   | 'currentImageUrl'
   | 'numPages'
@@ -47,12 +59,14 @@ type AppPresentationWorkspace = Pick<
   | 'activeProject'
   | 'previewCuts'
   | 'effectiveExportCuts'
+  | 'effectiveExportPageOrder'
   | 'effectiveExportSettings'
   | 'canApplyLoadedProject'
   | 'loadedProjectManager'
   | 'activeCutEditor'
   | 'handleRowSnap'
   | 'applyPdfDefaultFontSize'
+  | 'sessionRecovery'
 >;
 
 interface UseAppPresentationControllerOptions {
@@ -70,6 +84,45 @@ export const useAppPresentationController = ({
 }: UseAppPresentationControllerOptions) => {
   const [isExporting, setIsExporting] = useState(false);
   const [includeProjectFileOnExport, setIncludeProjectFileOnExport] = useState(true);
+  const [projectFileVersion, setProjectFileVersion] = useState(CURRENT_PROJECT_VERSION);
+  const [pdfMarkMode, setPdfMarkMode] = useState<PdfMarkMode>('layer');
+  const [pdfWriteMode, setPdfWriteMode] = useState<PdfWriteMode>('incremental');
+  const [pdfSourceExportMode, setPdfSourceExportMode] = useState<PdfSourceExportMode>('combined');
+  const [pdfImageExportOptions, setPdfImageExportOptions] = useState<PdfImageExportOptions>({
+    dpi: 300,
+    format: 'png',
+    quality: DEFAULT_IMAGE_EXPORT_OPTIONS.quality,
+    maxLongEdge: null,
+  });
+  const [imageExportOptions, setImageExportOptions] =
+    useState<ImageExportOptions>(DEFAULT_IMAGE_EXPORT_OPTIONS);
+
+  const {
+    handleSaveProject,
+    handleSaveProjectInPlace,
+    handleSaveProjectAs,
+  } = workspace.loadedProjectManager;
+  // Saving comes before the import actions the recent-project list reopens with, so it records through a ref
+  const recordRecentProjectRef = useRef<(project: ProjectDocument) => Promise<void>>(
+    async () => {}
+  );
+  const recordSavedProject = useCallback((project: ProjectDocument | null) => {
+    if (project) {
+      return recordRecentProjectRef.current(project);
+    }
+  }, []);
+  const handleSaveProjectFile = useCallback(
+    () => handleSaveProject(projectFileVersion).then(recordSavedProject),
+    [handleSaveProject, projectFileVersion, recordSavedProject]
+  );
+  const handleSaveProjectFileInPlace = useCallback(
+    () => handleSaveProjectInPlace(projectFileVersion).then(recordSavedProject),
+    [handleSaveProjectInPlace, projectFileVersion, recordSavedProject]
+  );
+  const handleSaveProjectFileAs = useCallback(
+    () => handleSaveProjectAs(projectFileVersion).then(recordSavedProject),
+    [handleSaveProjectAs, projectFileVersion, recordSavedProject]
+  );
 
   const effectiveSelectedCutId = workspace.activeCutEditor.selectedCutId;
   const canUndoHistory = workspace.activeCutEditor.canUndo;
@@ -130,34 +183,60 @@ export const useAppPresentationController = ({
   });
 
   const {
+    importFiles,
     onImportFilesSelected,
     onFileDropped,
+    pdfPasswordRequest,
     handleExportPdf,
     handleExportImages,
+    exportProgress,
+    cancelExport,
   } = useWorkspaceFileActions({
     docType: workspace.docType,
     pdfFile: workspace.pdfFile,
+    pdfSources: workspace.pdfSources,
     imageFiles: workspace.imageFiles,
     effectiveExportCuts: workspace.effectiveExportCuts,
+    effectiveExportPageOrder: workspace.effectiveExportPageOrder,
     effectiveExportSettings: workspace.effectiveExportSettings,
     isLoadedProjectActive: workspace.isLoadedProjectActive,
     canApplyLoadedProject: workspace.canApplyLoadedProject,
     loadPdf: workspace.loadPdf,
     loadImages: workspace.loadImages,
     loadProjectFile: workspace.loadedProjectManager.loadProjectFile,
-    exportProjectFile: workspace.loadedProjectManager.handleSaveProject,
+    exportProjectFile: handleSaveProjectFile,
+    resolveProjectForExport: workspace.loadedProjectManager.resolveProjectForExport,
     includeProjectFileOnExport,
+    pdfMarkMode,
+    pdfWriteMode,
+    pdfSourceExportMode,
+    pdfImageExportOptions,
+    imageExportOptions,
     onDrop: workspace.dragHandlers.onDrop,
     setIsExporting,
     logDebug,
   });
 
+  const { recentProjects, recordRecentProject } = useRecentProjects({
+    docType: workspace.docType,
+    pdfFile: workspace.pdfFile,
+    pdfSources: workspace.pdfSources,
+    imageFiles: workspace.imageFiles,
+    importFiles,
+    logDebug,
+  });
+
+  useEffect(() => {
+    recordRecentProjectRef.current = recordRecentProject;
+  }, [recordRecentProject]);
+
   useKeyboardShortcuts({
     onUndo: handleUndoAction,
     onRedo: handleRedoAction,
     onPageNext: () => workspace.setCurrentPage((page) => page + 1),
     onPagePrev: () => workspace.setCurrentPage((page) => page - 1),
     onRowSnap: workspace.handleRowSnap,
+    onSave: workspace.activeProject ? handleSaveProjectFileInPlace : undefined,
   });
 
   return useAppShellProps({
@@ -175,6 +254,25 @@ export const useAppPresentationController = ({
       onExportImages: handleExportImages,
       includeProjectFileOnExport,
       onToggleIncludeProjectFileOnExport: setIncludeProjectFileOnExport,
+      projectFileVersion,
+      onChangeProjectFileVersion: setProjectFileVersion,
+      canSaveProject: !!workspace.activeProject,
+      projectFileName: workspace.loadedProjectManager.projectFileName,
+      hasUnsavedProjectChanges: workspace.loadedProjectManager.hasUnsavedProjectChanges,
+      onSaveProject: handleSaveProjectFileInPlace,
+      onSaveProjectAs: handleSaveProjectFileAs,
+      pdfMarkMode,
+      onChangePdfMarkMode: setPdfMarkMode,
+      pdfWriteMode,
+      onChangePdfWriteMode: setPdfWriteMode,
+      canAppendToPdf: !workspace.pdfFile || !isRewrittenOnImport(workspace.pdfFile),
+      pdfSourceCount: workspace.pdfSources.length,
+      pdfSourceExportMode,
+      onChangePdfSourceExportMode: setPdfSourceExportMode,
+      pdfImageExportOptions,
+      onChangePdfImageExportOptions: setPdfImageExportOptions,
+      imageExportOptions,
+      onChangeImageExportOptions: setImageExportOptions,
       onOpenDebug: openDebug,
       showDebug: debugEnabled,
     },
@@ -205,6 +303,8 @@ export const useAppPresentationController = ({
       onTemplateInteractionEnd: workspace.handleProjectDraftInteractionEnd,
       settings: workspace.effectiveSettings,
       projectNotice: projectPreviewNotice,
+      sessionRecovery: workspace.sessionRecovery,
+      recentProjects,
       onContentClick: workspace.activeCutEditor.createCutAt,
       onPdfPageLoadSuccess: workspace.applyPdfDefaultFontSize,
       logDebug,
@@ -231,6 +331,8 @@ export const useAppPresentationController = ({
       onLiveSettingsEnd: workspace.handleProjectDraftInteractionEnd,
       setNumberingState: workspace.activeCutEditor.setNumberingState,
       onRenumberFromSelected: workspace.activeCutEditor.renumberFromSelected,
+      selectedCutStartsScene: workspace.activeCutEditor.selectedCutStartsScene,
+      onToggleSceneStartFromSelected: workspace.activeCutEditor.toggleSceneStartFromSelected,
       isLoadedProjectActive: workspace.isLoadedProjectActive,
     },
     debugModal: {
@@ -243,6 +345,11 @@ export const useAppPresentationController = ({
     },
     exportOverlay: {
       isExporting,
+      progress: exportProgress,
+      onCancel: cancelExport,
+    },
+    pdfPasswordDialog: {
+      request: pdfPasswordRequest,
     },
   });
 };
@@ -1,14 +1,23 @@
 import { useState, useCallback } from 'react';
+import {
+  advanceNumberingState,
+  buildNumberLabel,
+  DEFAULT_CUT_LABEL_FORMAT,
+  toNumberingState,
+} from '../domain/numbering';
 import { AppSettings, NumberingState } from '../types';
 
 const DEFAULT_SETTINGS: AppSettings = {
   fontSize: 28,
+  labelFont: null,
   useWhiteBackground: false,
   backgroundPadding: 4,
   nextNumber: 1,
   branchChar: null,
+  sceneNumber: null,
   autoIncrement: true,
   minDigits: 3,
+  labelFormat: DEFAULT_CUT_LABEL_FORMAT,
   textOutlineWidth: 2,
   enableClickSnapToRows: true,
 };
@@ -17,36 +26,14 @@ export const useAppSettings = () => {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
 
   const getNextLabel = useCallback((): string => {
-    let numStr = settings.nextNumber.toString();
-    numStr = numStr.padStart(settings.minDigits, '0');
-
-    if (settings.branchChar) {
-      return `${numStr}\n${settings.branchChar}`;
-    }
-    return numStr;
+    return buildNumberLabel(settings, settings.minDigits, settings.labelFormat);
   }, [settings]);
 
-  const getNextNumberingState = useCallback((): NumberingState => {
-    if (!settings.autoIncrement) {
-      return {
-        nextNumber: settings.nextNumber,
-        branchChar: settings.branchChar,
-      };
-    }
-
-    if (settings.branchChar) {
-      const nextChar = String.fromCharCode(settings.branchChar.charCodeAt(0) + 1);
-      return {
-        nextNumber: settings.nextNumber,
-        branchChar: nextChar,
-      };
-    }
-
-    return {
-      nextNumber: settings.nextNumber + 1,
-      branchChar: null,
-    };
-  }, [settings]);
+  const getNextNumberingState = useCallback(
+    (): NumberingState =>
+      advanceNumberingState(toNumberingState(settings), settings.autoIncrement),
+    [settings]
+  );
 
   const incrementCounter = useCallback(() => {
     if (!settings.autoIncrement) return;
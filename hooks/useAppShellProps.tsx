@@ -4,6 +4,7 @@ import { DocumentPreview } from '../components/DocumentPreview';
 import { Sidebar } from '../components/Sidebar';
 import { DebugModal } from '../components/DebugModal';
 import { ExportOverlay } from '../components/ExportOverlay';
+import { PdfPasswordDialog } from '../components/PdfPasswordDialog';
 import { ProjectOrganizerPanel } from '../components/ProjectOrganizerPanel';
 import { normalizeError } from '../utils/debugData';
 
@@ -22,6 +23,25 @@ interface UseAppShellPropsOptions {
     onExportImages: () => void;
     includeProjectFileOnExport: boolean;
     onToggleIncludeProjectFileOnExport: (next: boolean) => void;
+    projectFileVersion: ComponentProps<typeof Header>['projectFileVersion'];
+    onChangeProjectFileVersion: ComponentProps<typeof Header>['onChangeProjectFileVersion'];
+    canSaveProject: boolean;
+    projectFileName: ComponentProps<typeof Header>['projectFileName'];
+    hasUnsavedProjectChanges: boolean;
+    onSaveProject: () => void;
+    onSaveProjectAs: () => void;
+    pdfMarkMode: ComponentProps<typeof Header>['pdfMarkMode'];
+    onChangePdfMarkMode: ComponentProps<typeof Header>['onChangePdfMarkMode'];
+    pdfImageExportOptions: ComponentProps<typeof Header>['pdfImageExportOptions'];
+    onChangePdfImageExportOptions: ComponentProps<typeof Header>['onChangePdfImageExportOptions'];
+    pdfWriteMode: ComponentProps<typeof Header>['pdfWriteMode'];
+    onChangePdfWriteMode: ComponentProps<typeof Header>['onChangePdfWriteMode'];
+    canAppendToPdf: ComponentProps<typeof Header>['canAppendToPdf'];
+    pdfSourceCount: ComponentProps<typeof Header>['pdfSourceCount'];
+    pdfSourceExportMode: ComponentProps<typeof Header>['pdfSourceExportMode'];
+    onChangePdfSourceExportMode: ComponentProps<typeof Header>['onChangePdfSourceExportMode'];
+    imageExportOptions: ComponentProps<typeof Header>['imageExportOptions'];
+    onChangeImageExportOptions: ComponentProps<typeof Header>['onChangeImageExportOptions'];
     onOpenDebug: () => void;
     showDebug: boolean;
   };
@@ -52,6 +72,8 @@ interface UseAppShellPropsOptions {
     onTemplateInteractionEnd?: () => void;
     settings: ComponentProps<typeof DocumentPreview>['settings'];
     projectNotice?: ComponentProps<typeof DocumentPreview>['projectNotice'];
+    sessionRecovery?: ComponentProps<typeof DocumentPreview>['sessionRecovery'];
+    recentProjects?: ComponentProps<typeof DocumentPreview>['recentProjects'];
     onContentClick: (x: number, y: number) => void;
     onPdfPageLoadSuccess?: ComponentProps<typeof DocumentPreview>['onPdfPageLoadSuccess'];
     logDebug: (level: 'info' | 'warn' | 'error', message: string, data?: unknown | (() => unknown)) => void;
@@ -78,6 +100,8 @@ interface UseAppShellPropsOptions {
     onLiveSettingsEnd?: ComponentProps<typeof Sidebar>['onLiveSettingsEnd'];
     setNumberingState: ComponentProps<typeof Sidebar>['setNumberingState'];
     onRenumberFromSelected: ComponentProps<typeof Sidebar>['onRenumberFromSelected'];
+    selectedCutStartsScene?: ComponentProps<typeof Sidebar>['selectedCutStartsScene'];
+    onToggleSceneStartFromSelected?: ComponentProps<typeof Sidebar>['onToggleSceneStartFromSelected'];
     isLoadedProjectActive: boolean;
   };
   debugModal: {
@@ -90,6 +114,11 @@ interface UseAppShellPropsOptions {
   };
   exportOverlay: {
     isExporting: boolean;
+    progress: ComponentProps<typeof ExportOverlay>['progress'];
+    onCancel: () => void;
+  };
+  pdfPasswordDialog: {
+    request: ComponentProps<typeof PdfPasswordDialog>['request'];
   };
 }
 
@@ -99,6 +128,7 @@ export const useAppShellProps = ({
   sidebar,
   debugModal,
   exportOverlay,
+  pdfPasswordDialog,
 }: UseAppShellPropsOptions) => {
   const projectPanel = useMemo(
     () =>
@@ -115,6 +145,25 @@ export const useAppShellProps = ({
     onExportImages: header.onExportImages,
     includeProjectFileOnExport: header.includeProjectFileOnExport,
     onToggleIncludeProjectFileOnExport: header.onToggleIncludeProjectFileOnExport,
+    projectFileVersion: header.projectFileVersion,
+    onChangeProjectFileVersion: header.onChangeProjectFileVersion,
+    canSaveProject: header.canSaveProject,
+    projectFileName: header.projectFileName,
+    hasUnsavedProjectChanges: header.hasUnsavedProjectChanges,
+    onSaveProject: header.onSaveProject,
+    onSaveProjectAs: header.onSaveProjectAs,
+    pdfMarkMode: header.pdfMarkMode,
+    onChangePdfMarkMode: header.onChangePdfMarkMode,
+    pdfImageExportOptions: header.pdfImageExportOptions,
+    onChangePdfImageExportOptions: header.onChangePdfImageExportOptions,
+    pdfWriteMode: header.pdfWriteMode,
+    onChangePdfWriteMode: header.onChangePdfWriteMode,
+    canAppendToPdf: header.canAppendToPdf,
+    pdfSourceCount: header.pdfSourceCount,
+    pdfSourceExportMode: header.pdfSourceExportMode,
+    onChangePdfSourceExportMode: header.onChangePdfSourceExportMode,
+    imageExportOptions: header.imageExportOptions,
+    onChangeImageExportOptions: header.onChangeImageExportOptions,
     isExporting: header.isExporting,
     mode: header.mode,
     setMode: header.setMode,
@@ -152,6 +201,8 @@ export const useAppShellProps = ({
     onTemplateInteractionEnd: preview.isLoadedProjectActive ? preview.onTemplateInteractionEnd : undefined,
     settings: preview.settings,
     projectNotice: preview.projectNotice,
+    sessionRecovery: preview.sessionRecovery,
+    recentProjects: preview.recentProjects,
     onContentClick: preview.onContentClick,
     onPdfLoadSuccess: (pages) => preview.logDebug('info', 'PDF読み込み成功', () => ({ numPages: pages })),
     onPdfLoadError: (error) => preview.logDebug('error', 'PDF読み込み失敗', () => ({ error: normalizeError(error) })),
@@ -181,6 +232,8 @@ export const useAppShellProps = ({
     onLiveSettingsEnd: sidebar.isLoadedProjectActive ? sidebar.onLiveSettingsEnd : undefined,
     setNumberingState: sidebar.setNumberingState,
     onRenumberFromSelected: sidebar.onRenumberFromSelected,
+    selectedCutStartsScene: sidebar.selectedCutStartsScene,
+    onToggleSceneStartFromSelected: sidebar.onToggleSceneStartFromSelected,
   };
 
   const debugModalProps: ComponentProps<typeof DebugModal> = {
@@ -194,6 +247,12 @@ export const useAppShellProps = ({
 
   const exportOverlayProps: ComponentProps<typeof ExportOverlay> = {
     isExporting: exportOverlay.isExporting,
+    progress: exportOverlay.progress,
+    onCancel: exportOverlay.onCancel,
+  };
+
+  const pdfPasswordDialogProps: ComponentProps<typeof PdfPasswordDialog> = {
+    request: pdfPasswordDialog.request,
   };
 
   return {
@@ -203,5 +262,6 @@ export const useAppShellProps = ({
     sidebarProps,
     debugModalProps,
     exportOverlayProps,
+    pdfPasswordDialogProps,
   };
 };
@@ -1,14 +1,17 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { AssetContentHint, attachAssetContentHints } from '../application/assetFingerprint';
 import {
   createAssetHintsFromCurrentDocument,
   deriveCurrentProjectName,
 } from '../application/currentDocumentProjection';
 import { AssetHint } from '../domain/project';
-import { DocType } from '../types';
+import { computeImageContentHints, computePdfPageContentHints } from '../services/assetFingerprints';
+import { DocType, PdfSource } from '../types';
 
 interface UseCurrentDocumentMetadataOptions {
   docType: DocType | null;
   pdfFile: File | null;
+  pdfSources: PdfSource[];
   imageFiles: File[];
   numPages: number;
 }
@@ -21,10 +24,42 @@ interface CurrentDocumentMetadata {
 export const useCurrentDocumentMetadata = ({
   docType,
   pdfFile,
+  pdfSources,
   imageFiles,
   numPages,
 }: UseCurrentDocumentMetadataOptions): CurrentDocumentMetadata => {
-  const currentAssetHints = useMemo(() => {
+  // Tagged with the document they were computed for, so a replaced document never shows stale ones
+  const [assetContentHints, setAssetContentHints] = useState<{
+    source: File | File[];
+    contentHints: Array<AssetContentHint | undefined>;
+  } | null>(null);
+  const contentSource = docType === 'pdf' ? pdfFile : docType === 'images' ? imageFiles : null;
+
+  useEffect(() => {
+    if (!contentSource || (Array.isArray(contentSource) && contentSource.length === 0)) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const pending = Array.isArray(contentSource)
+      ? computeImageContentHints(contentSource, controller.signal)
+      : computePdfPageContentHints(contentSource, controller.signal);
+
+    pending
+      .then((contentHints) => {
+        if (!controller.signal.aborted) {
+          setAssetContentHints({ source: contentSource, contentHints });
+        }
+      })
+      .catch((error) => {
+        // Without fingerprints, rebinding falls back to file names and page numbers
+        if (!controller.signal.aborted) console.warn(error);
+      });
+
+    return () => controller.abort();
+  }, [contentSource]);
+
+  const nameAssetHints = useMemo(() => {
     if (!docType) return [];
 
     const pageCount = docType === 'images' ? imageFiles.length : numPages;
@@ -33,10 +68,19 @@ export const useCurrentDocumentMetadata = ({
     return createAssetHintsFromCurrentDocument({
       docType,
       pdfFile,
+      pdfSources,
       imageFiles,
       pageCount,
     });
-  }, [docType, imageFiles, numPages, pdfFile]);
+  }, [docType, imageFiles, numPages, pdfFile, pdfSources]);
+
+  const currentAssetHints = useMemo(
+    () =>
+      assetContentHints && assetContentHints.source === contentSource
+        ? attachAssetContentHints(nameAssetHints, assetContentHints.contentHints)
+        : nameAssetHints,
+    [assetContentHints, contentSource, nameAssetHints]
+  );
 
   const currentProjectName = useMemo(
     () =>
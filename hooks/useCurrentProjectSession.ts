@@ -13,11 +13,12 @@ import {
 import {
   isSameNumberingState,
   renumberLogicalPagesFromCut,
+  setLogicalPageCutStartsScene,
 } from '../domain/numbering';
 import { AssetHint, NumberingPolicy } from '../domain/project';
 import { LogicalCutEditorApi } from './logicalCutEditorApi';
 import { ProjectWorkspaceSession } from './projectWorkspaceSession';
-import { AppSettings, Cut, DocType, NumberingState, Template } from '../types';
+import { AppSettings, Cut, CutLabelFormat, DocType, NumberingState, Template } from '../types';
 
 const HISTORY_LIMIT = 100;
 
@@ -211,6 +212,7 @@ export const useCurrentProjectSession = ({
                 ...nextProject.numbering,
                 nextNumber: nextNumbering.nextNumber,
                 branchChar: nextNumbering.branchChar,
+                sceneNumber: nextNumbering.sceneNumber,
               }
             : nextProject.numbering,
         },
@@ -303,6 +305,7 @@ export const useCurrentProjectSession = ({
             ...current.project.numbering,
             nextNumber: nextNumbering.nextNumber,
             branchChar: nextNumbering.branchChar,
+            sceneNumber: nextNumbering.sceneNumber,
           },
         },
         current.selectedCutId
@@ -314,7 +317,8 @@ export const useCurrentProjectSession = ({
     startCutId: string,
     startNumbering: NumberingState,
     minDigits: number,
-    autoIncrement: boolean
+    autoIncrement: boolean,
+    labelFormat: CutLabelFormat
   ) => {
     pushPresent((current) => {
       if (!current.project) return current;
@@ -322,8 +326,10 @@ export const useCurrentProjectSession = ({
       const numbering: NumberingPolicy = {
         nextNumber: startNumbering.nextNumber,
         branchChar: startNumbering.branchChar,
+        sceneNumber: startNumbering.sceneNumber,
         minDigits,
         autoIncrement,
+        labelFormat,
       };
       const result = renumberLogicalPagesFromCut(
         current.project.logicalPages,
@@ -340,6 +346,39 @@ export const useCurrentProjectSession = ({
             ...current.project.numbering,
             nextNumber: result.nextNumbering.nextNumber,
             branchChar: result.nextNumbering.branchChar,
+            sceneNumber: result.nextNumbering.sceneNumber,
+          },
+        },
+        current.selectedCutId
+      );
+    });
+  }, [pushPresent]);
+
+  const setCutStartsScene = useCallback((
+    cutId: string,
+    startsScene: boolean,
+    numbering: NumberingPolicy
+  ) => {
+    pushPresent((current) => {
+      if (!current.project) return current;
+
+      const result = setLogicalPageCutStartsScene(
+        current.project.logicalPages,
+        cutId,
+        startsScene,
+        numbering
+      );
+      if (!result.found) return current;
+
+      return withSelectedCut(
+        {
+          ...current.project,
+          logicalPages: result.logicalPages,
+          numbering: {
+            ...current.project.numbering,
+            nextNumber: result.nextNumbering.nextNumber,
+            branchChar: result.nextNumbering.branchChar,
+            sceneNumber: result.nextNumbering.sceneNumber,
           },
         },
         current.selectedCutId
@@ -451,11 +490,14 @@ export const useCurrentProjectSession = ({
         {
           nextNumber: numbering.nextNumber,
           branchChar: numbering.branchChar,
+          sceneNumber: numbering.sceneNumber,
         },
         numbering.minDigits,
-        numbering.autoIncrement
+        numbering.autoIncrement,
+        numbering.labelFormat
       );
     },
+    setCutStartsScene,
     undo,
     redo,
   };
@@ -472,9 +514,11 @@ export const useCurrentProjectSession = ({
     deleteCut,
     setProjectNumberingState,
     renumberFromCut,
+    setCutStartsScene,
     undo,
     redo,
     resetProject,
+    history,
     project,
     bindings,
     previewLogicalPage,
@@ -1,14 +1,19 @@
 
 import { useState, useRef, useCallback, useEffect, type DragEvent } from 'react';
-import { DocType } from '../types';
+import { DocType, PdfSource } from '../types';
 import { renderImageWithOrientation } from '../services/imageProcessing';
-import { getImageFileMetadata } from '../services/imageMetadata';
+import {
+  getImageFileMetadata,
+  needsDecodedPreview,
+  toRenderedImageType,
+} from '../services/imageMetadata';
 
 export const useDocumentViewer = (onLoadComplete?: () => void) => {
   const [docType, setDocType] = useState<DocType | null>(null);
   
   // PDF State
   const [pdfFile, setPdfFile] = useState<File | null>(null);
+  const [pdfSources, setPdfSources] = useState<PdfSource[]>([]);
   
   // Images State
   const [imageFiles, setImageFiles] = useState<File[]>([]);
@@ -47,12 +52,16 @@ export const useDocumentViewer = (onLoadComplete?: () => void) => {
         }
 
         const fileType = metadata.fileType;
-        const orientation = metadata.orientation;
+        const orientation = metadata.orientation ?? 1;
 
         let url: string;
-        if (orientation && orientation !== 1) {
+        if (orientation !== 1 || needsDecodedPreview(fileType)) {
           try {
-            const rendered = await renderImageWithOrientation(file, orientation, fileType);
+            const rendered = await renderImageWithOrientation(
+              file,
+              orientation,
+              toRenderedImageType(fileType)
+            );
             url = URL.createObjectURL(rendered.blob);
           } catch {
             url = URL.createObjectURL(file);
@@ -81,8 +90,10 @@ export const useDocumentViewer = (onLoadComplete?: () => void) => {
     };
   }, [docType, imageFiles, currentPage]);
 
-  const loadPdf = useCallback((file: File) => {
+  // sources lists the original PDFs when file was merged from several of them
+  const loadPdf = useCallback((file: File, sources: PdfSource[] = []) => {
     setPdfFile(file);
+    setPdfSources(sources);
     setImageFiles([]);
     setDocType('pdf');
     setCurrentPage(1);
@@ -97,6 +108,7 @@ export const useDocumentViewer = (onLoadComplete?: () => void) => {
     
     setImageFiles(sorted);
     setPdfFile(null);
+    setPdfSources([]);
     setDocType('images');
     setNumPages(sorted.length);
     setCurrentPage(1);
@@ -147,6 +159,7 @@ export const useDocumentViewer = (onLoadComplete?: () => void) => {
   return {
     docType,
     pdfFile,
+    pdfSources,
     imageFiles,
     currentImageUrl,
     numPages,
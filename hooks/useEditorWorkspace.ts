@@ -57,6 +57,10 @@ export const useEditorWorkspace = ({
 
   return {
     resetCurrentProject: sessions.currentProjectSession.resetProject,
+    currentProjectHistory: sessions.currentProjectSession.history,
+    loadedProjectHistory: sessions.loadedProjectSession.history,
+    restoreLoadedProjectHistory: sessions.loadedProjectSession.restoreHistory,
+    resetLoadedProjectBindings: sessions.loadedProjectSession.resetBindings,
     isLoadedProjectActive: sessions.isLoadedProjectActive,
     selectedLogicalPageId: sessions.loadedProjectSession.workspaceSession.selectedLogicalPageId,
     selectedLogicalPageNumber: sessions.loadedProjectSession.workspaceSession.selectedLogicalPageNumber,
@@ -76,6 +80,7 @@ export const useEditorWorkspace = ({
     activeProject: workspaceState.workspace.activeProject,
     previewCuts: workspaceState.workspace.previewCuts,
     effectiveExportCuts: workspaceState.workspace.effectiveExportCuts,
+    effectiveExportPageOrder: workspaceState.workspace.effectiveExportPageOrder,
     effectiveExportSettings: workspaceState.workspace.effectiveExportSettings,
     canApplyLoadedProject: workspaceState.workspace.canApplyLoadedProject,
     projectStatusMessage: workspaceState.workspace.projectStatusMessage,
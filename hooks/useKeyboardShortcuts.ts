@@ -6,6 +6,7 @@ interface ShortcutHandlers {
   onPageNext: () => void;
   onPagePrev: () => void;
   onRowSnap: (index: number) => void;
+  onSave?: () => void;
 }
 
 export const useKeyboardShortcuts = ({
@@ -13,10 +14,18 @@ export const useKeyboardShortcuts = ({
   onRedo,
   onPageNext,
   onPagePrev,
-  onRowSnap
+  onRowSnap,
+  onSave
 }: ShortcutHandlers) => {
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Saving works from anywhere, so the browser's own save page dialog never opens
+      if ((e.metaKey || e.ctrlKey) && e.key === 's') {
+        e.preventDefault();
+        onSave?.();
+        return;
+      }
+
       // Ignore if input focused
       if (e.target instanceof HTMLInputElement || 
           e.target instanceof HTMLTextAreaElement || 
@@ -45,5 +54,5 @@ export const useKeyboardShortcuts = ({
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [onUndo, onRedo, onPageNext, onPagePrev, onRowSnap]);
+  }, [onUndo, onRedo, onPageNext, onPagePrev, onRowSnap, onSave]);
 };
\ No newline at end of file
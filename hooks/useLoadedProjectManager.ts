@@ -70,6 +70,11 @@ export const useLoadedProjectManager = ({
   const {
     handleApplyLoadedProject,
     handleSaveProject,
+    handleSaveProjectInPlace,
+    handleSaveProjectAs,
+    hasUnsavedProjectChanges,
+    projectFileName,
+    resolveProjectForExport,
     loadProjectFile,
     onProjectLoaded,
   } = useProjectLifecycle({
@@ -115,6 +120,11 @@ export const useLoadedProjectManager = ({
   return {
     projectOrganizerProps,
     handleSaveProject,
+    handleSaveProjectInPlace,
+    handleSaveProjectAs,
+    hasUnsavedProjectChanges,
+    projectFileName,
+    resolveProjectForExport,
     loadProjectFile,
     onProjectLoaded,
   };
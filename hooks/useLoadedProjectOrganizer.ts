@@ -29,6 +29,10 @@ export const useLoadedProjectOrganizer = ({
     loadedProjectSession.insertBlankPageAtAsset(assetIndex);
   }, [loadedProjectSession]);
 
+  const onFillUnassignedContesWithBlanks = useCallback(() => {
+    loadedProjectSession.fillUnassignedContesWithBlanks();
+  }, [loadedProjectSession]);
+
   const onRemoveLogicalPageFromConte = useCallback((logicalPageId: string) => {
     loadedProjectSession.removePageFromConte(logicalPageId);
   }, [loadedProjectSession]);
@@ -67,6 +71,7 @@ export const useLoadedProjectOrganizer = ({
       onSelectLogicalPage,
       onSelectContePage,
       onInsertBlankPageAtAsset,
+      onFillUnassignedContesWithBlanks,
       onRemoveLogicalPageFromConte,
       onUnassignLogicalPage,
       onMoveLogicalPageToAsset,
@@ -81,6 +86,7 @@ export const useLoadedProjectOrganizer = ({
     onApplyProject,
     onSelectContePage,
     onInsertBlankPageAtAsset,
+    onFillUnassignedContesWithBlanks,
     onMoveLogicalPageToAsset,
     onRemoveLogicalPageFromConte,
     onUnassignLogicalPage,
@@ -1,7 +1,8 @@
 import { SetStateAction, useMemo } from 'react';
 import { ProjectAssetBindings } from '../application/projectBindings';
 import { createAppSettingsFromProjectDocument } from '../application/projectPresentation';
-import { PageBindingStatus, ProjectDocument } from '../domain/project';
+import { HistoryState } from '../application/history';
+import { EditorState, PageBindingStatus, ProjectDocument } from '../domain/project';
 import { LogicalCutEditorApi } from './logicalCutEditorApi';
 import { ProjectWorkspaceSession } from './projectWorkspaceSession';
 import { useProjectEditor } from './useProjectEditor';
@@ -27,12 +28,14 @@ interface LoadedProjectDraftApi {
 
 export interface UseLoadedProjectSessionResult {
   project: ProjectDocument | null;
+  history: HistoryState<EditorState> | null;
   bindings: ProjectAssetBindings;
   bindingStatuses: Record<string, PageBindingStatus>;
   workspaceSession: LoadedProjectWorkspaceSession;
   projectCutEditorApi: LogicalCutEditorApi;
   projectDraftApi: LoadedProjectDraftApi;
   loadProject: (project: ProjectDocument) => void;
+  restoreHistory: (history: HistoryState<EditorState>) => void;
   replaceProject: (
     project: ProjectDocument,
     bindings?: ProjectAssetBindings | null
@@ -45,6 +48,7 @@ export interface UseLoadedProjectSessionResult {
   removePage: (logicalPageId: string) => void;
   movePage: (logicalPageId: string, direction: -1 | 1) => void;
   insertBlankPageAtAsset: (assetIndex: number) => void;
+  fillUnassignedContesWithBlanks: () => void;
   removePageFromConte: (logicalPageId: string) => void;
   movePageToAsset: (logicalPageId: string, assetIndex: number) => void;
   undoDraft: () => void;
@@ -81,6 +85,7 @@ export const useLoadedProjectSession = (
       ...current,
       nextNumber: next.nextNumber,
       branchChar: next.branchChar,
+      sceneNumber: next.sceneNumber,
     }), { pushHistory: true });
   };
 
@@ -102,12 +107,16 @@ export const useLoadedProjectSession = (
     renumberFromCut: (cutId, numbering) => {
       editor.renumberFromCut(cutId, numbering);
     },
+    setCutStartsScene: (cutId, startsScene, numbering) => {
+      editor.setCutStartsScene(cutId, startsScene, numbering);
+    },
     undo: editor.undo,
     redo: editor.redo,
   };
 
   return {
     project: editor.project,
+    history: editor.history,
     bindings: editor.bindings,
     bindingStatuses: editor.bindingStatuses,
     workspaceSession,
@@ -119,6 +128,7 @@ export const useLoadedProjectSession = (
       commitTransaction: editor.commitTransaction,
     },
     loadProject: editor.loadProject,
+    restoreHistory: editor.restoreHistory,
     replaceProject: editor.replaceProject,
     assignAsset: editor.assignAsset,
     resetBindings: editor.resetBindings,
@@ -128,6 +138,7 @@ export const useLoadedProjectSession = (
     removePage: editor.removePage,
     movePage: editor.movePage,
     insertBlankPageAtAsset: editor.insertBlankPageAtAsset,
+    fillUnassignedContesWithBlanks: editor.fillUnassignedContesWithBlanks,
     removePageFromConte: editor.removePageFromConte,
     movePageToAsset: editor.movePageToAsset,
     undoDraft: editor.undo,
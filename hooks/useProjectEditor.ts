@@ -1,4 +1,5 @@
 import { SetStateAction, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { assetFingerprintsMatch, hasNewAssetFingerprints } from '../application/assetFingerprint';
 import { editorReducer, EditorAction } from '../application/editorReducer';
 import {
   createHistoryState,
@@ -15,6 +16,7 @@ import {
   synchronizeProjectAssetBindings,
 } from '../application/projectBindings';
 import {
+  fillUnassignedContesWithBlankPages,
   insertBlankLogicalPageAtConte,
   moveLogicalPageToConte,
   removeLogicalPageFromConte,
@@ -33,7 +35,7 @@ import {
   toStyleSettings,
   toTemplateSnapshot,
 } from '../domain/project';
-import { AppSettings, Template } from '../types';
+import { AppSettings, NumberingState, Template } from '../types';
 
 const ASSET_ID_PREFIX = 'asset-';
 
@@ -55,6 +57,8 @@ const bindingStatusFromHints = (
   currentAsset: AssetHint | null | undefined
 ) => {
   if (!expectedAsset || !currentAsset) return 'matched' as const;
+  const fingerprintsMatch = assetFingerprintsMatch(expectedAsset, currentAsset);
+  if (fingerprintsMatch != null) return fingerprintsMatch ? 'matched' as const : 'needs_review' as const;
   if (expectedAsset.sourceKind !== currentAsset.sourceKind) return 'needs_review' as const;
   if (
     expectedAsset.sourceLabel &&
@@ -140,12 +144,15 @@ const createEditorStateFromProject = (
 
 const toAppSettings = (project: ProjectDocument): AppSettings => ({
   fontSize: project.style.fontSize,
+  labelFont: project.style.labelFont ? { ...project.style.labelFont } : null,
   useWhiteBackground: project.style.useWhiteBackground,
   backgroundPadding: project.style.backgroundPadding,
   nextNumber: project.numbering.nextNumber,
   branchChar: project.numbering.branchChar,
+  sceneNumber: project.numbering.sceneNumber,
   autoIncrement: project.numbering.autoIncrement,
   minDigits: project.numbering.minDigits,
+  labelFormat: { ...project.numbering.labelFormat },
   textOutlineWidth: project.style.textOutlineWidth,
   enableClickSnapToRows: project.style.enableClickSnapToRows,
 });
@@ -194,7 +201,10 @@ export const useProjectEditor = (
   const assignedCount = project ? countAssignedProjectAssetBindings(project, bindings) : 0;
   const canApply = project ? hasCompleteProjectAssetBindings(project, bindings) : false;
 
-  const syncBindings = useCallback((nextBindings: ProjectAssetBindings) => {
+  const syncBindings = useCallback((
+    nextBindings: ProjectAssetBindings,
+    { refreshStatuses = false }: { refreshStatuses?: boolean } = {}
+  ) => {
     setHistory((prev) => {
       if (!prev) return prev;
       return {
@@ -205,7 +215,7 @@ export const useProjectEditor = (
             prev.present.project,
             nextBindings,
             currentAssets,
-            prev.present.bindings
+            refreshStatuses ? undefined : prev.present.bindings
           ),
         },
       };
@@ -220,27 +230,27 @@ export const useProjectEditor = (
       return;
     }
 
-    const nextBindings = synchronizeProjectAssetBindings(
-      editorState.project,
-      currentAssets,
-      bindings
-    );
+    // Bindings guessed from file names are redone once fingerprints arrive, unless already edited
+    const refreshStatuses = hasNewAssetFingerprints(previousAssets, currentAssets) && !canUndo;
+    const nextBindings = refreshStatuses
+      ? createSuggestedProjectAssetBindings(editorState.project, currentAssets)
+      : synchronizeProjectAssetBindings(editorState.project, currentAssets, bindings);
 
-    if (areBindingsEqual(bindings, nextBindings)) {
+    if (!refreshStatuses && areBindingsEqual(bindings, nextBindings)) {
       return;
     }
 
     let cancelled = false;
     queueMicrotask(() => {
       if (!cancelled) {
-        syncBindings(nextBindings);
+        syncBindings(nextBindings, { refreshStatuses });
       }
     });
 
     return () => {
       cancelled = true;
     };
-  }, [bindings, currentAssets, editorState, syncBindings]);
+  }, [bindings, canUndo, currentAssets, editorState, syncBindings]);
 
   const replacePresent = useCallback((updater: (state: EditorState) => EditorState) => {
     setHistory((prev) => {
@@ -308,6 +318,13 @@ export const useProjectEditor = (
     transactionBaseRef.current = null;
   }, [bindings, currentAssets]);
 
+  // Brings back an autosaved session as it was, undo steps included
+  const restoreHistory = useCallback((restored: HistoryState<EditorState>) => {
+    setHistory(restored);
+    dragBaseRef.current = null;
+    transactionBaseRef.current = null;
+  }, []);
+
   const clearProject = useCallback(() => {
     setHistory(null);
     dragBaseRef.current = null;
@@ -382,6 +399,10 @@ export const useProjectEditor = (
     );
   }, [currentAssets, pushPresent]);
 
+  const fillUnassignedContesWithBlanks = useCallback(() => {
+    pushPresent((state) => fillUnassignedContesWithBlankPages(state, currentAssets));
+  }, [currentAssets, pushPresent]);
+
   const removePageFromConte = useCallback((logicalPageId: LogicalPageId) => {
     pushPresent((state) =>
       removeLogicalPageFromConte(state, currentAssets, logicalPageId)
@@ -396,7 +417,7 @@ export const useProjectEditor = (
 
   const addCutToSelectedPage = useCallback((
     cut: Extract<EditorAction, { type: 'addCutToLogicalPage' }>['cut'],
-    nextNumbering?: Pick<AppSettings, 'nextNumber' | 'branchChar'>
+    nextNumbering?: NumberingState
   ) => {
     if (!editorState?.selection.logicalPageId) return;
 
@@ -415,6 +436,7 @@ export const useProjectEditor = (
                 ...nextState.project.numbering,
                 nextNumber: nextNumbering.nextNumber,
                 branchChar: nextNumbering.branchChar,
+                sceneNumber: nextNumbering.sceneNumber,
               },
             }
           : nextState.project,
@@ -480,6 +502,24 @@ export const useProjectEditor = (
     return nextPresent.project.numbering;
   }, [editorState]);
 
+  const setCutStartsScene = useCallback((
+    cutId: string,
+    startsScene: boolean,
+    numbering: NumberingPolicy
+  ) => {
+    if (!editorState) return null;
+
+    const nextPresent = editorReducer(editorState, {
+      type: 'setCutStartsScene',
+      cutId,
+      startsScene,
+      numbering,
+    });
+
+    setHistory((prev) => (prev ? pushHistoryState(prev, nextPresent) : prev));
+    return nextPresent.project.numbering;
+  }, [editorState]);
+
   const beginTransaction = useCallback(() => {
     if (!editorState || transactionBaseRef.current) return;
     transactionBaseRef.current = editorState;
@@ -551,6 +591,7 @@ export const useProjectEditor = (
   }, []);
 
   return {
+    history,
     editorState,
     project,
     bindings,
@@ -569,6 +610,7 @@ export const useProjectEditor = (
     canApply,
     loadProject,
     replaceProject,
+    restoreHistory,
     clearProject,
     selectLogicalPage,
     selectCut,
@@ -578,6 +620,7 @@ export const useProjectEditor = (
     removePage,
     movePage,
     insertBlankPageAtAsset,
+    fillUnassignedContesWithBlanks,
     removePageFromConte,
     movePageToAsset,
     addCutToSelectedPage,
@@ -585,6 +628,7 @@ export const useProjectEditor = (
     commitCutDrag,
     deleteCut,
     renumberFromCut,
+    setCutStartsScene,
     beginTransaction,
     commitTransaction,
     updateSettings,
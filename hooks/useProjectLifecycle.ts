@@ -1,14 +1,20 @@
-import { ChangeEvent, useCallback, useEffect, useState } from 'react';
+import { ChangeEvent, useCallback, useEffect, useMemo, useState } from 'react';
 import {
   createSuggestedProjectAssetBindings,
   ProjectAssetBindings,
 } from '../application/projectBindings';
 import { createTemplateFromProjectDocument } from '../application/projectPresentation';
-import { ProjectDocument, TemplateSnapshot } from '../domain/project';
+import { CURRENT_PROJECT_VERSION, ProjectDocument, TemplateSnapshot } from '../domain/project';
 import {
-  downloadProjectDocument,
-  loadProjectDocumentFromFile,
+  chooseProjectSaveTarget,
+  createProjectDownloadFileName,
+  ProjectFileHandle,
+  ProjectSaveTarget,
+  recoverProjectDocumentFromFile,
+  writeProjectDocument,
 } from '../repositories/projectRepository';
+import { ProjectValidationIssue } from '../repositories/projectValidation';
+import { getLabelFontId } from '../services/labelFont';
 
 type DebugLogData = unknown | (() => unknown);
 
@@ -46,6 +52,48 @@ export interface ProjectImportContext {
 const countProjectCuts = (project: ProjectDocument) =>
   project.logicalPages.reduce((count, page) => count + page.cuts.length, 0);
 
+// Long reports are cut short so the dialog stays on screen
+const MAX_LISTED_RECOVERY_ISSUES = 10;
+
+const RECOVERY_ACTION_LABELS: Record<ProjectValidationIssue['action'], string> = {
+  repaired: '修復',
+  dropped: '除外',
+};
+
+const createRecoverySummary = (project: ProjectDocument, issues: ProjectValidationIssue[]) => {
+  const repairedCount = issues.filter((issue) => issue.action === 'repaired').length;
+  const listed = issues
+    .slice(0, MAX_LISTED_RECOVERY_ISSUES)
+    .map((issue) => `・${issue.path}: ${issue.message}（${RECOVERY_ACTION_LABELS[issue.action]}）`);
+  if (issues.length > MAX_LISTED_RECOVERY_ISSUES) {
+    listed.push(`ほか ${issues.length - MAX_LISTED_RECOVERY_ISSUES} 件`);
+  }
+
+  return [
+    `プロジェクトファイルに ${issues.length} 件の問題が見つかりました。`,
+    `修復: ${repairedCount} 件 / 除外: ${issues.length - repairedCount} 件`,
+    `読み込めた内容: ${project.logicalPages.length} ページ、カット ${countProjectCuts(project)} 件`,
+    '',
+    ...listed,
+    '',
+    '修復した内容で読み込みますか？',
+  ].join('\n');
+};
+
+// What a save would write, ignoring when it was last saved. The label font stands in by its id,
+// so edits do not serialize megabytes of font data each time.
+const createProjectSaveSignature = (project: ProjectDocument) => {
+  const { labelFont } = project.style;
+  return JSON.stringify({
+    ...project,
+    meta: { ...project.meta, savedAt: null },
+    style: {
+      ...project.style,
+      labelFont: labelFont ? { name: labelFont.name, id: getLabelFontId(labelFont) } : null,
+    },
+  });
+};
+
 const toFileInfo = (file: File | null) => {
   if (!file) return null;
   return {
@@ -86,6 +134,9 @@ export const useProjectLifecycle = ({
   const [pendingProjectImport, setPendingProjectImport] = useState<{
     sourceFile: ReturnType<typeof toFileInfo> | null;
   } | null>(null);
+  // The file later saves overwrite; kept until another project file is opened
+  const [projectFileHandle, setProjectFileHandle] = useState<ProjectFileHandle | null>(null);
+  const [savedProjectSignature, setSavedProjectSignature] = useState<string | null>(null);
 
   const applyLoadedProjectToCurrentDocument = useCallback((
     project: ProjectDocument,
@@ -145,56 +196,159 @@ export const useProjectLifecycle = ({
     applyLoadedProjectToCurrentDocument(loadedProject, null, projectBindings);
   }, [applyLoadedProjectToCurrentDocument, canApplyLoadedProject, loadedProject, projectBindings]);
 
-  const handleSaveProject = useCallback(() => {
+  // The project as it would be saved now, also embedded into exported PDFs
+  const resolveProjectForExport = useCallback(() => {
     const projectSource = loadedProject ? loadedProject : currentProject;
     const bindingsForSave = loadedProject ? projectBindings : currentProjectBindings;
 
     if (!projectSource) {
-      alert('保存できるプロジェクトがありません');
-      return;
+      return null;
     }
 
-    const project = resolveProjectDocumentForCurrentState(
+    return resolveProjectDocumentForCurrentState(
       projectSource,
       bindingsForSave,
       { touchSavedAt: true }
     );
+  }, [
+    currentProject,
+    currentProjectBindings,
+    loadedProject,
+    projectBindings,
+    resolveProjectDocumentForCurrentState,
+  ]);
 
+  const currentProjectSignature = useMemo(() => {
     if (loadedProject) {
-      replaceEditorProject(project, projectBindings);
-    } else {
-      loadProjectIntoEditor(project);
+      return createProjectSaveSignature(
+        resolveProjectDocumentForCurrentState(loadedProject, projectBindings)
+      );
     }
-    downloadProjectDocument(project);
-    logDebug('info', 'プロジェクト保存', () => ({
-      projectName: project.meta.name,
-      logicalPages: project.logicalPages.length,
-      cutCount: countProjectCuts(project),
-    }));
+    // A session without any cuts has nothing worth saving yet
+    if (!currentProject || countProjectCuts(currentProject) === 0) {
+      return null;
+    }
+    return createProjectSaveSignature(
+      resolveProjectDocumentForCurrentState(currentProject, currentProjectBindings)
+    );
   }, [
     currentProject,
     currentProjectBindings,
+    loadedProject,
+    projectBindings,
+    resolveProjectDocumentForCurrentState,
+  ]);
+
+  const hasUnsavedProjectChanges =
+    currentProjectSignature != null && currentProjectSignature !== savedProjectSignature;
+
+  // Resolves to the project as saved, or null when nothing was written
+  const saveProjectTo = useCallback(async (
+    chooseTarget: (project: ProjectDocument) => Promise<ProjectSaveTarget | null>,
+    version: number
+  ): Promise<ProjectDocument | null> => {
+    const project = resolveProjectForExport();
+
+    if (!project) {
+      alert('保存できるプロジェクトがありません');
+      return null;
+    }
+
+    try {
+      const target = await chooseTarget(project);
+      if (!target) {
+        logDebug('info', 'プロジェクト保存キャンセル');
+        return null;
+      }
+
+      await writeProjectDocument(project, target, { version });
+      if (target !== 'download') {
+        setProjectFileHandle(target);
+      }
+      if (loadedProject) {
+        replaceEditorProject(project, projectBindings);
+      } else {
+        loadProjectIntoEditor(project);
+      }
+      setSavedProjectSignature(createProjectSaveSignature(project));
+      logDebug('info', 'プロジェクト保存', () => ({
+        projectName: project.meta.name,
+        version,
+        target: target === 'download' ? 'download' : target.name,
+        logicalPages: project.logicalPages.length,
+        cutCount: countProjectCuts(project),
+      }));
+      return project;
+    } catch (error) {
+      alert('プロジェクト保存中にエラーが発生しました');
+      logDebug('error', 'プロジェクト保存失敗', () => ({
+        error: normalizeError(error),
+        projectName: project.meta.name,
+      }));
+      return null;
+    }
+  }, [
     loadedProject,
     loadProjectIntoEditor,
     logDebug,
     projectBindings,
     replaceEditorProject,
-    resolveProjectDocumentForCurrentState,
+    resolveProjectForExport,
   ]);
 
+  // Saved alongside exports, where a picker can no longer open: overwrites the last saved file or downloads
+  const handleSaveProject = useCallback(
+    (version: number = CURRENT_PROJECT_VERSION) =>
+      saveProjectTo(async () => projectFileHandle ?? 'download', version),
+    [projectFileHandle, saveProjectTo]
+  );
+
+  const handleSaveProjectAs = useCallback(
+    (version: number = CURRENT_PROJECT_VERSION) =>
+      saveProjectTo(
+        (project) => chooseProjectSaveTarget(createProjectDownloadFileName(project.meta.name)),
+        version
+      ),
+    [saveProjectTo]
+  );
+
+  // Overwrites the file saved to before; the first save asks where to put it
+  const handleSaveProjectInPlace = useCallback(
+    (version: number = CURRENT_PROJECT_VERSION) =>
+      projectFileHandle
+        ? saveProjectTo(async () => projectFileHandle, version)
+        : handleSaveProjectAs(version),
+    [handleSaveProjectAs, projectFileHandle, saveProjectTo]
+  );
+
   const loadProjectFile = useCallback(async (
     file: File,
     importContext?: ProjectImportContext
   ) => {
     try {
       setPendingProjectImport(null);
-      const project = await loadProjectDocumentFromFile(file);
+      const { project, issues } = await recoverProjectDocumentFromFile(file);
       const fileInfo = toFileInfo(file);
+
+      if (issues.length > 0) {
+        const accepted = window.confirm(createRecoverySummary(project, issues));
+        logDebug('warn', 'プロジェクト修復', () => ({
+          accepted,
+          issues,
+          file: fileInfo,
+        }));
+        if (!accepted) {
+          return;
+        }
+      }
       const activeDocType = importContext?.docType ?? docType;
       const activeNumPages = importContext?.numPages ?? numPages;
 
       loadProjectIntoEditor(project);
       upsertTemplate(createTemplateFromProjectDocument(project));
+      // Without a handle to the opened file, the first save asks where to put it
+      setProjectFileHandle(null);
+      setSavedProjectSignature(createProjectSaveSignature(project));
       logDebug('info', 'プロジェクト読込完了', () => ({
         projectName: project.meta.name,
         logicalPages: project.logicalPages.length,
@@ -259,6 +413,11 @@ export const useProjectLifecycle = ({
     applyLoadedProjectToCurrentDocument,
     handleApplyLoadedProject,
     handleSaveProject,
+    handleSaveProjectInPlace,
+    handleSaveProjectAs,
+    hasUnsavedProjectChanges,
+    projectFileName: projectFileHandle?.name ?? null,
+    resolveProjectForExport,
     loadProjectFile,
     onProjectLoaded,
   };
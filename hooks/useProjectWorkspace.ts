@@ -1,5 +1,8 @@
 import { Dispatch, SetStateAction, useCallback, useEffect, useMemo, useRef } from 'react';
-import { createCutsFromProjectDocument } from '../application/projectProjection';
+import {
+  createCutsFromProjectDocument,
+  createPageOrderFromProjectDocument,
+} from '../application/projectProjection';
 import { createAppSettingsFromProjectDocument } from '../application/projectPresentation';
 import {
   applyBoundAssetHintsToProject,
@@ -157,9 +160,10 @@ export const useProjectWorkspace = ({
           ? new Date().toISOString()
           : projectWithBoundHints.meta.savedAt,
       },
-      numbering: toNumberingPolicy(effectiveSettings),
-      style: toStyleSettings(effectiveSettings),
-      template: toTemplateSnapshot(effectiveTemplate),
+      // Spread first so fields written by newer builds survive a save from this one
+      numbering: { ...projectWithBoundHints.numbering, ...toNumberingPolicy(effectiveSettings) },
+      style: { ...projectWithBoundHints.style, ...toStyleSettings(effectiveSettings) },
+      template: { ...projectWithBoundHints.template, ...toTemplateSnapshot(effectiveTemplate) },
     };
   }, [currentAssetHints, effectiveSettings, effectiveTemplate]);
 
@@ -195,6 +199,14 @@ export const useProjectWorkspace = ({
     [activeProject, activeProjectBindings]
   );
 
+  const effectiveExportPageOrder = useMemo(
+    () =>
+      activeProject
+        ? createPageOrderFromProjectDocument(activeProject, activeProjectBindings)
+        : [],
+    [activeProject, activeProjectBindings]
+  );
+
   const effectiveExportSettings = useMemo(
     () =>
       activeProject
@@ -217,6 +229,7 @@ export const useProjectWorkspace = ({
     previewLogicalPage,
     previewCuts,
     effectiveExportCuts,
+    effectiveExportPageOrder,
     effectiveExportSettings,
   };
 };
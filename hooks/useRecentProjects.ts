@@ -0,0 +1,182 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { describeMaterialFiles, getMaterialFiles } from '../application/sessionAutosave';
+import { RecentProjectsNotice } from '../components/documentPreview/DocumentPreviewWelcome';
+import { ProjectDocument } from '../domain/project';
+import {
+  createProjectDownloadFileName,
+  serializeProjectDocument,
+} from '../repositories/projectRepository';
+import {
+  createRecentProjectId,
+  deleteRecentProject,
+  listRecentProjects,
+  RecentProject,
+  saveRecentProject,
+} from '../repositories/recentProjectRepository';
+import { DocType, PdfSource } from '../types';
+import { normalizeError } from '../utils/debugData';
+
+type DebugLogData = unknown | (() => unknown);
+
+interface UseRecentProjectsOptions {
+  docType: DocType | null;
+  pdfFile: File | null;
+  pdfSources: PdfSource[];
+  imageFiles: File[];
+  importFiles: (files: File[]) => Promise<void>;
+  logDebug: (level: 'info' | 'warn' | 'error', message: string, data?: DebugLogData) => void;
+}
+
+const isQuotaExceededError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+// Files read back from IndexedDB are new objects, so material is compared by what the files are
+const isSameMaterial = (left: File[], right: File[]) =>
+  left.length === right.length &&
+  left.every(
+    (file, index) =>
+      file.name === right[index].name &&
+      file.size === right[index].size &&
+      file.lastModified === right[index].lastModified
+  );
+
+/**
+ * The entry the workspace saves into. Projects are often left with the default name, so entries are
+ * not keyed by name: the id is kept while the same material stays loaded, and material is null
+ * when a reopened entry had none cached and adopts whatever is loaded next.
+ */
+interface ActiveRecentProject {
+  id: string;
+  materialFiles: File[] | null;
+  isMaterialCached: boolean;
+}
+
+/**
+ * Remembers saved projects together with their material, so a workspace reopens in one click.
+ * Reopening imports the cached files and the project as if they were dropped together.
+ */
+export const useRecentProjects = ({
+  docType,
+  pdfFile,
+  pdfSources,
+  imageFiles,
+  importFiles,
+  logDebug,
+}: UseRecentProjectsOptions) => {
+  const [recentProjects, setRecentProjects] = useState<RecentProject[]>([]);
+  const activeRecentProjectRef = useRef<ActiveRecentProject | null>(null);
+
+  const refreshRecentProjects = useCallback(
+    () =>
+      listRecentProjects()
+        .then(setRecentProjects)
+        .catch((error) => {
+          logDebug('warn', '最近のプロジェクトの読込失敗', () => ({ error: normalizeError(error) }));
+        }),
+    [logDebug]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    listRecentProjects()
+      .then((projects) => {
+        if (!cancelled) setRecentProjects(projects);
+      })
+      .catch((error) => {
+        logDebug('warn', '最近のプロジェクトの読込失敗', () => ({ error: normalizeError(error) }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [logDebug]);
+
+  const recordRecentProject = useCallback(async (project: ProjectDocument) => {
+    const materialFiles = getMaterialFiles(docType, pdfFile, pdfSources, imageFiles);
+    const active = activeRecentProjectRef.current;
+    const isSameWorkspace =
+      !!active && (active.materialFiles === null || isSameMaterial(active.materialFiles, materialFiles));
+    const shouldWriteMaterial = !isSameWorkspace || !active.isMaterialCached;
+    const entry = {
+      id: isSameWorkspace ? active.id : createRecentProjectId(),
+      name: project.meta.name,
+      savedAt: project.meta.savedAt,
+      serializedProject: serializeProjectDocument(project),
+    };
+    activeRecentProjectRef.current = { id: entry.id, materialFiles, isMaterialCached: true };
+
+    try {
+      await saveRecentProject(entry, shouldWriteMaterial ? materialFiles : undefined);
+    } catch (error) {
+      if (!isQuotaExceededError(error)) {
+        logDebug('warn', '最近のプロジェクトの保存失敗', () => ({ error: normalizeError(error) }));
+        return;
+      }
+      // Material too large to cache: the project is still listed and its material is chosen again on reopen
+      logDebug('warn', '最近のプロジェクトの素材を保存できません', () => ({
+        files: describeMaterialFiles(materialFiles),
+      }));
+      activeRecentProjectRef.current = { id: entry.id, materialFiles, isMaterialCached: false };
+      try {
+        await saveRecentProject(entry, []);
+      } catch (retryError) {
+        logDebug('warn', '最近のプロジェクトの保存失敗', () => ({ error: normalizeError(retryError) }));
+        return;
+      }
+    }
+    await refreshRecentProjects();
+  }, [docType, imageFiles, logDebug, pdfFile, pdfSources, refreshRecentProjects]);
+
+  const openRecentProject = useCallback(async (id: string) => {
+    const entry = recentProjects.find((candidate) => candidate.id === id);
+    if (!entry) return;
+
+    const projectFile = new File(
+      [entry.serializedProject],
+      createProjectDownloadFileName(entry.name),
+      { type: 'application/json' }
+    );
+    logDebug('info', '最近のプロジェクトを開く', () => ({
+      name: entry.name,
+      files: describeMaterialFiles(entry.materialFiles),
+    }));
+    await importFiles([...entry.materialFiles, projectFile]);
+    activeRecentProjectRef.current = {
+      id: entry.id,
+      materialFiles: entry.materialFiles.length > 0 ? entry.materialFiles : null,
+      isMaterialCached: entry.materialFiles.length > 0,
+    };
+  }, [importFiles, logDebug, recentProjects]);
+
+  const removeRecentProject = useCallback(async (id: string) => {
+    setRecentProjects((current) => current.filter((entry) => entry.id !== id));
+    if (activeRecentProjectRef.current?.id === id) {
+      activeRecentProjectRef.current = null;
+    }
+    try {
+      await deleteRecentProject(id);
+    } catch (error) {
+      logDebug('warn', '最近のプロジェクトの削除失敗', () => ({ error: normalizeError(error) }));
+    }
+  }, [logDebug]);
+
+  const recentProjectsNotice = useMemo((): RecentProjectsNotice | null => {
+    if (recentProjects.length === 0) return null;
+
+    return {
+      projects: recentProjects.map((entry) => ({
+        id: entry.id,
+        name: entry.name,
+        savedAt: entry.savedAt,
+        materialFiles: describeMaterialFiles(entry.materialFiles),
+      })),
+      onOpen: openRecentProject,
+      onRemove: removeRecentProject,
+    };
+  }, [openRecentProject, recentProjects, removeRecentProject]);
+
+  return {
+    recentProjects: recentProjectsNotice,
+    recordRecentProject,
+  };
+};
@@ -0,0 +1,211 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { CurrentProjectSessionPresent } from '../application/currentProjectSessionState';
+import { HistoryState } from '../application/history';
+import {
+  AutosavedMaterial,
+  AutosavedSession,
+  compareAutosavedMaterial,
+  createAutosavedSession,
+  createEditorHistoryFromCurrentSession,
+  describeMaterialFiles,
+  getMaterialFiles,
+  hasAutosavableWork,
+  restoreAutosavedHistory,
+  summarizeAutosavedSession,
+} from '../application/sessionAutosave';
+import { SessionRecoveryNotice } from '../components/documentPreview/DocumentPreviewWelcome';
+import { AssetHint, EditorState } from '../domain/project';
+import {
+  clearAutosavedSession,
+  loadAutosavedSession,
+  saveAutosavedSession,
+} from '../repositories/sessionAutosaveRepository';
+import { DocType, PdfSource } from '../types';
+import { normalizeError } from '../utils/debugData';
+
+type DebugLogData = unknown | (() => unknown);
+
+// Long enough to batch a drag or a burst of placements into one write
+const AUTOSAVE_DELAY_MS = 1000;
+
+interface UseSessionAutosaveOptions {
+  docType: DocType | null;
+  pdfFile: File | null;
+  pdfSources: PdfSource[];
+  imageFiles: File[];
+  currentAssetHints: AssetHint[];
+  currentProjectHistory: HistoryState<CurrentProjectSessionPresent>;
+  loadedProjectHistory: HistoryState<EditorState> | null;
+  restoreLoadedProjectHistory: (history: HistoryState<EditorState>) => void;
+  resetLoadedProjectBindings: () => void;
+  logDebug: (level: 'info' | 'warn' | 'error', message: string, data?: DebugLogData) => void;
+}
+
+/**
+ * Keeps the working session in IndexedDB so a crash or reload does not lose it, and offers the
+ * last one back on startup; autosave waits until that offer is answered. A restored session opens
+ * in the project editor; once the material is loaded again its bindings are kept if the files are
+ * the same and re-suggested otherwise.
+ */
+export const useSessionAutosave = ({
+  docType,
+  pdfFile,
+  pdfSources,
+  imageFiles,
+  currentAssetHints,
+  currentProjectHistory,
+  loadedProjectHistory,
+  restoreLoadedProjectHistory,
+  resetLoadedProjectBindings,
+  logDebug,
+}: UseSessionAutosaveOptions) => {
+  const [isInitialized, setIsInitialized] = useState(false);
+  const [restorableSession, setRestorableSession] = useState<AutosavedSession | null>(null);
+  const [awaitedMaterial, setAwaitedMaterial] = useState<AutosavedMaterial | null>(null);
+  const flushRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAutosavedSession()
+      .then((session) => {
+        if (!cancelled) setRestorableSession(session);
+      })
+      .catch((error) => {
+        logDebug('warn', '自動保存の読込失敗', () => ({ error: normalizeError(error) }));
+      })
+      .finally(() => {
+        if (!cancelled) setIsInitialized(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [logDebug]);
+
+  const materialFiles = useMemo(
+    () => getMaterialFiles(docType, pdfFile, pdfSources, imageFiles),
+    [docType, imageFiles, pdfFile, pdfSources]
+  );
+
+  const sessionHistory = useMemo(
+    () =>
+      loadedProjectHistory ??
+      createEditorHistoryFromCurrentSession(currentProjectHistory, currentAssetHints.length),
+    [currentAssetHints.length, currentProjectHistory, loadedProjectHistory]
+  );
+  const hasWork = hasAutosavableWork(sessionHistory, !!loadedProjectHistory);
+
+  useEffect(() => {
+    // Nothing is written until the offered session is restored or discarded, so new work never replaces it
+    if (!isInitialized || restorableSession || !sessionHistory || !hasWork) return;
+
+    // Until the restored session's material is loaded again, keep remembering what it was
+    const material =
+      docType && materialFiles.length > 0
+        ? { docType, files: describeMaterialFiles(materialFiles), assets: currentAssetHints }
+        : awaitedMaterial;
+
+    const save = () => {
+      // Already written when the page was hidden
+      if (flushRef.current !== save) return;
+      flushRef.current = null;
+      saveAutosavedSession(createAutosavedSession(sessionHistory, material)).catch((error) => {
+        logDebug('warn', '自動保存失敗', () => ({ error: normalizeError(error) }));
+      });
+    };
+
+    flushRef.current = save;
+    const timer = window.setTimeout(save, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [
+    awaitedMaterial,
+    currentAssetHints,
+    docType,
+    hasWork,
+    isInitialized,
+    logDebug,
+    materialFiles,
+    restorableSession,
+    sessionHistory,
+  ]);
+
+  // A reload within the debounce window would otherwise lose the last change. Hiding the page is
+  // the last moment the browser reliably lets the write run; pagehide is only a final attempt,
+  // since the unloading page need not finish the transaction it starts
+  useEffect(() => {
+    const flush = () => flushRef.current?.();
+    const flushWhenHidden = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', flushWhenHidden);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', flushWhenHidden);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!awaitedMaterial || !loadedProjectHistory) return;
+
+    const comparison = compareAutosavedMaterial(awaitedMaterial, materialFiles, currentAssetHints);
+    if (comparison === 'pending') return;
+
+    let cancelled = false;
+    queueMicrotask(() => {
+      if (cancelled) return;
+      if (comparison === 'different') {
+        resetLoadedProjectBindings();
+      }
+      setAwaitedMaterial(null);
+      logDebug('info', '自動保存の素材照合', () => ({
+        comparison,
+        files: describeMaterialFiles(materialFiles),
+      }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    awaitedMaterial,
+    currentAssetHints,
+    loadedProjectHistory,
+    logDebug,
+    materialFiles,
+    resetLoadedProjectBindings,
+  ]);
+
+  const restoreSession = useCallback(() => {
+    if (!restorableSession) return;
+
+    restoreLoadedProjectHistory(restoreAutosavedHistory(restorableSession));
+    setAwaitedMaterial(restorableSession.material);
+    setRestorableSession(null);
+    logDebug('info', '自動保存から復元', () => summarizeAutosavedSession(restorableSession));
+  }, [logDebug, restorableSession, restoreLoadedProjectHistory]);
+
+  const discardSession = useCallback(() => {
+    setRestorableSession(null);
+    clearAutosavedSession().catch((error) => {
+      logDebug('warn', '自動保存の削除失敗', () => ({ error: normalizeError(error) }));
+    });
+  }, [logDebug]);
+
+  const sessionRecovery = useMemo((): SessionRecoveryNotice | null => {
+    if (restorableSession) {
+      return {
+        status: 'available',
+        summary: summarizeAutosavedSession(restorableSession),
+        onRestore: restoreSession,
+        onDiscard: discardSession,
+      };
+    }
+    if (awaitedMaterial && materialFiles.length === 0) {
+      return { status: 'awaiting-material', materialFiles: awaitedMaterial.files };
+    }
+    return null;
+  }, [awaitedMaterial, discardSession, materialFiles.length, restorableSession, restoreSession]);
+
+  return { sessionRecovery };
+};
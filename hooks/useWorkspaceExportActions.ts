@@ -1,7 +1,33 @@
-import { useCallback } from 'react';
-import { saveMarkedPdf, saveImagesAsPdf } from '../services/pdfService';
-import { exportImagesAsZip } from '../services/imageExportService';
-import { AppSettings, Cut, DocType } from '../types';
+import { useCallback, useRef, useState } from 'react';
+import {
+  arrangeCutsByPageOrder,
+  isMergedPageOrder,
+  splitCutsByPdfSource,
+  toMarkedPdfSourceName,
+} from '../application/pdfSources';
+import {
+  runImagesPdfExport,
+  runImagesZipExport,
+  runMarkedPdfExport,
+  runPdfPagesZipExport,
+} from '../services/exportRunner';
+import { arrangePdfPages, hasDroppedRestrictions, isRewrittenOnImport } from '../services/pdfImport';
+import { isPdfPageEncodeError } from '../services/pdfPageExportService';
+import { ExportTaskOptions, isAbortError } from '../services/exportTask';
+import { isEncryptedPdfExportError } from '../services/pdfSecurityHandler';
+import { ProjectDocument } from '../domain/project';
+import {
+  AppSettings,
+  Cut,
+  DocType,
+  ExportProgress,
+  ImageExportOptions,
+  PdfImageExportOptions,
+  PdfMarkMode,
+  PdfSource,
+  PdfSourceExportMode,
+  PdfWriteMode,
+} from '../types';
 import { normalizeError } from '../utils/debugData';
 
 type DebugLogData = unknown | (() => unknown);
@@ -9,13 +35,22 @@ type DebugLogData = unknown | (() => unknown);
 interface UseWorkspaceExportActionsOptions {
   docType: DocType | null;
   pdfFile: File | null;
+  pdfSources: PdfSource[];
   imageFiles: File[];
   effectiveExportCuts: Cut[];
+  // Merged page indices in the order the project's pages are bound to them
+  effectiveExportPageOrder: number[];
   effectiveExportSettings: AppSettings;
   isLoadedProjectActive: boolean;
   canApplyLoadedProject: boolean;
   exportProjectFile: () => void;
+  resolveProjectForExport: () => ProjectDocument | null;
   includeProjectFileOnExport: boolean;
+  pdfMarkMode: PdfMarkMode;
+  pdfWriteMode: PdfWriteMode;
+  pdfSourceExportMode: PdfSourceExportMode;
+  pdfImageExportOptions: PdfImageExportOptions;
+  imageExportOptions: ImageExportOptions;
   setIsExporting: (next: boolean) => void;
   logDebug: (level: 'info' | 'warn' | 'error', message: string, data?: DebugLogData) => void;
 }
@@ -34,41 +69,168 @@ const downloadBlob = (blob: Blob, filename: string) => {
 export const useWorkspaceExportActions = ({
   docType,
   pdfFile,
+  pdfSources,
   imageFiles,
   effectiveExportCuts,
+  effectiveExportPageOrder,
   effectiveExportSettings,
   isLoadedProjectActive,
   canApplyLoadedProject,
   exportProjectFile,
+  resolveProjectForExport,
   includeProjectFileOnExport,
+  pdfMarkMode,
+  pdfWriteMode,
+  pdfSourceExportMode,
+  pdfImageExportOptions,
+  imageExportOptions,
   setIsExporting,
   logDebug,
 }: UseWorkspaceExportActionsOptions) => {
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const beginExportTask = useCallback((): ExportTaskOptions & { signal: AbortSignal } => {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    abortControllerRef.current = controller;
+    setExportProgress({ current: 0, total: 0, startedAt, isCancelling: false });
+
+    return {
+      signal: controller.signal,
+      onProgress: (current, total) => {
+        setExportProgress((prev) => ({
+          current,
+          total,
+          startedAt,
+          isCancelling: prev?.isCancelling ?? false,
+        }));
+      },
+    };
+  }, []);
+
+  const endExportTask = useCallback(() => {
+    abortControllerRef.current = null;
+    setExportProgress(null);
+  }, []);
+
+  const cancelExport = useCallback(() => {
+    if (!abortControllerRef.current) return;
+    abortControllerRef.current.abort();
+    setExportProgress((prev) => (prev ? { ...prev, isCancelling: true } : prev));
+  }, []);
+
+  // Decrypting dropped the print or edit restrictions of the original, and no export puts them back
+  const confirmDroppedRestrictions = useCallback(() => {
+    const files = [pdfFile, ...pdfSources.map(({ file }) => file)];
+    if (docType !== 'pdf' || !files.some((file) => file && hasDroppedRestrictions(file))) {
+      return true;
+    }
+    if (
+      window.confirm(
+        'このPDFには印刷や編集などの制限が設定されていましたが、書き出すファイルには引き継がれません。書き出しますか？'
+      )
+    ) {
+      return true;
+    }
+    logDebug('info', '制限付きPDFの書き出しを中止');
+    return false;
+  }, [docType, logDebug, pdfFile, pdfSources]);
+
   const handleExportPdf = useCallback(async () => {
     if (isLoadedProjectActive && !canApplyLoadedProject) {
       alert('カット番号ページの割付を完了してから書き出してください');
       return;
     }
 
+    if (!confirmDroppedRestrictions()) return;
+
     setIsExporting(true);
+    const task = beginExportTask();
     try {
-      let pdfBytes: Uint8Array;
-      let filename = 'marked.pdf';
-
-      if (docType === 'pdf' && pdfFile) {
-        filename = `marked_${pdfFile.name}`;
-        logDebug('info', 'PDF書き出し開始', () => ({ mode: 'pdf', filename }));
-        const arrayBuffer = await pdfFile.arrayBuffer();
-        pdfBytes = await saveMarkedPdf(arrayBuffer, effectiveExportCuts, effectiveExportSettings);
+      const outputs: Array<{ pdfBytes: Uint8Array; filename: string }> = [];
+      // Merged storyboards are written in bound page order, so a scan bound in place of a page replaces it
+      const pageOrder =
+        isLoadedProjectActive &&
+        pdfSources.length > 1 &&
+        effectiveExportPageOrder.length > 0 &&
+        !isMergedPageOrder(effectiveExportPageOrder, pdfSources)
+          ? effectiveExportPageOrder
+          : null;
+      // A copy rewritten on import has none of the original bytes left to append to
+      const getWriteMode = (file: File): PdfWriteMode =>
+        isRewrittenOnImport(file) ? 'rewrite' : pdfWriteMode;
+      const logRewriteFallback = (filename: string) => (reason: string) =>
+        logDebug('warn', 'PDFに追記できないため全体を書き直し', () => ({ filename, reason }));
+
+      if (docType === 'pdf' && pdfFile && pdfSourceExportMode === 'per-source' && pdfSources.length > 1) {
+        logDebug('info', 'PDF書き出し開始', () => ({
+          mode: 'pdf-sources',
+          sources: pdfSources.map(({ kind, file }) => ({ kind, name: file.name })),
+          markMode: pdfMarkMode,
+          writeMode: pdfWriteMode,
+          ...(pageOrder ? { pageOrder } : {}),
+        }));
+        const sourceCuts = splitCutsByPdfSource(effectiveExportCuts, pdfSources, pageOrder);
+        const totalPages = sourceCuts.reduce((total, { pageCount }) => total + pageCount, 0);
+        for (const { source, pageOffset, mergedPages, cuts } of sourceCuts) {
+          // The project covers the whole merged storyboard, so no single part carries it
+          const sourceTask = {
+            signal: task.signal,
+            onProgress: (current: number) => task.onProgress?.(pageOffset + current, totalPages),
+            markMode: pdfMarkMode,
+          };
+          const filename = toMarkedPdfSourceName(source);
+          const exportFile = mergedPages ? await arrangePdfPages(pdfFile, mergedPages) : source.file;
+          const pdfBytes =
+            source.kind === 'image' && !mergedPages
+              ? await runImagesPdfExport([source.file], cuts, effectiveExportSettings, sourceTask)
+              : await runMarkedPdfExport(exportFile, cuts, effectiveExportSettings, {
+                  ...sourceTask,
+                  writeMode: getWriteMode(exportFile),
+                  onRewriteFallback: logRewriteFallback(filename),
+                });
+          outputs.push({ pdfBytes, filename });
+        }
+      } else if (docType === 'pdf' && pdfFile) {
+        const filename = `marked_${pdfFile.name}`;
+        logDebug('info', 'PDF書き出し開始', () => ({
+          mode: 'pdf',
+          filename,
+          markMode: pdfMarkMode,
+          writeMode: getWriteMode(pdfFile),
+          ...(pageOrder ? { pageOrder } : {}),
+        }));
+        const exportFile = pageOrder ? await arrangePdfPages(pdfFile, pageOrder) : pdfFile;
+        const exportCuts = pageOrder
+          ? arrangeCutsByPageOrder(effectiveExportCuts, pageOrder)
+          : effectiveExportCuts;
+        const pdfBytes = await runMarkedPdfExport(exportFile, exportCuts, effectiveExportSettings, {
+          ...task,
+          markMode: pdfMarkMode,
+          writeMode: getWriteMode(pdfFile),
+          onRewriteFallback: logRewriteFallback(filename),
+          project: resolveProjectForExport(),
+        });
+        outputs.push({ pdfBytes, filename });
       } else if (docType === 'images' && imageFiles.length > 0) {
-        filename = 'marked_images.pdf';
-        logDebug('info', 'PDF書き出し開始', () => ({ mode: 'images', filename }));
-        pdfBytes = await saveImagesAsPdf(imageFiles, effectiveExportCuts, effectiveExportSettings);
+        const filename = 'marked_images.pdf';
+        logDebug('info', 'PDF書き出し開始', () => ({ mode: 'images', filename, markMode: pdfMarkMode }));
+        const pdfBytes = await runImagesPdfExport(imageFiles, effectiveExportCuts, effectiveExportSettings, {
+          ...task,
+          markMode: pdfMarkMode,
+          project: resolveProjectForExport(),
+        });
+        outputs.push({ pdfBytes, filename });
       } else {
         return;
       }
 
-      downloadBlob(new Blob([pdfBytes], { type: 'application/pdf' }), filename);
+      task.signal.throwIfAborted();
+      for (const { pdfBytes, filename } of outputs) {
+        downloadBlob(new Blob([pdfBytes], { type: 'application/pdf' }), filename);
+      }
+      const filename = outputs.map((output) => output.filename).join(', ');
 
       if (includeProjectFileOnExport) {
         exportProjectFile();
@@ -77,29 +239,48 @@ export const useWorkspaceExportActions = ({
 
       logDebug('info', 'PDF書き出し完了', () => ({ filename }));
     } catch (error) {
+      if (task.signal.aborted || isAbortError(error)) {
+        logDebug('info', 'PDF書き出しキャンセル');
+        return;
+      }
       console.error(error);
-      alert('PDF書き出し中にエラーが発生しました');
+      alert(
+        isEncryptedPdfExportError(error)
+          ? 'このPDFは暗号化されていて、カット番号を書き込める形に復号できませんでした。保護を解除したPDFを読み込み直すか、連番画像(ZIP)で書き出してください。'
+          : 'PDF書き出し中にエラーが発生しました'
+      );
       logDebug('error', 'PDF書き出し失敗', () => ({ error: normalizeError(error) }));
     } finally {
+      endExportTask();
       setIsExporting(false);
     }
   }, [
+    beginExportTask,
     canApplyLoadedProject,
+    confirmDroppedRestrictions,
     docType,
     effectiveExportCuts,
+    effectiveExportPageOrder,
     effectiveExportSettings,
+    endExportTask,
     exportProjectFile,
     imageFiles,
     includeProjectFileOnExport,
     isLoadedProjectActive,
     logDebug,
     pdfFile,
+    pdfMarkMode,
+    pdfSourceExportMode,
+    pdfSources,
+    pdfWriteMode,
+    resolveProjectForExport,
     setIsExporting,
   ]);
 
   const handleExportImages = useCallback(async () => {
-    if (docType !== 'images' || imageFiles.length === 0) {
-      alert('画像の書き出しは連番画像モードでのみ利用可能です（PDFからの画像化は未対応）');
+    const isPdfSource = docType === 'pdf' && pdfFile !== null;
+    if (!isPdfSource && (docType !== 'images' || imageFiles.length === 0)) {
+      alert('先にPDFまたは画像を読み込んでください');
       logDebug('warn', '画像書き出し不可', () => ({ docType, imageCount: imageFiles.length }));
       return;
     }
@@ -109,14 +290,34 @@ export const useWorkspaceExportActions = ({
       return;
     }
 
+    if (!confirmDroppedRestrictions()) return;
+
     setIsExporting(true);
+    const task = beginExportTask();
     try {
-      logDebug('info', '画像書き出し開始', () => ({ imageCount: imageFiles.length }));
-      const didExport = await exportImagesAsZip(imageFiles, effectiveExportCuts, effectiveExportSettings, (current, total) => {
-        console.log(`Processing ${current}/${total}`);
-      });
+      let didExport: boolean;
+
+      if (isPdfSource) {
+        logDebug('info', '画像書き出し開始', () => ({ mode: 'pdf', ...pdfImageExportOptions }));
+        didExport = await runPdfPagesZipExport(
+          pdfFile,
+          effectiveExportCuts,
+          effectiveExportSettings,
+          pdfImageExportOptions,
+          task
+        );
+      } else {
+        logDebug('info', '画像書き出し開始', () => ({ imageCount: imageFiles.length, ...imageExportOptions }));
+        didExport = await runImagesZipExport(
+          imageFiles,
+          effectiveExportCuts,
+          effectiveExportSettings,
+          imageExportOptions,
+          task
+        );
+      }
 
-      if (didExport === false) {
+      if (didExport === false || task.signal.aborted) {
         logDebug('info', '画像書き出しキャンセル');
         return;
       }
@@ -128,27 +329,44 @@ export const useWorkspaceExportActions = ({
 
       logDebug('info', '画像書き出し完了');
     } catch (error) {
+      if (task.signal.aborted || isAbortError(error)) {
+        logDebug('info', '画像書き出しキャンセル');
+        return;
+      }
       console.error(error);
-      alert('画像書き出し中にエラーが発生しました');
+      alert(
+        isPdfPageEncodeError(error)
+          ? 'ページを画像に変換できなかったため、書き出しを中止しました。DPIまたは最大長辺を下げて再度お試しください。'
+          : '画像書き出し中にエラーが発生しました'
+      );
       logDebug('error', '画像書き出し失敗', () => ({ error: normalizeError(error) }));
     } finally {
+      endExportTask();
       setIsExporting(false);
     }
   }, [
+    beginExportTask,
     canApplyLoadedProject,
+    confirmDroppedRestrictions,
     docType,
     effectiveExportCuts,
     effectiveExportSettings,
+    endExportTask,
     exportProjectFile,
+    imageExportOptions,
     imageFiles,
     includeProjectFileOnExport,
     isLoadedProjectActive,
     logDebug,
+    pdfFile,
+    pdfImageExportOptions,
     setIsExporting,
   ]);
 
   return {
     handleExportPdf,
     handleExportImages,
+    exportProgress,
+    cancelExport,
   };
 };
@@ -1,7 +1,18 @@
 import type { DragEvent } from 'react';
 import { useWorkspaceImportActions } from './useWorkspaceImportActions';
 import { useWorkspaceExportActions } from './useWorkspaceExportActions';
-import { AppSettings, Cut, DocType } from '../types';
+import { ProjectDocument } from '../domain/project';
+import {
+  AppSettings,
+  Cut,
+  DocType,
+  ImageExportOptions,
+  PdfImageExportOptions,
+  PdfMarkMode,
+  PdfSource,
+  PdfSourceExportMode,
+  PdfWriteMode,
+} from '../types';
 import type { ProjectImportContext } from './useProjectLifecycle';
 export {
   classifyImportFiles,
@@ -11,16 +22,24 @@ export {
 interface UseWorkspaceFileActionsOptions {
   docType: DocType | null;
   pdfFile: File | null;
+  pdfSources: PdfSource[];
   imageFiles: File[];
   effectiveExportCuts: Cut[];
+  effectiveExportPageOrder: number[];
   effectiveExportSettings: AppSettings;
   isLoadedProjectActive: boolean;
   canApplyLoadedProject: boolean;
-  loadPdf: (file: File) => void;
+  loadPdf: (file: File, sources?: PdfSource[]) => void;
   loadImages: (files: File[]) => void;
   loadProjectFile: (file: File, importContext?: ProjectImportContext) => Promise<void>;
   exportProjectFile: () => void;
+  resolveProjectForExport: () => ProjectDocument | null;
   includeProjectFileOnExport: boolean;
+  pdfMarkMode: PdfMarkMode;
+  pdfWriteMode: PdfWriteMode;
+  pdfSourceExportMode: PdfSourceExportMode;
+  pdfImageExportOptions: PdfImageExportOptions;
+  imageExportOptions: ImageExportOptions;
   onDrop: (e: DragEvent<HTMLDivElement>) => void;
   setIsExporting: (next: boolean) => void;
   logDebug: (level: 'info' | 'warn' | 'error', message: string, data?: DebugLogData) => void;
@@ -30,8 +49,10 @@ type DebugLogData = unknown | (() => unknown);
 export const useWorkspaceFileActions = ({
   docType,
   pdfFile,
+  pdfSources,
   imageFiles,
   effectiveExportCuts,
+  effectiveExportPageOrder,
   effectiveExportSettings,
   isLoadedProjectActive,
   canApplyLoadedProject,
@@ -39,12 +60,23 @@ export const useWorkspaceFileActions = ({
   loadImages,
   loadProjectFile,
   exportProjectFile,
+  resolveProjectForExport,
   includeProjectFileOnExport,
+  pdfMarkMode,
+  pdfWriteMode,
+  pdfSourceExportMode,
+  pdfImageExportOptions,
+  imageExportOptions,
   onDrop,
   setIsExporting,
   logDebug,
 }: UseWorkspaceFileActionsOptions) => {
-  const { onImportFilesSelected, onFileDropped } = useWorkspaceImportActions({
+  const {
+    importFiles,
+    onImportFilesSelected,
+    onFileDropped,
+    pdfPasswordRequest,
+  } = useWorkspaceImportActions({
     loadPdf,
     loadImages,
     loadProjectFile,
@@ -52,24 +84,41 @@ export const useWorkspaceFileActions = ({
     logDebug,
   });
 
-  const { handleExportPdf, handleExportImages } = useWorkspaceExportActions({
+  const {
+    handleExportPdf,
+    handleExportImages,
+    exportProgress,
+    cancelExport,
+  } = useWorkspaceExportActions({
     docType,
     pdfFile,
+    pdfSources,
     imageFiles,
     effectiveExportCuts,
+    effectiveExportPageOrder,
     effectiveExportSettings,
     isLoadedProjectActive,
     canApplyLoadedProject,
     exportProjectFile,
+    resolveProjectForExport,
     includeProjectFileOnExport,
+    pdfMarkMode,
+    pdfWriteMode,
+    pdfSourceExportMode,
+    pdfImageExportOptions,
+    imageExportOptions,
     setIsExporting,
     logDebug,
   });
 
   return {
+    importFiles,
     onImportFilesSelected,
     onFileDropped,
+    pdfPasswordRequest,
     handleExportPdf,
     handleExportImages,
+    exportProgress,
+    cancelExport,
   };
 };
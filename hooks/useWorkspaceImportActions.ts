@@ -1,10 +1,28 @@
-import { ChangeEvent, DragEvent, useCallback } from 'react';
+import { ChangeEvent, DragEvent, useCallback, useState } from 'react';
 import {
+  canRecoverEmbeddedProject,
   classifyImportFiles,
   createProjectImportContextFromPlan,
   createWorkspaceImportPlan,
+  detectEncryptedPdf,
+  isZipFile,
+  listPdfMergeSources,
+  needsPdfMerge,
+  withImportPath,
+  WorkspaceImportPlan,
   WorkspaceImportValidationError,
 } from '../application/workspaceImport';
+import {
+  mergeSourceFiles,
+  PdfPasswordCancelledError,
+  preparePdfImport,
+  PreparedPdfImport,
+  unlockEncryptedPdf,
+  UnlockedPdf,
+} from '../services/pdfImport';
+import { PdfPasswordRequest } from '../components/PdfPasswordDialog';
+import { readZipArchive } from '../services/zipArchive';
+import { PdfMergeSource, PdfSource } from '../types';
 import { normalizeError, toFileInfo } from '../utils/debugData';
 import type { ProjectImportContext } from './useProjectLifecycle';
 
@@ -13,6 +31,7 @@ type DebugLogData = unknown | (() => unknown);
 const IMAGE_FILE_LOG_LIMIT = 30;
 
 type FileSystemEntry = {
+  name: string;
   isFile: boolean;
   isDirectory: boolean;
 };
@@ -36,7 +55,7 @@ type DataTransferItemWithEntry = DataTransferItem & {
 };
 
 interface UseWorkspaceImportActionsOptions {
-  loadPdf: (file: File) => void;
+  loadPdf: (file: File, sources?: PdfSource[]) => void;
   loadImages: (files: File[]) => void;
   loadProjectFile: (file: File, importContext?: ProjectImportContext) => Promise<void>;
   onDrop: (e: DragEvent<HTMLDivElement>) => void;
@@ -47,6 +66,9 @@ const isFileEntry = (entry: FileSystemEntry): entry is FileSystemFileEntry => en
 const isDirectoryEntry = (entry: FileSystemEntry): entry is FileSystemDirectoryEntry =>
   entry.isDirectory;
 
+const sortEntriesNaturally = (entries: FileSystemEntry[]) =>
+  [...entries].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+
 const readDroppedDirectoryEntries = async (reader: FileSystemDirectoryReader) => {
   const allEntries: FileSystemEntry[] = [];
 
@@ -87,38 +109,32 @@ const collectDroppedFiles = async (items: DataTransferItemList): Promise<File[]>
     return files;
   }
 
-  const files: File[] = [];
+  const readFileEntry = (entry: FileSystemFileEntry, path: string) =>
+    new Promise<File[]>((resolve) => {
+      entry.file((file) => resolve([withImportPath(file, path)]), () => resolve([]));
+    });
 
-  const readEntry = async (entry: FileSystemEntry): Promise<void> => {
+  // Folders are walked to any depth; each file keeps its path so the import sorts folder by folder
+  const readEntry = async (entry: FileSystemEntry, parentPath = ''): Promise<File[]> => {
+    const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
     if (isFileEntry(entry)) {
-      await new Promise<void>((resolve) => {
-        entry.file((file) => {
-          files.push(file);
-          resolve();
-        }, () => resolve());
-      });
-      return;
+      return readFileEntry(entry, path);
     }
 
     if (isDirectoryEntry(entry)) {
-      const childEntries = await readDroppedDirectoryEntries(entry.createReader());
+      const childEntries = sortEntriesNaturally(await readDroppedDirectoryEntries(entry.createReader()));
+      const files: File[] = [];
       for (const childEntry of childEntries) {
-        if (!isFileEntry(childEntry)) {
-          continue;
-        }
-
-        await new Promise<void>((resolve) => {
-          childEntry.file((file) => {
-            files.push(file);
-            resolve();
-          }, () => resolve());
-        });
+        files.push(...(await readEntry(childEntry, path)));
       }
+      return files;
     }
+
+    return [];
   };
 
-  await Promise.all(entries.map((entry) => readEntry(entry)));
-  return files;
+  const files = await Promise.all(sortEntriesNaturally(entries).map((entry) => readEntry(entry)));
+  return files.flat();
 };
 
 export const useWorkspaceImportActions = ({
@@ -128,6 +144,134 @@ export const useWorkspaceImportActions = ({
   onDrop,
   logDebug,
 }: UseWorkspaceImportActionsOptions) => {
+  const [pdfPasswordRequest, setPdfPasswordRequest] = useState<PdfPasswordRequest | null>(null);
+
+  // A PDF exported by CutMark earlier would otherwise show (and re-export) its old labels
+  const preparePdfFile = useCallback(async (pdfFile: File): Promise<PreparedPdfImport> => {
+    try {
+      const prepared = await preparePdfImport(pdfFile);
+      if (prepared.strippedPageCount > 0) {
+        logDebug('info', '既存のカット番号を除去', () => ({
+          pdfFile: toFileInfo(pdfFile),
+          strippedPageCount: prepared.strippedPageCount,
+        }));
+      }
+      return prepared;
+    } catch (error) {
+      logDebug('warn', '既存カット番号の確認をスキップ', () => ({
+        error: normalizeError(error),
+        pdfFile: toFileInfo(pdfFile),
+      }));
+      return { file: pdfFile, strippedPageCount: 0, embeddedProjectFile: null };
+    }
+  }, [logDebug]);
+
+  // Shown as a masked dialog; resolves with null when it is cancelled
+  const requestPdfPassword = useCallback(
+    (fileName: string, isRetry: boolean) =>
+      new Promise<string | null>((resolve) => {
+        const answer = (password: string | null) => {
+          setPdfPasswordRequest(null);
+          resolve(password);
+        };
+        setPdfPasswordRequest({
+          fileName,
+          isRetry,
+          onSubmit: answer,
+          onCancel: () => answer(null),
+        });
+      }),
+    []
+  );
+
+  // Everything downstream works on a decrypted copy, so the password is asked once, here
+  const unlockPdfFile = useCallback(async (pdfFile: File): Promise<UnlockedPdf> => {
+    if (!(await detectEncryptedPdf(pdfFile))) {
+      return { file: pdfFile, isDecrypted: true };
+    }
+
+    const unlocked = await unlockEncryptedPdf(pdfFile, (isRetry) =>
+      requestPdfPassword(pdfFile.name, isRetry)
+    );
+    if (unlocked.isDecrypted) {
+      logDebug('info', '暗号化PDFを復号', () => ({ pdfFile: toFileInfo(pdfFile) }));
+    } else {
+      logDebug('warn', '暗号化PDFを表示専用で読込', () => ({ pdfFile: toFileInfo(pdfFile) }));
+    }
+    return unlocked;
+  }, [logDebug, requestPdfPassword]);
+
+  // Each PDF is unlocked and cleaned on its own, so the sources kept for per-file export are plain too
+  const mergePlanSources = useCallback(async (rawPlan: WorkspaceImportPlan) => {
+    const preparedSources: PdfMergeSource[] = [];
+    for (const source of listPdfMergeSources(rawPlan)) {
+      if (source.kind === 'image') {
+        preparedSources.push(source);
+        continue;
+      }
+
+      const unlocked = await unlockPdfFile(source.file);
+      if (!unlocked.isDecrypted) {
+        throw new WorkspaceImportValidationError(
+          `「${source.file.name}」は暗号化を解除できないため、ほかのファイルとまとめて読み込めません。このPDFだけで読み込んでください。`
+        );
+      }
+      preparedSources.push({ ...source, file: (await preparePdfFile(unlocked.file)).file });
+    }
+
+    const merged = await mergeSourceFiles(preparedSources);
+    logDebug('info', '複数の素材を結合', () => ({
+      pdfFile: toFileInfo(merged.file),
+      sources: merged.sources.map(({ kind, file, pageCount }) => ({ kind, name: file.name, pageCount })),
+    }));
+    return { ...rawPlan, pdfFile: merged.file, pdfSources: merged.sources };
+  }, [logDebug, preparePdfFile, unlockPdfFile]);
+
+  const preparePlan = useCallback(async (rawPlan: WorkspaceImportPlan) => {
+    if (!rawPlan.pdfFile) {
+      return rawPlan;
+    }
+
+    if (needsPdfMerge(rawPlan)) {
+      return mergePlanSources(rawPlan);
+    }
+
+    const { file, embeddedProjectFile } = await preparePdfFile((await unlockPdfFile(rawPlan.pdfFile)).file);
+    const plan = { ...rawPlan, pdfFile: file };
+    if (
+      !embeddedProjectFile ||
+      !canRecoverEmbeddedProject(plan) ||
+      !window.confirm('この PDF には CutMark のプロジェクトが埋め込まれています。復元しますか？')
+    ) {
+      return plan;
+    }
+
+    logDebug('info', '埋め込みプロジェクトを復元', () => ({
+      projectFile: toFileInfo(embeddedProjectFile),
+      pdfFile: toFileInfo(file),
+    }));
+    return { ...plan, projectFile: embeddedProjectFile };
+  }, [logDebug, mergePlanSources, preparePdfFile, unlockPdfFile]);
+
+  // Image sets often arrive zipped; the archive is unpacked in the browser and its files imported as if chosen directly
+  const extractArchives = useCallback(async (selectedFiles: FileList | File[]) => {
+    const files: File[] = [];
+    for (const file of Array.from(selectedFiles)) {
+      if (!isZipFile(file)) {
+        files.push(file);
+        continue;
+      }
+
+      const extracted = await readZipArchive(file);
+      logDebug('info', 'ZIPを展開', () => ({
+        zipFile: toFileInfo(file),
+        fileCount: extracted.length,
+      }));
+      files.push(...extracted);
+    }
+    return files;
+  }, [logDebug]);
+
   const importFiles = useCallback(async (selectedFiles: FileList | File[]) => {
     try {
       if (!selectedFiles || selectedFiles.length === 0) {
@@ -135,7 +279,8 @@ export const useWorkspaceImportActions = ({
         return;
       }
 
-      const plan = createWorkspaceImportPlan(classifyImportFiles(selectedFiles));
+      const importedFiles = await extractArchives(selectedFiles);
+      const plan = await preparePlan(createWorkspaceImportPlan(classifyImportFiles(importedFiles)));
       let importContext: ProjectImportContext | undefined;
 
       if (plan.projectFile && plan.assetType !== 'none') {
@@ -143,7 +288,7 @@ export const useWorkspaceImportActions = ({
           importContext = await createProjectImportContextFromPlan(plan);
         } catch (error) {
           if (plan.assetType === 'pdf' && plan.pdfFile) {
-            loadPdf(plan.pdfFile);
+            loadPdf(plan.pdfFile, plan.pdfSources);
           } else if (plan.assetType === 'images' && plan.imageFiles.length > 0) {
             loadImages(plan.imageFiles);
           }
@@ -162,6 +307,7 @@ export const useWorkspaceImportActions = ({
       logDebug('info', '読み込み開始', () => ({
         projectFile: toFileInfo(plan.projectFile),
         pdfFile: toFileInfo(plan.pdfFile),
+        pdfSourceCount: plan.pdfSources.length,
         imageCount: plan.imageFiles.length,
         sampleImages: plan.imageFiles.slice(0, IMAGE_FILE_LOG_LIMIT).map((file) => file.name),
         truncated: plan.imageFiles.length > IMAGE_FILE_LOG_LIMIT,
@@ -169,7 +315,7 @@ export const useWorkspaceImportActions = ({
       }));
 
       if (plan.assetType === 'pdf' && plan.pdfFile) {
-        loadPdf(plan.pdfFile);
+        loadPdf(plan.pdfFile, plan.pdfSources);
       } else if (plan.assetType === 'images' && plan.imageFiles.length > 0) {
         loadImages(plan.imageFiles);
       }
@@ -184,6 +330,10 @@ export const useWorkspaceImportActions = ({
         }));
       }
     } catch (error) {
+      if (error instanceof PdfPasswordCancelledError) {
+        logDebug('info', 'PDFのパスワード入力キャンセル');
+        return;
+      }
       const isValidationError = error instanceof WorkspaceImportValidationError;
       const files = Array.from(selectedFiles);
       alert(isValidationError ? error.message : '読み込み中にエラーが発生しました');
@@ -192,7 +342,7 @@ export const useWorkspaceImportActions = ({
         files: files.map((file) => toFileInfo(file)),
       }));
     }
-  }, [loadImages, loadPdf, loadProjectFile, logDebug]);
+  }, [extractArchives, loadImages, loadPdf, loadProjectFile, logDebug, preparePlan]);
 
   const onImportFilesSelected = useCallback(async (e: ChangeEvent<HTMLInputElement>) => {
     try {
@@ -223,7 +373,9 @@ export const useWorkspaceImportActions = ({
   }, [importFiles, logDebug, onDrop]);
 
   return {
+    importFiles,
     onImportFilesSelected,
     onFileDropped,
+    pdfPasswordRequest,
   };
 };
@@ -102,6 +102,7 @@ export const useWorkspacePresentation = ({
         ...current,
         nextNumber: next.nextNumber,
         branchChar: next.branchChar,
+        sceneNumber: next.sceneNumber,
       }), { pushHistory: true });
       return;
     }
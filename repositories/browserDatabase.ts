@@ -0,0 +1,74 @@
+// Everything CutMark keeps between visits lives in this one database, one object store per kind
+const DATABASE_NAME = 'cutmark';
+const DATABASE_VERSION = 4;
+
+export const AUTOSAVE_STORE = 'autosave';
+export const RECENT_PROJECTS_STORE = 'recent-projects';
+export const RECENT_PROJECT_MATERIAL_STORE = 'recent-project-material';
+export const RECENT_PROJECT_FONTS_STORE = 'recent-project-fonts';
+
+// Stores added by later versions are created when an older database is upgraded
+const STORES = [
+  AUTOSAVE_STORE,
+  RECENT_PROJECTS_STORE,
+  RECENT_PROJECT_MATERIAL_STORE,
+  RECENT_PROJECT_FONTS_STORE,
+];
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+  request.onupgradeneeded = () => {
+    STORES.filter((store) => !request.result.objectStoreNames.contains(store)).forEach((store) =>
+      request.result.createObjectStore(store)
+    );
+  };
+  return toPromise(request);
+};
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const database = await openDatabase();
+  try {
+    const transaction = database.transaction(storeName, mode);
+    // Writes are only durable once the transaction completes, not when the request succeeds
+    const completed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const [result] = await Promise.all([toPromise(run(transaction.objectStore(storeName))), completed]);
+    return result;
+  } finally {
+    database.close();
+  }
+};
+
+export const readStoredValue = async (storeName: string, key: string): Promise<unknown> =>
+  withStore(storeName, 'readonly', (store) => store.get(key));
+
+export const readAllStoredValues = async (storeName: string): Promise<unknown[]> =>
+  withStore(storeName, 'readonly', (store) => store.getAll());
+
+export const readAllStoredKeys = async (storeName: string): Promise<IDBValidKey[]> =>
+  withStore(storeName, 'readonly', (store) => store.getAllKeys());
+
+export const writeStoredValue = async (storeName: string, key: string, value: unknown) => {
+  await withStore(storeName, 'readwrite', (store) => store.put(value, key));
+};
+
+export const deleteStoredValue = async (storeName: string, key: string) => {
+  await withStore(storeName, 'readwrite', (store) => store.delete(key));
+};
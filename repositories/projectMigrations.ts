@@ -0,0 +1,103 @@
+import { DEFAULT_CUT_LABEL_FORMAT } from '../domain/numbering';
+import { CURRENT_PROJECT_VERSION, OLDEST_PROJECT_VERSION, ProjectDocument } from '../domain/project';
+
+export type SerializedProjectDocument = Record<string, unknown>;
+
+interface ProjectMigration {
+  // The version this migration reads; it writes the next one
+  from: number;
+  upgrade: (project: SerializedProjectDocument) => SerializedProjectDocument;
+  // Rewrites a document of the next version so that builds which only know `from` can open it
+  downgrade: (project: SerializedProjectDocument) => SerializedProjectDocument;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// The first label format builds kept the scene number inside the label format
+const moveSceneNumberOutOfLabelFormat = (numbering: Record<string, unknown>) => {
+  if (!isObject(numbering.labelFormat) || !('sceneNumber' in numbering.labelFormat)) {
+    return numbering;
+  }
+  const { sceneNumber, ...labelFormat } = numbering.labelFormat;
+  return { sceneNumber, ...numbering, labelFormat };
+};
+
+/**
+ * One entry per version step, in order. Migrations spread what they receive, so fields they do
+ * not know about (e.g. written by a newer build and downgraded) survive the round trip.
+ */
+const PROJECT_MIGRATIONS: ProjectMigration[] = [
+  {
+    // Label formats, scene counters and label fonts were added while files were still written as
+    // v1, so a v1 file may carry any of them or none. Only the missing ones are filled in; v2
+    // always writes all three. v1 builds read them as optional, so downgrading is lossless.
+    from: 1,
+    upgrade: (project) => ({
+      ...project,
+      ...(isObject(project.numbering)
+        ? {
+            numbering: {
+              sceneNumber: null,
+              labelFormat: { ...DEFAULT_CUT_LABEL_FORMAT },
+              ...moveSceneNumberOutOfLabelFormat(project.numbering),
+            },
+          }
+        : {}),
+      ...(isObject(project.style)
+        ? { style: { labelFont: null, ...project.style } }
+        : {}),
+    }),
+    downgrade: (project) => ({ ...project }),
+  },
+];
+
+const isSupportedVersion = (version: unknown): version is number =>
+  typeof version === 'number' &&
+  Number.isInteger(version) &&
+  version >= OLDEST_PROJECT_VERSION &&
+  version <= CURRENT_PROJECT_VERSION;
+
+const findMigration = (from: number) => {
+  const migration = PROJECT_MIGRATIONS.find((candidate) => candidate.from === from);
+  if (!migration) {
+    throw new Error(`No project migration registered from version ${from}`);
+  }
+  return migration;
+};
+
+// Brings a parsed document of any supported version up to the current one; validation comes after
+export const migrateProjectDocument = (value: unknown): unknown => {
+  if (!isObject(value)) {
+    return value;
+  }
+  if (!isSupportedVersion(value.version)) {
+    throw new Error(
+      typeof value.version === 'number' && value.version > CURRENT_PROJECT_VERSION
+        ? `Unsupported project version ${value.version}: saved by a newer CutMark`
+        : 'Unsupported project version'
+    );
+  }
+
+  let migrated: SerializedProjectDocument = value;
+  for (let version = value.version; version < CURRENT_PROJECT_VERSION; version++) {
+    migrated = { ...findMigration(version).upgrade(migrated), version: version + 1 };
+  }
+  return migrated;
+};
+
+// For colleagues on older builds: rewrites the project step by step down to the target version
+export const downgradeProjectDocument = (
+  project: ProjectDocument,
+  targetVersion: number
+): SerializedProjectDocument => {
+  if (!isSupportedVersion(targetVersion)) {
+    throw new Error(`Unsupported project version ${targetVersion}`);
+  }
+
+  let downgraded: SerializedProjectDocument = { ...project };
+  for (let version = CURRENT_PROJECT_VERSION - 1; version >= targetVersion; version--) {
+    downgraded = { ...findMigration(version).downgrade(downgraded), version };
+  }
+  return downgraded;
+};
@@ -1,95 +1,55 @@
-import { ProjectDocument } from '../domain/project';
+import { CURRENT_PROJECT_VERSION, ProjectDocument } from '../domain/project';
+import { showSaveFilePicker, supportsSaveFilePicker } from '../services/saveFilePicker';
+import { downgradeProjectDocument, migrateProjectDocument } from './projectMigrations';
+import {
+  ProjectRecoveryResult,
+  ProjectValidationError,
+  recoverProjectDocument,
+} from './projectValidation';
 
 export const PROJECT_FILE_EXTENSION = '.cutmark';
 
-const isObject = (value: unknown): value is Record<string, unknown> =>
-  typeof value === 'object' && value !== null;
-
-function assert(condition: unknown, message: string): asserts condition {
-  if (!condition) {
-    throw new Error(message);
-  }
-}
-
-function assertString(value: unknown, message: string): asserts value is string {
-  assert(typeof value === 'string', message);
-}
-
-function assertNumber(value: unknown, message: string): asserts value is number {
-  assert(typeof value === 'number' && Number.isFinite(value), message);
-}
-
-function assertBoolean(value: unknown, message: string): asserts value is boolean {
-  assert(typeof value === 'boolean', message);
-}
-
+/**
+ * Strict check behind parseProjectDocument: a damaged document is rejected with every problem
+ * listed, where parseProjectDocumentWithRecovery would repair it.
+ */
 export function assertIsProjectDocument(
   value: unknown
 ): asserts value is ProjectDocument {
-  assert(isObject(value), 'Project document must be an object');
-  assert(value.version === 1, 'Unsupported project version');
-
-  assert(isObject(value.meta), 'Project meta must be an object');
-  assertString(value.meta.name, 'Project meta.name must be a string');
-  assertString(value.meta.savedAt, 'Project meta.savedAt must be a string');
-
-  assert(Array.isArray(value.logicalPages), 'Project logicalPages must be an array');
-  value.logicalPages.forEach((page, pageIndex) => {
-    assert(isObject(page), `Logical page ${pageIndex} must be an object`);
-    assertString(page.id, `Logical page ${pageIndex}.id must be a string`);
-    assert(Array.isArray(page.cuts), `Logical page ${pageIndex}.cuts must be an array`);
-    page.cuts.forEach((cut, cutIndex) => {
-      assert(isObject(cut), `Cut ${pageIndex}:${cutIndex} must be an object`);
-      assertString(cut.id, `Cut ${pageIndex}:${cutIndex}.id must be a string`);
-      assertNumber(cut.x, `Cut ${pageIndex}:${cutIndex}.x must be a number`);
-      assertNumber(cut.y, `Cut ${pageIndex}:${cutIndex}.y must be a number`);
-      assertString(cut.label, `Cut ${pageIndex}:${cutIndex}.label must be a string`);
-      assertBoolean(cut.isBranch, `Cut ${pageIndex}:${cutIndex}.isBranch must be a boolean`);
-    });
-  });
-
-  assert(isObject(value.numbering), 'Project numbering must be an object');
-  assertNumber(value.numbering.nextNumber, 'Project numbering.nextNumber must be a number');
-  assert(
-    typeof value.numbering.branchChar === 'string' || value.numbering.branchChar === null,
-    'Project numbering.branchChar must be a string or null'
-  );
-  assertBoolean(value.numbering.autoIncrement, 'Project numbering.autoIncrement must be a boolean');
-  assertNumber(value.numbering.minDigits, 'Project numbering.minDigits must be a number');
-
-  assert(isObject(value.style), 'Project style must be an object');
-  assertNumber(value.style.fontSize, 'Project style.fontSize must be a number');
-  assertBoolean(value.style.useWhiteBackground, 'Project style.useWhiteBackground must be a boolean');
-  assertNumber(value.style.backgroundPadding, 'Project style.backgroundPadding must be a number');
-  assertNumber(value.style.textOutlineWidth, 'Project style.textOutlineWidth must be a number');
-  assertBoolean(
-    value.style.enableClickSnapToRows,
-    'Project style.enableClickSnapToRows must be a boolean'
-  );
-
-  assert(isObject(value.template), 'Project template must be an object');
-  assertString(value.template.id, 'Project template.id must be a string');
-  assertString(value.template.name, 'Project template.name must be a string');
-  assertNumber(value.template.rowCount, 'Project template.rowCount must be a number');
-  assertNumber(value.template.xPosition, 'Project template.xPosition must be a number');
-  assert(Array.isArray(value.template.rowPositions), 'Project template.rowPositions must be an array');
-  value.template.rowPositions.forEach((rowPosition, index) => {
-    assertNumber(rowPosition, `Project template.rowPositions[${index}] must be a number`);
-  });
+  const { issues } = recoverProjectDocument(value);
+  if (issues.length > 0) {
+    throw new ProjectValidationError(issues);
+  }
 }
 
 const cloneProjectDocument = (project: ProjectDocument): ProjectDocument =>
   JSON.parse(JSON.stringify(project)) as ProjectDocument;
 
-export const serializeProjectDocument = (project: ProjectDocument) =>
-  JSON.stringify(project, null, 2);
+// Older versions are written through the downgrade migrations, for builds that cannot read newer files
+export const serializeProjectDocument = (
+  project: ProjectDocument,
+  version: number = CURRENT_PROJECT_VERSION
+) =>
+  JSON.stringify(
+    version === CURRENT_PROJECT_VERSION ? project : downgradeProjectDocument(project, version),
+    null,
+    2
+  );
 
 export const parseProjectDocument = (serialized: string): ProjectDocument => {
-  const parsed = JSON.parse(serialized) as unknown;
+  const parsed = migrateProjectDocument(JSON.parse(serialized) as unknown);
   assertIsProjectDocument(parsed);
   return cloneProjectDocument(parsed);
 };
 
+// Salvages what it can from a damaged file; the caller decides whether the repairs are acceptable
+export const parseProjectDocumentWithRecovery = (serialized: string): ProjectRecoveryResult => {
+  const { project, issues } = recoverProjectDocument(
+    migrateProjectDocument(JSON.parse(serialized) as unknown)
+  );
+  return { project: cloneProjectDocument(project), issues };
+};
+
 export const createProjectDownloadFileName = (name: string) => {
   const normalized = name
     .trim()
@@ -107,13 +67,24 @@ export const createProjectDownloadFileName = (name: string) => {
     : `${safeBaseName}${PROJECT_FILE_EXTENSION}`;
 };
 
+interface DownloadProjectDocumentOptions {
+  fileName?: string;
+  version?: number;
+}
+
+const createProjectBlob = (project: ProjectDocument, version: number) =>
+  new Blob([serializeProjectDocument(project, version)], {
+    type: 'application/json',
+  });
+
 export const downloadProjectDocument = (
   project: ProjectDocument,
-  fileName = createProjectDownloadFileName(project.meta.name)
+  {
+    fileName = createProjectDownloadFileName(project.meta.name),
+    version = CURRENT_PROJECT_VERSION,
+  }: DownloadProjectDocumentOptions = {}
 ) => {
-  const blob = new Blob([serializeProjectDocument(project)], {
-    type: 'application/json',
-  });
+  const blob = createProjectBlob(project, version);
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
@@ -124,5 +95,56 @@ export const downloadProjectDocument = (
   URL.revokeObjectURL(url);
 };
 
-export const loadProjectDocumentFromFile = async (file: File) =>
-  parseProjectDocument(await file.text());
+export type ProjectFileHandle = {
+  name: string;
+  createWritable: () => Promise<{
+    write: (data: Blob) => Promise<void>;
+    close: () => Promise<void>;
+    abort: () => Promise<void>;
+  }>;
+};
+
+// A picked file that later saves overwrite, or a regular browser download
+export type ProjectSaveTarget = ProjectFileHandle | 'download';
+
+/**
+ * Asks where the project should be saved. Browsers without the File System Access API download it
+ * instead. Returns null when the user cancels the save picker.
+ */
+export const chooseProjectSaveTarget = async (
+  fileName: string
+): Promise<ProjectSaveTarget | null> => {
+  if (!supportsSaveFilePicker()) {
+    return 'download';
+  }
+
+  return showSaveFilePicker<ProjectFileHandle>(fileName, {
+    description: 'CutMark project',
+    accept: { 'application/json': [PROJECT_FILE_EXTENSION] },
+  });
+};
+
+export const writeProjectDocument = async (
+  project: ProjectDocument,
+  target: ProjectSaveTarget,
+  { version = CURRENT_PROJECT_VERSION }: Pick<DownloadProjectDocumentOptions, 'version'> = {}
+) => {
+  if (target === 'download') {
+    downloadProjectDocument(project, { version });
+    return;
+  }
+
+  // The file is only replaced once the writable closes; aborting a failed write discards the
+  // partial copy and leaves the file intact
+  const writable = await target.createWritable();
+  try {
+    await writable.write(createProjectBlob(project, version));
+  } catch (error) {
+    await writable.abort().catch(() => undefined);
+    throw error;
+  }
+  await writable.close();
+};
+
+export const recoverProjectDocumentFromFile = async (file: File) =>
+  parseProjectDocumentWithRecovery(await file.text());
@@ -0,0 +1,427 @@
+import { DEFAULT_CUT_LABEL_FORMAT } from '../domain/numbering';
+import {
+  AssetHint,
+  CURRENT_PROJECT_VERSION,
+  CutPlacement,
+  LogicalPage,
+  NumberingPolicy,
+  ProjectDocument,
+  StyleSettings,
+  TemplateSnapshot,
+} from '../domain/project';
+
+export interface ProjectValidationIssue {
+  // JSON path of the offending value, e.g. $.logicalPages[3].cuts[7].x
+  path: string;
+  message: string;
+  // Repaired values keep their page or cut; dropped ones are left out of the project
+  action: 'repaired' | 'dropped';
+}
+
+export interface ProjectRecoveryResult {
+  project: ProjectDocument;
+  issues: ProjectValidationIssue[];
+}
+
+export class ProjectValidationError extends Error {
+  constructor(readonly issues: ProjectValidationIssue[]) {
+    super(
+      `Invalid project document:\n${issues.map((issue) => `${issue.path} ${issue.message}`).join('\n')}`
+    );
+    this.name = 'ProjectValidationError';
+  }
+}
+
+// What a fresh session starts with, used for settings that cannot be read back
+const DEFAULT_NUMBERING: NumberingPolicy = {
+  nextNumber: 1,
+  branchChar: null,
+  sceneNumber: null,
+  autoIncrement: true,
+  minDigits: 3,
+  labelFormat: DEFAULT_CUT_LABEL_FORMAT,
+};
+
+const DEFAULT_STYLE: StyleSettings = {
+  fontSize: 28,
+  labelFont: null,
+  useWhiteBackground: false,
+  backgroundPadding: 4,
+  textOutlineWidth: 2,
+  enableClickSnapToRows: true,
+};
+
+const DEFAULT_TEMPLATE: TemplateSnapshot = {
+  id: 'default',
+  name: '標準5行',
+  rowCount: 5,
+  xPosition: 0.07,
+  rowPositions: [0.0872, 0.2525, 0.4179, 0.5832, 0.7485],
+};
+
+const DEFAULT_PROJECT_NAME = 'Untitled Project';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isNullableString = (value: unknown): value is string | null =>
+  value === null || isString(value);
+
+const isNullableNumber = (value: unknown): value is number | null =>
+  value === null || isNumber(value);
+
+const MESSAGES = {
+  object: 'オブジェクトではありません',
+  array: '配列ではありません',
+  string: '文字列ではありません',
+  number: '数値ではありません',
+  boolean: 'true / false ではありません',
+  nullableString: '文字列または null ではありません',
+  nullableNumber: '数値または null ではありません',
+  range: '0〜1 の範囲外です',
+  duplicateId: 'ID が重複しています',
+  assetHint: '素材情報が読み取れません',
+} as const;
+
+/**
+ * Walks a migrated document and collects every problem instead of stopping at the first.
+ * Settings fall back to their defaults, pages and cuts are kept whenever their position can be
+ * read, and everything else the file carries (including unknown fields) is passed through.
+ */
+class ProjectRecovery {
+  readonly issues: ProjectValidationIssue[] = [];
+  private readonly pageIds = new Set<string>();
+
+  repaired(path: string, message: string) {
+    this.issues.push({ path, message, action: 'repaired' });
+  }
+
+  dropped(path: string, message: string) {
+    this.issues.push({ path, message, action: 'dropped' });
+  }
+
+  read<T>(
+    source: Record<string, unknown>,
+    key: string,
+    path: string,
+    isValid: (value: unknown) => value is T,
+    fallback: T,
+    message: string
+  ): T {
+    const value = source[key];
+    if (isValid(value)) return value;
+    this.repaired(`${path}.${key}`, message);
+    return fallback;
+  }
+
+  // Bindings are keyed by page id and the selection by cut id, so duplicates get a fresh one
+  id(source: Record<string, unknown>, path: string, usedIds: Set<string>) {
+    let id = source.id;
+    if (!isString(id) || id.length === 0) {
+      this.repaired(`${path}.id`, MESSAGES.string);
+      id = crypto.randomUUID();
+    } else if (usedIds.has(id)) {
+      this.repaired(`${path}.id`, MESSAGES.duplicateId);
+      id = crypto.randomUUID();
+    }
+    usedIds.add(id as string);
+    return id as string;
+  }
+
+  section(value: unknown, path: string) {
+    if (isObject(value)) return value;
+    this.repaired(path, MESSAGES.object);
+    return {};
+  }
+
+  meta(value: unknown): ProjectDocument['meta'] {
+    const meta = this.section(value, '$.meta');
+    return {
+      ...meta,
+      name: this.read(meta, 'name', '$.meta', isString, DEFAULT_PROJECT_NAME, MESSAGES.string),
+      savedAt: this.read(meta, 'savedAt', '$.meta', isString, new Date().toISOString(), MESSAGES.string),
+    };
+  }
+
+  position(cut: Record<string, unknown>, key: 'x' | 'y', path: string) {
+    const value = cut[key] as number;
+    if (value >= 0 && value <= 1) return value;
+    this.repaired(`${path}.${key}`, MESSAGES.range);
+    return Math.min(1, Math.max(0, value));
+  }
+
+  cut(value: unknown, path: string, cutIds: Set<string>): CutPlacement | null {
+    if (!isObject(value)) {
+      this.dropped(path, MESSAGES.object);
+      return null;
+    }
+    // Without a position there is nowhere to draw the cut
+    for (const key of ['x', 'y'] as const) {
+      if (!isNumber(value[key])) {
+        this.dropped(`${path}.${key}`, MESSAGES.number);
+        return null;
+      }
+    }
+
+    let label = value.label;
+    if (isNumber(label)) {
+      this.repaired(`${path}.label`, MESSAGES.string);
+      label = String(label);
+    } else if (!isString(label)) {
+      this.dropped(`${path}.label`, MESSAGES.string);
+      return null;
+    }
+
+    const { startsScene, ...rest } = value;
+    if (startsScene !== undefined && !isBoolean(startsScene)) {
+      this.repaired(`${path}.startsScene`, MESSAGES.boolean);
+    }
+
+    return {
+      ...rest,
+      id: this.id(value, path, cutIds),
+      x: this.position(value, 'x', path),
+      y: this.position(value, 'y', path),
+      label: label as string,
+      isBranch: this.read(value, 'isBranch', path, isBoolean, false, MESSAGES.boolean),
+      ...(isBoolean(startsScene) ? { startsScene } : {}),
+    };
+  }
+
+  assetHint(value: unknown, path: string): AssetHint | null {
+    if (value === undefined || value === null) return null;
+    if (
+      !isObject(value) ||
+      (value.sourceKind !== 'pdf-page' && value.sourceKind !== 'image') ||
+      !isString(value.sourceLabel)
+    ) {
+      this.repaired(path, MESSAGES.assetHint);
+      return null;
+    }
+
+    // Optional details only sharpen matching, so unreadable ones are simply left out
+    const hint = { ...value } as Record<string, unknown>;
+    for (const key of ['pageNumber', 'width', 'height'] as const) {
+      if (hint[key] !== undefined && !isNumber(hint[key])) {
+        this.repaired(`${path}.${key}`, MESSAGES.number);
+        delete hint[key];
+      }
+    }
+    if (hint.fingerprint !== undefined && !isString(hint.fingerprint)) {
+      this.repaired(`${path}.fingerprint`, MESSAGES.string);
+      delete hint.fingerprint;
+    }
+    return hint as unknown as AssetHint;
+  }
+
+  page(value: unknown, path: string): LogicalPage | null {
+    if (!isObject(value)) {
+      this.dropped(path, MESSAGES.object);
+      return null;
+    }
+
+    let cuts: unknown[] = [];
+    if (Array.isArray(value.cuts)) {
+      cuts = value.cuts;
+    } else {
+      this.repaired(`${path}.cuts`, MESSAGES.array);
+    }
+
+    const { note, ...rest } = value;
+    const cutIds = new Set<string>();
+    if (note !== undefined && !isString(note)) {
+      this.repaired(`${path}.note`, MESSAGES.string);
+    }
+
+    return {
+      ...rest,
+      id: this.id(value, path, this.pageIds),
+      cuts: cuts
+        .map((cut, cutIndex) => this.cut(cut, `${path}.cuts[${cutIndex}]`, cutIds))
+        .filter((cut): cut is CutPlacement => cut !== null),
+      ...('expectedAssetHint' in value
+        ? { expectedAssetHint: this.assetHint(value.expectedAssetHint, `${path}.expectedAssetHint`) }
+        : {}),
+      ...(isString(note) ? { note } : {}),
+    };
+  }
+
+  labelFormat(value: unknown): NumberingPolicy['labelFormat'] {
+    const path = '$.numbering.labelFormat';
+    const format = this.section(value, path);
+    const fallback = DEFAULT_CUT_LABEL_FORMAT;
+    return {
+      ...format,
+      prefix: this.read(format, 'prefix', path, isString, fallback.prefix, MESSAGES.string),
+      suffix: this.read(format, 'suffix', path, isString, fallback.suffix, MESSAGES.string),
+      scenePrefix: this.read(format, 'scenePrefix', path, isString, fallback.scenePrefix, MESSAGES.string),
+      sceneMinDigits: this.read(
+        format,
+        'sceneMinDigits',
+        path,
+        isNumber,
+        fallback.sceneMinDigits,
+        MESSAGES.number
+      ),
+      separator: this.read(format, 'separator', path, isString, fallback.separator, MESSAGES.string),
+    };
+  }
+
+  numbering(value: unknown): NumberingPolicy {
+    const path = '$.numbering';
+    const numbering = this.section(value, path);
+    const fallback = DEFAULT_NUMBERING;
+    return {
+      ...numbering,
+      nextNumber: this.read(numbering, 'nextNumber', path, isNumber, fallback.nextNumber, MESSAGES.number),
+      branchChar: this.read(
+        numbering,
+        'branchChar',
+        path,
+        isNullableString,
+        fallback.branchChar,
+        MESSAGES.nullableString
+      ),
+      sceneNumber: this.read(
+        numbering,
+        'sceneNumber',
+        path,
+        isNullableNumber,
+        fallback.sceneNumber,
+        MESSAGES.nullableNumber
+      ),
+      autoIncrement: this.read(
+        numbering,
+        'autoIncrement',
+        path,
+        isBoolean,
+        fallback.autoIncrement,
+        MESSAGES.boolean
+      ),
+      minDigits: this.read(numbering, 'minDigits', path, isNumber, fallback.minDigits, MESSAGES.number),
+      labelFormat: this.labelFormat(numbering.labelFormat),
+    };
+  }
+
+  labelFont(value: unknown): StyleSettings['labelFont'] {
+    if (value === null) return null;
+    if (!isObject(value)) {
+      this.repaired('$.style.labelFont', MESSAGES.object);
+      return null;
+    }
+    for (const key of ['name', 'data'] as const) {
+      if (!isString(value[key])) {
+        this.repaired(`$.style.labelFont.${key}`, MESSAGES.string);
+        return null;
+      }
+    }
+    return value as unknown as StyleSettings['labelFont'];
+  }
+
+  style(value: unknown): StyleSettings {
+    const path = '$.style';
+    const style = this.section(value, path);
+    const fallback = DEFAULT_STYLE;
+    return {
+      ...style,
+      fontSize: this.read(style, 'fontSize', path, isNumber, fallback.fontSize, MESSAGES.number),
+      labelFont: this.labelFont(style.labelFont),
+      useWhiteBackground: this.read(
+        style,
+        'useWhiteBackground',
+        path,
+        isBoolean,
+        fallback.useWhiteBackground,
+        MESSAGES.boolean
+      ),
+      backgroundPadding: this.read(
+        style,
+        'backgroundPadding',
+        path,
+        isNumber,
+        fallback.backgroundPadding,
+        MESSAGES.number
+      ),
+      textOutlineWidth: this.read(
+        style,
+        'textOutlineWidth',
+        path,
+        isNumber,
+        fallback.textOutlineWidth,
+        MESSAGES.number
+      ),
+      enableClickSnapToRows: this.read(
+        style,
+        'enableClickSnapToRows',
+        path,
+        isBoolean,
+        fallback.enableClickSnapToRows,
+        MESSAGES.boolean
+      ),
+    };
+  }
+
+  template(value: unknown): TemplateSnapshot {
+    const path = '$.template';
+    const template = this.section(value, path);
+    const fallback = DEFAULT_TEMPLATE;
+
+    let rowPositions = [...fallback.rowPositions];
+    if (Array.isArray(template.rowPositions)) {
+      rowPositions = template.rowPositions.filter((rowPosition, index): rowPosition is number => {
+        if (isNumber(rowPosition)) return true;
+        this.dropped(`${path}.rowPositions[${index}]`, MESSAGES.number);
+        return false;
+      });
+    } else {
+      this.repaired(`${path}.rowPositions`, MESSAGES.array);
+    }
+
+    return {
+      ...template,
+      id: this.read(template, 'id', path, isString, fallback.id, MESSAGES.string),
+      name: this.read(template, 'name', path, isString, fallback.name, MESSAGES.string),
+      rowCount: this.read(template, 'rowCount', path, isNumber, fallback.rowCount, MESSAGES.number),
+      xPosition: this.read(template, 'xPosition', path, isNumber, fallback.xPosition, MESSAGES.number),
+      rowPositions,
+    };
+  }
+}
+
+/**
+ * Checks a migrated project document and repairs what it can. Throws only when nothing can be
+ * salvaged: the value is not a project at all or it has no readable page list.
+ */
+export const recoverProjectDocument = (value: unknown): ProjectRecoveryResult => {
+  if (!isObject(value)) {
+    throw new Error('Project document must be an object');
+  }
+  if (value.version !== CURRENT_PROJECT_VERSION) {
+    throw new Error('Unsupported project version');
+  }
+  if (!Array.isArray(value.logicalPages)) {
+    throw new Error('Project logicalPages must be an array');
+  }
+
+  const recovery = new ProjectRecovery();
+  const project: ProjectDocument = {
+    ...value,
+    version: CURRENT_PROJECT_VERSION,
+    meta: recovery.meta(value.meta),
+    logicalPages: value.logicalPages
+      .map((page, pageIndex) => recovery.page(page, `$.logicalPages[${pageIndex}]`))
+      .filter((page): page is LogicalPage => page !== null),
+    numbering: recovery.numbering(value.numbering),
+    style: recovery.style(value.style),
+    template: recovery.template(value.template),
+  };
+
+  return { project, issues: recovery.issues };
+};
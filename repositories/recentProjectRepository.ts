@@ -0,0 +1,174 @@
+import { getLabelFontId } from '../services/labelFont';
+import { LabelFont } from '../types';
+import {
+  deleteStoredValue,
+  readAllStoredKeys,
+  readAllStoredValues,
+  readStoredValue,
+  RECENT_PROJECT_FONTS_STORE,
+  RECENT_PROJECT_MATERIAL_STORE,
+  RECENT_PROJECTS_STORE,
+  writeStoredValue,
+} from './browserDatabase';
+
+// Material is cached with each entry, so only a few are kept to stay within the storage quota
+export const MAX_RECENT_PROJECTS = 5;
+
+/**
+ * A project saved recently, with the material it was placed on. Files chosen through a file input
+ * cannot be reopened by handle, so the material itself is cached; it is empty when it did not fit.
+ */
+export interface RecentProject {
+  id: string;
+  name: string;
+  savedAt: string;
+  serializedProject: string;
+  materialFiles: File[];
+}
+
+type RecentProjectEntry = Omit<RecentProject, 'materialFiles'>;
+
+/**
+ * The material is kept in its own store, so saving the project again does not rewrite it.
+ * The label font data is kept once in the fonts store, keyed by font id: every save of a project
+ * carries the same font, and fonts run to megabytes.
+ */
+interface StoredRecentProject extends RecentProjectEntry {
+  labelFont?: { id: string; name: string } | null;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isStoredRecentProject = (value: unknown): value is StoredRecentProject =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.savedAt === 'string' &&
+  typeof value.serializedProject === 'string';
+
+const isLabelFont = (value: unknown): value is LabelFont =>
+  isObject(value) && typeof value.name === 'string' && typeof value.data === 'string';
+
+const isMaterialFileList = (value: unknown): value is File[] =>
+  Array.isArray(value) && value.every((file) => file instanceof Blob);
+
+export const createRecentProjectId = () => crypto.randomUUID();
+
+type SerializedProject = Record<string, unknown> & { style: Record<string, unknown> };
+
+// Projects that cannot be parsed are stored as they are, font included
+const parseSerializedProject = (serializedProject: string): SerializedProject | null => {
+  try {
+    const parsed = JSON.parse(serializedProject) as unknown;
+    return isObject(parsed) && isObject(parsed.style) ? (parsed as SerializedProject) : null;
+  } catch {
+    return null;
+  }
+};
+
+const replaceLabelFont = (project: SerializedProject, labelFont: LabelFont | null) =>
+  JSON.stringify({ ...project, style: { ...project.style, labelFont } }, null, 2);
+
+const splitLabelFont = (serializedProject: string) => {
+  const project = parseSerializedProject(serializedProject);
+  if (!project || !isLabelFont(project.style.labelFont)) {
+    return { serializedProject, labelFont: null };
+  }
+  return { serializedProject: replaceLabelFont(project, null), labelFont: project.style.labelFont };
+};
+
+// Puts the font back; a font that went missing leaves the project on the built-in font
+const restoreLabelFont = async (entry: StoredRecentProject) => {
+  if (!entry.labelFont) {
+    return entry.serializedProject;
+  }
+  const project = parseSerializedProject(entry.serializedProject);
+  if (!project) {
+    return entry.serializedProject;
+  }
+  const data = await readStoredValue(RECENT_PROJECT_FONTS_STORE, entry.labelFont.id);
+  return replaceLabelFont(
+    project,
+    typeof data === 'string' ? { name: entry.labelFont.name, data } : null
+  );
+};
+
+const listStoredRecentProjects = async (): Promise<StoredRecentProject[]> =>
+  (await readAllStoredValues(RECENT_PROJECTS_STORE))
+    .filter(isStoredRecentProject)
+    .sort((left, right) => right.savedAt.localeCompare(left.savedAt));
+
+// Newest first; material that cannot be read is treated as not cached
+export const listRecentProjects = async (): Promise<RecentProject[]> =>
+  Promise.all(
+    (await listStoredRecentProjects()).map(async (entry) => {
+      const materialFiles = await readStoredValue(RECENT_PROJECT_MATERIAL_STORE, entry.id);
+      return {
+        id: entry.id,
+        name: entry.name,
+        savedAt: entry.savedAt,
+        serializedProject: await restoreLabelFont(entry),
+        materialFiles: isMaterialFileList(materialFiles) ? materialFiles : [],
+      };
+    })
+  );
+
+// Fonts stay while any entry still refers to them
+const pruneRecentProjectFonts = async () => {
+  const usedFontIds = new Set(
+    (await listStoredRecentProjects()).flatMap((entry) => (entry.labelFont ? [entry.labelFont.id] : []))
+  );
+  for (const fontId of await readAllStoredKeys(RECENT_PROJECT_FONTS_STORE)) {
+    if (typeof fontId === 'string' && !usedFontIds.has(fontId)) {
+      await deleteStoredValue(RECENT_PROJECT_FONTS_STORE, fontId);
+    }
+  }
+};
+
+const deleteRecentProjectEntry = async (id: string) => {
+  await deleteStoredValue(RECENT_PROJECTS_STORE, id);
+  await deleteStoredValue(RECENT_PROJECT_MATERIAL_STORE, id);
+};
+
+export const deleteRecentProject = async (id: string) => {
+  await deleteRecentProjectEntry(id);
+  await pruneRecentProjectFonts();
+};
+
+/**
+ * Saving again under the same id moves the entry to the top; the oldest beyond the limit are
+ * dropped. Without materialFiles the material cached for the entry is left as it is.
+ */
+export const saveRecentProject = async (
+  entry: RecentProjectEntry,
+  materialFiles?: File[]
+) => {
+  if (materialFiles) {
+    await writeStoredValue(RECENT_PROJECT_MATERIAL_STORE, entry.id, materialFiles);
+  }
+
+  const { serializedProject, labelFont } = splitLabelFont(entry.serializedProject);
+  let storedLabelFont: StoredRecentProject['labelFont'] = null;
+  if (labelFont) {
+    storedLabelFont = { id: getLabelFontId(labelFont), name: labelFont.name };
+    // Entries saved with the same font share the stored copy
+    const storedKeys = await readAllStoredKeys(RECENT_PROJECT_FONTS_STORE);
+    if (!storedKeys.includes(storedLabelFont.id)) {
+      await writeStoredValue(RECENT_PROJECT_FONTS_STORE, storedLabelFont.id, labelFont.data);
+    }
+  }
+
+  await writeStoredValue(RECENT_PROJECTS_STORE, entry.id, {
+    id: entry.id,
+    name: entry.name,
+    savedAt: entry.savedAt,
+    serializedProject,
+    labelFont: storedLabelFont,
+  });
+  const overflow = (await listStoredRecentProjects()).slice(MAX_RECENT_PROJECTS);
+  for (const stale of overflow) {
+    await deleteRecentProjectEntry(stale.id);
+  }
+  await pruneRecentProjectFonts();
+};
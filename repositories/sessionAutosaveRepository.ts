@@ -0,0 +1,178 @@
+import { HistoryState } from '../application/history';
+import {
+  AUTOSAVED_SESSION_VERSION,
+  AutosavedHistoryEntry,
+  AutosavedSession,
+} from '../application/sessionAutosave';
+import { getLabelFontId } from '../services/labelFont';
+import { LabelFont } from '../types';
+import {
+  AUTOSAVE_STORE,
+  deleteStoredValue,
+  readAllStoredKeys,
+  readStoredValue,
+  writeStoredValue,
+} from './browserDatabase';
+
+// Only the latest session is kept; each autosave replaces the previous one
+const LAST_SESSION_KEY = 'last-session';
+
+/**
+ * Undo steps and label fonts are stored under keys of their own and written once, so an autosave
+ * adds only the steps taken since the last one and rewrites just the small session record.
+ */
+const HISTORY_ENTRY_KEY_PREFIX = 'history-entry:';
+const LABEL_FONT_KEY_PREFIX = 'label-font:';
+
+interface StoredAutosavedSession extends Omit<AutosavedSession, 'history' | 'labelFonts'> {
+  history: HistoryState<string>;
+  labelFontKeys: string[];
+}
+
+const historyEntryKeys = new WeakMap<AutosavedHistoryEntry, string>();
+// Records this tab knows to be in the store
+const storedRecordKeys = new Set<string>();
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+// Autosaves are written by this build's own code, so a shape check is enough to skip stale ones
+const isStoredAutosavedSession = (value: unknown): value is StoredAutosavedSession =>
+  isObject(value) &&
+  value.version === AUTOSAVED_SESSION_VERSION &&
+  typeof value.savedAt === 'string' &&
+  isObject(value.history) &&
+  typeof value.history.present === 'string' &&
+  isStringList(value.history.past) &&
+  isStringList(value.history.future) &&
+  isStringList(value.labelFontKeys);
+
+const isHistoryEntry = (value: unknown): value is AutosavedHistoryEntry =>
+  isObject(value) && isObject(value.state) && 'labelFontId' in value;
+
+const isLabelFont = (value: unknown): value is LabelFont =>
+  isObject(value) && typeof value.name === 'string' && typeof value.data === 'string';
+
+const isRecordKey = (key: IDBValidKey): key is string =>
+  typeof key === 'string' &&
+  (key.startsWith(HISTORY_ENTRY_KEY_PREFIX) || key.startsWith(LABEL_FONT_KEY_PREFIX));
+
+const listRecordKeys = ({ history, labelFontKeys }: StoredAutosavedSession) => [
+  ...history.past,
+  history.present,
+  ...history.future,
+  ...labelFontKeys,
+];
+
+// Drops records no session refers to, such as steps written by a tab that closed mid-save
+const deleteRecordsExcept = async (keptKeys: Set<string>) => {
+  for (const key of await readAllStoredKeys(AUTOSAVE_STORE)) {
+    if (isRecordKey(key) && !keptKeys.has(key)) {
+      await deleteStoredValue(AUTOSAVE_STORE, key);
+      storedRecordKeys.delete(key);
+    }
+  }
+};
+
+const readRecords = async <T>(keys: string[], isRecord: (value: unknown) => value is T) => {
+  const records: T[] = [];
+  for (const key of keys) {
+    const value = await readStoredValue(AUTOSAVE_STORE, key);
+    if (!isRecord(value)) return null;
+    records.push(value);
+  }
+  return records;
+};
+
+// A session missing any of its steps is not offered at all
+export const loadAutosavedSession = async (): Promise<AutosavedSession | null> => {
+  const stored = await readStoredValue(AUTOSAVE_STORE, LAST_SESSION_KEY);
+  if (!isStoredAutosavedSession(stored)) {
+    await deleteRecordsExcept(new Set());
+    return null;
+  }
+
+  const { history, labelFontKeys, ...session } = stored;
+  const historyKeys = [...history.past, history.present, ...history.future];
+  const entries = await readRecords(historyKeys, isHistoryEntry);
+  const labelFonts = await readRecords(labelFontKeys, isLabelFont);
+  if (!entries || !labelFonts) return null;
+
+  entries.forEach((entry, index) => historyEntryKeys.set(entry, historyKeys[index]));
+  listRecordKeys(stored).forEach((key) => storedRecordKeys.add(key));
+  await deleteRecordsExcept(new Set(listRecordKeys(stored)));
+
+  return {
+    ...session,
+    history: {
+      past: entries.slice(0, history.past.length),
+      present: entries[history.past.length],
+      future: entries.slice(history.past.length + 1),
+    },
+    labelFonts,
+  };
+};
+
+export const saveAutosavedSession = async ({
+  history,
+  labelFonts,
+  ...session
+}: AutosavedSession) => {
+  const writeRecord = async (key: string, value: unknown) => {
+    if (storedRecordKeys.has(key)) return;
+    await writeStoredValue(AUTOSAVE_STORE, key, value);
+    storedRecordKeys.add(key);
+  };
+
+  const storeEntry = async (entry: AutosavedHistoryEntry) => {
+    let key = historyEntryKeys.get(entry);
+    if (!key) {
+      key = `${HISTORY_ENTRY_KEY_PREFIX}${crypto.randomUUID()}`;
+      historyEntryKeys.set(entry, key);
+    }
+    await writeRecord(key, entry);
+    return key;
+  };
+
+  const storeEntries = async (entries: AutosavedHistoryEntry[]) => {
+    const keys: string[] = [];
+    for (const entry of entries) {
+      keys.push(await storeEntry(entry));
+    }
+    return keys;
+  };
+
+  const labelFontKeys: string[] = [];
+  for (const font of labelFonts) {
+    const key = `${LABEL_FONT_KEY_PREFIX}${getLabelFontId(font)}`;
+    await writeRecord(key, font);
+    labelFontKeys.push(key);
+  }
+
+  const stored: StoredAutosavedSession = {
+    ...session,
+    history: {
+      past: await storeEntries(history.past),
+      present: await storeEntry(history.present),
+      future: await storeEntries(history.future),
+    },
+    labelFontKeys,
+  };
+  await writeStoredValue(AUTOSAVE_STORE, LAST_SESSION_KEY, stored);
+
+  // Steps that fell out of the undo history
+  const keptKeys = new Set(listRecordKeys(stored));
+  for (const key of [...storedRecordKeys]) {
+    if (keptKeys.has(key)) continue;
+    await deleteStoredValue(AUTOSAVE_STORE, key);
+    storedRecordKeys.delete(key);
+  }
+};
+
+export const clearAutosavedSession = async () => {
+  await deleteStoredValue(AUTOSAVE_STORE, LAST_SESSION_KEY);
+  await deleteRecordsExcept(new Set());
+};
@@ -0,0 +1,142 @@
+import {
+  AssetContentHint,
+  createDifferenceHash,
+  FINGERPRINT_SAMPLE_HEIGHT,
+  FINGERPRINT_SAMPLE_WIDTH,
+} from '../application/assetFingerprint';
+import { ExportCanvasContext, createExportCanvas, getExportCanvasContext } from './exportCanvas';
+import { yieldToBrowser } from './exportTask';
+import { getImageFileMetadata } from './imageMetadata';
+import { applyExifOrientation, getOrientedDimensions, loadImageSource } from './imageProcessing';
+import { openPdfjsDocument } from './pdfjsDocument';
+
+// Pages are drawn at this multiple of the hash grid and averaged down, so thin pencil lines still count
+const SUPERSAMPLE = 8;
+const RENDER_WIDTH = FINGERPRINT_SAMPLE_WIDTH * SUPERSAMPLE;
+const RENDER_HEIGHT = FINGERPRINT_SAMPLE_HEIGHT * SUPERSAMPLE;
+// Wide enough for pdf.js to draw lines that survive the stretch into the render canvas
+const PDF_RENDER_WIDTH = RENDER_WIDTH * 2;
+
+const createRenderContext = () => {
+  const canvas = createExportCanvas();
+  canvas.width = RENDER_WIDTH;
+  canvas.height = RENDER_HEIGHT;
+  const ctx = getExportCanvasContext(canvas);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  return ctx;
+};
+
+const clearToWhite = (ctx: ExportCanvasContext) => {
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, RENDER_WIDTH, RENDER_HEIGHT);
+};
+
+// PDF sizes are in points; two decimals keep the saved project readable
+const roundSize = (value: number) => Math.round(value * 100) / 100;
+
+// Averages each SUPERSAMPLE block to one luma value
+const hashRenderedPage = (ctx: ExportCanvasContext) => {
+  const { data } = ctx.getImageData(0, 0, RENDER_WIDTH, RENDER_HEIGHT);
+  const grayscale = new Float64Array(FINGERPRINT_SAMPLE_WIDTH * FINGERPRINT_SAMPLE_HEIGHT);
+
+  for (let y = 0; y < RENDER_HEIGHT; y++) {
+    for (let x = 0; x < RENDER_WIDTH; x++) {
+      const offset = (y * RENDER_WIDTH + x) * 4;
+      const luma = data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+      grayscale[Math.floor(y / SUPERSAMPLE) * FINGERPRINT_SAMPLE_WIDTH + Math.floor(x / SUPERSAMPLE)] += luma;
+    }
+  }
+
+  return createDifferenceHash(grayscale);
+};
+
+/**
+ * Fingerprints every page of the PDF from a small render and records its size. Pages that fail
+ * to render are left without a fingerprint and fall back to name matching.
+ */
+export const computePdfPageContentHints = async (
+  pdfFile: File,
+  signal?: AbortSignal
+): Promise<Array<AssetContentHint | undefined>> => {
+  const ctx = createRenderContext();
+  const pageCanvas = document.createElement('canvas');
+  const pageCtx = pageCanvas.getContext('2d');
+  if (!pageCtx) {
+    throw new Error('Canvas context not available');
+  }
+
+  const loadingTask = await openPdfjsDocument(pdfFile);
+  try {
+    const pdf = await loadingTask.promise;
+    const contentHints: Array<AssetContentHint | undefined> = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      signal?.throwIfAborted();
+      let size: AssetContentHint | undefined;
+      try {
+        const page = await pdf.getPage(pageNumber);
+        const baseViewport = page.getViewport({ scale: 1 });
+        size = { width: roundSize(baseViewport.width), height: roundSize(baseViewport.height) };
+        const viewport = page.getViewport({ scale: PDF_RENDER_WIDTH / baseViewport.width });
+        pageCanvas.width = Math.ceil(viewport.width);
+        pageCanvas.height = Math.ceil(viewport.height);
+        pageCtx.fillStyle = 'white';
+        pageCtx.fillRect(0, 0, pageCanvas.width, pageCanvas.height);
+        await page.render({ canvas: pageCanvas, canvasContext: pageCtx, viewport }).promise;
+        page.cleanup();
+
+        clearToWhite(ctx);
+        ctx.drawImage(pageCanvas, 0, 0, RENDER_WIDTH, RENDER_HEIGHT);
+        contentHints.push({ ...size, fingerprint: hashRenderedPage(ctx) });
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.warn(error);
+        contentHints.push(size);
+      }
+
+      await yieldToBrowser();
+    }
+
+    return contentHints;
+  } finally {
+    await loadingTask.destroy();
+  }
+};
+
+// Fingerprints and measures each image as displayed, i.e. with its EXIF orientation applied
+export const computeImageContentHints = async (
+  imageFiles: File[],
+  signal?: AbortSignal
+): Promise<Array<AssetContentHint | undefined>> => {
+  const ctx = createRenderContext();
+  const contentHints: Array<AssetContentHint | undefined> = [];
+
+  for (const file of imageFiles) {
+    signal?.throwIfAborted();
+    try {
+      const { orientation } = await getImageFileMetadata(file);
+      const { source, width, height, cleanup } = await loadImageSource(file);
+      const oriented = getOrientedDimensions(width, height, orientation);
+
+      clearToWhite(ctx);
+      ctx.save();
+      ctx.scale(RENDER_WIDTH / oriented.width, RENDER_HEIGHT / oriented.height);
+      applyExifOrientation(ctx, orientation, width, height);
+      ctx.drawImage(source, 0, 0);
+      ctx.restore();
+      cleanup?.();
+
+      contentHints.push({ ...oriented, fingerprint: hashRenderedPage(ctx) });
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.warn(error);
+      contentHints.push(undefined);
+    }
+
+    await yieldToBrowser();
+  }
+
+  return contentHints;
+};
@@ -0,0 +1,60 @@
+import { AppSettings, Cut } from '../types';
+import { ExportCanvasContext } from './exportCanvas';
+import { getLabelCanvasFont } from './labelFont';
+
+// scale converts label settings (image pixels / PDF points) into canvas pixels
+export const drawCutLabels = (
+  ctx: ExportCanvasContext,
+  pageCuts: Cut[],
+  settings: AppSettings,
+  width: number,
+  height: number,
+  scale = 1
+) => {
+  const textSize = settings.fontSize * scale;
+  ctx.font = getLabelCanvasFont(settings.labelFont, textSize);
+  ctx.textBaseline = 'top';
+
+  for (const cut of pageCuts) {
+    const lines = cut.label.split('\n');
+
+    let maxTextWidth = 0;
+    const lineMetrics = lines.map((line) => {
+      const measured = ctx.measureText(line);
+      const width = measured.width;
+      if (width > maxTextWidth) maxTextWidth = width;
+      return { text: line, width };
+    });
+
+    const padding = settings.backgroundPadding * scale;
+    const lineHeight = textSize;
+    const boxWidth = maxTextWidth + (padding * 2);
+    const boxHeight = (lines.length * lineHeight) + (padding * 2);
+    const boxTopY = cut.y * height;
+    const rectX = (cut.x * width) - (boxWidth / 2);
+    const rectY = boxTopY;
+
+    if (settings.useWhiteBackground) {
+      ctx.fillStyle = 'white';
+      ctx.fillRect(rectX, rectY, boxWidth, boxHeight);
+    }
+
+    lines.forEach((line, lineIndex) => {
+      const lineWidth = lineMetrics[lineIndex].width;
+      const xOffset = (maxTextWidth - lineWidth) / 2;
+      const lineX = rectX + padding + xOffset;
+      const lineY = rectY + padding + (lineIndex * lineHeight);
+
+      if (settings.textOutlineWidth > 0) {
+        ctx.lineWidth = settings.textOutlineWidth * 2 * scale;
+        ctx.strokeStyle = 'white';
+        ctx.lineJoin = 'round';
+        ctx.lineCap = 'round';
+        ctx.strokeText(line, lineX, lineY);
+      }
+
+      ctx.fillStyle = 'black';
+      ctx.fillText(line, lineX, lineY);
+    });
+  }
+};
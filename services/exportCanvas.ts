@@ -0,0 +1,28 @@
+// Export rendering runs on an OffscreenCanvas inside the export worker and on a DOM canvas otherwise
+export type ExportCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type ExportCanvasContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export const createExportCanvas = (): ExportCanvas =>
+  typeof document === 'undefined' ? new OffscreenCanvas(1, 1) : document.createElement('canvas');
+
+export const getExportCanvasContext = (canvas: ExportCanvas): ExportCanvasContext => {
+  const ctx = canvas.getContext('2d') as ExportCanvasContext | null;
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+  return ctx;
+};
+
+export const exportCanvasToBlob = async (
+  canvas: ExportCanvas,
+  type: string,
+  quality?: number
+): Promise<Blob | null> => {
+  if (typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+
+  return new Promise<Blob | null>((resolve) => {
+    (canvas as HTMLCanvasElement).toBlob(resolve, type, quality);
+  });
+};
@@ -0,0 +1,251 @@
+import { AppSettings, Cut, ImageExportOptions, PdfImageExportOptions } from '../types';
+import { ExportTaskOptions } from './exportTask';
+import {
+  ExportWorkerJob,
+  ExportWorkerRequest,
+  ExportWorkerResponse,
+  ExportWorkerResult,
+} from './exportWorkerProtocol';
+import {
+  createImagesZipResponse,
+  exportImagesAsZip,
+  IMAGES_ZIP_FILE_NAME,
+} from './imageExportService';
+import { getPdfPassword, openPdfjsDocument } from './pdfjsDocument';
+import { getPdfPagesZipFileName, savePdfPagesZip } from './pdfPageExportService';
+import { PdfExportOptions, saveImagesAsPdf, saveMarkedPdf } from './pdfService';
+import { chooseZipSaveTarget, saveZipBlob, writeZipResponse, ZipSaveTarget } from './zipDownload';
+
+// Raised when the worker cannot start at all; the export then runs on the main thread instead
+class ExportWorkerUnavailableError extends Error {}
+
+export const supportsExportWorker = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+const toWorkerError = ({ name, message }: { name: string; message: string }) => {
+  if (name === 'AbortError') {
+    return new DOMException(message, 'AbortError');
+  }
+  const error = new Error(message);
+  error.name = name;
+  return error;
+};
+
+// Worker-side events a job can report besides its progress
+type ExportWorkerTask = ExportTaskOptions & Pick<PdfExportOptions, 'onRewriteFallback'>;
+
+const runInExportWorker = (
+  job: ExportWorkerJob,
+  { onProgress, onRewriteFallback, signal }: ExportWorkerTask
+): Promise<ExportWorkerResult> =>
+  new Promise((resolve, reject) => {
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('./exportWorker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      reject(new ExportWorkerUnavailableError(String(error)));
+      return;
+    }
+
+    let isReady = false;
+    const cancel = () => worker.postMessage({ type: 'cancel' } satisfies ExportWorkerRequest);
+    const finish = () => {
+      signal?.removeEventListener('abort', cancel);
+      worker.terminate();
+    };
+
+    worker.onmessage = (event: MessageEvent<ExportWorkerResponse>) => {
+      const response = event.data;
+      switch (response.type) {
+        case 'ready':
+          isReady = true;
+          break;
+        case 'progress':
+          onProgress?.(response.current, response.total);
+          break;
+        case 'rewrite-fallback':
+          onRewriteFallback?.(response.reason);
+          break;
+        case 'done':
+          finish();
+          resolve(response.result);
+          break;
+        case 'error':
+          finish();
+          reject(toWorkerError(response));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish();
+      reject(
+        isReady
+          ? new Error(event.message || 'Export worker failed')
+          : new ExportWorkerUnavailableError(event.message || 'Export worker could not start')
+      );
+    };
+
+    signal?.addEventListener('abort', cancel);
+    worker.postMessage(job satisfies ExportWorkerRequest);
+  });
+
+// Runs the job in the export worker, or returns undefined when the main thread has to take over
+const tryExportWorker = async (job: ExportWorkerJob, task: ExportWorkerTask) => {
+  if (!supportsExportWorker()) {
+    return undefined;
+  }
+
+  try {
+    return await runInExportWorker(job, task);
+  } catch (error) {
+    if (error instanceof ExportWorkerUnavailableError) {
+      return undefined;
+    }
+    throw error;
+  }
+};
+
+export const runMarkedPdfExport = async (
+  pdfFile: File,
+  cuts: Cut[],
+  settings: AppSettings,
+  options: PdfExportOptions = {}
+): Promise<Uint8Array> => {
+  const {
+    onProgress,
+    onRewriteFallback,
+    signal,
+    markMode = 'layer',
+    writeMode = 'rewrite',
+    project = null,
+  } = options;
+  const result = await tryExportWorker(
+    { type: 'marked-pdf', pdfFile, cuts, settings, markMode, writeMode, project },
+    { onProgress, onRewriteFallback, signal }
+  );
+  if (result instanceof Uint8Array) {
+    return result;
+  }
+
+  return saveMarkedPdf(await pdfFile.arrayBuffer(), cuts, settings, options);
+};
+
+export const runImagesPdfExport = async (
+  imageFiles: File[],
+  cuts: Cut[],
+  settings: AppSettings,
+  options: PdfExportOptions = {}
+): Promise<Uint8Array> => {
+  const { onProgress, signal, markMode = 'layer', project = null } = options;
+  const result = await tryExportWorker(
+    { type: 'images-pdf', imageFiles, cuts, settings, markMode, project },
+    { onProgress, signal }
+  );
+  if (result instanceof Uint8Array) {
+    return result;
+  }
+
+  return saveImagesAsPdf(imageFiles, cuts, settings, options);
+};
+
+export const runImagesZipExport = async (
+  imageFiles: File[],
+  cuts: Cut[],
+  settings: AppSettings,
+  options: ImageExportOptions,
+  task: ExportTaskOptions = {}
+): Promise<boolean> => {
+  if (!supportsExportWorker()) {
+    return exportImagesAsZip(imageFiles, cuts, settings, options, task);
+  }
+
+  // The save picker needs the click's user activation, so it is shown before the worker starts
+  const target = await chooseZipSaveTarget(IMAGES_ZIP_FILE_NAME);
+  if (!target) {
+    return false;
+  }
+
+  const result = await tryExportWorker(
+    {
+      type: 'images-zip',
+      imageFiles,
+      cuts,
+      settings,
+      options,
+      fileHandle: target === 'download' ? null : target,
+    },
+    task
+  );
+
+  if (result === undefined) {
+    const zipResponse = await createImagesZipResponse(imageFiles, cuts, settings, options, task);
+    return writeZipResponse(zipResponse, target, IMAGES_ZIP_FILE_NAME, task.signal);
+  }
+
+  if (result instanceof Blob) {
+    saveZipBlob(result, IMAGES_ZIP_FILE_NAME);
+    return true;
+  }
+
+  return result === true;
+};
+
+// Main-thread fallback, rendering through the pdf.js instance the preview uses
+const writePdfPagesZip = async (
+  pdfFile: File,
+  cuts: Cut[],
+  settings: AppSettings,
+  options: PdfImageExportOptions,
+  target: ZipSaveTarget,
+  task: ExportTaskOptions
+) =>
+  savePdfPagesZip(
+    await openPdfjsDocument(pdfFile),
+    pdfFile,
+    cuts,
+    settings,
+    options,
+    (response) => writeZipResponse(response, target, getPdfPagesZipFileName(pdfFile), task.signal),
+    task
+  );
+
+export const runPdfPagesZipExport = async (
+  pdfFile: File,
+  cuts: Cut[],
+  settings: AppSettings,
+  options: PdfImageExportOptions,
+  task: ExportTaskOptions = {}
+): Promise<boolean> => {
+  const zipFileName = getPdfPagesZipFileName(pdfFile);
+  // The save picker needs the click's user activation, so it is shown before the PDF loads
+  const target = await chooseZipSaveTarget(zipFileName);
+  if (!target) {
+    return false;
+  }
+
+  const result = await tryExportWorker(
+    {
+      type: 'pdf-pages-zip',
+      pdfFile,
+      password: getPdfPassword(pdfFile),
+      cuts,
+      settings,
+      options,
+      fileHandle: target === 'download' ? null : target,
+    },
+    task
+  );
+
+  if (result === undefined) {
+    return writePdfPagesZip(pdfFile, cuts, settings, options, target, task);
+  }
+
+  if (result instanceof Blob) {
+    saveZipBlob(result, zipFileName);
+    return true;
+  }
+
+  return result === true;
+};
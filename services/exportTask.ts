@@ -0,0 +1,20 @@
+// Reports the page being processed (1-based) out of the total page count
+export type ExportProgressHandler = (current: number, total: number) => void;
+
+export interface ExportTaskOptions {
+  onProgress?: ExportProgressHandler;
+  signal?: AbortSignal;
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Lets the UI (or the worker's message loop) run between pages
+export const yieldToBrowser = () =>
+  new Promise<void>((resolve) => {
+    if (typeof requestAnimationFrame !== 'undefined') {
+      requestAnimationFrame(() => resolve());
+    } else {
+      setTimeout(resolve, 0);
+    }
+  });
@@ -0,0 +1,101 @@
+import { ExportTaskOptions } from './exportTask';
+import {
+  ExportWorkerJob,
+  ExportWorkerRequest,
+  ExportWorkerResponse,
+  ExportWorkerResult,
+} from './exportWorkerProtocol';
+import { createImagesZipResponse } from './imageExportService';
+import { openWorkerPdfjsDocument } from './pdfjsWorkerDocument';
+import { savePdfPagesZip } from './pdfPageExportService';
+import { saveImagesAsPdf, saveMarkedPdf } from './pdfService';
+import { pipeZipToFile, ZipFileHandle } from './zipDownload';
+
+interface ExportWorkerScope {
+  postMessage: (message: ExportWorkerResponse, transfer?: Transferable[]) => void;
+  onmessage: ((event: MessageEvent<ExportWorkerRequest>) => void) | null;
+}
+
+const scope = self as unknown as ExportWorkerScope;
+// Each worker runs a single export, so one controller covers its whole lifetime
+const controller = new AbortController();
+
+// Streams into the picked file, or hands the finished ZIP back for a regular download
+const saveZipFromWorker = async (
+  response: Response,
+  fileHandle: ZipFileHandle | null,
+  signal: AbortSignal | undefined
+): Promise<ExportWorkerResult> => {
+  if (fileHandle && response.body) {
+    return pipeZipToFile(response.body, fileHandle, signal);
+  }
+  const blob = await response.blob();
+  signal?.throwIfAborted();
+  return blob;
+};
+
+const runJob = async (job: ExportWorkerJob, task: ExportTaskOptions): Promise<ExportWorkerResult> => {
+  switch (job.type) {
+    case 'marked-pdf':
+      return saveMarkedPdf(await job.pdfFile.arrayBuffer(), job.cuts, job.settings, {
+        ...task,
+        markMode: job.markMode,
+        writeMode: job.writeMode,
+        project: job.project,
+        onRewriteFallback: (reason) => scope.postMessage({ type: 'rewrite-fallback', reason }),
+      });
+    case 'images-pdf':
+      return saveImagesAsPdf(job.imageFiles, job.cuts, job.settings, {
+        ...task,
+        markMode: job.markMode,
+        project: job.project,
+      });
+    case 'images-zip': {
+      const response = await createImagesZipResponse(
+        job.imageFiles,
+        job.cuts,
+        job.settings,
+        job.options,
+        task
+      );
+      return saveZipFromWorker(response, job.fileHandle, task.signal);
+    }
+    case 'pdf-pages-zip':
+      return savePdfPagesZip(
+        await openWorkerPdfjsDocument(job.pdfFile, job.password),
+        job.pdfFile,
+        job.cuts,
+        job.settings,
+        job.options,
+        (response) => saveZipFromWorker(response, job.fileHandle, task.signal),
+        task
+      );
+  }
+};
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    controller.abort();
+    return;
+  }
+
+  try {
+    const result = await runJob(request, {
+      signal: controller.signal,
+      onProgress: (current, total) => scope.postMessage({ type: 'progress', current, total }),
+    });
+    scope.postMessage(
+      { type: 'done', result },
+      result instanceof Uint8Array ? [result.buffer as ArrayBuffer] : []
+    );
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      name: error instanceof Error || error instanceof DOMException ? error.name : 'Error',
+      message: error instanceof Error || error instanceof DOMException ? error.message : String(error),
+    });
+  }
+};
+
+scope.postMessage({ type: 'ready' });
@@ -0,0 +1,57 @@
+import { ProjectDocument } from '../domain/project';
+import {
+  AppSettings,
+  Cut,
+  ImageExportOptions,
+  PdfImageExportOptions,
+  PdfMarkMode,
+  PdfWriteMode,
+} from '../types';
+import { ZipFileHandle } from './zipDownload';
+
+interface ExportJobBase {
+  cuts: Cut[];
+  settings: AppSettings;
+}
+
+export type ExportWorkerJob =
+  | (ExportJobBase & {
+      type: 'marked-pdf';
+      pdfFile: File;
+      markMode: PdfMarkMode;
+      writeMode: PdfWriteMode;
+      project: ProjectDocument | null;
+    })
+  | (ExportJobBase & {
+      type: 'images-pdf';
+      imageFiles: File[];
+      markMode: PdfMarkMode;
+      project: ProjectDocument | null;
+    })
+  | (ExportJobBase & {
+      type: 'images-zip';
+      imageFiles: File[];
+      options: ImageExportOptions;
+      // null means the worker hands the finished ZIP back for a regular download
+      fileHandle: ZipFileHandle | null;
+    })
+  | (ExportJobBase & {
+      type: 'pdf-pages-zip';
+      pdfFile: File;
+      // Set for encrypted PDFs that only pdf.js could open
+      password: string | undefined;
+      options: PdfImageExportOptions;
+      fileHandle: ZipFileHandle | null;
+    });
+
+export type ExportWorkerRequest = ExportWorkerJob | { type: 'cancel' };
+
+// marked-pdf / images-pdf resolve to PDF bytes, the ZIP jobs to the ZIP blob or whether it was written
+export type ExportWorkerResult = Uint8Array | Blob | boolean;
+
+export type ExportWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'progress'; current: number; total: number }
+  | { type: 'rewrite-fallback'; reason: string }
+  | { type: 'done'; result: ExportWorkerResult }
+  | { type: 'error'; name: string; message: string };
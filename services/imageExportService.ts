@@ -1,6 +1,16 @@
 import { downloadZip } from 'client-zip';
 import { createCutsByPageIndex } from '../application/cutPageIndex';
-import { Cut, AppSettings } from '../types';
+import {
+  getImageExportScale,
+  getImageOutputFileName,
+  getImageOutputTypeFromMime,
+  IMAGE_OUTPUT_MIME_TYPES,
+  resolveImageOutputType,
+} from '../application/imageExportOutput';
+import { Cut, AppSettings, ImageExportOptions } from '../types';
+import { drawCutLabels } from './cutLabelCanvas';
+import { createExportCanvas, exportCanvasToBlob, getExportCanvasContext } from './exportCanvas';
+import { ExportTaskOptions, yieldToBrowser } from './exportTask';
 import {
   applyExifOrientation,
   getOrientedDimensions,
@@ -8,35 +18,34 @@ import {
   setBlobDpi,
 } from './imageProcessing';
 import { getImageFileMetadata } from './imageMetadata';
+import { loadLabelFontFace } from './labelFont';
 import { saveZipResponse } from './zipDownload';
 
-const yieldToBrowser = () =>
-  new Promise<void>((resolve) => {
-    if (typeof requestAnimationFrame !== 'undefined') {
-      requestAnimationFrame(() => resolve());
-    } else {
-      setTimeout(resolve, 0);
-    }
-  });
+export const IMAGES_ZIP_FILE_NAME = 'marked_images.zip';
 
-export const exportImagesAsZip = async (
+/**
+ * Builds the marked images ZIP as a lazily generated response; each image is rendered
+ * only when the consumer reads the next entry.
+ * Downscaled images keep their physical size, so their DPI is lowered by the same factor.
+ */
+export const createImagesZipResponse = async (
   imageFiles: File[],
   cuts: Cut[],
   settings: AppSettings,
-  onProgress?: (current: number, total: number) => void
-): Promise<boolean> => {
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
+  options: ImageExportOptions,
+  { onProgress, signal }: ExportTaskOptions = {}
+): Promise<Response> => {
+  const canvas = createExportCanvas();
+  const ctx = getExportCanvasContext(canvas);
 
-  if (!ctx) {
-    throw new Error('Canvas context not available');
-  }
+  await loadLabelFontFace(settings.labelFont);
 
   const total = imageFiles.length;
   const cutsByPageIndex = createCutsByPageIndex(cuts);
 
   const buildEntries = async function* () {
     for (let i = 0; i < total; i++) {
+      signal?.throwIfAborted();
       const file = imageFiles[i];
       if (onProgress) onProgress(i + 1, total);
 
@@ -45,93 +54,58 @@ export const exportImagesAsZip = async (
         continue;
       }
 
-      const fileType = metadata.fileType;
+      const inputType =
+        metadata.fileType === 'tiff' || metadata.fileType === 'bmp' ? null : metadata.fileType;
       const orientation = metadata.orientation;
-      const adjustedDpi = metadata.dpi;
+      const requestedType = resolveImageOutputType(inputType, options);
 
       const { source, width: sourceWidth, height: sourceHeight, cleanup } = await loadImageSource(file);
-      const { width, height } = getOrientedDimensions(sourceWidth, sourceHeight, orientation);
+      const oriented = getOrientedDimensions(sourceWidth, sourceHeight, orientation);
+      const scale = getImageExportScale(oriented.width, oriented.height, options);
+      const width = Math.max(1, Math.round(oriented.width * scale));
+      const height = Math.max(1, Math.round(oriented.height * scale));
 
       canvas.width = width;
       canvas.height = height;
 
       ctx.setTransform(1, 0, 0, 1, 0, 0);
       ctx.clearRect(0, 0, width, height);
+      if (requestedType === 'jpeg') {
+        // JPEG has no alpha; transparent PNG pixels would otherwise turn black
+        ctx.fillStyle = 'white';
+        ctx.fillRect(0, 0, width, height);
+      }
 
       ctx.save();
+      ctx.scale(width / oriented.width, height / oriented.height);
       applyExifOrientation(ctx, orientation, sourceWidth, sourceHeight);
       ctx.drawImage(source, 0, 0);
       ctx.restore();
 
-      const pageCuts = cutsByPageIndex.get(i) ?? [];
-      const textSize = settings.fontSize;
-      ctx.font = `bold ${textSize}px Helvetica, Arial, sans-serif`;
-      ctx.textBaseline = 'top';
-
-      for (const cut of pageCuts) {
-        const lines = cut.label.split('\n');
-
-        let maxTextWidth = 0;
-        const lineMetrics = lines.map((line) => {
-          const measured = ctx.measureText(line);
-          const width = measured.width;
-          if (width > maxTextWidth) maxTextWidth = width;
-          return { text: line, width };
-        });
-
-        const padding = settings.backgroundPadding;
-        const lineHeight = textSize;
-        const boxWidth = maxTextWidth + (padding * 2);
-        const boxHeight = (lines.length * lineHeight) + (padding * 2);
-        const boxTopY = cut.y * height;
-        const rectX = (cut.x * width) - (boxWidth / 2);
-        const rectY = boxTopY;
-
-        if (settings.useWhiteBackground) {
-          ctx.fillStyle = 'white';
-          ctx.fillRect(rectX, rectY, boxWidth, boxHeight);
-        }
-
-        lines.forEach((line, lineIndex) => {
-          const lineWidth = lineMetrics[lineIndex].width;
-          const xOffset = (maxTextWidth - lineWidth) / 2;
-          const lineX = rectX + padding + xOffset;
-          const lineY = rectY + padding + (lineIndex * lineHeight);
-
-          if (settings.textOutlineWidth > 0) {
-            ctx.lineWidth = settings.textOutlineWidth * 2;
-            ctx.strokeStyle = 'white';
-            ctx.lineJoin = 'round';
-            ctx.lineCap = 'round';
-            ctx.strokeText(line, lineX, lineY);
-          }
-
-          ctx.fillStyle = 'black';
-          ctx.fillText(line, lineX, lineY);
-        });
-      }
+      drawCutLabels(ctx, cutsByPageIndex.get(i) ?? [], settings, width, height, scale);
 
       cleanup?.();
 
-      const isPng = fileType === 'png';
-      let blob = await new Promise<Blob | null>((resolve) => {
-        if (isPng) {
-          canvas.toBlob(resolve, 'image/png');
-        } else {
-          canvas.toBlob(resolve, 'image/jpeg', 0.8);
-        }
-      });
+      let blob = requestedType === 'png'
+        ? await exportCanvasToBlob(canvas, IMAGE_OUTPUT_MIME_TYPES.png)
+        : await exportCanvasToBlob(canvas, IMAGE_OUTPUT_MIME_TYPES[requestedType], options.quality);
 
       if (!blob) {
         continue;
       }
 
-      if (adjustedDpi) {
-        blob = await setBlobDpi(blob, adjustedDpi, isPng ? 'png' : 'jpeg');
+      const outputType = getImageOutputTypeFromMime(blob.type) ?? requestedType;
+
+      if (metadata.dpi) {
+        blob = await setBlobDpi(
+          blob,
+          { x: metadata.dpi.x * scale, y: metadata.dpi.y * scale },
+          outputType
+        );
       }
 
       yield {
-        name: file.name,
+        name: getImageOutputFileName(file.name, inputType, outputType),
         lastModified: new Date(file.lastModified),
         input: blob.stream(),
       };
@@ -140,6 +114,16 @@ export const exportImagesAsZip = async (
     }
   };
 
-  const zipResponse = downloadZip(buildEntries());
-  return saveZipResponse(zipResponse, 'marked_images.zip');
+  return downloadZip(buildEntries());
+};
+
+export const exportImagesAsZip = async (
+  imageFiles: File[],
+  cuts: Cut[],
+  settings: AppSettings,
+  options: ImageExportOptions,
+  task: ExportTaskOptions = {}
+): Promise<boolean> => {
+  const zipResponse = await createImagesZipResponse(imageFiles, cuts, settings, options, task);
+  return saveZipResponse(zipResponse, IMAGES_ZIP_FILE_NAME, task.signal);
 };
@@ -3,7 +3,7 @@ import {
   ExifOrientation,
 } from './imageProcessing';
 
-export type SupportedImageFileType = 'jpeg' | 'png';
+export type SupportedImageFileType = 'jpeg' | 'png' | 'webp' | 'tiff' | 'bmp';
 
 export interface ImageFileMetadata {
   fileType: SupportedImageFileType | null;
@@ -28,6 +28,22 @@ const detectImageFileType = (file: File): SupportedImageFileType | null => {
     return 'png';
   }
 
+  if (file.type === 'image/webp' || lowerName.endsWith('.webp')) {
+    return 'webp';
+  }
+
+  if (file.type === 'image/tiff' || lowerName.endsWith('.tif') || lowerName.endsWith('.tiff')) {
+    return 'tiff';
+  }
+
+  if (
+    file.type === 'image/bmp' ||
+    file.type === 'image/x-ms-bmp' ||
+    lowerName.endsWith('.bmp')
+  ) {
+    return 'bmp';
+  }
+
   return null;
 };
 
@@ -218,6 +234,106 @@ const scanPngMetadata = async (file: File) => {
   return { dpi, orientation };
 };
 
+// Resolution and orientation live in IFD0, whose values may sit anywhere in the file
+const scanTiffMetadata = async (file: File) => {
+  const buffer = await file.arrayBuffer();
+  return readExifInfoFromTiff(new DataView(buffer), 0, buffer.byteLength);
+};
+
+const readFourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+const scanWebpMetadata = async (file: File) => {
+  const header = new DataView(await file.slice(0, 12).arrayBuffer());
+  const isWebp =
+    header.byteLength >= 12 &&
+    readFourCC(header, 0) === 'RIFF' &&
+    readFourCC(header, 8) === 'WEBP';
+
+  if (!isWebp) {
+    return { dpi: null, orientation: null };
+  }
+
+  let offset = 12;
+  while (offset + 8 <= file.size) {
+    const chunkHeader = new DataView(await file.slice(offset, offset + 8).arrayBuffer());
+    const chunkType = readFourCC(chunkHeader, 0);
+    const length = chunkHeader.getUint32(4, true);
+    const dataStart = offset + 8;
+
+    if (chunkType === 'EXIF') {
+      const payload = new DataView(await file.slice(dataStart, dataStart + length).arrayBuffer());
+      let tiffStart = 0;
+      if (length >= 6) {
+        const hasExifHeader =
+          payload.getUint8(0) === 0x45 &&
+          payload.getUint8(1) === 0x78 &&
+          payload.getUint8(2) === 0x69 &&
+          payload.getUint8(3) === 0x66 &&
+          payload.getUint16(4) === 0x0000;
+        if (hasExifHeader) tiffStart = 6;
+      }
+      return readExifInfoFromTiff(payload, tiffStart, payload.byteLength);
+    }
+
+    // Chunks are padded to an even length
+    offset = dataStart + length + (length % 2);
+  }
+
+  return { dpi: null, orientation: null };
+};
+
+// BMP stores pixels per metre in the BITMAPINFOHEADER and has no orientation
+const scanBmpMetadata = async (file: File) => {
+  const header = new DataView(await file.slice(0, 46).arrayBuffer());
+  const isBmp =
+    header.byteLength >= 46 &&
+    header.getUint16(0) === 0x424d &&
+    header.getUint32(14, true) >= 40;
+
+  if (!isBmp) {
+    return { dpi: null, orientation: null };
+  }
+
+  const ppmX = header.getInt32(38, true);
+  const ppmY = header.getInt32(42, true);
+  const dpi = ppmX > 0 && ppmY > 0 ? { x: ppmX * 0.0254, y: ppmY * 0.0254 } : null;
+  return { dpi, orientation: null };
+};
+
+const scanImageMetadata = (
+  file: File,
+  fileType: SupportedImageFileType
+): Promise<{ dpi: { x: number; y: number } | null; orientation: ExifOrientation | null }> => {
+  switch (fileType) {
+    case 'jpeg':
+      return scanJpegMetadata(file);
+    case 'png':
+      return scanPngMetadata(file);
+    case 'webp':
+      return scanWebpMetadata(file);
+    case 'tiff':
+      return scanTiffMetadata(file);
+    case 'bmp':
+      return scanBmpMetadata(file);
+  }
+};
+
+/**
+ * pdf-lib only embeds JPEG and PNG, and canvases only encode JPEG, PNG and WebP.
+ * Other formats are redrawn and re-encoded as lossless PNG.
+ */
+export const toRenderedImageType = (fileType: SupportedImageFileType): 'jpeg' | 'png' =>
+  fileType === 'jpeg' ? 'jpeg' : 'png';
+
+// Formats an <img> cannot show in every browser are decoded by the app before previewing
+export const needsDecodedPreview = (fileType: SupportedImageFileType) => fileType === 'tiff';
+
 export const getImageFileMetadata = async (file: File): Promise<ImageFileMetadata> => {
   const cached = metadataCache.get(file);
   if (cached) {
@@ -234,8 +350,7 @@ export const getImageFileMetadata = async (file: File): Promise<ImageFileMetadat
       };
     }
 
-    const { dpi, orientation } =
-      fileType === 'jpeg' ? await scanJpegMetadata(file) : await scanPngMetadata(file);
+    const { dpi, orientation } = await scanImageMetadata(file, fileType);
 
     return {
       fileType,
@@ -1,3 +1,11 @@
+import {
+  createExportCanvas,
+  ExportCanvasContext,
+  exportCanvasToBlob,
+  getExportCanvasContext,
+} from './exportCanvas';
+import { decodeTiff, isTiffHeader } from './tiffDecoder';
+
 
 // Helper to extract DPI from image buffer
 export const getImageResolution = (buffer: ArrayBuffer, type: 'jpeg' | 'png'): { x: number, y: number } | null => {
@@ -283,7 +291,7 @@ export const adjustDpiForOrientation = (
 };
 
 export const applyExifOrientation = (
-  ctx: CanvasRenderingContext2D,
+  ctx: ExportCanvasContext,
   orientation: ExifOrientation | null,
   width: number,
   height: number
@@ -317,9 +325,22 @@ export const applyExifOrientation = (
   }
 };
 
+const loadTiffSource = async (blob: Blob) => {
+  const { width, height, data } = await decodeTiff(await blob.arrayBuffer());
+  const canvas = createExportCanvas();
+  canvas.width = width;
+  canvas.height = height;
+  getExportCanvasContext(canvas).putImageData(new ImageData(data, width, height), 0, 0);
+  return { source: canvas, width, height };
+};
+
 export const loadImageSource = async (
   blob: Blob
 ): Promise<{ source: CanvasImageSource; width: number; height: number; cleanup?: () => void }> => {
+  if (isTiffHeader(new Uint8Array(await blob.slice(0, 4).arrayBuffer()))) {
+    return loadTiffSource(blob);
+  }
+
   try {
     const bitmap = await createImageBitmap(blob, { imageOrientation: 'none' });
     return {
@@ -328,7 +349,11 @@ export const loadImageSource = async (
       height: bitmap.height,
       cleanup: () => bitmap.close(),
     };
-  } catch {
+  } catch (error) {
+    // Workers have no <img>; createImageBitmap is the only decoder there
+    if (typeof Image === 'undefined') {
+      throw error;
+    }
     const img = new Image();
     img.decoding = 'async';
     img.style.setProperty('image-orientation', 'none');
@@ -352,11 +377,13 @@ export const renderImageWithOrientation = async (
   const { source, width: sourceWidth, height: sourceHeight, cleanup } = await loadImageSource(blob);
   const { width, height } = getOrientedDimensions(sourceWidth, sourceHeight, orientation);
 
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
-  if (!ctx) {
+  const canvas = createExportCanvas();
+  let ctx: ExportCanvasContext;
+  try {
+    ctx = getExportCanvasContext(canvas);
+  } catch (error) {
     cleanup?.();
-    throw new Error('Canvas context not available');
+    throw error;
   }
 
   canvas.width = width;
@@ -370,13 +397,9 @@ export const renderImageWithOrientation = async (
   cleanup?.();
 
   const mime = type === 'png' ? 'image/png' : 'image/jpeg';
-  const result = await new Promise<Blob | null>((resolve) => {
-    if (type === 'jpeg') {
-      canvas.toBlob(resolve, mime, quality);
-    } else {
-      canvas.toBlob(resolve, mime);
-    }
-  });
+  const result = type === 'jpeg'
+    ? await exportCanvasToBlob(canvas, mime, quality)
+    : await exportCanvasToBlob(canvas, mime);
 
   if (!result) {
     throw new Error('Failed to render image');
@@ -407,8 +430,126 @@ export const crc32 = (buf: Uint8Array): number => {
     return (crc ^ (-1)) >>> 0;
 };
 
+const WEBP_ALPHA_FLAG = 0x10;
+const WEBP_EXIF_FLAG = 0x08;
+
+const readFourCC = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const writeFourCC = (bytes: Uint8Array, offset: number, fourCC: string) => {
+  for (let i = 0; i < 4; i++) bytes[offset + i] = fourCC.charCodeAt(i);
+};
+
+// Little-endian TIFF holding only XResolution, YResolution and ResolutionUnit (inches)
+const buildResolutionTiff = (dpi: {x: number, y: number}) => {
+  const tiff = new Uint8Array(66);
+  const view = new DataView(tiff.buffer);
+  tiff.set([0x49, 0x49, 0x2a, 0x00]);
+  view.setUint32(4, 8, true); // First IFD offset
+  view.setUint16(8, 3, true); // Entry count
+
+  const writeEntry = (index: number, tag: number, type: number, value: number) => {
+    const entryOffset = 10 + (index * 12);
+    view.setUint16(entryOffset, tag, true);
+    view.setUint16(entryOffset + 2, type, true);
+    view.setUint32(entryOffset + 4, 1, true);
+    view.setUint32(entryOffset + 8, value, true);
+  };
+  writeEntry(0, 0x011A, 5, 50); // XResolution, RATIONAL at offset 50
+  writeEntry(1, 0x011B, 5, 58); // YResolution, RATIONAL at offset 58
+  writeEntry(2, 0x0128, 3, 2);  // ResolutionUnit = inches
+  view.setUint32(46, 0, true);  // No next IFD
+
+  view.setUint32(50, Math.round(dpi.x), true);
+  view.setUint32(54, 1, true);
+  view.setUint32(58, Math.round(dpi.y), true);
+  view.setUint32(62, 1, true);
+  return tiff;
+};
+
+/**
+ * WebP has no density field of its own, so the DPI goes into an EXIF chunk.
+ * Simple (VP8/VP8L only) files are promoted to the extended format, which requires a VP8X header.
+ */
+const setWebpDpi = (buffer: ArrayBuffer, dpi: {x: number, y: number}): Uint8Array | null => {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    if (bytes.length < 20 || readFourCC(bytes, 0) !== 'RIFF' || readFourCC(bytes, 8) !== 'WEBP') {
+        return null;
+    }
+
+    const chunks: Uint8Array[] = [];
+    let vp8x: Uint8Array | null = null;
+    let width = 0;
+    let height = 0;
+    let hasAlpha = false;
+
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const fourCC = readFourCC(bytes, offset);
+        const size = view.getUint32(offset + 4, true);
+        const payload = offset + 8;
+        const end = Math.min(payload + size + (size % 2), bytes.length); // Chunks are padded to even sizes
+
+        if (fourCC === 'VP8X') {
+            vp8x = bytes.slice(offset, end);
+        } else if (fourCC !== 'EXIF') {
+            chunks.push(bytes.subarray(offset, end));
+        }
+
+        if (fourCC === 'VP8 ' && size >= 10) {
+            width = view.getUint16(payload + 6, true) & 0x3FFF;
+            height = view.getUint16(payload + 8, true) & 0x3FFF;
+        } else if (fourCC === 'VP8L' && size >= 5) {
+            const bits = view.getUint32(payload + 1, true);
+            width = (bits & 0x3FFF) + 1;
+            height = ((bits >>> 14) & 0x3FFF) + 1;
+            hasAlpha = ((bits >>> 28) & 1) === 1;
+        }
+
+        offset = end;
+    }
+
+    if (!vp8x) {
+        if (!width || !height) return null;
+        vp8x = new Uint8Array(18);
+        const vp8xView = new DataView(vp8x.buffer);
+        writeFourCC(vp8x, 0, 'VP8X');
+        vp8xView.setUint32(4, 10, true);
+        vp8x[8] = hasAlpha ? WEBP_ALPHA_FLAG : 0;
+        // Canvas width and height minus one, 24-bit little-endian each
+        vp8xView.setUint16(12, (width - 1) & 0xFFFF, true);
+        vp8x[14] = ((width - 1) >>> 16) & 0xFF;
+        vp8xView.setUint16(15, (height - 1) & 0xFFFF, true);
+        vp8x[17] = ((height - 1) >>> 16) & 0xFF;
+    }
+    vp8x[8] |= WEBP_EXIF_FLAG;
+
+    const tiff = buildResolutionTiff(dpi);
+    const exif = new Uint8Array(8 + tiff.length);
+    writeFourCC(exif, 0, 'EXIF');
+    new DataView(exif.buffer).setUint32(4, tiff.length, true);
+    exif.set(tiff, 8);
+
+    // EXIF belongs after the image data
+    const parts = [vp8x, ...chunks, exif];
+    const bodySize = parts.reduce((total, part) => total + part.length, 0);
+    const result = new Uint8Array(12 + bodySize);
+    const resultView = new DataView(result.buffer);
+    writeFourCC(result, 0, 'RIFF');
+    resultView.setUint32(4, 4 + bodySize, true);
+    writeFourCC(result, 8, 'WEBP');
+
+    let cursor = 12;
+    for (const part of parts) {
+        result.set(part, cursor);
+        cursor += part.length;
+    }
+    return result;
+};
+
 // Helper to inject DPI into Blob
-export const setBlobDpi = async (blob: Blob, dpi: {x: number, y: number}, type: 'jpeg' | 'png'): Promise<Blob> => {
+export const setBlobDpi = async (blob: Blob, dpi: {x: number, y: number}, type: 'jpeg' | 'png' | 'webp'): Promise<Blob> => {
     const buffer = await blob.arrayBuffer();
     const view = new DataView(buffer);
     const uint8 = new Uint8Array(buffer);
@@ -509,6 +650,9 @@ export const setBlobDpi = async (blob: Blob, dpi: {x: number, y: number}, type:
         newBuf.set(uint8.slice(insertPos), insertPos + 21);
         
         return new Blob([newBuf], { type: 'image/png' });
+    } else if (type === 'webp') {
+        const webp = setWebpDpi(buffer, dpi);
+        return webp ? new Blob([webp], { type: 'image/webp' }) : blob;
     }
     
     return blob;
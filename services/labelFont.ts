@@ -0,0 +1,117 @@
+import { LabelFont } from '../types';
+
+export const DEFAULT_LABEL_FONT_STACK = 'Helvetica, Arial, sans-serif';
+
+const FONT_SIGNATURES = [
+  [0x00, 0x01, 0x00, 0x00], // TrueType
+  [0x74, 0x72, 0x75, 0x65], // 'true' (legacy Apple TrueType)
+  [0x4f, 0x54, 0x54, 0x4f], // 'OTTO' (CFF based OpenType)
+];
+
+const BASE64_CHUNK_SIZE = 0x8000;
+
+const labelFontIds = new WeakMap<LabelFont, string>();
+const loadedLabelFontFaces = new Map<string, Promise<void>>();
+
+export const isSupportedFontData = (bytes: Uint8Array) =>
+  FONT_SIGNATURES.some((signature) =>
+    signature.every((value, index) => bytes[index] === value)
+  );
+
+export const encodeLabelFontData = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + BASE64_CHUNK_SIZE));
+  }
+  return btoa(binary);
+};
+
+export const decodeLabelFontData = (font: LabelFont) => {
+  const binary = atob(font.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const readLabelFontFile = async (file: File): Promise<LabelFont> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isSupportedFontData(bytes)) {
+    throw new Error('Label font must be a TrueType or OpenType font file');
+  }
+
+  return {
+    name: file.name,
+    data: encodeLabelFontData(bytes),
+  };
+};
+
+// cyrb53: a fast 53-bit string hash, enough to tell fonts apart without reading them back
+const hashFontData = (data: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < data.length; i++) {
+    const code = data.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+/**
+ * Identifies a font by its data, so a font can be compared and stored once without its megabytes.
+ * The hash is taken once per loaded font and goes away with it.
+ */
+export const getLabelFontId = (font: LabelFont) => {
+  let id = labelFontIds.get(font);
+  if (!id) {
+    id = hashFontData(font.data);
+    labelFontIds.set(font, id);
+  }
+  return id;
+};
+
+// The same font data always maps to the same family so previews and exports share one FontFace.
+const getLabelFontFaceFamily = (font: LabelFont) => `CutMarkLabel-${getLabelFontId(font)}`;
+
+export const getLabelFontStack = (font: LabelFont | null) =>
+  font ? `"${getLabelFontFaceFamily(font)}", ${DEFAULT_LABEL_FONT_STACK}` : DEFAULT_LABEL_FONT_STACK;
+
+// Embedded fonts are drawn as-is in the PDF, so the canvas and preview must not synthesize bold either.
+export const getLabelFontWeight = (font: LabelFont | null) => (font ? 'normal' : 'bold');
+
+export const getLabelCanvasFont = (font: LabelFont | null, size: number) =>
+  `${getLabelFontWeight(font)} ${size}px ${getLabelFontStack(font)}`;
+
+// document.fonts on the main thread, self.fonts inside the export worker
+const getFontFaceSet = (): FontFaceSet | undefined =>
+  typeof document !== 'undefined'
+    ? document.fonts
+    : (globalThis as { fonts?: FontFaceSet }).fonts;
+
+export const loadLabelFontFace = (font: LabelFont | null): Promise<void> => {
+  const fontFaceSet = getFontFaceSet();
+  if (!font || typeof FontFace === 'undefined' || !fontFaceSet) {
+    return Promise.resolve();
+  }
+
+  const family = getLabelFontFaceFamily(font);
+  let pending = loadedLabelFontFaces.get(family);
+  if (!pending) {
+    const face = new FontFace(family, decodeLabelFontData(font));
+    fontFaceSet.add(face);
+    pending = face.load().then(
+      () => undefined,
+      (error) => {
+        fontFaceSet.delete(face);
+        loadedLabelFontFaces.delete(family);
+        throw error;
+      }
+    );
+    loadedLabelFontFaces.set(family, pending);
+  }
+  return pending;
+};
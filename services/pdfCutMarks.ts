@@ -0,0 +1,269 @@
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFRawStream,
+  PDFRef,
+} from 'pdf-lib';
+
+export const CUTMARK_LAYER_NAME = 'CutMark';
+// Marked-content tag wrapped around every exported cut label (/CutMark /CutMarkLabel BDC ... EMC)
+export const CUTMARK_CONTENT_TAG = PDFName.of('CutMark');
+// Key under the page /Resources /Properties holding the property list of that tag
+export const CUTMARK_LABEL_PROPERTY = PDFName.of('CutMarkLabel');
+// Key under the page /Resources /Properties that points at the CutMark OCG
+export const CUTMARK_LAYER_PROPERTY = PDFName.of('CutMarkLayer');
+
+type ByteRange = [start: number, end: number];
+
+interface MarkedContentEntry {
+  start: number;
+  matches: boolean;
+  covered: boolean;
+}
+
+const isWhitespace = (byte: number) =>
+  byte === 0x00 || byte === 0x09 || byte === 0x0a || byte === 0x0c || byte === 0x0d || byte === 0x20;
+
+const isDelimiter = (byte: number) =>
+  byte === 0x28 || byte === 0x29 || byte === 0x3c || byte === 0x3e ||
+  byte === 0x5b || byte === 0x5d || byte === 0x7b || byte === 0x7d ||
+  byte === 0x2f || byte === 0x25;
+
+const OPERAND_KEYWORDS = new Set(['true', 'false', 'null']);
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+const readToken = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+const isCutMarkTag = (operands: string[]) =>
+  operands[0] === CUTMARK_CONTENT_TAG.asString() ||
+  (operands[0] === '/OC' && operands[1] === CUTMARK_LAYER_PROPERTY.asString());
+
+// Skips inline image data after the ID operator, which may contain any byte sequence.
+const skipInlineImageData = (bytes: Uint8Array, from: number) => {
+  for (let i = from + 1; i < bytes.length - 1; i++) {
+    if (
+      bytes[i] === 0x45 &&
+      bytes[i + 1] === 0x49 &&
+      isWhitespace(bytes[i - 1]) &&
+      (i + 2 >= bytes.length || isWhitespace(bytes[i + 2]))
+    ) {
+      return i;
+    }
+  }
+  return bytes.length;
+};
+
+/**
+ * Finds the outermost CutMark marked-content sequences in a decoded content stream.
+ * Only operator boundaries are tracked; operands other than names are skipped unparsed.
+ */
+export const findCutMarkContentRanges = (bytes: Uint8Array): ByteRange[] => {
+  const ranges: ByteRange[] = [];
+  const stack: MarkedContentEntry[] = [];
+  let operands: string[] = [];
+  let operandStart = -1;
+  let i = 0;
+
+  const pushOperand = (start: number, value: string) => {
+    if (operandStart < 0) operandStart = start;
+    operands.push(value);
+  };
+
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    const start = i;
+
+    if (isWhitespace(byte)) {
+      i++;
+      continue;
+    }
+
+    if (byte === 0x25) {
+      while (i < bytes.length && bytes[i] !== 0x0a && bytes[i] !== 0x0d) i++;
+      continue;
+    }
+
+    if (byte === 0x28) {
+      let depth = 0;
+      while (i < bytes.length) {
+        if (bytes[i] === 0x5c) {
+          i += 2;
+          continue;
+        }
+        if (bytes[i] === 0x28) depth++;
+        if (bytes[i] === 0x29 && --depth === 0) {
+          i++;
+          break;
+        }
+        i++;
+      }
+      pushOperand(start, '()');
+      continue;
+    }
+
+    if (byte === 0x3c || byte === 0x3e) {
+      if (bytes[i + 1] === byte) {
+        i += 2;
+        pushOperand(start, byte === 0x3c ? '<<' : '>>');
+        continue;
+      }
+      if (byte === 0x3c) {
+        while (i < bytes.length && bytes[i] !== 0x3e) i++;
+      }
+      i++;
+      pushOperand(start, '<>');
+      continue;
+    }
+
+    if (byte === 0x5b || byte === 0x5d || byte === 0x7b || byte === 0x7d || byte === 0x29) {
+      i++;
+      pushOperand(start, String.fromCharCode(byte));
+      continue;
+    }
+
+    if (byte === 0x2f) {
+      i++;
+      while (i < bytes.length && !isWhitespace(bytes[i]) && !isDelimiter(bytes[i])) i++;
+      pushOperand(start, readToken(bytes, start, i));
+      continue;
+    }
+
+    while (i < bytes.length && !isWhitespace(bytes[i]) && !isDelimiter(bytes[i])) i++;
+    const token = readToken(bytes, start, i);
+    if (NUMBER_PATTERN.test(token) || OPERAND_KEYWORDS.has(token)) {
+      pushOperand(start, token);
+      continue;
+    }
+
+    const operatorStart = operandStart < 0 ? start : operandStart;
+    if (token === 'BMC' || token === 'BDC') {
+      const parent = stack[stack.length - 1];
+      stack.push({
+        start: operatorStart,
+        matches: isCutMarkTag(operands),
+        covered: parent ? parent.covered || parent.matches : false,
+      });
+    } else if (token === 'EMC') {
+      const entry = stack.pop();
+      if (entry?.matches && !entry.covered) {
+        ranges.push([entry.start, i]);
+      }
+    } else if (token === 'ID') {
+      i = skipInlineImageData(bytes, i) + 2;
+    }
+
+    operands = [];
+    operandStart = -1;
+  }
+
+  return ranges;
+};
+
+// Each removed sequence is replaced by a newline so the neighbouring operators stay separated.
+const removeRanges = (bytes: Uint8Array, ranges: ByteRange[]) => {
+  const removedLength = ranges.reduce((total, [start, end]) => total + (end - start), 0);
+  const result = new Uint8Array(bytes.length - removedLength + ranges.length);
+  let cursor = 0;
+  let offset = 0;
+  for (const [start, end] of ranges) {
+    result.set(bytes.subarray(cursor, start), offset);
+    offset += start - cursor;
+    result[offset++] = 0x0a;
+    cursor = end;
+  }
+  result.set(bytes.subarray(cursor), offset);
+  return result;
+};
+
+const getContentStreamRefs = (pdfDoc: PDFDocument, pageIndex: number) => {
+  const contents = pdfDoc.getPage(pageIndex).node.get(PDFName.of('Contents'));
+  if (contents instanceof PDFRef) return [contents];
+  if (contents instanceof PDFArray) {
+    return contents.asArray().filter((entry): entry is PDFRef => entry instanceof PDFRef);
+  }
+  return [];
+};
+
+const removeFromArray = (array: PDFArray | undefined, refs: Set<PDFRef>) => {
+  if (!array) return;
+  for (let index = array.size() - 1; index >= 0; index--) {
+    const entry = array.get(index);
+    if (entry instanceof PDFRef && refs.has(entry)) {
+      array.remove(index);
+    }
+  }
+};
+
+const removeCutMarkLayers = (pdfDoc: PDFDocument, layerRefs: Set<PDFRef>) => {
+  const ocProperties = pdfDoc.catalog.lookupMaybe(PDFName.of('OCProperties'), PDFDict);
+  if (!ocProperties || layerRefs.size === 0) return;
+
+  const ocgs = ocProperties.lookupMaybe(PDFName.of('OCGs'), PDFArray);
+  removeFromArray(ocgs, layerRefs);
+  const defaultConfig = ocProperties.lookupMaybe(PDFName.of('D'), PDFDict);
+  if (defaultConfig) {
+    for (const key of ['Order', 'ON', 'OFF']) {
+      removeFromArray(defaultConfig.lookupMaybe(PDFName.of(key), PDFArray), layerRefs);
+    }
+  }
+
+  if (!ocgs || ocgs.size() === 0) {
+    pdfDoc.catalog.delete(PDFName.of('OCProperties'));
+  }
+};
+
+/**
+ * Removes labels written by an earlier CutMark export, along with its layer.
+ * Returns the number of pages that carried such labels.
+ */
+export const stripCutMarks = (pdfDoc: PDFDocument): number => {
+  const { context } = pdfDoc;
+  const visitedStreams = new Set<PDFRef>();
+  const layerRefs = new Set<PDFRef>();
+  let strippedPageCount = 0;
+
+  for (let pageIndex = 0; pageIndex < pdfDoc.getPageCount(); pageIndex++) {
+    let pageHadMarks = false;
+
+    for (const ref of getContentStreamRefs(pdfDoc, pageIndex)) {
+      if (visitedStreams.has(ref)) continue;
+      visitedStreams.add(ref);
+
+      const stream = context.lookup(ref);
+      if (!(stream instanceof PDFRawStream)) continue;
+
+      let decoded: Uint8Array;
+      try {
+        decoded = decodePDFRawStream(stream).decode();
+      } catch {
+        continue;
+      }
+
+      const ranges = findCutMarkContentRanges(decoded);
+      if (ranges.length === 0) continue;
+
+      context.assign(ref, context.flateStream(removeRanges(decoded, ranges)));
+      pageHadMarks = true;
+    }
+
+    const properties = pdfDoc
+      .getPage(pageIndex)
+      .node.Resources()
+      ?.lookupMaybe(PDFName.of('Properties'), PDFDict);
+    const layerRef = properties?.get(CUTMARK_LAYER_PROPERTY);
+    if (layerRef instanceof PDFRef) {
+      layerRefs.add(layerRef);
+    }
+    properties?.delete(CUTMARK_LAYER_PROPERTY);
+    properties?.delete(CUTMARK_LABEL_PROPERTY);
+
+    if (pageHadMarks) strippedPageCount++;
+  }
+
+  removeCutMarkLayers(pdfDoc, layerRefs);
+  return strippedPageCount;
+};
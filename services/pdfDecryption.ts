@@ -0,0 +1,181 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFInvalidObject,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+  PDFRawStream,
+  PDFRef,
+  PDFStreamWriter,
+  PDFString,
+} from 'pdf-lib';
+import {
+  createPdfSecurityHandler,
+  PdfSecurityHandler,
+  readDocumentId,
+  UnsupportedPdfEncryptionError,
+} from './pdfSecurityHandler';
+
+// pdf-lib's own default when saving
+const OBJECTS_PER_TICK = 50;
+
+// Print, modify, copy, annotate, fill in forms, extract, assemble and print in high quality (bits 3-6, 9-12)
+const PERMISSION_BITS = 0xf3c;
+
+type DecryptBytes = (data: Uint8Array) => Promise<Uint8Array>;
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (value) => value.toString(16).padStart(2, '0')).join('');
+
+const isStringObject = (object: PDFObject): object is PDFString | PDFHexString =>
+  object instanceof PDFString || object instanceof PDFHexString;
+
+const readInvalidObjectBytes = (object: PDFInvalidObject) => {
+  const bytes = new Uint8Array(object.sizeInBytes());
+  object.copyBytesInto(bytes, 0);
+  return bytes;
+};
+
+// The signature value is never encrypted, so /Contents of a signature dictionary is left alone
+const isSignatureContents = (dict: PDFDict, key: PDFName) =>
+  key === PDFName.of('Contents') && dict.has(PDFName.of('ByteRange'));
+
+const decryptStrings = async (object: PDFObject, decrypt: DecryptBytes): Promise<PDFObject> => {
+  if (isStringObject(object)) {
+    return PDFHexString.of(toHex(await decrypt(object.asBytes())));
+  }
+  if (object instanceof PDFArray) {
+    for (let index = 0; index < object.size(); index++) {
+      object.set(index, await decryptStrings(object.get(index), decrypt));
+    }
+  }
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      if (!isSignatureContents(object, key)) {
+        object.set(key, await decryptStrings(value, decrypt));
+      }
+    }
+  }
+  return object;
+};
+
+const hasCryptFilter = (stream: PDFRawStream) => {
+  const filter = stream.dict.lookup(PDFName.of('Filter'));
+  const crypt = PDFName.of('Crypt');
+  return filter === crypt || (filter instanceof PDFArray && filter.asArray().includes(crypt));
+};
+
+const shouldDecryptStreamData = (stream: PDFRawStream, handler: PdfSecurityHandler) => {
+  const type = stream.dict.lookup(PDFName.of('Type'));
+  if (type === PDFName.of('XRef')) return false;
+  return handler.encryptMetadata || type !== PDFName.of('Metadata');
+};
+
+const isObjectStream = (object: PDFObject): object is PDFRawStream =>
+  object instanceof PDFRawStream && object.dict.lookup(PDFName.of('Type')) === PDFName.of('ObjStm');
+
+// Object streams hold their members unencrypted once the stream itself is decrypted
+const expandObjectStream = async (
+  pdfDoc: PDFDocument,
+  ref: PDFRef,
+  stream: PDFRawStream,
+  handler: PdfSecurityHandler
+) => {
+  const contents = await handler.decryptStream(ref.objectNumber, ref.generationNumber, stream.contents);
+  pdfDoc.context.delete(ref);
+  await PDFObjectStreamParser.forStream(PDFRawStream.of(stream.dict, contents)).parseIntoContext();
+};
+
+const decryptObject = async (
+  pdfDoc: PDFDocument,
+  ref: PDFRef,
+  object: PDFObject,
+  handler: PdfSecurityHandler
+) => {
+  const decryptString: DecryptBytes = (data) =>
+    handler.decryptString(ref.objectNumber, ref.generationNumber, data);
+
+  if (!(object instanceof PDFRawStream)) {
+    pdfDoc.context.assign(ref, await decryptStrings(object, decryptString));
+    return;
+  }
+
+  if (hasCryptFilter(object)) {
+    throw new UnsupportedPdfEncryptionError('Streams with their own crypt filter are not supported');
+  }
+  await decryptStrings(object.dict, decryptString);
+  if (shouldDecryptStreamData(object, handler)) {
+    const contents = await handler.decryptStream(ref.objectNumber, ref.generationNumber, object.contents);
+    pdfDoc.context.assign(ref, PDFRawStream.of(object.dict, contents));
+  }
+};
+
+/**
+ * Returns a plain copy of a PDF protected by the standard security handler, or the original
+ * bytes when it is not encrypted. pdf-lib cannot read encrypted objects (and gives up on
+ * encrypted object streams), so everything is decrypted here and the file is re-serialized.
+ */
+export const decryptPdfBytes = async (bytes: Uint8Array, password: string): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  if (!pdfDoc.isEncrypted) return bytes;
+
+  const { context } = pdfDoc;
+  const encryptRef = context.trailerInfo.Encrypt;
+  const encrypt = context.lookup(encryptRef, PDFDict);
+  const id = context.lookup(context.trailerInfo.ID);
+  const handler = await createPdfSecurityHandler(
+    encrypt,
+    readDocumentId(id instanceof PDFArray ? id : undefined),
+    password
+  );
+
+  const loadedObjects = context.enumerateIndirectObjects();
+  // Encrypted object streams fail to parse on load and are kept as raw bytes until now
+  const objects = loadedObjects.map(([ref, loaded]): [PDFRef, PDFObject] => [
+    ref,
+    loaded instanceof PDFInvalidObject
+      ? PDFObjectParser.forBytes(readInvalidObjectBytes(loaded), context).parseObject()
+      : loaded,
+  ]);
+  for (const [ref, object] of objects) {
+    if (isObjectStream(object)) {
+      await expandObjectStream(pdfDoc, ref, object, handler);
+    }
+  }
+
+  // Members of object streams are plain already and replace any top-level copy they share a number with
+  const replaced = new Set(
+    loadedObjects.filter(([ref, loaded]) => context.lookup(ref) !== loaded).map(([ref]) => ref)
+  );
+  for (const [ref, object] of objects) {
+    if (ref === encryptRef || replaced.has(ref)) continue;
+    await decryptObject(pdfDoc, ref, object, handler);
+  }
+
+  if (encryptRef instanceof PDFRef) {
+    context.delete(encryptRef);
+  }
+  context.trailerInfo.Encrypt = undefined;
+
+  // The loaded document cached its catalog before the object streams were readable, so only the context is written
+  return PDFStreamWriter.forContext(context, OBJECTS_PER_TICK).serializeToBuffer();
+};
+
+/**
+ * Whether an encrypted PDF withholds any of the user permissions in /P. A decrypted copy no longer
+ * carries them, so whoever exports it should hear about it first.
+ */
+export const hasRestrictedPermissions = async (bytes: Uint8Array) => {
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  const { context } = pdfDoc;
+  const permissions = context
+    .lookupMaybe(context.trailerInfo.Encrypt, PDFDict)
+    ?.lookupMaybe(PDFName.of('P'), PDFNumber)
+    ?.asNumber();
+  return permissions !== undefined && (permissions & PERMISSION_BITS) !== PERMISSION_BITS;
+};
@@ -0,0 +1,67 @@
+import { PDFDocument, PDFPage } from 'pdf-lib';
+import { renderImageWithOrientation } from './imageProcessing';
+import { getImageFileMetadata, toRenderedImageType } from './imageMetadata';
+
+export const DEFAULT_IMAGE_DPI = 96;
+const POINTS_PER_INCH = 72;
+
+export interface ImageDpi {
+  x: number;
+  y: number;
+}
+
+export interface ImagePage {
+  page: PDFPage;
+  // Points per image pixel vertically, used to keep label sizes consistent with the image
+  scaleFactor: number;
+}
+
+// Falls back to the browser's 96 dpi when the file does not record a usable resolution
+export const readImageDpi = async (file: File): Promise<ImageDpi> => {
+  const { dpi } = await getImageFileMetadata(file);
+  return dpi && dpi.x > 0 && dpi.y > 0 ? dpi : { x: DEFAULT_IMAGE_DPI, y: DEFAULT_IMAGE_DPI };
+};
+
+/**
+ * Appends one page showing the image at its physical size for the given resolution, with the
+ * EXIF orientation applied. WebP, TIFF and BMP are converted to PNG first. Returns null for
+ * files that are not a supported image type.
+ */
+export const addImagePage = async (
+  pdfDoc: PDFDocument,
+  file: File,
+  dpi: ImageDpi
+): Promise<ImagePage | null> => {
+  const metadata = await getImageFileMetadata(file);
+  if (!metadata.fileType) {
+    return null;
+  }
+
+  const imgType = toRenderedImageType(metadata.fileType);
+  const orientation = metadata.orientation ?? 1;
+
+  let imageBytes: ArrayBuffer = await file.arrayBuffer();
+  if (orientation !== 1 || imgType !== metadata.fileType) {
+    const rendered = await renderImageWithOrientation(file, orientation, imgType);
+    imageBytes = await rendered.blob.arrayBuffer();
+  }
+
+  const image =
+    imgType === 'jpeg' ? await pdfDoc.embedJpg(imageBytes) : await pdfDoc.embedPng(imageBytes);
+
+  // PDF standard is 72 points per inch, so each pixel is 72 / DPI points
+  const scaleX = POINTS_PER_INCH / dpi.x;
+  const scaleY = POINTS_PER_INCH / dpi.y;
+  const drawWidth = image.width * scaleX;
+  const drawHeight = image.height * scaleY;
+
+  const page = pdfDoc.addPage([drawWidth, drawHeight]);
+  page.drawImage(image, {
+    x: 0,
+    y: 0,
+    width: drawWidth,
+    height: drawHeight,
+  });
+
+  return { page, scaleFactor: scaleY };
+};
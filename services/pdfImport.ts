@@ -0,0 +1,213 @@
+import { PDFDocument } from 'pdf-lib';
+import { createMergedPdfName } from '../application/pdfSources';
+import { PdfMergeSource, PdfSource } from '../types';
+import { stripCutMarks } from './pdfCutMarks';
+import { decryptPdfBytes, hasRestrictedPermissions } from './pdfDecryption';
+import { addImagePage, readImageDpi } from './pdfImagePage';
+import { isPdfjsPasswordError, openPdfjsDocument, rememberPdfPassword } from './pdfjsDocument';
+import { readProjectAttachmentFile } from './pdfProjectAttachment';
+import { PdfPasswordError } from './pdfSecurityHandler';
+
+// Raised when the password prompt is dismissed, which simply ends the import
+export class PdfPasswordCancelledError extends Error {}
+
+// Asked again with isRetry set after a wrong password; null means the user gave up
+export type PdfPasswordPrompt = (isRetry: boolean) => Promise<string | null>;
+
+export interface UnlockedPdf {
+  file: File;
+  // False when only pdf.js could open the file: it previews, but cannot be marked as a PDF
+  isDecrypted: boolean;
+}
+
+export interface MergedPdf {
+  file: File;
+  sources: PdfSource[];
+}
+
+export interface PreparedPdfImport {
+  file: File;
+  strippedPageCount: number;
+  embeddedProjectFile: File | null;
+}
+
+// Copies written while importing; an incremental update to one keeps nothing of the original file
+const rewrittenPdfFiles = new WeakSet<File>();
+// Decrypted copies of files whose print, copy or edit restrictions were dropped along with the encryption
+const unrestrictedPdfFiles = new WeakSet<File>();
+
+export const isRewrittenOnImport = (file: File) => rewrittenPdfFiles.has(file);
+
+export const hasDroppedRestrictions = (file: File) => unrestrictedPdfFiles.has(file);
+
+const createRewrittenPdfFile = (bytes: Uint8Array, original: File) => {
+  const file = new File([bytes], original.name, {
+    type: original.type || 'application/pdf',
+    lastModified: original.lastModified,
+  });
+  rewrittenPdfFiles.add(file);
+  if (unrestrictedPdfFiles.has(original)) unrestrictedPdfFiles.add(file);
+  return file;
+};
+
+/**
+ * Cleans a PDF exported by CutMark before it is shown: earlier labels are stripped and the
+ * attached project, if any, is handed back so the caller can offer to restore it.
+ * The original file is returned untouched when there are no labels to strip.
+ */
+export const preparePdfImport = async (file: File): Promise<PreparedPdfImport> => {
+  const pdfDoc = await PDFDocument.load(await file.arrayBuffer());
+  const embeddedProjectFile = readProjectAttachmentFile(pdfDoc);
+  const strippedPageCount = stripCutMarks(pdfDoc);
+  if (strippedPageCount === 0) {
+    return { file, strippedPageCount, embeddedProjectFile };
+  }
+
+  return {
+    file: createRewrittenPdfFile(await pdfDoc.save(), file),
+    strippedPageCount,
+    embeddedProjectFile,
+  };
+};
+
+const requestPasswordOrCancel = async (requestPassword: PdfPasswordPrompt, isRetry: boolean) => {
+  const password = await requestPassword(isRetry);
+  if (password === null) {
+    throw new PdfPasswordCancelledError('PDF password prompt was cancelled');
+  }
+  return password;
+};
+
+// Fallback for encryption the decryptor does not handle: pdf.js checks the password and keeps it for the preview
+const unlockForPreview = async (file: File, password: string, requestPassword: PdfPasswordPrompt) => {
+  let candidate = password;
+  for (let attempt = 0; ; attempt++) {
+    const loadingTask = await openPdfjsDocument(file, candidate);
+    try {
+      await loadingTask.promise;
+      rememberPdfPassword(file, candidate);
+      return { file, isDecrypted: false };
+    } catch (error) {
+      if (!isPdfjsPasswordError(error)) throw error;
+      candidate = await requestPasswordOrCancel(requestPassword, attempt > 0 || candidate !== '');
+    } finally {
+      await loadingTask.destroy();
+    }
+  }
+};
+
+/**
+ * Turns an encrypted PDF into a plain copy so that the preview, re-import cleanup and every
+ * export work on it unchanged. An empty password is tried first, which opens files that only
+ * restrict printing or editing; the user is asked only when that fails. The copy no longer
+ * carries those restrictions, which hasDroppedRestrictions reports for it.
+ */
+export const unlockEncryptedPdf = async (
+  file: File,
+  requestPassword: PdfPasswordPrompt
+): Promise<UnlockedPdf> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let password = '';
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const decrypted = createRewrittenPdfFile(await decryptPdfBytes(bytes, password), file);
+      if (await hasRestrictedPermissions(bytes)) unrestrictedPdfFiles.add(decrypted);
+      return { file: decrypted, isDecrypted: true };
+    } catch (error) {
+      if (!(error instanceof PdfPasswordError)) {
+        return unlockForPreview(file, password, requestPassword);
+      }
+      password = await requestPasswordOrCancel(requestPassword, attempt > 0);
+    }
+  }
+};
+
+const appendImagePage = async (merged: PDFDocument, file: File) => {
+  // Scanned replacement pages keep their physical size next to the PDF pages
+  if (!(await addImagePage(merged, file, await readImageDpi(file)))) {
+    throw new Error(`Unsupported image file: ${file.name}`);
+  }
+};
+
+// A PDF is listed in runs of kept pages, with the scan that replaces a page between them
+const appendSourcePages = async (
+  merged: PDFDocument,
+  { kind, file, replacementPages = [] }: PdfMergeSource
+): Promise<PdfSource[]> => {
+  if (kind === 'image') {
+    await appendImagePage(merged, file);
+    return [{ kind, file, pageCount: 1 }];
+  }
+
+  const source = await PDFDocument.load(await file.arrayBuffer());
+  const pageCount = source.getPageCount();
+  const replacements = new Map(replacementPages.map((page) => [page.pageNumber, page.file]));
+  const keptIndices = source.getPageIndices().filter((index) => !replacements.has(index + 1));
+  const keptPages = await merged.copyPages(source, keptIndices);
+  let keptPageCursor = 0;
+
+  const parts: PdfSource[] = [];
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+    const scan = replacements.get(pageNumber);
+    if (scan) {
+      await appendImagePage(merged, scan);
+      parts.push({ kind: 'image', file: scan, pageCount: 1, replacedPage: { file, pageNumber } });
+      continue;
+    }
+
+    merged.addPage(keptPages[keptPageCursor++]);
+    const lastPart = parts[parts.length - 1];
+    if (lastPart?.kind === 'pdf') {
+      lastPart.pageCount += 1;
+    } else {
+      parts.push({ kind, file, pageCount: 1, ...(pageNumber > 1 ? { firstPage: pageNumber } : {}) });
+    }
+  }
+
+  // A scan naming a page the PDF does not have is added after it
+  for (const { pageNumber, file: scan } of replacementPages) {
+    if (pageNumber <= pageCount) continue;
+    await appendImagePage(merged, scan);
+    parts.push({ kind: 'image', file: scan, pageCount: 1 });
+  }
+  return parts.length > 0 ? parts : [{ kind, file, pageCount: 0 }];
+};
+
+/**
+ * Joins PDFs and images, in the given order, into one document for the preview and the
+ * combined export. Each image becomes one page, and a scan listed as a PDF's replacement
+ * page takes that page's place. The sources are returned with their page counts so that
+ * every page can be traced back to its file.
+ */
+export const mergeSourceFiles = async (files: PdfMergeSource[]): Promise<MergedPdf> => {
+  const merged = await PDFDocument.create();
+  const sources: PdfSource[] = [];
+
+  for (const source of files) {
+    sources.push(...(await appendSourcePages(merged, source)));
+  }
+
+  const bytes = await merged.save();
+  return {
+    file: new File([bytes], createMergedPdfName(files.map(({ file }) => file)), {
+      type: 'application/pdf',
+    }),
+    sources,
+  };
+};
+
+/**
+ * Copies a merged document with its pages in the given order, so that the combined export
+ * follows the pages as they are bound. Pages missing from the order are left out.
+ */
+export const arrangePdfPages = async (file: File, pageOrder: number[]) => {
+  const source = await PDFDocument.load(await file.arrayBuffer());
+  const arranged = await PDFDocument.create();
+  const pages = await arranged.copyPages(source, pageOrder);
+  pages.forEach((page) => arranged.addPage(page));
+
+  return new File([await arranged.save()], file.name, {
+    type: 'application/pdf',
+    lastModified: file.lastModified,
+  });
+};
@@ -0,0 +1,221 @@
+import {
+  PDFCrossRefSection,
+  PDFCrossRefStream,
+  PDFDocument,
+  PDFName,
+  PDFObject,
+  PDFRef,
+  PDFStream,
+  PDFTrailer,
+  PDFTrailerDict,
+} from 'pdf-lib';
+
+// The serialized form of every indirect object right after loading, to find what the export touched
+type PdfObjectSnapshot = Map<PDFRef, { object: PDFObject; serialized: string }>;
+
+interface PreviousCrossReference {
+  offset: number;
+  isStream: boolean;
+  size: number;
+}
+
+export interface IncrementalUpdateBase {
+  previous: PreviousCrossReference;
+  snapshot: PdfObjectSnapshot;
+}
+
+// Optional content groups need PDF 1.5
+const OPTIONAL_CONTENT_MIN_VERSION = 1.5;
+const TRAILER_SEARCH_LENGTH = 4096;
+
+// Stream data is never edited in place, so a stream is compared by identity plus its dictionary
+const serializeForSnapshot = (object: PDFObject) =>
+  object instanceof PDFStream ? object.dict.toString() : object.toString();
+
+const snapshotPdfObjects = (pdfDoc: PDFDocument): PdfObjectSnapshot => {
+  const snapshot: PdfObjectSnapshot = new Map();
+  for (const [ref, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    snapshot.set(ref, { object, serialized: serializeForSnapshot(object) });
+  }
+  return snapshot;
+};
+
+const findChangedObjects = (pdfDoc: PDFDocument, snapshot: PdfObjectSnapshot) =>
+  pdfDoc.context.enumerateIndirectObjects().filter(([ref, object]) => {
+    const original = snapshot.get(ref);
+    return !original || original.object !== object || original.serialized !== serializeForSnapshot(object);
+  });
+
+const decodeLatin1 = (bytes: Uint8Array) => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+};
+
+const encodeLatin1 = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+// The update section chains to the last cross-reference section and must use the same form
+const readPreviousCrossReference = (bytes: Uint8Array): PreviousCrossReference | null => {
+  const tail = decodeLatin1(bytes.subarray(Math.max(0, bytes.length - TRAILER_SEARCH_LENGTH)));
+  const startXrefMatch = /startxref\s+(\d+)\s*%%EOF\s*$/.exec(tail);
+  if (!startXrefMatch) return null;
+
+  const offset = Number(startXrefMatch[1]);
+  if (offset <= 0 || offset >= bytes.length) return null;
+
+  const isStream = !/^\s*xref/.test(decodeLatin1(bytes.subarray(offset, offset + 16)));
+  // A stream keeps /Size in its own dictionary; a table is followed by the trailer right before startxref
+  const trailerStart = tail.lastIndexOf('trailer');
+  if (!isStream && trailerStart < 0) return null;
+  const dictionary = isStream
+    ? decodeLatin1(bytes.subarray(offset, offset + TRAILER_SEARCH_LENGTH))
+    : tail.slice(trailerStart);
+  const sizeMatch = /\/Size\s+(\d+)/.exec(dictionary);
+  if (!sizeMatch) return null;
+
+  return { offset, isStream, size: Number(sizeMatch[1]) };
+};
+
+/**
+ * Records the loaded state before any edits. Returns null when the original file has no usable
+ * cross-reference chain to extend, in which case the document has to be rewritten instead.
+ */
+export const beginIncrementalUpdate = (
+  pdfDoc: PDFDocument,
+  originalBytes: Uint8Array
+): IncrementalUpdateBase | null => {
+  const previous = readPreviousCrossReference(originalBytes);
+  if (!previous) return null;
+
+  // pdf-lib drops object and xref streams while parsing, so new objects could reuse their numbers
+  const { context } = pdfDoc;
+  context.largestObjectNumber = Math.max(context.largestObjectNumber, previous.size - 1);
+
+  return { previous, snapshot: snapshotPdfObjects(pdfDoc) };
+};
+
+const readHeaderVersion = (pdfDoc: PDFDocument) => {
+  const match = /%PDF-(\d+\.\d+)/.exec(pdfDoc.context.header.toString());
+  return match ? Number(match[1]) : null;
+};
+
+// The header cannot change in an update, so a newer version is declared in the catalog instead
+const raiseCatalogVersion = (pdfDoc: PDFDocument, minVersion: number) => {
+  const headerVersion = readHeaderVersion(pdfDoc);
+  if (headerVersion !== null && headerVersion < minVersion) {
+    pdfDoc.catalog.set(PDFName.of('Version'), PDFName.of(minVersion.toFixed(1)));
+  }
+};
+
+const concatBytes = (chunks: Uint8Array[]) => {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+interface SerializablePdfPart {
+  sizeInBytes: () => number;
+  copyBytesInto: (buffer: Uint8Array, offset: number) => number;
+}
+
+const serializeObject = (object: SerializablePdfPart) => {
+  const bytes = new Uint8Array(object.sizeInBytes());
+  object.copyBytesInto(bytes, 0);
+  return bytes;
+};
+
+// Appends every object changed since beginIncrementalUpdate, plus a cross-reference section and trailer
+export const saveIncrementalUpdate = async (
+  pdfDoc: PDFDocument,
+  originalBytes: Uint8Array,
+  { previous, snapshot }: IncrementalUpdateBase,
+  { usesOptionalContent = false }: { usesOptionalContent?: boolean } = {}
+): Promise<Uint8Array> => {
+  if (usesOptionalContent) {
+    raiseCatalogVersion(pdfDoc, OPTIONAL_CONTENT_MIN_VERSION);
+  }
+  // Embeds fonts and other pending resources, as save() would
+  await pdfDoc.flush();
+
+  const { context } = pdfDoc;
+  const changed = findChangedObjects(pdfDoc, snapshot).sort(
+    ([a], [b]) => a.objectNumber - b.objectNumber
+  );
+
+  const chunks: Uint8Array[] = [originalBytes];
+  let offset = originalBytes.length;
+  const push = (chunk: Uint8Array) => {
+    chunks.push(chunk);
+    offset += chunk.length;
+  };
+
+  const lastByte = originalBytes[originalBytes.length - 1];
+  if (lastByte !== 0x0a && lastByte !== 0x0d) {
+    push(encodeLatin1('\n'));
+  }
+
+  const entries: Array<[PDFRef, number]> = [];
+  const writeObject = (ref: PDFRef, object: PDFObject) => {
+    entries.push([ref, offset]);
+    push(encodeLatin1(`${ref.objectNumber} ${ref.generationNumber} obj\n`));
+    push(serializeObject(object));
+    push(encodeLatin1('\nendobj\n'));
+  };
+
+  for (const [ref, object] of changed) {
+    writeObject(ref, object);
+  }
+
+  const trailerEntries = {
+    Root: context.trailerInfo.Root,
+    Encrypt: context.trailerInfo.Encrypt,
+    Info: context.trailerInfo.Info,
+    ID: context.trailerInfo.ID,
+    Prev: previous.offset,
+  };
+
+  if (previous.isStream) {
+    const xrefRef = context.nextRef();
+    const xrefStream = PDFCrossRefStream.of(
+      context.obj({
+        ...trailerEntries,
+        Size: Math.max(previous.size, context.largestObjectNumber + 1),
+      }),
+      [],
+      true
+    );
+    const xrefOffset = offset;
+    for (const [ref, entryOffset] of entries) {
+      xrefStream.addUncompressedEntry(ref, entryOffset);
+    }
+    xrefStream.addUncompressedEntry(xrefRef, xrefOffset);
+    writeObject(xrefRef, xrefStream);
+    push(serializeObject(PDFTrailer.forLastCrossRefSectionOffset(xrefOffset)));
+  } else {
+    const xrefSection = PDFCrossRefSection.createEmpty();
+    for (const [ref, entryOffset] of entries) {
+      xrefSection.addEntry(ref, entryOffset);
+    }
+    const xrefOffset = offset;
+    push(serializeObject(xrefSection));
+    push(encodeLatin1('\n'));
+    const trailerDict = PDFTrailerDict.of(
+      context.obj({
+        ...trailerEntries,
+        Size: Math.max(previous.size, context.largestObjectNumber + 1),
+      })
+    );
+    push(serializeObject(trailerDict));
+    push(encodeLatin1('\n'));
+    push(serializeObject(PDFTrailer.forLastCrossRefSectionOffset(xrefOffset)));
+  }
+
+  push(encodeLatin1('\n'));
+  return concatBytes(chunks);
+};
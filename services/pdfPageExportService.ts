@@ -0,0 +1,121 @@
+import { downloadZip } from 'client-zip';
+import type { PDFDocumentLoadingTask } from 'pdfjs-dist';
+import { createCutsByPageIndex } from '../application/cutPageIndex';
+import {
+  getImageExportScale,
+  getImageOutputTypeFromMime,
+  IMAGE_OUTPUT_EXTENSIONS,
+  IMAGE_OUTPUT_MIME_TYPES,
+} from '../application/imageExportOutput';
+import { Cut, AppSettings, PdfImageExportOptions } from '../types';
+import { drawCutLabels } from './cutLabelCanvas';
+import { createExportCanvas, exportCanvasToBlob, getExportCanvasContext } from './exportCanvas';
+import { ExportTaskOptions, yieldToBrowser } from './exportTask';
+import { setBlobDpi } from './imageProcessing';
+import { loadLabelFontFace } from './labelFont';
+
+const PDF_POINTS_PER_INCH = 72;
+
+// Raised instead of leaving a page out of the ZIP when the browser cannot encode it
+export class PdfPageEncodeError extends Error {
+  constructor(pageNumber: number) {
+    super(`Page ${pageNumber} could not be encoded as an image`);
+    // Kept by name so the error is still recognizable after crossing from the export worker
+    this.name = 'PdfPageEncodeError';
+  }
+}
+
+export const isPdfPageEncodeError = (error: unknown) =>
+  error instanceof Error && error.name === 'PdfPageEncodeError';
+
+const getPdfBaseName = (pdfFile: File) => pdfFile.name.replace(/\.pdf$/i, '') || 'page';
+
+export const getPdfPagesZipFileName = (pdfFile: File) => `marked_${getPdfBaseName(pdfFile)}.zip`;
+
+/**
+ * Renders each PDF page at the given DPI and hands the lazily generated ZIP of marked pages to saveZip.
+ * Labels are scaled from PDF points so they match the layout of the marked PDF export.
+ * Pages shrunk to the maximum long edge keep their physical size, so their DPI is lowered to match.
+ * The loading task comes from the export worker or, as a fallback, from the page's pdf.js,
+ * and is destroyed once saveZip settles, also when the document fails to load.
+ */
+export const savePdfPagesZip = async <T>(
+  loadingTask: PDFDocumentLoadingTask,
+  pdfFile: File,
+  cuts: Cut[],
+  settings: AppSettings,
+  options: PdfImageExportOptions,
+  saveZip: (response: Response) => Promise<T>,
+  { onProgress, signal }: ExportTaskOptions = {}
+): Promise<T> => {
+  try {
+    const pdf = await loadingTask.promise;
+    const canvas = createExportCanvas();
+    const ctx = getExportCanvasContext(canvas);
+
+    await loadLabelFontFace(settings.labelFont);
+
+    const baseName = getPdfBaseName(pdfFile);
+    const total = pdf.numPages;
+    const { dpi, format } = options;
+    const renderScale = dpi / PDF_POINTS_PER_INCH;
+    const cutsByPageIndex = createCutsByPageIndex(cuts);
+    const digits = Math.max(3, String(total).length);
+    const lastModified = new Date(pdfFile.lastModified);
+
+    const buildEntries = async function* () {
+      for (let i = 0; i < total; i++) {
+        signal?.throwIfAborted();
+        if (onProgress) onProgress(i + 1, total);
+
+        const page = await pdf.getPage(i + 1);
+        const fullSize = page.getViewport({ scale: renderScale });
+        const fit = getImageExportScale(fullSize.width, fullSize.height, options);
+        const scale = renderScale * fit;
+        const viewport = page.getViewport({ scale });
+        const width = Math.ceil(viewport.width);
+        const height = Math.ceil(viewport.height);
+
+        canvas.width = width;
+        canvas.height = height;
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        // JPEG has no alpha, and transparent PNG pages read badly in compositing tools
+        ctx.fillStyle = 'white';
+        ctx.fillRect(0, 0, width, height);
+
+        // pdf.js types only name the DOM context, but it draws through OffscreenCanvas contexts alike
+        await page.render({
+          canvas: null,
+          canvasContext: ctx as CanvasRenderingContext2D,
+          viewport,
+        }).promise;
+        page.cleanup();
+
+        drawCutLabels(ctx, cutsByPageIndex.get(i) ?? [], settings, width, height, scale);
+
+        let blob = format === 'png'
+          ? await exportCanvasToBlob(canvas, IMAGE_OUTPUT_MIME_TYPES.png)
+          : await exportCanvasToBlob(canvas, IMAGE_OUTPUT_MIME_TYPES[format], options.quality);
+
+        if (!blob) {
+          throw new PdfPageEncodeError(i + 1);
+        }
+
+        const outputType = getImageOutputTypeFromMime(blob.type) ?? format;
+        blob = await setBlobDpi(blob, { x: dpi * fit, y: dpi * fit }, outputType);
+
+        yield {
+          name: `${baseName}_${String(i + 1).padStart(digits, '0')}.${IMAGE_OUTPUT_EXTENSIONS[outputType]}`,
+          lastModified,
+          input: blob.stream(),
+        };
+
+        await yieldToBrowser();
+      }
+    };
+
+    return await saveZip(downloadZip(buildEntries()));
+  } finally {
+    await loadingTask.destroy();
+  }
+};
@@ -0,0 +1,59 @@
+import { PDFPage } from 'pdf-lib';
+
+interface PageBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type PdfTransformMatrix = [a: number, b: number, c: number, d: number, e: number, f: number];
+
+/**
+ * The page as pdf.js shows it: `width` / `height` after rotation, and the matrix (for `cm`)
+ * that maps that upright, bottom-left based space onto the page's own user space.
+ */
+export interface PageDisplayGeometry {
+  width: number;
+  height: number;
+  transform: PdfTransformMatrix;
+}
+
+// /Rotate must be a multiple of 90; pdf.js treats anything else as 0
+export const normalizePageRotation = (angle: number) => {
+  if (!Number.isFinite(angle) || angle % 90 !== 0) {
+    return 0;
+  }
+  return ((angle % 360) + 360) % 360;
+};
+
+// Same as pdf.js: the CropBox clipped to the MediaBox, or the MediaBox when they do not overlap
+const getVisiblePageBox = (page: PDFPage): PageBox => {
+  const mediaBox = page.getMediaBox();
+  const cropBox = page.getCropBox();
+
+  const left = Math.max(mediaBox.x, cropBox.x);
+  const bottom = Math.max(mediaBox.y, cropBox.y);
+  const right = Math.min(mediaBox.x + mediaBox.width, cropBox.x + cropBox.width);
+  const top = Math.min(mediaBox.y + mediaBox.height, cropBox.y + cropBox.height);
+
+  if (right <= left || top <= bottom) {
+    return mediaBox;
+  }
+  return { x: left, y: bottom, width: right - left, height: top - bottom };
+};
+
+export const getPageDisplayGeometry = (page: PDFPage): PageDisplayGeometry => {
+  const { x, y, width, height } = getVisiblePageBox(page);
+
+  switch (normalizePageRotation(page.getRotation().angle)) {
+    case 90:
+      return { width: height, height: width, transform: [0, 1, -1, 0, x + width, y] };
+    case 180:
+      return { width, height, transform: [-1, 0, 0, -1, x + width, y + height] };
+    case 270:
+      return { width: height, height: width, transform: [0, -1, 1, 0, x, y + height] };
+    default:
+      return { width, height, transform: [1, 0, 0, 1, x, y] };
+  }
+};
@@ -0,0 +1,192 @@
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib';
+import { ProjectDocument } from '../domain/project';
+import {
+  createProjectDownloadFileName,
+  parseProjectDocumentWithRecovery,
+  PROJECT_FILE_EXTENSION,
+  serializeProjectDocument,
+} from '../repositories/projectRepository';
+import { LabelFont } from '../types';
+import { decodeLabelFontData, encodeLabelFontData } from './labelFont';
+
+const PROJECT_ATTACHMENT_DESCRIPTION = 'CutMark project';
+// The project's label font is attached once as its own file, not as base64 inside the .cutmark
+const LABEL_FONT_ATTACHMENT_DESCRIPTION = 'CutMark label font';
+
+interface ProjectAttachmentEntry {
+  names: PDFArray;
+  index: number;
+  fileSpecRef: PDFRef | null;
+  fileSpec: PDFDict;
+  fileName: string;
+  description: string;
+}
+
+const readFileName = (fileSpec: PDFDict) => {
+  const value =
+    fileSpec.lookupMaybe(PDFName.of('UF'), PDFString, PDFHexString) ??
+    fileSpec.lookupMaybe(PDFName.of('F'), PDFString, PDFHexString);
+  return value?.decodeText() ?? '';
+};
+
+const readDescription = (fileSpec: PDFDict) =>
+  fileSpec.lookupMaybe(PDFName.of('Desc'), PDFString, PDFHexString)?.decodeText() ?? '';
+
+const collectEmbeddedFiles = (node: PDFDict, entries: ProjectAttachmentEntry[]) => {
+  const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+  if (names) {
+    for (let index = 0; index + 1 < names.size(); index += 2) {
+      const fileSpec = names.lookupMaybe(index + 1, PDFDict);
+      if (!fileSpec) continue;
+      const rawRef = names.get(index + 1);
+      entries.push({
+        names,
+        index,
+        fileSpecRef: rawRef instanceof PDFRef ? rawRef : null,
+        fileSpec,
+        fileName: readFileName(fileSpec),
+        description: readDescription(fileSpec),
+      });
+    }
+  }
+
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+  if (kids) {
+    for (let index = 0; index < kids.size(); index++) {
+      const kid = kids.lookupMaybe(index, PDFDict);
+      if (kid) collectEmbeddedFiles(kid, entries);
+    }
+  }
+};
+
+const findEmbeddedFiles = (pdfDoc: PDFDocument) => {
+  const embeddedFiles = pdfDoc.catalog
+    .lookupMaybe(PDFName.of('Names'), PDFDict)
+    ?.lookupMaybe(PDFName.of('EmbeddedFiles'), PDFDict);
+  if (!embeddedFiles) return [];
+
+  const entries: ProjectAttachmentEntry[] = [];
+  collectEmbeddedFiles(embeddedFiles, entries);
+  return entries;
+};
+
+// Project attachments written by CutMark are recognised by their .cutmark file name,
+// the label font next to them by its description.
+const findProjectAttachments = (pdfDoc: PDFDocument) =>
+  findEmbeddedFiles(pdfDoc).filter(
+    (entry) =>
+      entry.fileName.toLowerCase().endsWith(PROJECT_FILE_EXTENSION) ||
+      entry.description === LABEL_FONT_ATTACHMENT_DESCRIPTION
+  );
+
+const readEmbeddedFileBytes = (fileSpec: PDFDict) => {
+  const stream = fileSpec.lookupMaybe(PDFName.of('EF'), PDFDict)?.lookup(PDFName.of('F'));
+  return stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : null;
+};
+
+const readLabelFontAttachment = (pdfDoc: PDFDocument): LabelFont | null => {
+  const entry = findEmbeddedFiles(pdfDoc)
+    .reverse()
+    .find(({ description }) => description === LABEL_FONT_ATTACHMENT_DESCRIPTION);
+  if (!entry) return null;
+
+  try {
+    const bytes = readEmbeddedFileBytes(entry.fileSpec);
+    return bytes ? { name: entry.fileName, data: encodeLabelFontData(bytes) } : null;
+  } catch {
+    return null;
+  }
+};
+
+// Puts the attached label font back into a project that was attached without it
+const restoreLabelFont = (serialized: string, labelFont: LabelFont | null) => {
+  if (!labelFont) return serialized;
+  const project = JSON.parse(serialized) as { style?: { labelFont?: unknown } };
+  if (typeof project.style !== 'object' || project.style === null || project.style.labelFont) {
+    return serialized;
+  }
+  return JSON.stringify({ ...project, style: { ...project.style, labelFont } }, null, 2);
+};
+
+/**
+ * Reads the project attached by an earlier CutMark export as a .cutmark file.
+ * Returns null when the PDF has no readable project attachment; damaged ones are still returned
+ * so the loader can offer to repair them.
+ */
+export const readProjectAttachmentFile = (pdfDoc: PDFDocument): File | null => {
+  const labelFont = readLabelFontAttachment(pdfDoc);
+  const projectAttachments = findProjectAttachments(pdfDoc).filter(
+    ({ description }) => description !== LABEL_FONT_ATTACHMENT_DESCRIPTION
+  );
+
+  for (const { fileSpec, fileName } of projectAttachments.reverse()) {
+    try {
+      const bytes = readEmbeddedFileBytes(fileSpec);
+      if (!bytes) continue;
+      const serialized = restoreLabelFont(new TextDecoder().decode(bytes), labelFont);
+      parseProjectDocumentWithRecovery(serialized);
+      return new File([serialized], fileName, { type: 'application/json' });
+    } catch {
+      continue;
+    }
+  }
+
+  return null;
+};
+
+export const removeProjectAttachments = (pdfDoc: PDFDocument) => {
+  const attachments = findProjectAttachments(pdfDoc);
+  const associatedFiles = pdfDoc.catalog.lookupMaybe(PDFName.of('AF'), PDFArray);
+
+  // Remove from the end so earlier indexes in the same Names array stay valid
+  for (const { names, index, fileSpecRef } of attachments.reverse()) {
+    names.remove(index + 1);
+    names.remove(index);
+    if (fileSpecRef && associatedFiles) {
+      const afIndex = associatedFiles.indexOf(fileSpecRef);
+      if (afIndex !== undefined) associatedFiles.remove(afIndex);
+    }
+  }
+
+  return attachments.length;
+};
+
+export const attachProjectDocument = async (pdfDoc: PDFDocument, project: ProjectDocument) => {
+  const savedAt = new Date(project.meta.savedAt);
+  const dates = Number.isNaN(savedAt.getTime())
+    ? {}
+    : { creationDate: savedAt, modificationDate: savedAt };
+  const { labelFont } = project.style;
+
+  if (labelFont) {
+    await pdfDoc.attach(decodeLabelFontData(labelFont), labelFont.name, {
+      mimeType: /\.otf$/i.test(labelFont.name) ? 'font/otf' : 'font/ttf',
+      description: LABEL_FONT_ATTACHMENT_DESCRIPTION,
+      ...dates,
+    });
+  }
+
+  await pdfDoc.attach(
+    new TextEncoder().encode(
+      serializeProjectDocument(
+        labelFont ? { ...project, style: { ...project.style, labelFont: null } } : project
+      )
+    ),
+    createProjectDownloadFileName(project.meta.name),
+    {
+      mimeType: 'application/json',
+      description: PROJECT_ATTACHMENT_DESCRIPTION,
+      ...dates,
+    }
+  );
+};
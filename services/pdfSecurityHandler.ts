@@ -0,0 +1,433 @@
+import { PDFArray, PDFBool, PDFDict, PDFHexString, PDFName, PDFNumber, PDFString } from 'pdf-lib';
+
+// Raised when neither the user nor the owner password matches
+export class PdfPasswordError extends Error {}
+
+// Raised for security handlers and crypt filters other than the password-based standard ones
+export class UnsupportedPdfEncryptionError extends Error {}
+
+// Encrypted PDFs are decrypted on import; this is left for the ones that could only be previewed
+export class EncryptedPdfExportError extends Error {
+  constructor() {
+    super('The PDF is encrypted and could not be decrypted for marking');
+    // Kept by name so the error is still recognizable after crossing from the export worker
+    this.name = 'EncryptedPdfExportError';
+  }
+}
+
+export const isEncryptedPdfExportError = (error: unknown) =>
+  error instanceof Error && error.name === 'EncryptedPdfExportError';
+
+type CipherMethod = 'none' | 'rc4' | 'aes128' | 'aes256';
+
+export interface PdfSecurityHandler {
+  encryptMetadata: boolean;
+  decryptString: (objectNumber: number, generationNumber: number, data: Uint8Array) => Promise<Uint8Array>;
+  decryptStream: (objectNumber: number, generationNumber: number, data: Uint8Array) => Promise<Uint8Array>;
+}
+
+// ISO 32000-1, 7.6.3.3: pads user and owner passwords up to 32 bytes
+const PASSWORD_PADDING = Uint8Array.of(
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a
+);
+const AES_BLOCK_SIZE = 16;
+const AES_SALT = Uint8Array.of(0x73, 0x41, 0x6c, 0x54);
+const MAX_UTF8_PASSWORD_LENGTH = 127;
+
+const concatBytes = (...chunks: Uint8Array[]) => {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((value, index) => value === b[index]);
+
+// Web Crypto has no MD5, which the RC4 and AES-128 handlers still need
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, index) =>
+  Math.floor(Math.abs(Math.sin(index + 1)) * 2 ** 32) >>> 0
+);
+
+const md5 = (data: Uint8Array) => {
+  const paddedLength = ((data.length + 8) >> 6) * 64 + 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(data.length / 0x20000000), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89;
+  let c0 = 0x98badcfe;
+  let d0 = 0x10325476;
+  const words = new Uint32Array(16);
+
+  for (let chunk = 0; chunk < paddedLength; chunk += 64) {
+    for (let index = 0; index < 16; index++) {
+      words[index] = view.getUint32(chunk + index * 4, true);
+    }
+    let a = a0;
+    let b = b0;
+    let c = c0;
+    let d = d0;
+    for (let index = 0; index < 64; index++) {
+      let f: number;
+      let g: number;
+      if (index < 16) {
+        f = (b & c) | (~b & d);
+        g = index;
+      } else if (index < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * index + 1) % 16;
+      } else if (index < 48) {
+        f = b ^ c ^ d;
+        g = (3 * index + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * index) % 16;
+      }
+      const rotated = (a + f + MD5_CONSTANTS[index] + words[g]) >>> 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((rotated << MD5_SHIFTS[index]) | (rotated >>> (32 - MD5_SHIFTS[index])))) >>> 0;
+    }
+    a0 = (a0 + a) >>> 0;
+    b0 = (b0 + b) >>> 0;
+    c0 = (c0 + c) >>> 0;
+    d0 = (d0 + d) >>> 0;
+  }
+
+  const digest = new Uint8Array(16);
+  const digestView = new DataView(digest.buffer);
+  [a0, b0, c0, d0].forEach((value, index) => digestView.setUint32(index * 4, value, true));
+  return digest;
+};
+
+const rc4 = (key: Uint8Array, data: Uint8Array) => {
+  const state = Uint8Array.from({ length: 256 }, (_, index) => index);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+
+  const result = new Uint8Array(data.length);
+  for (let index = 0, i = 0, j = 0; index < data.length; index++) {
+    i = (i + 1) & 0xff;
+    j = (j + state[i]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+    result[index] = data[index] ^ state[(state[i] + state[j]) & 0xff];
+  }
+  return result;
+};
+
+const importAesKey = (key: Uint8Array, usage: KeyUsage) =>
+  crypto.subtle.importKey('raw', key as BufferSource, 'AES-CBC', false, [usage]);
+
+// Web Crypto always pads, so the padding block it adds is cut off again
+const aesEncryptNoPadding = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array) => {
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-CBC', iv: iv as BufferSource },
+    await importAesKey(key, 'encrypt'),
+    data as BufferSource
+  );
+  return new Uint8Array(encrypted, 0, data.length);
+};
+
+// Appends a block that decrypts to valid padding, so Web Crypto accepts unpadded ciphertext
+const aesDecryptNoPadding = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array) => {
+  const lastBlock = data.subarray(data.length - AES_BLOCK_SIZE);
+  const paddingBlock = await aesEncryptNoPadding(
+    key,
+    lastBlock,
+    new Uint8Array(AES_BLOCK_SIZE).fill(AES_BLOCK_SIZE)
+  );
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-CBC', iv: iv as BufferSource },
+    await importAesKey(key, 'decrypt'),
+    concatBytes(data, paddingBlock) as BufferSource
+  );
+  return new Uint8Array(decrypted);
+};
+
+// Strings and streams carry their IV in the first block and end with PKCS#5 padding
+const aesDecryptWithIv = async (key: Uint8Array, data: Uint8Array) => {
+  const bodyLength = data.length - AES_BLOCK_SIZE;
+  if (bodyLength < AES_BLOCK_SIZE) return new Uint8Array(0);
+
+  const iv = data.subarray(0, AES_BLOCK_SIZE);
+  const body = data.subarray(AES_BLOCK_SIZE, AES_BLOCK_SIZE + bodyLength - (bodyLength % AES_BLOCK_SIZE));
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-CBC', iv: iv as BufferSource },
+      await importAesKey(key, 'decrypt'),
+      body as BufferSource
+    );
+    return new Uint8Array(decrypted);
+  } catch {
+    // Some writers leave the padding off; keep the data rather than failing the whole file
+    return aesDecryptNoPadding(key, iv, body);
+  }
+};
+
+const sha = async (algorithm: 'SHA-256' | 'SHA-384' | 'SHA-512', data: Uint8Array) =>
+  new Uint8Array(await crypto.subtle.digest(algorithm, data as BufferSource));
+
+// ISO 32000-2, 7.6.4.3.4 (algorithm 2.B) for revision 6; revision 5 is a single SHA-256
+const computeAes256PasswordHash = async (
+  revision: number,
+  password: Uint8Array,
+  salt: Uint8Array,
+  userKey: Uint8Array
+) => {
+  let hash = await sha('SHA-256', concatBytes(password, salt, userKey));
+  if (revision < 6) return hash;
+
+  let round = 0;
+  let encrypted: Uint8Array;
+  do {
+    const block = concatBytes(password, hash, userKey);
+    const repeated = new Uint8Array(block.length * 64);
+    for (let index = 0; index < 64; index++) {
+      repeated.set(block, index * block.length);
+    }
+    encrypted = await aesEncryptNoPadding(hash.subarray(0, 16), hash.subarray(16, 32), repeated);
+    const selector = encrypted.subarray(0, 16).reduce((total, value) => total + value, 0) % 3;
+    hash = await sha(selector === 0 ? 'SHA-256' : selector === 1 ? 'SHA-384' : 'SHA-512', encrypted);
+    round++;
+  } while (round < 64 || encrypted[encrypted.length - 1] > round - 32);
+
+  return hash.subarray(0, 32);
+};
+
+const padPassword = (password: Uint8Array) =>
+  concatBytes(password.subarray(0, 32), PASSWORD_PADDING).subarray(0, 32);
+
+// Revisions 2-4 use PDFDocEncoding, which matches Latin-1 for anything typed as a password
+const encodeLegacyPassword = (password: string) =>
+  Uint8Array.from(password, (char) => char.charCodeAt(0) & 0xff);
+
+const encodeUtf8Password = (password: string) =>
+  new TextEncoder().encode(password.normalize('NFKC')).subarray(0, MAX_UTF8_PASSWORD_LENGTH);
+
+interface LegacyEncryptionParameters {
+  revision: number;
+  keyLength: number;
+  owner: Uint8Array;
+  user: Uint8Array;
+  permissions: number;
+  documentId: Uint8Array;
+  encryptMetadata: boolean;
+}
+
+// Algorithm 2
+const computeLegacyFileKey = (paddedPassword: Uint8Array, params: LegacyEncryptionParameters) => {
+  const permissions = new Uint8Array(4);
+  new DataView(permissions.buffer).setInt32(0, params.permissions, true);
+  const metadataFlag =
+    params.revision >= 4 && !params.encryptMetadata ? Uint8Array.of(0xff, 0xff, 0xff, 0xff) : new Uint8Array(0);
+
+  let hash = md5(
+    concatBytes(paddedPassword, params.owner.subarray(0, 32), permissions, params.documentId, metadataFlag)
+  );
+  const keyLength = params.revision === 2 ? 5 : params.keyLength;
+  if (params.revision >= 3) {
+    for (let index = 0; index < 50; index++) {
+      hash = md5(hash.subarray(0, keyLength));
+    }
+  }
+  return hash.subarray(0, keyLength);
+};
+
+const xorKey = (key: Uint8Array, value: number) => key.map((byte) => byte ^ value);
+
+// Algorithms 4 and 5
+const isLegacyUserKey = (key: Uint8Array, params: LegacyEncryptionParameters) => {
+  if (params.revision === 2) {
+    return bytesEqual(rc4(key, PASSWORD_PADDING), params.user.subarray(0, 32));
+  }
+  let check = rc4(key, md5(concatBytes(PASSWORD_PADDING, params.documentId)));
+  for (let index = 1; index <= 19; index++) {
+    check = rc4(xorKey(key, index), check);
+  }
+  return bytesEqual(check, params.user.subarray(0, 16));
+};
+
+// Algorithm 7: the owner password unlocks the padded user password stored in /O
+const recoverLegacyUserPassword = (ownerPassword: Uint8Array, params: LegacyEncryptionParameters) => {
+  let hash = md5(padPassword(ownerPassword));
+  if (params.revision >= 3) {
+    for (let index = 0; index < 50; index++) {
+      hash = md5(hash);
+    }
+  }
+  const key = hash.subarray(0, params.revision === 2 ? 5 : params.keyLength);
+  if (params.revision === 2) {
+    return rc4(key, params.owner.subarray(0, 32));
+  }
+  let userPassword = params.owner.subarray(0, 32);
+  for (let index = 19; index >= 0; index--) {
+    userPassword = rc4(xorKey(key, index), userPassword);
+  }
+  return userPassword;
+};
+
+const computeLegacyKey = (password: string, params: LegacyEncryptionParameters) => {
+  const encoded = encodeLegacyPassword(password);
+  const userKey = computeLegacyFileKey(padPassword(encoded), params);
+  if (isLegacyUserKey(userKey, params)) return userKey;
+
+  const ownerKey = computeLegacyFileKey(recoverLegacyUserPassword(encoded, params), params);
+  if (isLegacyUserKey(ownerKey, params)) return ownerKey;
+
+  return null;
+};
+
+const computeAes256Key = async (
+  password: string,
+  revision: number,
+  owner: Uint8Array,
+  user: Uint8Array,
+  ownerEncryptedKey: Uint8Array,
+  userEncryptedKey: Uint8Array
+) => {
+  const encoded = encodeUtf8Password(password);
+  const userKey = user.subarray(0, 48);
+  const zeroIv = new Uint8Array(AES_BLOCK_SIZE);
+
+  const ownerHash = await computeAes256PasswordHash(revision, encoded, owner.subarray(32, 40), userKey);
+  if (bytesEqual(ownerHash, owner.subarray(0, 32))) {
+    const intermediate = await computeAes256PasswordHash(revision, encoded, owner.subarray(40, 48), userKey);
+    return aesDecryptNoPadding(intermediate, zeroIv, ownerEncryptedKey.subarray(0, 32));
+  }
+
+  const empty = new Uint8Array(0);
+  const userHash = await computeAes256PasswordHash(revision, encoded, user.subarray(32, 40), empty);
+  if (bytesEqual(userHash, user.subarray(0, 32))) {
+    const intermediate = await computeAes256PasswordHash(revision, encoded, user.subarray(40, 48), empty);
+    return aesDecryptNoPadding(intermediate, zeroIv, userEncryptedKey.subarray(0, 32));
+  }
+
+  return null;
+};
+
+const readBytes = (dict: PDFDict, key: string) => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString ? value.asBytes() : new Uint8Array(0);
+};
+
+const readNumber = (dict: PDFDict, key: string) => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+};
+
+const readCipherMethod = (encrypt: PDFDict, version: number, filterKey: 'StmF' | 'StrF'): CipherMethod => {
+  if (version < 4) return 'rc4';
+
+  const filterName = encrypt.lookup(PDFName.of(filterKey));
+  if (!(filterName instanceof PDFName) || filterName === PDFName.of('Identity')) return 'none';
+
+  const cryptFilters = encrypt.lookup(PDFName.of('CF'));
+  const filter = cryptFilters instanceof PDFDict ? cryptFilters.lookup(filterName) : undefined;
+  const method = filter instanceof PDFDict ? filter.lookup(PDFName.of('CFM')) : undefined;
+  switch (method) {
+    case PDFName.of('V2'):
+      return 'rc4';
+    case PDFName.of('AESV2'):
+      return 'aes128';
+    case PDFName.of('AESV3'):
+      return 'aes256';
+    case PDFName.of('None'):
+    case undefined:
+      return 'none';
+    default:
+      throw new UnsupportedPdfEncryptionError(`Unsupported crypt filter method ${String(method)}`);
+  }
+};
+
+// Algorithm 1: RC4 and AES-128 derive a key per object, AES-256 uses the file key as is
+const deriveObjectKey = (fileKey: Uint8Array, method: CipherMethod, objectNumber: number, generationNumber: number) => {
+  if (method === 'aes256') return fileKey;
+  const objectId = Uint8Array.of(
+    objectNumber & 0xff,
+    (objectNumber >> 8) & 0xff,
+    (objectNumber >> 16) & 0xff,
+    generationNumber & 0xff,
+    (generationNumber >> 8) & 0xff
+  );
+  const salt = method === 'aes128' ? AES_SALT : new Uint8Array(0);
+  return md5(concatBytes(fileKey, objectId, salt)).subarray(0, Math.min(fileKey.length + 5, 16));
+};
+
+const createDecryptor = (fileKey: Uint8Array, method: CipherMethod) =>
+  async (objectNumber: number, generationNumber: number, data: Uint8Array) => {
+    if (method === 'none') return data;
+    const key = deriveObjectKey(fileKey, method, objectNumber, generationNumber);
+    return method === 'rc4' ? rc4(key, data) : aesDecryptWithIv(key, data);
+  };
+
+/**
+ * Sets up decryption for the standard (password) security handler from the document's
+ * /Encrypt dictionary. Either password works; an empty string opens files that only
+ * restrict permissions.
+ */
+export const createPdfSecurityHandler = async (
+  encrypt: PDFDict,
+  documentId: Uint8Array,
+  password: string
+): Promise<PdfSecurityHandler> => {
+  if (encrypt.lookup(PDFName.of('Filter')) !== PDFName.of('Standard')) {
+    throw new UnsupportedPdfEncryptionError('Only the standard security handler is supported');
+  }
+
+  const version = readNumber(encrypt, 'V') ?? 0;
+  const revision = readNumber(encrypt, 'R') ?? 0;
+  if (![1, 2, 4, 5].includes(version) || revision < 2 || revision > 6) {
+    throw new UnsupportedPdfEncryptionError(`Unsupported encryption V${version} R${revision}`);
+  }
+
+  const encryptMetadataValue = encrypt.lookup(PDFName.of('EncryptMetadata'));
+  const encryptMetadata = !(encryptMetadataValue instanceof PDFBool) || encryptMetadataValue.asBoolean();
+  const owner = readBytes(encrypt, 'O');
+  const user = readBytes(encrypt, 'U');
+
+  const fileKey =
+    version === 5
+      ? await computeAes256Key(password, revision, owner, user, readBytes(encrypt, 'OE'), readBytes(encrypt, 'UE'))
+      : computeLegacyKey(password, {
+          revision,
+          keyLength: (readNumber(encrypt, 'Length') ?? (version === 1 ? 40 : 128)) / 8,
+          owner,
+          user,
+          permissions: readNumber(encrypt, 'P') ?? 0,
+          documentId,
+          encryptMetadata,
+        });
+  if (!fileKey) {
+    throw new PdfPasswordError('Incorrect PDF password');
+  }
+
+  return {
+    encryptMetadata,
+    decryptString: createDecryptor(fileKey, readCipherMethod(encrypt, version, 'StrF')),
+    decryptStream: createDecryptor(fileKey, readCipherMethod(encrypt, version, 'StmF')),
+  };
+};
+
+// The first element of the trailer /ID feeds the RC4 and AES-128 key derivation
+export const readDocumentId = (id: PDFArray | undefined) => {
+  const first = id?.get(0);
+  return first instanceof PDFString || first instanceof PDFHexString ? first.asBytes() : new Uint8Array(0);
+};
@@ -1,25 +1,151 @@
 
-import { PDFDocument, rgb, StandardFonts, PDFOperator, PDFName, PDFNumber, PDFPage, PDFFont, PDFOperatorNames } from 'pdf-lib';
+import { EncryptedPDFError, PDFDocument, rgb, StandardFonts, PDFOperator, PDFName, PDFNumber, PDFPage, PDFFont, PDFOperatorNames, PDFArray, PDFDict, PDFHexString, PDFRef } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
 import { createCutsByPageIndex } from '../application/cutPageIndex';
-import { Cut, AppSettings } from '../types';
-import {
-  renderImageWithOrientation,
-} from './imageProcessing';
+import { ProjectDocument } from '../domain/project';
+import { Cut, AppSettings, PdfMarkMode, PdfWriteMode } from '../types';
 import { getImageFileMetadata } from './imageMetadata';
+import { ExportTaskOptions } from './exportTask';
+import { decodeLabelFontData } from './labelFont';
+import {
+  CUTMARK_CONTENT_TAG,
+  CUTMARK_LABEL_PROPERTY,
+  CUTMARK_LAYER_NAME,
+  CUTMARK_LAYER_PROPERTY,
+  stripCutMarks,
+} from './pdfCutMarks';
+import { beginIncrementalUpdate, saveIncrementalUpdate } from './pdfIncrementalSave';
+import { addImagePage, DEFAULT_IMAGE_DPI, ImageDpi } from './pdfImagePage';
+import { getPageDisplayGeometry, PdfTransformMatrix } from './pdfPageGeometry';
+import { EncryptedPdfExportError } from './pdfSecurityHandler';
+import { attachProjectDocument, removeProjectAttachments } from './pdfProjectAttachment';
+
+// Helvetica cannot encode kana or kanji, so a user supplied font is embedded (subset) when set
+const embedLabelFont = async (pdfDoc: PDFDocument, settings: AppSettings): Promise<PDFFont> => {
+  if (!settings.labelFont) {
+    return pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  }
+
+  pdfDoc.registerFontkit(fontkit);
+  return pdfDoc.embedFont(decodeLabelFontData(settings.labelFont), { subset: true });
+};
+
+const loadSourcePdf = async (bytes: ArrayBuffer, updateMetadata: boolean) => {
+  try {
+    return await PDFDocument.load(bytes, { updateMetadata });
+  } catch (error) {
+    if (error instanceof EncryptedPDFError) {
+      throw new EncryptedPdfExportError();
+    }
+    throw error;
+  }
+};
+
+export interface PdfExportOptions extends ExportTaskOptions {
+  markMode?: PdfMarkMode;
+  // Attached as a .cutmark file so the project can be recovered from the exported PDF
+  project?: ProjectDocument | null;
+  // Only used when marking an existing PDF; images always produce a new document
+  writeMode?: PdfWriteMode;
+  // Told why an incremental update could not be written and the whole document was rewritten instead
+  onRewriteFallback?: (reason: string) => void;
+}
+
+const getOrCreateDict = (parent: PDFDict, key: string) => {
+  const name = PDFName.of(key);
+  const existing = parent.lookupMaybe(name, PDFDict);
+  if (existing) return existing;
+  const created = parent.context.obj({});
+  parent.set(name, created);
+  return created;
+};
+
+const getOrCreateArray = (parent: PDFDict, key: string) => {
+  const name = PDFName.of(key);
+  const existing = parent.lookupMaybe(name, PDFArray);
+  if (existing) return existing;
+  const created = parent.context.obj([]);
+  parent.set(name, created);
+  return created;
+};
+
+// Registers a visible "CutMark" optional content group, keeping any layers the source PDF already has
+const createCutMarkLayer = (pdfDoc: PDFDocument): PDFRef => {
+  const { context, catalog } = pdfDoc;
+  const layerRef = context.register(
+    context.obj({
+      Type: 'OCG',
+      Name: PDFHexString.fromText(CUTMARK_LAYER_NAME),
+    })
+  );
+
+  const ocProperties = getOrCreateDict(catalog, 'OCProperties');
+  getOrCreateArray(ocProperties, 'OCGs').push(layerRef);
+  const defaultConfig = getOrCreateDict(ocProperties, 'D');
+  getOrCreateArray(defaultConfig, 'Order').push(layerRef);
+  getOrCreateArray(defaultConfig, 'ON').push(layerRef);
+
+  return layerRef;
+};
+
+const addCutMarkPageProperties = (page: PDFPage, layerRef: PDFRef | null) => {
+  const { Resources } = page.node.normalizedEntries();
+  const properties = getOrCreateDict(Resources, 'Properties');
+  properties.set(
+    CUTMARK_LABEL_PROPERTY,
+    page.doc.context.obj({ Producer: PDFHexString.fromText('CutMark PDF') })
+  );
+  if (layerRef) {
+    properties.set(CUTMARK_LAYER_PROPERTY, layerRef);
+  }
+};
+
+const isIdentityTransform = ([a, b, c, d, e, f]: PdfTransformMatrix) =>
+  a === 1 && b === 0 && c === 0 && d === 1 && e === 0 && f === 0;
 
 // Helper to draw cuts on a page (Shared logic)
+// Cut.x/y are relative to the page as displayed, so rotation and the CropBox offset are applied via cm
 const drawCutsOnPage = async (
   page: PDFPage,
   pageCuts: Cut[],
   settings: AppSettings,
   font: PDFFont,
-  scaleFactor: number = 1.0
+  scaleFactor: number = 1.0,
+  layerRef: PDFRef | null = null
 ) => {
-  const { width, height } = page.getSize();
+  const { width, height, transform } = getPageDisplayGeometry(page);
+  const useLayer = layerRef !== null && pageCuts.length > 0;
+
+  if (pageCuts.length > 0) {
+    addCutMarkPageProperties(page, layerRef);
+  }
+
+  if (useLayer) {
+    // Open the optional content block (/OC /CutMarkLayer BDC) around every mark on the page
+    page.pushOperators(
+      PDFOperator.of(PDFOperatorNames.BeginMarkedContentSequence, [
+        PDFName.of('OC'),
+        CUTMARK_LAYER_PROPERTY,
+      ])
+    );
+  }
 
   for (const cut of pageCuts) {
+    // Tag each label so a later import can find and strip it (/CutMark /CutMarkLabel BDC)
+    page.pushOperators(
+      PDFOperator.of(PDFOperatorNames.BeginMarkedContentSequence, [
+        CUTMARK_CONTENT_TAG,
+        CUTMARK_LABEL_PROPERTY,
+      ])
+    );
+
     // Save Graphics State to ensure isolation between cuts and from page content
     page.pushOperators(PDFOperator.of(PDFOperatorNames.PushGraphicsState));
+    if (!isIdentityTransform(transform)) {
+      page.pushOperators(
+        PDFOperator.of(PDFOperatorNames.ConcatTransformationMatrix, transform.map((value) => PDFNumber.of(value)))
+      );
+    }
 
     // Dimensions (Scaled by DPI factor)
     // When the page size is scaled down (e.g. for high DPI), we must also scale down the font and padding
@@ -52,11 +178,6 @@ const drawCutsOnPage = async (
     const rectX = (cut.x * width) - (boxWidth / 2);
     const rectY = boxTopY - boxHeight;
 
-    // Start Marked Content Group (BMC /Span)
-    page.pushOperators(
-      PDFOperator.of(PDFOperatorNames.BeginMarkedContent, [PDFName.of('Span')])
-    );
-
     // Draw Background (Zabuton) if enabled
     if (settings.useWhiteBackground) {
       page.drawRectangle({
@@ -117,29 +238,69 @@ const drawCutsOnPage = async (
       });
     }
 
-    // End Marked Content Group
-    page.pushOperators(
-      PDFOperator.of(PDFOperatorNames.EndMarkedContent)
-    );
-
     // Restore Graphics State
     page.pushOperators(PDFOperator.of(PDFOperatorNames.PopGraphicsState));
+
+    // End the CutMark tagged group
+    page.pushOperators(PDFOperator.of(PDFOperatorNames.EndMarkedContent));
+  }
+
+  if (useLayer) {
+    page.pushOperators(PDFOperator.of(PDFOperatorNames.EndMarkedContent));
   }
 };
 
 export const saveMarkedPdf = async (
   originalPdfBytes: ArrayBuffer,
   cuts: Cut[],
-  settings: AppSettings
+  settings: AppSettings,
+  {
+    markMode = 'layer',
+    project = null,
+    writeMode = 'rewrite',
+    onRewriteFallback,
+    onProgress,
+    signal,
+  }: PdfExportOptions = {}
 ): Promise<Uint8Array> => {
-  const pdfDoc = await PDFDocument.load(originalPdfBytes);
-  const helveticaFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const isIncremental = writeMode === 'incremental';
+  // An incremental update leaves the original Info dictionary alone as well
+  const pdfDoc = await loadSourcePdf(originalPdfBytes, !isIncremental);
+  // Falls back to a full rewrite when the original cannot be extended
+  const incrementalBase = isIncremental
+    ? beginIncrementalUpdate(pdfDoc, new Uint8Array(originalPdfBytes))
+    : null;
+  if (isIncremental && !incrementalBase) {
+    onRewriteFallback?.('The original PDF has no cross-reference section to extend');
+  }
+  // Labels from an earlier CutMark export are replaced, not stacked
+  stripCutMarks(pdfDoc);
+  removeProjectAttachments(pdfDoc);
+  const labelFont = await embedLabelFont(pdfDoc, settings);
+  const layerRef = markMode === 'layer' && cuts.length > 0 ? createCutMarkLayer(pdfDoc) : null;
   const pages = pdfDoc.getPages();
   const cutsByPageIndex = createCutsByPageIndex(cuts);
 
   for (let i = 0; i < pages.length; i++) {
+    signal?.throwIfAborted();
+    if (onProgress) onProgress(i + 1, pages.length);
     // For original PDF, we assume 1:1 scale (browser view usually matches PDF points)
-    await drawCutsOnPage(pages[i], cutsByPageIndex.get(i) ?? [], settings, helveticaFont, 1.0);
+    await drawCutsOnPage(pages[i], cutsByPageIndex.get(i) ?? [], settings, labelFont, 1.0, layerRef);
+  }
+
+  signal?.throwIfAborted();
+  if (project) {
+    await attachProjectDocument(pdfDoc, project);
+  }
+
+  if (incrementalBase) {
+    try {
+      return await saveIncrementalUpdate(pdfDoc, new Uint8Array(originalPdfBytes), incrementalBase, {
+        usesOptionalContent: layerRef !== null,
+      });
+    } catch (error) {
+      onRewriteFallback?.(error instanceof Error ? error.message : String(error));
+    }
   }
 
   return await pdfDoc.save();
@@ -148,24 +309,24 @@ export const saveMarkedPdf = async (
 export const saveImagesAsPdf = async (
   imageFiles: File[],
   cuts: Cut[],
-  settings: AppSettings
+  settings: AppSettings,
+  { markMode = 'layer', project = null, onProgress, signal }: PdfExportOptions = {}
 ): Promise<Uint8Array> => {
   const pdfDoc = await PDFDocument.create();
-  const helveticaFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
-  const DEFAULT_DPI = 96;
-  const POINTS_PER_INCH = 72;
+  const labelFont = await embedLabelFont(pdfDoc, settings);
+  const layerRef = markMode === 'layer' && cuts.length > 0 ? createCutMarkLayer(pdfDoc) : null;
   const DPI_TOLERANCE = 0.01;
   const cutsByPageIndex = createCutsByPageIndex(cuts);
 
-  const normalizeDpi = (dpi: { x: number; y: number }) => ({
+  const normalizeDpi = (dpi: ImageDpi) => ({
     x: Math.round(dpi.x * 100) / 100,
     y: Math.round(dpi.y * 100) / 100,
   });
 
-  const isSameDpi = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  const isSameDpi = (a: ImageDpi, b: ImageDpi) =>
     Math.abs(a.x - b.x) <= DPI_TOLERANCE && Math.abs(a.y - b.y) <= DPI_TOLERANCE;
 
-  let baseDpi: { x: number; y: number } | null = null;
+  let baseDpi: ImageDpi | null = null;
   let hasMixedDpi = false;
 
   for (const file of imageFiles) {
@@ -185,68 +346,32 @@ export const saveImagesAsPdf = async (
     }
   }
 
-  const effectiveDpi = hasMixedDpi || !baseDpi ? { x: DEFAULT_DPI, y: DEFAULT_DPI } : baseDpi;
+  const effectiveDpi =
+    hasMixedDpi || !baseDpi ? { x: DEFAULT_IMAGE_DPI, y: DEFAULT_IMAGE_DPI } : baseDpi;
 
   for (let i = 0; i < imageFiles.length; i++) {
-    const file = imageFiles[i];
-    const metadata = await getImageFileMetadata(file);
-    if (!metadata.fileType) {
+    signal?.throwIfAborted();
+    if (onProgress) onProgress(i + 1, imageFiles.length);
+    const imagePage = await addImagePage(pdfDoc, imageFiles[i], effectiveDpi);
+    if (!imagePage) {
       continue;
     }
 
-    const arrayBuffer = await file.arrayBuffer();
-    
-    let image;
-    const imgType = metadata.fileType;
-    const orientation = metadata.orientation;
-
-    let imageBytes: ArrayBuffer = arrayBuffer;
-    if (orientation && orientation !== 1) {
-      const rendered = await renderImageWithOrientation(file, orientation, imgType);
-      imageBytes = await rendered.blob.arrayBuffer();
-    }
-
-    if (imgType === 'jpeg') {
-      image = await pdfDoc.embedJpg(imageBytes);
-    } else if (imgType === 'png') {
-      image = await pdfDoc.embedPng(imageBytes);
-    } else {
-      continue;
-    }
-    
-    // Default to image pixel dimensions (72dpi equivalent)
-    let drawWidth = image.width;
-    let drawHeight = image.height;
-    let scaleFactor = 1.0;
-
-    const dpiX = effectiveDpi.x;
-    const dpiY = effectiveDpi.y;
-    if (dpiX > 0 && dpiY > 0) {
-      // PDF standard is 72 points per inch
-      // Scale = 72 / DPI
-      const scaleX = POINTS_PER_INCH / dpiX;
-      const scaleY = POINTS_PER_INCH / dpiY;
-      
-      drawWidth = image.width * scaleX;
-      drawHeight = image.height * scaleY;
-      
-      // Use Y scale (height) as reference for font scaling
-      scaleFactor = scaleY;
-    }
-
-    // Create page with calculated dimensions
-    const page = pdfDoc.addPage([drawWidth, drawHeight]);
-    
-    page.drawImage(image, {
-      x: 0,
-      y: 0,
-      width: drawWidth,
-      height: drawHeight,
-    });
-
     // Draw cuts (Editable Vector Text)
     // Pass scaleFactor so text sizes are visually consistent with the scaled image
-    await drawCutsOnPage(page, cutsByPageIndex.get(i) ?? [], settings, helveticaFont, scaleFactor);
+    await drawCutsOnPage(
+      imagePage.page,
+      cutsByPageIndex.get(i) ?? [],
+      settings,
+      labelFont,
+      imagePage.scaleFactor,
+      layerRef
+    );
+  }
+
+  signal?.throwIfAborted();
+  if (project) {
+    await attachProjectDocument(pdfDoc, project);
   }
 
   return await pdfDoc.save();
@@ -0,0 +1,27 @@
+import { pdfjs } from 'react-pdf';
+import { pdfDocumentOptions } from './pdfjsDocumentOptions';
+
+// Passwords for encrypted PDFs that only pdf.js could open; decrypted imports never land here
+const pdfPasswords = new WeakMap<File, string>();
+
+export const rememberPdfPassword = (file: File, password: string) => {
+  pdfPasswords.set(file, password);
+};
+
+export const getPdfPassword = (file: File) => pdfPasswords.get(file);
+
+export const getPdfDocumentOptions = (file: File | null) => {
+  const password = file ? pdfPasswords.get(file) : undefined;
+  return password === undefined ? pdfDocumentOptions : { ...pdfDocumentOptions, password };
+};
+
+export const openPdfjsDocument = async (file: File, password = pdfPasswords.get(file)) =>
+  pdfjs.getDocument({
+    ...pdfDocumentOptions,
+    password,
+    data: new Uint8Array(await file.arrayBuffer()),
+  });
+
+// pdf.js rejects with a PasswordException when the password is missing or wrong
+export const isPdfjsPasswordError = (error: unknown) =>
+  error instanceof Error && error.name === 'PasswordException';
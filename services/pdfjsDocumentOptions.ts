@@ -0,0 +1,7 @@
+// Shared by the preview, the import and both export paths so all resolve CJK cmaps and standard fonts alike.
+// Kept apart from react-pdf so the export worker can use it too.
+export const pdfDocumentOptions = {
+  cMapUrl: `${import.meta.env.BASE_URL}cmaps/`,
+  cMapPacked: true,
+  standardFontDataUrl: `${import.meta.env.BASE_URL}standard_fonts/`,
+} as const;
@@ -0,0 +1,73 @@
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import { pdfDocumentOptions } from './pdfjsDocumentOptions';
+
+// This module only loads inside the export worker, which starts its own pdf.js worker from here
+GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+// pdf.js creates its scratch canvases through this factory; the export worker has no document
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    if (width <= 0 || height <= 0) {
+      throw new Error('Invalid canvas size');
+    }
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+  }
+
+  reset(canvasAndContext: { canvas: OffscreenCanvas | null }, width: number, height: number) {
+    if (!canvasAndContext.canvas) {
+      throw new Error('Canvas is not specified');
+    }
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (!canvasAndContext.canvas) {
+      throw new Error('Canvas is not specified');
+    }
+    canvasAndContext.canvas.width = 0;
+    canvasAndContext.canvas.height = 0;
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+// pdf.js builds SVG filters in the document for transfer functions; without one they are skipped
+class NoDocumentFilterFactory {
+  addFilter() {
+    return 'none';
+  }
+
+  addHCMFilter() {
+    return 'none';
+  }
+
+  addAlphaFilter() {
+    return 'none';
+  }
+
+  addLuminosityFilter() {
+    return 'none';
+  }
+
+  addHighlightHCMFilter() {
+    return 'none';
+  }
+
+  destroy() {}
+}
+
+/**
+ * Opens a PDF with pdf.js inside the export worker.
+ * Embedded fonts are drawn as glyph paths since there is no document to register FontFaces in.
+ */
+export const openWorkerPdfjsDocument = async (file: File, password?: string) =>
+  getDocument({
+    ...pdfDocumentOptions,
+    password,
+    data: new Uint8Array(await file.arrayBuffer()),
+    disableFontFace: true,
+    CanvasFactory: OffscreenCanvasFactory,
+    FilterFactory: NoDocumentFilterFactory,
+  });
@@ -0,0 +1,42 @@
+import { isAbortError } from './exportTask';
+
+interface SaveFilePickerType {
+  description: string;
+  accept: Record<string, string[]>;
+}
+
+type WindowWithSaveFilePicker = typeof window & {
+  showSaveFilePicker?: (options?: {
+    suggestedName?: string;
+    types?: SaveFilePickerType[];
+  }) => Promise<unknown>;
+};
+
+const getWindowWithSaveFilePicker = () => window as WindowWithSaveFilePicker;
+
+// The File System Access API; browsers without it download files instead
+export const supportsSaveFilePicker = () =>
+  typeof window !== 'undefined' &&
+  typeof getWindowWithSaveFilePicker().showSaveFilePicker === 'function';
+
+/**
+ * Asks where a file should be saved. The caller names the handle type it writes through.
+ * Returns null when the user cancels the picker or the browser has none.
+ */
+export const showSaveFilePicker = async <Handle>(
+  suggestedName: string,
+  type: SaveFilePickerType
+): Promise<Handle | null> => {
+  try {
+    const handle = await getWindowWithSaveFilePicker().showSaveFilePicker?.({
+      suggestedName,
+      types: [type],
+    });
+    return (handle as Handle | undefined) ?? null;
+  } catch (error) {
+    if (isAbortError(error)) {
+      return null;
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,373 @@
+// Browsers other than Safari cannot decode TIFF, so scanner output is decoded here into RGBA pixels.
+// Only the first page (IFD0) is read; multi-page files show their first page.
+
+export interface DecodedTiff {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray<ArrayBuffer>;
+}
+
+const TAG_IMAGE_WIDTH = 256;
+const TAG_IMAGE_LENGTH = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_PHOTOMETRIC = 262;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_PLANAR_CONFIGURATION = 284;
+const TAG_PREDICTOR = 317;
+const TAG_COLOR_MAP = 320;
+const TAG_TILE_WIDTH = 322;
+const TAG_TILE_LENGTH = 323;
+const TAG_TILE_OFFSETS = 324;
+const TAG_TILE_BYTE_COUNTS = 325;
+const TAG_EXTRA_SAMPLES = 338;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_ADOBE_DEFLATE = 32946;
+const COMPRESSION_PACKBITS = 32773;
+
+const PHOTOMETRIC_WHITE_IS_ZERO = 0;
+const PHOTOMETRIC_BLACK_IS_ZERO = 1;
+const PHOTOMETRIC_RGB = 2;
+const PHOTOMETRIC_PALETTE = 3;
+const PHOTOMETRIC_SEPARATED = 5;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 3: 2, 4: 4 };
+
+export const isTiffHeader = (bytes: Uint8Array) =>
+  bytes.length >= 4 &&
+  ((bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 0x2a && bytes[3] === 0x00) ||
+    (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0x00 && bytes[3] === 0x2a));
+
+const readIfd = (view: DataView, isLittle: boolean) => {
+  const ifdOffset = view.getUint32(4, isLittle);
+  if (ifdOffset < 8 || ifdOffset + 2 > view.byteLength) {
+    throw new Error('Invalid TIFF header');
+  }
+
+  const tags = new Map<number, number[]>();
+  const numEntries = view.getUint16(ifdOffset, isLittle);
+  for (let index = 0; index < numEntries; index++) {
+    const entryOffset = ifdOffset + 2 + index * 12;
+    if (entryOffset + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entryOffset, isLittle);
+    const type = view.getUint16(entryOffset + 2, isLittle);
+    const count = view.getUint32(entryOffset + 4, isLittle);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+
+    // Values that fit in four bytes are stored in the entry itself
+    const valueOffset =
+      size * count <= 4 ? entryOffset + 8 : view.getUint32(entryOffset + 8, isLittle);
+    if (valueOffset + size * count > view.byteLength) continue;
+
+    const values = new Array<number>(count);
+    for (let i = 0; i < count; i++) {
+      const position = valueOffset + i * size;
+      values[i] =
+        size === 1
+          ? view.getUint8(position)
+          : size === 2
+            ? view.getUint16(position, isLittle)
+            : view.getUint32(position, isLittle);
+    }
+    tags.set(tag, values);
+  }
+  return tags;
+};
+
+const decodePackBits = (input: Uint8Array, expectedLength: number) => {
+  const output = new Uint8Array(expectedLength);
+  let inPos = 0;
+  let outPos = 0;
+  while (inPos < input.length && outPos < expectedLength) {
+    const header = (input[inPos++] << 24) >> 24;
+    if (header >= 0) {
+      const length = Math.min(header + 1, expectedLength - outPos, input.length - inPos);
+      output.set(input.subarray(inPos, inPos + length), outPos);
+      inPos += header + 1;
+      outPos += length;
+    } else if (header !== -128) {
+      const length = Math.min(1 - header, expectedLength - outPos);
+      output.fill(input[inPos++], outPos, outPos + length);
+      outPos += length;
+    }
+  }
+  return output;
+};
+
+const LZW_CLEAR_CODE = 256;
+const LZW_END_CODE = 257;
+const LZW_MAX_CODES = 4096;
+
+// TIFF LZW packs codes MSB-first and widens them one code early
+const decodeLzw = (input: Uint8Array, expectedLength: number) => {
+  const output = new Uint8Array(expectedLength);
+  const prefix = new Uint16Array(LZW_MAX_CODES);
+  const suffix = new Uint8Array(LZW_MAX_CODES);
+  const first = new Uint8Array(LZW_MAX_CODES);
+  const lengths = new Uint16Array(LZW_MAX_CODES);
+  for (let code = 0; code < 256; code++) {
+    suffix[code] = code;
+    first[code] = code;
+    lengths[code] = 1;
+  }
+
+  let outPos = 0;
+  const writeCode = (code: number) => {
+    const length = lengths[code];
+    let current = code;
+    for (let i = length - 1; i >= 0; i--) {
+      if (outPos + i < expectedLength) output[outPos + i] = suffix[current];
+      current = prefix[current];
+    }
+    outPos += length;
+  };
+
+  let bitPos = 0;
+  let codeLength = 9;
+  let nextCode = LZW_END_CODE + 1;
+  let previous = -1;
+  const totalBits = input.length * 8;
+
+  while (outPos < expectedLength && bitPos + codeLength <= totalBits) {
+    const bytePos = bitPos >> 3;
+    const window = (input[bytePos] << 16) | ((input[bytePos + 1] ?? 0) << 8) | (input[bytePos + 2] ?? 0);
+    const code = (window >> (24 - (bitPos & 7) - codeLength)) & ((1 << codeLength) - 1);
+    bitPos += codeLength;
+
+    if (code === LZW_END_CODE) break;
+    if (code === LZW_CLEAR_CODE) {
+      codeLength = 9;
+      nextCode = LZW_END_CODE + 1;
+      previous = -1;
+      continue;
+    }
+
+    if (previous === -1) {
+      if (code >= 256) throw new Error('Invalid TIFF LZW data');
+      writeCode(code);
+    } else if (nextCode < LZW_MAX_CODES) {
+      if (code > nextCode) throw new Error('Invalid TIFF LZW data');
+      // A code not yet in the table can only be the previous string plus its own first byte
+      const firstByte = code < nextCode ? first[code] : first[previous];
+      prefix[nextCode] = previous;
+      suffix[nextCode] = firstByte;
+      first[nextCode] = first[previous];
+      lengths[nextCode] = lengths[previous] + 1;
+      nextCode++;
+      writeCode(code);
+    } else {
+      writeCode(code);
+    }
+
+    previous = code;
+    if (nextCode >= (1 << codeLength) - 1 && codeLength < 12) {
+      codeLength++;
+    }
+  }
+  return output;
+};
+
+const inflate = async (input: Uint8Array<ArrayBuffer>) => {
+  const stream = new Response(input).body!.pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompressSegment = async (
+  compression: number,
+  input: Uint8Array<ArrayBuffer>,
+  expectedLength: number
+): Promise<Uint8Array> => {
+  switch (compression) {
+    case COMPRESSION_NONE:
+      return input;
+    case COMPRESSION_LZW:
+      return decodeLzw(input, expectedLength);
+    case COMPRESSION_PACKBITS:
+      return decodePackBits(input, expectedLength);
+    case COMPRESSION_DEFLATE:
+    case COMPRESSION_ADOBE_DEFLATE:
+      return inflate(input);
+    default:
+      throw new Error(`Unsupported TIFF compression: ${compression}`);
+  }
+};
+
+// Horizontal differencing: each sample is stored as the difference from the same sample one pixel left
+const undoHorizontalPredictor = (
+  segment: Uint8Array,
+  rowBytes: number,
+  rows: number,
+  samplesPerPixel: number,
+  bitsPerSample: number,
+  isLittle: boolean
+) => {
+  if (bitsPerSample === 8) {
+    for (let row = 0; row < rows; row++) {
+      const rowStart = row * rowBytes;
+      for (let i = samplesPerPixel; i < rowBytes; i++) {
+        segment[rowStart + i] = (segment[rowStart + i] + segment[rowStart + i - samplesPerPixel]) & 0xff;
+      }
+    }
+    return;
+  }
+
+  if (bitsPerSample === 16) {
+    const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+    const stride = samplesPerPixel * 2;
+    for (let row = 0; row < rows; row++) {
+      const rowStart = row * rowBytes;
+      for (let i = stride; i + 1 < rowBytes; i += 2) {
+        const value = view.getUint16(rowStart + i, isLittle) + view.getUint16(rowStart + i - stride, isLittle);
+        view.setUint16(rowStart + i, value & 0xffff, isLittle);
+      }
+    }
+    return;
+  }
+
+  throw new Error(`Unsupported TIFF predictor for ${bitsPerSample}-bit samples`);
+};
+
+export const decodeTiff = async (buffer: ArrayBuffer): Promise<DecodedTiff> => {
+  const bytes = new Uint8Array(buffer);
+  if (!isTiffHeader(bytes)) {
+    throw new Error('Not a TIFF file');
+  }
+
+  const view = new DataView(buffer);
+  const isLittle = bytes[0] === 0x49;
+  const tags = readIfd(view, isLittle);
+  const getTag = (tag: number, fallback: number) => tags.get(tag)?.[0] ?? fallback;
+
+  const width = getTag(TAG_IMAGE_WIDTH, 0);
+  const height = getTag(TAG_IMAGE_LENGTH, 0);
+  if (width <= 0 || height <= 0) {
+    throw new Error('Invalid TIFF dimensions');
+  }
+
+  const compression = getTag(TAG_COMPRESSION, COMPRESSION_NONE);
+  const photometric = getTag(TAG_PHOTOMETRIC, PHOTOMETRIC_BLACK_IS_ZERO);
+  const samplesPerPixel = getTag(TAG_SAMPLES_PER_PIXEL, 1);
+  const bitsPerSample = getTag(TAG_BITS_PER_SAMPLE, 1);
+  const predictor = getTag(TAG_PREDICTOR, 1);
+  const colorMap = tags.get(TAG_COLOR_MAP);
+  const hasAlpha = (tags.get(TAG_EXTRA_SAMPLES)?.length ?? 0) > 0;
+
+  if (getTag(TAG_PLANAR_CONFIGURATION, 1) !== 1) {
+    throw new Error('Unsupported TIFF planar configuration');
+  }
+  if (![1, 2, 4, 8, 16].includes(bitsPerSample)) {
+    throw new Error(`Unsupported TIFF bit depth: ${bitsPerSample}`);
+  }
+  if (
+    ![
+      PHOTOMETRIC_WHITE_IS_ZERO,
+      PHOTOMETRIC_BLACK_IS_ZERO,
+      PHOTOMETRIC_RGB,
+      PHOTOMETRIC_PALETTE,
+      PHOTOMETRIC_SEPARATED,
+    ].includes(photometric)
+  ) {
+    throw new Error(`Unsupported TIFF photometric interpretation: ${photometric}`);
+  }
+  if (photometric === PHOTOMETRIC_PALETTE && (!colorMap || colorMap.length < 3 << bitsPerSample)) {
+    throw new Error('Missing TIFF color map');
+  }
+
+  const isTiled = tags.has(TAG_TILE_OFFSETS);
+  const segmentWidth = isTiled ? getTag(TAG_TILE_WIDTH, width) : width;
+  const segmentHeight = isTiled
+    ? getTag(TAG_TILE_LENGTH, height)
+    : Math.min(getTag(TAG_ROWS_PER_STRIP, height), height);
+  const offsets = tags.get(isTiled ? TAG_TILE_OFFSETS : TAG_STRIP_OFFSETS) ?? [];
+  const byteCounts = tags.get(isTiled ? TAG_TILE_BYTE_COUNTS : TAG_STRIP_BYTE_COUNTS) ?? [];
+  const segmentsAcross = Math.ceil(width / segmentWidth);
+  const rowBytes = Math.ceil((segmentWidth * samplesPerPixel * bitsPerSample) / 8);
+  const maxSample = (1 << bitsPerSample) - 1;
+  const paletteSize = 1 << bitsPerSample;
+
+  const readSample = (segment: Uint8Array, rowStart: number, index: number) => {
+    if (bitsPerSample === 8) return segment[rowStart + index] ?? 0;
+    if (bitsPerSample === 16) {
+      const position = rowStart + index * 2;
+      const high = segment[position + (isLittle ? 1 : 0)] ?? 0;
+      const low = segment[position + (isLittle ? 0 : 1)] ?? 0;
+      return (high << 8) | low;
+    }
+    const bitOffset = index * bitsPerSample;
+    const byte = segment[rowStart + (bitOffset >> 3)] ?? 0;
+    return (byte >> (8 - bitsPerSample - (bitOffset & 7))) & maxSample;
+  };
+  const toByte = (sample: number) =>
+    bitsPerSample === 8 ? sample : bitsPerSample === 16 ? sample >> 8 : Math.round((sample * 255) / maxSample);
+
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let segmentIndex = 0; segmentIndex < offsets.length; segmentIndex++) {
+    const x0 = (segmentIndex % segmentsAcross) * segmentWidth;
+    const y0 = Math.floor(segmentIndex / segmentsAcross) * segmentHeight;
+    if (y0 >= height) break;
+
+    const segmentRows = isTiled ? segmentHeight : Math.min(segmentHeight, height - y0);
+    const expectedLength = rowBytes * segmentRows;
+    const offset = offsets[segmentIndex];
+    const byteCount = byteCounts[segmentIndex] ?? expectedLength;
+    const segment = await decompressSegment(
+      compression,
+      bytes.slice(offset, offset + byteCount),
+      expectedLength
+    );
+    if (predictor === 2) {
+      undoHorizontalPredictor(segment, rowBytes, segmentRows, samplesPerPixel, bitsPerSample, isLittle);
+    }
+
+    const rows = Math.min(segmentRows, height - y0);
+    const columns = Math.min(segmentWidth, width - x0);
+    for (let row = 0; row < rows; row++) {
+      const rowStart = row * rowBytes;
+      let target = ((y0 + row) * width + x0) * 4;
+      for (let column = 0; column < columns; column++, target += 4) {
+        const sampleIndex = column * samplesPerPixel;
+        let red: number;
+        let green: number;
+        let blue: number;
+        let alpha = 255;
+
+        if (photometric === PHOTOMETRIC_RGB) {
+          red = toByte(readSample(segment, rowStart, sampleIndex));
+          green = toByte(readSample(segment, rowStart, sampleIndex + 1));
+          blue = toByte(readSample(segment, rowStart, sampleIndex + 2));
+          if (hasAlpha && samplesPerPixel > 3) alpha = toByte(readSample(segment, rowStart, sampleIndex + 3));
+        } else if (photometric === PHOTOMETRIC_PALETTE && colorMap) {
+          const paletteIndex = readSample(segment, rowStart, sampleIndex);
+          red = colorMap[paletteIndex] >> 8;
+          green = colorMap[paletteSize + paletteIndex] >> 8;
+          blue = colorMap[paletteSize * 2 + paletteIndex] >> 8;
+        } else if (photometric === PHOTOMETRIC_SEPARATED) {
+          const black = 255 - toByte(readSample(segment, rowStart, sampleIndex + 3));
+          red = ((255 - toByte(readSample(segment, rowStart, sampleIndex))) * black) / 255;
+          green = ((255 - toByte(readSample(segment, rowStart, sampleIndex + 1))) * black) / 255;
+          blue = ((255 - toByte(readSample(segment, rowStart, sampleIndex + 2))) * black) / 255;
+        } else {
+          const gray = toByte(readSample(segment, rowStart, sampleIndex));
+          red = green = blue = photometric === PHOTOMETRIC_WHITE_IS_ZERO ? 255 - gray : gray;
+          if (hasAlpha && samplesPerPixel > 1) alpha = toByte(readSample(segment, rowStart, sampleIndex + 1));
+        }
+
+        data[target] = red;
+        data[target + 1] = green;
+        data[target + 2] = blue;
+        data[target + 3] = alpha;
+      }
+    }
+  }
+
+  return { width, height, data };
+};
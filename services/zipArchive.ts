@@ -0,0 +1,213 @@
+import {
+  isSystemFilePath,
+  withImportPath,
+  WorkspaceImportValidationError,
+} from '../application/workspaceImport';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+
+const EOCD_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+
+interface ZipEntry {
+  path: string;
+  method: number;
+  flags: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+  lastModified: number;
+}
+
+const readBytes = async (file: File, start: number, end: number) =>
+  new DataView(await file.slice(start, end).arrayBuffer());
+
+const readUint64 = (view: DataView, offset: number) =>
+  view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+
+// Archives made by Windows Explorer in Japan store Shift_JIS names without the UTF-8 flag
+const decodeEntryName = (bytes: Uint8Array, flags: number) => {
+  if (flags & FLAG_UTF8) {
+    return new TextDecoder().decode(bytes);
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('shift_jis').decode(bytes);
+  }
+};
+
+const fromDosDateTime = (date: number, time: number) =>
+  new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime();
+
+const findCentralDirectory = async (file: File) => {
+  const tailStart = Math.max(0, file.size - EOCD_SIZE - MAX_COMMENT_LENGTH);
+  const tail = await readBytes(file, tailStart, file.size);
+
+  for (let offset = tail.byteLength - EOCD_SIZE; offset >= 0; offset--) {
+    if (tail.getUint32(offset, true) !== EOCD_SIGNATURE) continue;
+
+    let entryCount = tail.getUint16(offset + 10, true);
+    let directoryOffset = tail.getUint32(offset + 16, true);
+
+    // Archives over 4 GB or 65535 entries keep the real values in a ZIP64 record
+    const locatorOffset = offset - 20;
+    if (locatorOffset >= 0 && tail.getUint32(locatorOffset, true) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+      const recordOffset = readUint64(tail, locatorOffset + 8);
+      const record = await readBytes(file, recordOffset, recordOffset + 56);
+      if (record.getUint32(0, true) === ZIP64_EOCD_SIGNATURE) {
+        entryCount = readUint64(record, 32);
+        directoryOffset = readUint64(record, 48);
+      }
+    }
+
+    return { entryCount, directoryOffset, directoryEnd: tailStart + offset };
+  }
+
+  return null;
+};
+
+const readCentralDirectory = async (file: File): Promise<ZipEntry[]> => {
+  const directory = await findCentralDirectory(file);
+  if (!directory) {
+    throw new WorkspaceImportValidationError(`「${file.name}」はZIPファイルとして読み込めませんでした。`);
+  }
+
+  const view = await readBytes(file, directory.directoryOffset, directory.directoryEnd);
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let index = 0; index < directory.entryCount; index++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      break;
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const time = view.getUint16(offset + 12, true);
+    const date = view.getUint16(offset + 14, true);
+    let compressedSize = view.getUint32(offset + 20, true);
+    let uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    let localHeaderOffset = view.getUint32(offset + 42, true);
+
+    const nameStart = offset + 46;
+    const path = decodeEntryName(
+      new Uint8Array(view.buffer, view.byteOffset + nameStart, nameLength),
+      flags
+    );
+
+    // The ZIP64 extra field lists only the values that overflowed, in this order
+    let extraOffset = nameStart + nameLength;
+    const extraEnd = extraOffset + extraLength;
+    while (extraOffset + 4 <= extraEnd) {
+      const headerId = view.getUint16(extraOffset, true);
+      const size = view.getUint16(extraOffset + 2, true);
+      if (headerId === ZIP64_EXTRA_FIELD) {
+        let valueOffset = extraOffset + 4;
+        if (uncompressedSize === 0xffffffff) {
+          uncompressedSize = readUint64(view, valueOffset);
+          valueOffset += 8;
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = readUint64(view, valueOffset);
+          valueOffset += 8;
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = readUint64(view, valueOffset);
+        }
+      }
+      extraOffset += 4 + size;
+    }
+
+    if (!path.endsWith('/')) {
+      entries.push({
+        path,
+        method,
+        flags,
+        compressedSize,
+        localHeaderOffset,
+        lastModified: fromDosDateTime(date, time),
+      });
+    }
+
+    offset = extraEnd + commentLength;
+  }
+
+  return entries;
+};
+
+const inflateRaw = async (blob: Blob) => {
+  const stream = new Response(await blob.arrayBuffer()).body!.pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readEntryData = async (file: File, entry: ZipEntry): Promise<BlobPart> => {
+  const header = await readBytes(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new WorkspaceImportValidationError(`「${file.name}」が壊れているため展開できませんでした。`);
+  }
+
+  // The local header may carry a different extra field than the central directory
+  const dataStart =
+    entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = file.slice(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === METHOD_STORED) {
+    return data;
+  }
+  if (entry.method === METHOD_DEFLATE) {
+    return inflateRaw(data);
+  }
+  throw new WorkspaceImportValidationError(
+    `「${file.name}」の圧縮形式には対応していません。展開してから読み込んでください。`
+  );
+};
+
+const toBaseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+/**
+ * Unpacks the files in the archive, in path order, named without their folders. Each keeps its path
+ * for sorting, so same-named files in different folders stay in folder order.
+ * System files are skipped, encrypted archives are rejected, and nested archives are returned as-is.
+ */
+export const readZipArchive = async (file: File): Promise<File[]> => {
+  const entries = (await readCentralDirectory(file))
+    .filter((entry) => !isSystemFilePath(entry.path))
+    .sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true, sensitivity: 'base' }));
+
+  if (entries.some((entry) => entry.flags & FLAG_ENCRYPTED)) {
+    throw new WorkspaceImportValidationError(
+      `「${file.name}」はパスワード付きのZIPのため読み込めません。展開してから読み込んでください。`
+    );
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    const data = await readEntryData(file, entry);
+    files.push(
+      withImportPath(
+        new File([data], toBaseName(entry.path), { lastModified: entry.lastModified }),
+        entry.path
+      )
+    );
+  }
+  return files;
+};
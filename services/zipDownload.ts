@@ -1,4 +1,7 @@
-const saveAs = (blob: Blob, filename: string) => {
+import { isAbortError } from './exportTask';
+import { showSaveFilePicker, supportsSaveFilePicker } from './saveFilePicker';
+
+export const saveZipBlob = (blob: Blob, filename: string) => {
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
@@ -9,61 +12,74 @@ const saveAs = (blob: Blob, filename: string) => {
   setTimeout(() => URL.revokeObjectURL(url), 100);
 };
 
-type FilePickerHandle = {
+export type ZipFileHandle = {
   createWritable: () => Promise<WritableStream<Uint8Array>>;
 };
 
-type WindowWithSaveFilePicker = typeof window & {
-  showSaveFilePicker?: (options?: {
-    suggestedName?: string;
-    types?: Array<{
-      description?: string;
-      accept: Record<string, string[]>;
-    }>;
-  }) => Promise<FilePickerHandle>;
-};
+export const supportsStreamingZipSave = supportsSaveFilePicker;
 
-const getWindowWithSaveFilePicker = () => window as WindowWithSaveFilePicker;
+// A picked file to stream into, or a regular browser download
+export type ZipSaveTarget = ZipFileHandle | 'download';
 
-const isAbortError = (error: unknown) =>
-  error instanceof DOMException && error.name === 'AbortError';
+/**
+ * Asks where the ZIP should go before any work starts.
+ * Returns null when the user cancels the save picker.
+ */
+export const chooseZipSaveTarget = async (fileName: string): Promise<ZipSaveTarget | null> => {
+  if (!supportsSaveFilePicker()) {
+    return 'download';
+  }
 
-export const supportsStreamingZipSave = () =>
-  typeof window !== 'undefined' &&
-  typeof getWindowWithSaveFilePicker().showSaveFilePicker === 'function';
+  return showSaveFilePicker<ZipFileHandle>(fileName, {
+    description: 'ZIP archive',
+    accept: { 'application/zip': ['.zip'] },
+  });
+};
 
-export const saveZipResponse = async (
-  response: Response,
-  fileName: string
+// Also usable from a worker, which receives the picked handle from the main thread
+export const pipeZipToFile = async (
+  body: ReadableStream<Uint8Array>,
+  handle: ZipFileHandle,
+  signal?: AbortSignal
 ): Promise<boolean> => {
-  if (supportsStreamingZipSave() && response.body) {
-    try {
-      const handle = await getWindowWithSaveFilePicker().showSaveFilePicker?.({
-        suggestedName: fileName,
-        types: [
-          {
-            description: 'ZIP archive',
-            accept: { 'application/zip': ['.zip'] },
-          },
-        ],
-      });
-
-      if (!handle) {
-        return false;
-      }
-
-      const writable = await handle.createWritable();
-      await response.body.pipeTo(writable);
-      return true;
-    } catch (error) {
-      if (isAbortError(error)) {
-        return false;
-      }
-      throw error;
+  try {
+    const writable = await handle.createWritable();
+    // An aborted pipe also aborts the writable, so the partial file is discarded
+    await body.pipeTo(writable, { signal });
+    return true;
+  } catch (error) {
+    if (isAbortError(error)) {
+      return false;
     }
+    throw error;
+  }
+};
+
+export const writeZipResponse = async (
+  response: Response,
+  target: ZipSaveTarget,
+  fileName: string,
+  signal?: AbortSignal
+): Promise<boolean> => {
+  if (target !== 'download' && response.body) {
+    return pipeZipToFile(response.body, target, signal);
   }
 
   const blob = await response.blob();
-  saveAs(blob, fileName);
+  signal?.throwIfAborted();
+  saveZipBlob(blob, fileName);
   return true;
 };
+
+export const saveZipResponse = async (
+  response: Response,
+  fileName: string,
+  signal?: AbortSignal
+): Promise<boolean> => {
+  const target = await chooseZipSaveTarget(fileName);
+  if (!target) {
+    return false;
+  }
+
+  return writeZipResponse(response, target, fileName, signal);
+};
@@ -4,12 +4,21 @@ export const createAppSettings = (
   overrides: Partial<AppSettings> = {}
 ): AppSettings => ({
   fontSize: 28,
+  labelFont: null,
   useWhiteBackground: false,
   backgroundPadding: 4,
   nextNumber: 1,
   branchChar: null,
+  sceneNumber: null,
   autoIncrement: true,
   minDigits: 3,
+  labelFormat: {
+    prefix: '',
+    suffix: '',
+    scenePrefix: '',
+    sceneMinDigits: 2,
+    separator: '-',
+  },
   textOutlineWidth: 2,
   enableClickSnapToRows: true,
   ...overrides,
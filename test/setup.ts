@@ -10,6 +10,12 @@ if (!window.URL.revokeObjectURL) {
   window.URL.revokeObjectURL = vi.fn();
 }
 
+// jsdom's TextEncoder returns Uint8Arrays from another realm, which fail pdf-lib's instanceof checks
+const encodeText = TextEncoder.prototype.encode;
+TextEncoder.prototype.encode = function encode(input?: string) {
+  return Uint8Array.from(encodeText.call(this, input));
+};
+
 afterEach(() => {
   cleanup();
   localStorage.clear();
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assetFingerprintsMatch,
+  attachAssetContentHints,
+  createDifferenceHash,
+  FINGERPRINT_SAMPLE_HEIGHT,
+  FINGERPRINT_SAMPLE_WIDTH,
+  getFingerprintDistance,
+  hasNewAssetFingerprints,
+} from '../../application/assetFingerprint';
+
+const createSample = (valueAt: (x: number, y: number) => number) =>
+  Array.from({ length: FINGERPRINT_SAMPLE_WIDTH * FINGERPRINT_SAMPLE_HEIGHT }, (_, index) =>
+    valueAt(index % FINGERPRINT_SAMPLE_WIDTH, Math.floor(index / FINGERPRINT_SAMPLE_WIDTH))
+  );
+
+const falling = createDifferenceHash(createSample((x) => 255 - x * 10));
+const rising = createDifferenceHash(createSample((x) => x * 10));
+
+describe('application/assetFingerprint', () => {
+  it('encodes brightness differences between neighbours as a hex hash', () => {
+    expect(falling).toBe(`dhash16:${'f'.repeat(64)}`);
+    expect(rising).toBe(`dhash16:${'0'.repeat(64)}`);
+  });
+
+  it('measures the distance between fingerprints in differing bits', () => {
+    const oneRowChanged = createDifferenceHash(
+      createSample((x, y) => (y === 0 ? x * 10 : 255 - x * 10))
+    );
+
+    expect(getFingerprintDistance(falling, falling)).toBe(0);
+    expect(getFingerprintDistance(falling, oneRowChanged)).toBe(16);
+    expect(getFingerprintDistance(falling, rising)).toBe(256);
+    expect(getFingerprintDistance(falling, undefined)).toBeNull();
+    expect(getFingerprintDistance(falling, 'sha256:abc')).toBeNull();
+  });
+
+  it('matches assets by content and defers to names when a fingerprint is missing', () => {
+    const oneRowChanged = createDifferenceHash(
+      createSample((x, y) => (y === 0 ? x * 10 : 255 - x * 10))
+    );
+    const hint = { sourceKind: 'pdf-page' as const, sourceLabel: 'a.pdf', pageNumber: 1 };
+
+    expect(
+      assetFingerprintsMatch({ ...hint, fingerprint: falling }, { ...hint, fingerprint: oneRowChanged })
+    ).toBe(true);
+    expect(
+      assetFingerprintsMatch({ ...hint, fingerprint: falling }, { ...hint, fingerprint: rising })
+    ).toBe(false);
+    expect(assetFingerprintsMatch(hint, { ...hint, fingerprint: falling })).toBeNull();
+  });
+
+  it('attaches fingerprints and sizes to hints by index', () => {
+    const hints = [
+      { sourceKind: 'image' as const, sourceLabel: '001.png', pageNumber: 1 },
+      { sourceKind: 'image' as const, sourceLabel: '002.png', pageNumber: 2 },
+    ];
+
+    expect(
+      attachAssetContentHints(hints, [{ fingerprint: falling, width: 1200, height: 1697 }, { width: 800 }])
+    ).toEqual([{ ...hints[0], fingerprint: falling, width: 1200, height: 1697 }, hints[1]]);
+  });
+
+  it('detects when fingerprints arrive for the same assets', () => {
+    const hint = { sourceKind: 'image' as const, sourceLabel: '001.png', pageNumber: 1 };
+
+    expect(hasNewAssetFingerprints([hint], [{ ...hint, fingerprint: falling }])).toBe(true);
+    expect(
+      hasNewAssetFingerprints([{ ...hint, fingerprint: falling }], [{ ...hint, fingerprint: rising }])
+    ).toBe(false);
+    expect(hasNewAssetFingerprints([], [{ ...hint, fingerprint: falling }])).toBe(false);
+  });
+});
@@ -42,6 +42,31 @@ describe('application/currentDocumentProjection', () => {
     ]);
   });
 
+  it('traces merged pages back to their source PDFs and images', () => {
+    const partA = new File(['a'], 'ep01_A.pdf', { type: 'application/pdf' });
+    const partB = new File(['b'], 'ep01_B.pdf', { type: 'application/pdf' });
+    const scan = new File(['c'], 'ep01_C.jpg', { type: 'image/jpeg' });
+
+    const hints = createAssetHintsFromCurrentDocument({
+      docType: 'pdf',
+      pdfFile: new File(['ab'], 'ep01_A+ep01_B.pdf', { type: 'application/pdf' }),
+      pdfSources: [
+        { kind: 'pdf' as const, file: partA, pageCount: 2 },
+        { kind: 'pdf' as const, file: partB, pageCount: 1 },
+        { kind: 'image' as const, file: scan, pageCount: 1 },
+      ],
+      imageFiles: [],
+      pageCount: 4,
+    });
+
+    expect(hints).toEqual([
+      { sourceKind: 'pdf-page', sourceLabel: 'ep01_A.pdf', pageNumber: 1 },
+      { sourceKind: 'pdf-page', sourceLabel: 'ep01_A.pdf', pageNumber: 2 },
+      { sourceKind: 'pdf-page', sourceLabel: 'ep01_B.pdf', pageNumber: 1 },
+      { sourceKind: 'image', sourceLabel: 'ep01_C.jpg' },
+    ]);
+  });
+
   it('derives current project names from PDF and image inputs', () => {
     expect(
       deriveCurrentProjectName({
@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import { editorReducer } from '../../application/editorReducer';
+import { DEFAULT_CUT_LABEL_FORMAT } from '../../domain/numbering';
 import {
   createEditorState,
   createLogicalPage,
@@ -142,8 +143,10 @@ describe('application/editorReducer', () => {
       numbering: {
         nextNumber: 10,
         branchChar: null,
+        sceneNumber: null,
         autoIncrement: true,
         minDigits: 3,
+        labelFormat: DEFAULT_CUT_LABEL_FORMAT,
       },
     });
 
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { estimateRemainingTime } from '../../application/exportProgress';
+
+const createProgress = (current: number, total: number) => ({
+  current,
+  total,
+  startedAt: 1_000,
+  isCancelling: false,
+});
+
+describe('estimateRemainingTime', () => {
+  it('extrapolates from completed pages only', () => {
+    expect(estimateRemainingTime(createProgress(11, 100), 21_000)).toBe(180_000);
+    expect(estimateRemainingTime(createProgress(100, 100), 100_000)).toBeCloseTo(1_000);
+  });
+
+  it('has no estimate before the first page is finished', () => {
+    expect(estimateRemainingTime(createProgress(0, 0), 5_000)).toBeNull();
+    expect(estimateRemainingTime(createProgress(1, 100), 5_000)).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_IMAGE_EXPORT_OPTIONS,
+  getImageExportScale,
+  getImageOutputFileName,
+  getImageOutputTypeFromMime,
+  resolveImageOutputType,
+} from '../../application/imageExportOutput';
+
+describe('imageExportOutput', () => {
+  it('keeps the input format unless another one is chosen', () => {
+    expect(resolveImageOutputType('png', DEFAULT_IMAGE_EXPORT_OPTIONS)).toBe('png');
+    expect(resolveImageOutputType('jpeg', DEFAULT_IMAGE_EXPORT_OPTIONS)).toBe('jpeg');
+    expect(resolveImageOutputType('png', { ...DEFAULT_IMAGE_EXPORT_OPTIONS, format: 'webp' })).toBe('webp');
+  });
+
+  it('keeps formats canvases cannot write as PNG', () => {
+    expect(resolveImageOutputType(null, DEFAULT_IMAGE_EXPORT_OPTIONS)).toBe('png');
+    expect(resolveImageOutputType(null, { ...DEFAULT_IMAGE_EXPORT_OPTIONS, format: 'jpeg' })).toBe('jpeg');
+    expect(getImageOutputFileName('scan_001.tif', null, 'png')).toBe('scan_001.png');
+  });
+
+  it('maps encoder output back to a format', () => {
+    expect(getImageOutputTypeFromMime('image/png')).toBe('png');
+    expect(getImageOutputTypeFromMime('image/webp')).toBe('webp');
+    expect(getImageOutputTypeFromMime('')).toBeNull();
+  });
+
+  it('only shrinks images whose long edge exceeds the limit', () => {
+    const options = { ...DEFAULT_IMAGE_EXPORT_OPTIONS, maxLongEdge: 2000 };
+
+    expect(getImageExportScale(3000, 4000, options)).toBe(0.5);
+    expect(getImageExportScale(1200, 1600, options)).toBe(1);
+    expect(getImageExportScale(3000, 4000, DEFAULT_IMAGE_EXPORT_OPTIONS)).toBe(1);
+  });
+
+  it('renames the extension only when the format changes', () => {
+    expect(getImageOutputFileName('c001.png', 'png', 'png')).toBe('c001.png');
+    expect(getImageOutputFileName('c001.png', 'png', 'jpeg')).toBe('c001.jpg');
+    expect(getImageOutputFileName('scan.v2.JPG', 'jpeg', 'webp')).toBe('scan.v2.webp');
+    expect(getImageOutputFileName('noext', 'png', 'webp')).toBe('noext.webp');
+  });
+});
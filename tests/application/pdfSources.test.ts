@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  arrangeCutsByPageOrder,
+  countPdfSourcePages,
+  createMergedPdfName,
+  isMergedPageOrder,
+  locatePdfSourcePage,
+  splitCutsByPdfSource,
+  toMarkedPdfSourceName,
+} from '../../application/pdfSources';
+
+const partA = new File(['a'], 'ep01_A.pdf', { type: 'application/pdf' });
+const partB = new File(['b'], 'ep01_B.PDF', { type: 'application/pdf' });
+const sources = [
+  { kind: 'pdf' as const, file: partA, pageCount: 2 },
+  { kind: 'pdf' as const, file: partB, pageCount: 3 },
+];
+
+const createCut = (id: string, pageIndex: number) => ({
+  id,
+  pageIndex,
+  x: 0.5,
+  y: 0.5,
+  label: id,
+  isBranch: false,
+});
+
+describe('application/pdfSources', () => {
+  it('locates merged pages in their source file', () => {
+    expect(locatePdfSourcePage(sources, 1)).toEqual({ source: sources[0], pageNumber: 2 });
+    expect(locatePdfSourcePage(sources, 2)).toEqual({ source: sources[1], pageNumber: 1 });
+    expect(locatePdfSourcePage(sources, 5)).toBeNull();
+    expect(locatePdfSourcePage(sources, -1)).toBeNull();
+  });
+
+  it('hands each source its own cuts on its own page indices', () => {
+    const split = splitCutsByPdfSource(
+      [createCut('001', 0), createCut('002', 1), createCut('003', 4)],
+      sources
+    );
+
+    expect(split).toEqual([
+      { source: sources[0], pageOffset: 0, pageCount: 2, mergedPages: null, cuts: [createCut('001', 0), createCut('002', 1)] },
+      { source: sources[1], pageOffset: 2, pageCount: 3, mergedPages: null, cuts: [createCut('003', 2)] },
+    ]);
+    expect(countPdfSourcePages(sources)).toBe(5);
+  });
+
+  it('keeps each source in the bound order of its own pages and drops pages bound nowhere', () => {
+    const split = splitCutsByPdfSource(
+      [createCut('001', 0), createCut('002', 3), createCut('003', 2), createCut('004', 4)],
+      sources,
+      [3, 0, 2, 1]
+    );
+
+    expect(split).toEqual([
+      { source: sources[0], pageOffset: 0, pageCount: 2, mergedPages: null, cuts: [createCut('001', 0)] },
+      {
+        source: sources[1],
+        pageOffset: 2,
+        pageCount: 2,
+        mergedPages: [3, 2],
+        cuts: [createCut('002', 0), createCut('003', 1)],
+      },
+    ]);
+  });
+
+  describe('with page 2 of a PDF replaced by a scan', () => {
+    const scan = new File(['c'], 'ep01_A_p2.png', { type: 'image/png' });
+    const replacedSources = [
+      { kind: 'pdf' as const, file: partA, pageCount: 1 },
+      { kind: 'image' as const, file: scan, pageCount: 1, replacedPage: { file: partA, pageNumber: 2 } },
+      { kind: 'pdf' as const, file: partA, pageCount: 2, firstPage: 3 },
+    ];
+
+    it('locates the pages after the scan on their own page numbers', () => {
+      expect(locatePdfSourcePage(replacedSources, 1)).toEqual({ source: replacedSources[1], pageNumber: 1 });
+      expect(locatePdfSourcePage(replacedSources, 2)).toEqual({ source: replacedSources[2], pageNumber: 3 });
+    });
+
+    it('exports the PDF once from the merged pages, with the scan in place of its page', () => {
+      const split = splitCutsByPdfSource(
+        [createCut('001', 0), createCut('002', 1), createCut('003', 3), createCut('004', 4)],
+        [...replacedSources, sources[1]]
+      );
+
+      expect(split).toEqual([
+        {
+          source: replacedSources[0],
+          pageOffset: 0,
+          pageCount: 4,
+          mergedPages: [0, 1, 2, 3],
+          cuts: [createCut('001', 0), createCut('002', 1), createCut('003', 3)],
+        },
+        { source: sources[1], pageOffset: 4, pageCount: 3, mergedPages: null, cuts: [createCut('004', 0)] },
+      ]);
+    });
+  });
+
+  it('moves cuts to where their page lands in the bound order', () => {
+    expect(isMergedPageOrder([0, 1, 2, 3, 4], sources)).toBe(true);
+    expect(isMergedPageOrder([0, 1, 2, 3], sources)).toBe(false);
+    expect(isMergedPageOrder([0, 4, 2, 3, 1], sources)).toBe(false);
+
+    expect(
+      arrangeCutsByPageOrder([createCut('001', 0), createCut('002', 4), createCut('003', 1)], [0, 4, 2, 3])
+    ).toEqual([createCut('001', 0), createCut('002', 1)]);
+  });
+
+  it('names the merged document and the per-source exports after their files', () => {
+    const scan = new File(['c'], 'ep01_C.jpg', { type: 'image/jpeg' });
+
+    expect(createMergedPdfName([partA, partB, scan])).toBe('ep01_A+ep01_B+ep01_C.pdf');
+    expect(toMarkedPdfSourceName(sources[0])).toBe('marked_ep01_A.pdf');
+    expect(toMarkedPdfSourceName({ kind: 'image', file: scan, pageCount: 1 })).toBe('marked_ep01_C.pdf');
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import {
+  alignProjectPagesToAssets,
   applyBoundAssetHintsToProject,
   countAssignedProjectAssetBindings,
   createSequentialProjectAssetBindings,
@@ -61,6 +62,148 @@ describe('application/projectBindings', () => {
     });
   });
 
+  it('matches renamed material by content fingerprint', () => {
+    const fingerprintA = `dhash16:${'0'.repeat(64)}`;
+    const fingerprintB = `dhash16:${'f'.repeat(64)}`;
+    const fingerprintC = `dhash16:${'0f'.repeat(32)}`;
+    const fingerprinted = createProjectDocument({
+      settings: createAppSettings(),
+      template: createTemplate(),
+      logicalPages: [
+        {
+          id: 'page-1',
+          cuts: [],
+          expectedAssetHint: {
+            sourceKind: 'pdf-page',
+            sourceLabel: 'storyboard_v1.pdf',
+            pageNumber: 1,
+            fingerprint: fingerprintA,
+          },
+        },
+        {
+          id: 'page-2',
+          cuts: [],
+          expectedAssetHint: {
+            sourceKind: 'pdf-page',
+            sourceLabel: 'storyboard_v1.pdf',
+            pageNumber: 2,
+            fingerprint: fingerprintB,
+          },
+        },
+      ],
+    });
+
+    // A page was inserted at the front and the file renamed; one bit changed on re-export
+    const bindings = createSuggestedProjectAssetBindings(fingerprinted, [
+      { sourceKind: 'pdf-page', sourceLabel: 'storyboard_v2.pdf', pageNumber: 1, fingerprint: fingerprintC },
+      {
+        sourceKind: 'pdf-page',
+        sourceLabel: 'storyboard_v2.pdf',
+        pageNumber: 2,
+        fingerprint: `dhash16:1${'0'.repeat(63)}`,
+      },
+      { sourceKind: 'pdf-page', sourceLabel: 'storyboard_v2.pdf', pageNumber: 3, fingerprint: fingerprintB },
+    ]);
+
+    expect(bindings).toEqual({
+      'page-1': 1,
+      'page-2': 2,
+    });
+  });
+
+  it('does not treat a same-named page with different content as an exact match', () => {
+    const withFingerprint = createProjectDocument({
+      settings: createAppSettings(),
+      template: createTemplate(),
+      logicalPages: [
+        {
+          id: 'page-1',
+          cuts: [],
+          expectedAssetHint: {
+            sourceKind: 'image',
+            sourceLabel: '001.png',
+            pageNumber: 1,
+            fingerprint: `dhash16:${'0'.repeat(64)}`,
+          },
+        },
+      ],
+    });
+
+    const bindings = createSuggestedProjectAssetBindings(withFingerprint, [
+      { sourceKind: 'image', sourceLabel: '000.png', pageNumber: 1 },
+      {
+        sourceKind: 'image',
+        sourceLabel: '001.png',
+        pageNumber: 2,
+        fingerprint: `dhash16:${'f'.repeat(64)}`,
+      },
+    ]);
+
+    expect(bindings).toEqual({ 'page-1': 0 });
+  });
+
+  it('aligns revised material so inserted and removed pages do not shift later bindings', () => {
+    const steps = alignProjectPagesToAssets(project, [
+      { sourceKind: 'image', sourceLabel: '001.png', pageNumber: 1 },
+      { sourceKind: 'image', sourceLabel: '001a.png', pageNumber: 2 },
+      { sourceKind: 'image', sourceLabel: '003.png', pageNumber: 3 },
+    ]);
+
+    expect(steps).toEqual([
+      { kind: 'match', logicalPageId: 'page-1', assetIndex: 0 },
+      { kind: 'replace', logicalPageId: 'page-2', assetIndex: 1 },
+      { kind: 'match', logicalPageId: 'page-3', assetIndex: 2 },
+    ]);
+
+    const inserted = [
+      { sourceKind: 'image' as const, sourceLabel: '001.png', pageNumber: 1 },
+      { sourceKind: 'image' as const, sourceLabel: '001a.png', pageNumber: 2 },
+      { sourceKind: 'image' as const, sourceLabel: '002.png', pageNumber: 2 },
+      { sourceKind: 'image' as const, sourceLabel: '003.png', pageNumber: 3 },
+    ];
+    expect(alignProjectPagesToAssets(project, inserted).map((step) => step.kind)).toEqual([
+      'match',
+      'insert',
+      'match',
+      'match',
+    ]);
+    expect(createSuggestedProjectAssetBindings(project, inserted)).toEqual({
+      'page-1': 0,
+      'page-2': 2,
+      'page-3': 3,
+    });
+
+    const removed = [
+      { sourceKind: 'image' as const, sourceLabel: '001.png', pageNumber: 1 },
+      { sourceKind: 'image' as const, sourceLabel: '003.png', pageNumber: 3 },
+      { sourceKind: 'image' as const, sourceLabel: '004.png', pageNumber: 4 },
+    ];
+    expect(alignProjectPagesToAssets(project, removed).map((step) => step.kind)).toEqual([
+      'match',
+      'remove',
+      'match',
+      'insert',
+    ]);
+    expect(createSuggestedProjectAssetBindings(project, removed)).toEqual({
+      'page-1': 0,
+      'page-2': null,
+      'page-3': 1,
+    });
+  });
+
+  it('keeps pages in order when nothing tells them apart', () => {
+    const bindings = createSuggestedProjectAssetBindings(project, [
+      { sourceKind: 'pdf-page', sourceLabel: 'renamed.pdf', pageNumber: 1 },
+      { sourceKind: 'pdf-page', sourceLabel: 'renamed.pdf', pageNumber: 2 },
+    ]);
+
+    expect(bindings).toEqual({
+      'page-1': 0,
+      'page-2': 1,
+      'page-3': null,
+    });
+  });
+
   it('keeps bindings unique when a page is reassigned', () => {
     const next = reassignProjectAssetBinding(
       {
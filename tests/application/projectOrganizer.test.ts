@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import {
   createProjectConteOrganizerSummary,
+  fillUnassignedContesWithBlankPages,
   insertBlankLogicalPageAtConte,
   moveLogicalPageToConte,
   removeLogicalPageFromConte,
@@ -83,6 +84,56 @@ describe('application/projectOrganizer', () => {
     expect(summary.unplacedPages[0].isSelected).toBe(true);
   });
 
+  it('explains how sure each binding is', () => {
+    const fingerprint = `dhash16:${'0'.repeat(64)}`;
+    const logicalPages = [
+      {
+        id: 'page-1',
+        cuts: [],
+        expectedAssetHint: { sourceKind: 'pdf-page' as const, sourceLabel: 'v1.pdf', pageNumber: 1, fingerprint },
+      },
+      {
+        id: 'page-2',
+        cuts: [],
+        expectedAssetHint: {
+          sourceKind: 'image' as const,
+          sourceLabel: '002.png',
+          pageNumber: 2,
+          width: 1200,
+          height: 1697,
+        },
+      },
+      {
+        id: 'page-3',
+        cuts: [],
+        expectedAssetHint: { sourceKind: 'image' as const, sourceLabel: '003.png', pageNumber: 3 },
+      },
+      { id: 'page-4', cuts: [], expectedAssetHint: null },
+    ];
+
+    const summary = createProjectConteOrganizerSummary(
+      logicalPages,
+      { 'page-1': 0, 'page-2': 1, 'page-3': 2, 'page-4': 3 },
+      { 'page-1': 'matched', 'page-2': 'needs_review', 'page-3': 'matched', 'page-4': 'needs_review' },
+      [
+        { sourceKind: 'pdf-page', sourceLabel: 'v2.pdf', pageNumber: 1, fingerprint },
+        { sourceKind: 'image', sourceLabel: '002_fix.png', pageNumber: 2, width: 1000, height: 1414 },
+        { sourceKind: 'image', sourceLabel: 'scan.png', pageNumber: 3 },
+        { sourceKind: 'image', sourceLabel: '004.png', pageNumber: 4 },
+        { sourceKind: 'image', sourceLabel: '005.png', pageNumber: 5 },
+      ],
+      null
+    );
+
+    expect(summary.slots.map(({ confidence, reasons }) => ({ confidence, reasons }))).toEqual([
+      { confidence: 0.93, reasons: ['ファイル名が異なる'] },
+      { confidence: 0.5, reasons: ['ファイル名が異なる', 'ページサイズが異なる'] },
+      { confidence: 1, reasons: ['手動で割付済み', 'ファイル名が異なる'] },
+      { confidence: 0.5, reasons: ['前回の素材情報がない'] },
+      { confidence: null, reasons: [] },
+    ]);
+  });
+
   it('inserts a blank logical page into the target conte slot and shifts later pages', () => {
     const nextState = insertBlankLogicalPageAtConte(createState(), [
       { sourceKind: 'image', sourceLabel: '001.png', pageNumber: 1 },
@@ -105,6 +156,39 @@ describe('application/projectOrganizer', () => {
     expect(nextState.bindings['page-3'].assetId).toBeNull();
   });
 
+  it('fills unassigned conte slots with blank logical pages in place', () => {
+    const state = createState();
+    const nextState = fillUnassignedContesWithBlankPages(
+      {
+        ...state,
+        bindings: {
+          'page-1': createPageBinding('page-1', 'asset-0', 'matched'),
+          'page-2': createPageBinding('page-2', 'asset-2', 'matched'),
+          'page-3': createPageBinding('page-3', 'asset-3', 'matched'),
+          'page-4': createPageBinding('page-4'),
+        },
+      },
+      [
+        { sourceKind: 'image', sourceLabel: '001.png', pageNumber: 1 },
+        { sourceKind: 'image', sourceLabel: '001a.png', pageNumber: 2 },
+        { sourceKind: 'image', sourceLabel: '002.png', pageNumber: 3 },
+        { sourceKind: 'image', sourceLabel: '003.png', pageNumber: 4 },
+      ],
+      () => ({ id: 'blank-1', cuts: [], expectedAssetHint: null })
+    );
+
+    expect(nextState.project.logicalPages.map((page) => page.id)).toEqual([
+      'page-1',
+      'blank-1',
+      'page-2',
+      'page-3',
+      'page-4',
+    ]);
+    expect(nextState.bindings['blank-1']).toEqual(createPageBinding('blank-1', 'asset-1', 'matched'));
+    expect(nextState.bindings['page-2'].assetId).toBe('asset-2');
+    expect(nextState.bindings['page-4'].assetId).toBeNull();
+  });
+
   it('removes a logical page, collapses later slots, and pulls an unplaced page forward', () => {
     const nextState = removeLogicalPageFromConte(createState(), [
       { sourceKind: 'image', sourceLabel: '001.png', pageNumber: 1 },
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import {
   createCutsFromProjectDocument,
+  createPageOrderFromProjectDocument,
   createProjectDocumentFromCuts,
 } from '../../application/projectProjection';
 import { createAppSettings, createCut, createTemplate } from '../../test/factories';
@@ -55,4 +56,18 @@ describe('application/projectProjection', () => {
       'cut-1:1',
     ]);
   });
+
+  it('lists the bound pages in logical page order and skips unbound ones', () => {
+    const project = createProjectDocumentFromCuts({
+      cuts: [],
+      settings: createAppSettings(),
+      template: createTemplate(),
+      pageCount: 3,
+    });
+
+    expect(createPageOrderFromProjectDocument(project)).toEqual([0, 1, 2]);
+    expect(
+      createPageOrderFromProjectDocument(project, { 'page-1': 0, 'page-2': null, 'page-3': 3 })
+    ).toEqual([0, 3]);
+  });
 });
@@ -0,0 +1,209 @@
+import { describe, expect, it } from 'vitest';
+import { createDifferenceHash, FINGERPRINT_SAMPLE_WIDTH } from '../../application/assetFingerprint';
+import {
+  AutosavedMaterial,
+  compareAutosavedMaterial,
+  createAutosavedSession,
+  createEditorHistoryFromCurrentSession,
+  getMaterialFiles,
+  hasAutosavableWork,
+  restoreAutosavedHistory,
+  summarizeAutosavedSession,
+} from '../../application/sessionAutosave';
+import { AssetHint, createEditorState, createProjectDocument } from '../../domain/project';
+import { getLabelFontId } from '../../services/labelFont';
+import { createAppSettings, createTemplate } from '../../test/factories';
+
+const labelFont = { name: 'Label.otf', data: 'AAAA' };
+
+const createProject = (cutCount: number) =>
+  createProjectDocument({
+    name: 'ep01',
+    settings: createAppSettings({ labelFont }),
+    template: createTemplate(),
+    logicalPages: [
+      {
+        id: 'page-1',
+        cuts: Array.from({ length: cutCount }, (_, index) => ({
+          id: `cut-${index + 1}`,
+          x: 0.1,
+          y: 0.1 * (index + 1),
+          label: String(index + 1).padStart(3, '0'),
+          isBranch: false,
+        })),
+      },
+      { id: 'page-2', cuts: [] },
+    ],
+  });
+
+const createFile = (name: string, size: number) => new File(['x'.repeat(size)], name);
+
+const fingerprint = (offset: number) =>
+  createDifferenceHash(
+    Array.from({ length: FINGERPRINT_SAMPLE_WIDTH * 16 }, (_, index) =>
+      (index % FINGERPRINT_SAMPLE_WIDTH) * 10 * (offset % 2 === 0 ? 1 : -1)
+    )
+  );
+
+const hint = (sourceLabel: string, fingerprintValue?: string): AssetHint => ({
+  sourceKind: 'image',
+  sourceLabel,
+  ...(fingerprintValue ? { fingerprint: fingerprintValue } : {}),
+});
+
+describe('application/sessionAutosave', () => {
+  it('stores a shared label font once and restores it into every step', () => {
+    const history = {
+      past: [createEditorState(createProject(0)), createEditorState(createProject(1))],
+      present: createEditorState(createProject(2)),
+      future: [createEditorState(createProject(3))],
+    };
+
+    const session = createAutosavedSession(history, null, '2026-01-01T00:00:00.000Z');
+
+    expect(session.labelFonts).toEqual([labelFont]);
+    expect(session.history.present.labelFontId).toBe(getLabelFontId(labelFont));
+    expect(session.history.present.state.project.style.labelFont).toBeNull();
+    const restored = restoreAutosavedHistory(session);
+    expect(restored).toEqual(history);
+
+    // Steps already packed, restored ones included, are reused rather than packed again
+    const nextSession = createAutosavedSession(
+      { past: [...restored.past, restored.present], present: history.future[0], future: [] },
+      null
+    );
+    const storedSteps = [...session.history.past, session.history.present];
+    nextSession.history.past.forEach((entry, index) => expect(entry).toBe(storedSteps[index]));
+  });
+
+  it('summarises the session for the restore offer', () => {
+    const material: AutosavedMaterial = {
+      docType: 'images',
+      files: [{ name: '001.png', size: 10 }],
+      assets: [hint('001.png')],
+    };
+    const session = createAutosavedSession(
+      { past: [], present: createEditorState(createProject(2)), future: [] },
+      material,
+      '2026-01-01T00:00:00.000Z'
+    );
+
+    expect(summarizeAutosavedSession(session)).toEqual({
+      projectName: 'ep01',
+      savedAt: '2026-01-01T00:00:00.000Z',
+      pageCount: 2,
+      cutCount: 2,
+      materialFiles: material.files,
+    });
+  });
+
+  it('binds the unsaved session to its material in order and skips steps without a project', () => {
+    const history = createEditorHistoryFromCurrentSession(
+      {
+        past: [{ project: null, selectedCutId: null }, { project: createProject(0), selectedCutId: null }],
+        present: { project: createProject(1), selectedCutId: 'cut-1' },
+        future: [],
+      },
+      1
+    );
+
+    expect(history?.past).toHaveLength(1);
+    expect(history?.present.bindings).toEqual({
+      'page-1': { logicalPageId: 'page-1', assetId: 'asset-0', status: 'matched' },
+      'page-2': { logicalPageId: 'page-2', assetId: null, status: 'unbound' },
+    });
+    expect(history?.present.selection).toEqual({ logicalPageId: 'page-1', cutId: 'cut-1' });
+    expect(
+      createEditorHistoryFromCurrentSession(
+        { past: [], present: { project: null, selectedCutId: null }, future: [] },
+        0
+      )
+    ).toBeNull();
+  });
+
+  it('converts each unsaved step once for the same material', () => {
+    const step = { project: createProject(1), selectedCutId: null };
+    const first = createEditorHistoryFromCurrentSession({ past: [], present: step, future: [] }, 1);
+    const next = createEditorHistoryFromCurrentSession(
+      { past: [step], present: { project: createProject(2), selectedCutId: null }, future: [] },
+      1
+    );
+    const rebound = createEditorHistoryFromCurrentSession({ past: [], present: step, future: [] }, 0);
+
+    expect(next?.past[0]).toBe(first?.present);
+    expect(rebound?.present).not.toBe(first?.present);
+    expect(rebound?.present.bindings['page-1'].assetId).toBeNull();
+  });
+
+  it('only treats sessions with edits or a loaded project as worth saving', () => {
+    const empty = { past: [], present: createEditorState(createProject(0)), future: [] };
+
+    expect(hasAutosavableWork(null, false)).toBe(false);
+    expect(hasAutosavableWork(empty, false)).toBe(false);
+    expect(hasAutosavableWork(empty, true)).toBe(true);
+    expect(
+      hasAutosavableWork({ ...empty, present: createEditorState(createProject(1)) }, false)
+    ).toBe(true);
+  });
+
+  it('lists the files of the loaded material', () => {
+    const pdf = createFile('a.pdf', 1);
+    const image = createFile('001.png', 1);
+
+    expect(getMaterialFiles('pdf', pdf, [], [])).toEqual([pdf]);
+    expect(getMaterialFiles('images', null, [], [image])).toEqual([image]);
+    expect(getMaterialFiles(null, pdf, [], [image])).toEqual([]);
+
+    const merged = createFile('a+a_p2.pdf', 3);
+    const scan = createFile('a_p2.png', 1);
+    expect(
+      getMaterialFiles(
+        'pdf',
+        merged,
+        [
+          { kind: 'pdf', file: pdf, pageCount: 1 },
+          { kind: 'image', file: scan, pageCount: 1, replacedPage: { file: pdf, pageNumber: 2 } },
+          { kind: 'pdf', file: pdf, pageCount: 1, firstPage: 3 },
+        ],
+        []
+      )
+    ).toEqual([pdf, scan]);
+  });
+
+  it('recognises re-dropped material by name and size or by page content', () => {
+    const material: AutosavedMaterial = {
+      docType: 'images',
+      files: [{ name: '001.png', size: 3 }],
+      assets: [hint('001.png', fingerprint(0))],
+    };
+
+    expect(compareAutosavedMaterial(material, [], [])).toBe('pending');
+    expect(
+      compareAutosavedMaterial(material, [createFile('001.png', 3)], [hint('001.png')])
+    ).toBe('same');
+    expect(
+      compareAutosavedMaterial(material, [createFile('renamed.png', 5)], [hint('renamed.png')])
+    ).toBe('pending');
+    expect(
+      compareAutosavedMaterial(
+        material,
+        [createFile('renamed.png', 5)],
+        [hint('renamed.png', fingerprint(0))]
+      )
+    ).toBe('same');
+    expect(
+      compareAutosavedMaterial(
+        material,
+        [createFile('001.png', 3)],
+        [hint('001.png', fingerprint(1))]
+      )
+    ).toBe('different');
+    expect(
+      compareAutosavedMaterial(
+        material,
+        [createFile('001.png', 3), createFile('002.png', 3)],
+        [hint('001.png'), hint('002.png')]
+      )
+    ).toBe('different');
+  });
+});
@@ -1,5 +1,126 @@
 import { describe, expect, it } from 'vitest';
-import { createProjectImportContextFromPlan } from '../../application/workspaceImport';
+import {
+  canRecoverEmbeddedProject,
+  classifyImportFiles,
+  createProjectImportContextFromPlan,
+  createWorkspaceImportPlan,
+  detectEncryptedPdf,
+  isSystemFilePath,
+  isZipFile,
+  listPdfMergeSources,
+  needsPdfMerge,
+  withImportPath,
+} from '../../application/workspaceImport';
+
+describe('classifyImportFiles', () => {
+  it('accepts scanner TIFF, WebP and BMP images', () => {
+    const files = ['c001.tif', 'c002.TIFF', 'c003.webp', 'c004.bmp', 'c005.gif'].map(
+      (name) => new File(['img'], name)
+    );
+
+    const selection = classifyImportFiles(files);
+
+    expect(selection.imageFiles.map((file) => file.name)).toEqual([
+      'c001.tif',
+      'c002.TIFF',
+      'c003.webp',
+      'c004.bmp',
+    ]);
+    expect(selection.unsupportedFiles.map((file) => file.name)).toEqual(['c005.gif']);
+  });
+
+  it('drops system files instead of reporting them as unsupported', () => {
+    const image = new File(['img'], '001.png', { type: 'image/png' });
+    const files = ['Thumbs.db', 'desktop.ini', '.DS_Store', '._001.png'].map((name) => new File(['x'], name));
+
+    expect(classifyImportFiles([...files, image])).toEqual({
+      projectFiles: [],
+      pdfFiles: [],
+      imageFiles: [image],
+      unsupportedFiles: [],
+    });
+  });
+
+  it('drops files unpacked from __MACOSX by their folder path', () => {
+    const image = withImportPath(new File(['img'], 'foo.png', { type: 'image/png' }), 'ep01/foo.png');
+    const fork = withImportPath(new File(['x'], 'foo.png', { type: 'image/png' }), '__MACOSX/foo.png');
+    const dropped = new File(['x'], 'bar.png', { type: 'image/png' });
+    Object.defineProperty(dropped, 'webkitRelativePath', { value: 'ep01/__MACOSX/bar.png' });
+
+    expect(classifyImportFiles([fork, dropped, image]).imageFiles).toEqual([image]);
+  });
+});
+
+describe('archive helpers', () => {
+  it('recognises ZIP archives by type or extension', () => {
+    expect(isZipFile(new File(['zip'], 'ep01.ZIP'))).toBe(true);
+    expect(isZipFile(new File(['zip'], 'ep01', { type: 'application/x-zip-compressed' }))).toBe(true);
+    expect(isZipFile(new File(['pdf'], 'ep01.pdf'))).toBe(false);
+  });
+
+  it('treats anything under __MACOSX as a system file', () => {
+    expect(isSystemFilePath('__MACOSX/ep01/c001.png')).toBe(true);
+    expect(isSystemFilePath('ep01/c001.png')).toBe(false);
+  });
+});
+
+describe('createWorkspaceImportPlan', () => {
+  it('accepts several PDFs and orders them by name', () => {
+    const partB = new File(['b'], 'ep01_B.pdf', { type: 'application/pdf' });
+    const partA = new File(['a'], 'ep01_A.pdf', { type: 'application/pdf' });
+
+    const plan = createWorkspaceImportPlan({
+      projectFiles: [],
+      pdfFiles: [partB, partA],
+      imageFiles: [],
+      unsupportedFiles: [],
+    });
+
+    expect(plan).toMatchObject({ assetType: 'pdf', pdfFile: partA, pdfFiles: [partA, partB] });
+    expect(canRecoverEmbeddedProject(plan)).toBe(false);
+  });
+
+  it('lists scanned pages alongside the PDFs for merging', () => {
+    const pdfFile = new File(['pdf'], 'ep01.pdf', { type: 'application/pdf' });
+    const scan = new File(['jpg'], 'ep01_p012.jpg', { type: 'image/jpeg' });
+
+    const plan = createWorkspaceImportPlan({
+      projectFiles: [],
+      pdfFiles: [pdfFile],
+      imageFiles: [scan],
+      unsupportedFiles: [],
+    });
+
+    expect(plan.assetType).toBe('pdf');
+    expect(needsPdfMerge(plan)).toBe(true);
+    expect(listPdfMergeSources(plan)).toEqual([
+      { kind: 'pdf', file: pdfFile, replacementPages: [{ pageNumber: 12, file: scan }] },
+    ]);
+    expect(canRecoverEmbeddedProject(plan)).toBe(false);
+  });
+
+  it('replaces only pages named after one of the PDFs, once each', () => {
+    const partA = new File(['pdf'], 'ep01_A.pdf', { type: 'application/pdf' });
+    const partB = new File(['pdf'], 'ep01_B.pdf', { type: 'application/pdf' });
+    const [retake, scanB, rescanB, cover] = ['ep01_A-p3.png', 'ep01_B_p2.jpg', 'ep01_B_P02.png', 'ep01_cover.jpg'].map(
+      (name) => new File(['img'], name)
+    );
+
+    const plan = createWorkspaceImportPlan({
+      projectFiles: [],
+      pdfFiles: [partB, partA],
+      imageFiles: [cover, rescanB, scanB, retake],
+      unsupportedFiles: [],
+    });
+
+    expect(listPdfMergeSources(plan)).toEqual([
+      { kind: 'pdf', file: partA, replacementPages: [{ pageNumber: 3, file: retake }] },
+      { kind: 'pdf', file: partB, replacementPages: [{ pageNumber: 2, file: scanB }] },
+      { kind: 'image', file: rescanB },
+      { kind: 'image', file: cover },
+    ]);
+  });
+});
 
 describe('createProjectImportContextFromPlan', () => {
   it('creates a deferred PDF import context without pre-parsing the document', async () => {
@@ -9,6 +130,8 @@ describe('createProjectImportContextFromPlan', () => {
       projectFile: new File(['{}'], 'storyboard.cutmark', { type: 'application/json' }),
       assetType: 'pdf',
       pdfFile,
+      pdfFiles: [pdfFile],
+      pdfSources: [],
       imageFiles: [],
       unsupportedFiles: [],
     })).resolves.toEqual({
@@ -19,3 +142,57 @@ describe('createProjectImportContextFromPlan', () => {
     });
   });
 });
+
+describe('canRecoverEmbeddedProject', () => {
+  it('offers the embedded project only for a PDF imported without a project file', () => {
+    const pdfFile = new File(['pdf'], 'storyboard.pdf', { type: 'application/pdf' });
+    const plan = {
+      projectFile: null,
+      assetType: 'pdf' as const,
+      pdfFile,
+      pdfFiles: [pdfFile],
+      pdfSources: [],
+      imageFiles: [],
+      unsupportedFiles: [],
+    };
+
+    expect(canRecoverEmbeddedProject(plan)).toBe(true);
+    expect(canRecoverEmbeddedProject({
+      ...plan,
+      projectFile: new File(['{}'], 'storyboard.cutmark', { type: 'application/json' }),
+    })).toBe(false);
+    expect(canRecoverEmbeddedProject({
+      ...plan,
+      assetType: 'images',
+      pdfFile: null,
+      pdfFiles: [],
+      imageFiles: [new File(['img'], '001.png', { type: 'image/png' })],
+    })).toBe(false);
+  });
+});
+
+describe('detectEncryptedPdf', () => {
+  const createPdf = (trailer: string, padding = 0) =>
+    new File([`%PDF-1.7\n${' '.repeat(padding)}\n${trailer}\n%%EOF\n`], 'storyboard.pdf', {
+      type: 'application/pdf',
+    });
+
+  it('finds the /Encrypt entry of a trailer or cross-reference stream', async () => {
+    await expect(detectEncryptedPdf(createPdf('trailer\n<< /Size 9 /Encrypt 8 0 R >>'))).resolves.toBe(true);
+    await expect(
+      detectEncryptedPdf(createPdf('<< /Type /XRef /Encrypt << /Filter /Standard /V 5 >> >>'))
+    ).resolves.toBe(true);
+    await expect(detectEncryptedPdf(createPdf('trailer\n<< /Size 9 /Root 1 0 R >>'))).resolves.toBe(false);
+  });
+
+  it('finds the first-page trailer of a linearized file', async () => {
+    const linearized = new File(
+      ['%PDF-1.7\ntrailer\n<< /Encrypt 8 0 R >>\n', ' '.repeat(512 * 1024), '\n%%EOF\n'],
+      'storyboard.pdf',
+      { type: 'application/pdf' }
+    );
+
+    await expect(detectEncryptedPdf(linearized)).resolves.toBe(true);
+    await expect(detectEncryptedPdf(createPdf('trailer\n<< /Size 9 >>', 512 * 1024))).resolves.toBe(false);
+  });
+});
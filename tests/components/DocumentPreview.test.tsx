@@ -199,6 +199,59 @@ describe('DocumentPreview', () => {
     ).toBeInTheDocument();
   });
 
+  it('keeps offering the last session after material is loaded', () => {
+    const onRestore = vi.fn();
+    const setSelectedCutId = vi.fn();
+    render(
+      <DocumentPreview
+        docType="images"
+        pdfFile={null}
+        currentImageUrl="blob:image"
+        numPages={1}
+        setNumPages={vi.fn()}
+        currentPage={1}
+        setCurrentPage={vi.fn()}
+        scale={1}
+        setScale={vi.fn()}
+        isDragging={false}
+        dragHandlers={{
+          onDragEnter: vi.fn(),
+          onDragOver: vi.fn(),
+          onDragLeave: vi.fn(),
+        }}
+        onFileDropped={vi.fn()}
+        cuts={[]}
+        selectedCutId={null}
+        setSelectedCutId={setSelectedCutId}
+        deleteCut={vi.fn()}
+        updateCutPosition={vi.fn()}
+        handleCutDragEnd={vi.fn()}
+        mode="edit"
+        template={createTemplate()}
+        setTemplate={vi.fn()}
+        settings={createAppSettings()}
+        sessionRecovery={{
+          status: 'available',
+          summary: {
+            projectName: 'ep01',
+            savedAt: '2026-01-01T00:00:00.000Z',
+            pageCount: 1,
+            cutCount: 3,
+            materialFiles: [],
+          },
+          onRestore,
+          onDiscard: vi.fn(),
+        }}
+        onContentClick={vi.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: '復元する' }));
+
+    expect(onRestore).toHaveBeenCalledTimes(1);
+    expect(setSelectedCutId).not.toHaveBeenCalled();
+  });
+
   it('keeps the snap overlay hidden on desktop until a snap target is active', () => {
     render(
       <DocumentPreview
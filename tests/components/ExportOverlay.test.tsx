@@ -1,18 +1,50 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
-import { describe, expect, it } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
 import { ExportOverlay } from '../../components/ExportOverlay';
 
 describe('ExportOverlay', () => {
   it('shows progress while exporting', () => {
-    render(<ExportOverlay isExporting={true} />);
+    render(<ExportOverlay isExporting={true} progress={null} onCancel={vi.fn()} />);
 
     expect(screen.getByText('書き出し処理中...')).toBeInTheDocument();
     expect(screen.getByText('大量の画像の場合、時間がかかることがあります')).toBeInTheDocument();
   });
 
+  it('shows page progress and cancels the running export', () => {
+    const onCancel = vi.fn();
+    render(
+      <ExportOverlay
+        isExporting={true}
+        progress={{ current: 12, total: 300, startedAt: Date.now(), isCancelling: false }}
+        onCancel={onCancel}
+      />
+    );
+
+    expect(screen.getByText('12 / 300 ページ')).toBeInTheDocument();
+    expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '12');
+
+    fireEvent.click(screen.getByRole('button', { name: 'キャンセル' }));
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('disables cancel once cancellation was requested', () => {
+    render(
+      <ExportOverlay
+        isExporting={true}
+        progress={{ current: 3, total: 10, startedAt: Date.now(), isCancelling: true }}
+        onCancel={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('キャンセルしています...')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'キャンセル' })).toBeDisabled();
+  });
+
   it('renders nothing when not exporting', () => {
-    const { container } = render(<ExportOverlay isExporting={false} />);
+    const { container } = render(
+      <ExportOverlay isExporting={false} progress={null} onCancel={vi.fn()} />
+    );
 
     expect(container).toBeEmptyDOMElement();
   });
@@ -1,5 +1,6 @@
 import React from 'react';
 import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import { describe, expect, it, vi } from 'vitest';
 import { Header } from '../../components/Header';
 
@@ -10,6 +11,25 @@ const createProps = () => ({
   onExportImages: vi.fn(),
   includeProjectFileOnExport: false,
   onToggleIncludeProjectFileOnExport: vi.fn(),
+  projectFileVersion: 2,
+  onChangeProjectFileVersion: vi.fn(),
+  canSaveProject: false,
+  projectFileName: null,
+  hasUnsavedProjectChanges: false,
+  onSaveProject: vi.fn(),
+  onSaveProjectAs: vi.fn(),
+  pdfMarkMode: 'layer' as const,
+  onChangePdfMarkMode: vi.fn(),
+  pdfWriteMode: 'incremental' as const,
+  onChangePdfWriteMode: vi.fn(),
+  canAppendToPdf: true,
+  pdfSourceCount: 0,
+  pdfSourceExportMode: 'combined' as const,
+  onChangePdfSourceExportMode: vi.fn(),
+  pdfImageExportOptions: { dpi: 300, format: 'png' as const, quality: 0.8, maxLongEdge: null },
+  onChangePdfImageExportOptions: vi.fn(),
+  imageExportOptions: { format: 'keep' as const, quality: 0.8, maxLongEdge: null },
+  onChangeImageExportOptions: vi.fn(),
   isExporting: false,
   mode: 'edit' as const,
   setMode: vi.fn(),
@@ -34,4 +54,53 @@ describe('Header', () => {
     expect(screen.getByRole('button', { name: '保存' })).toBeInTheDocument();
     expect(screen.queryByText('CutMark PDF')).not.toBeInTheDocument();
   });
+
+  it('lets the project file be saved in the format of older builds', async () => {
+    const user = userEvent.setup();
+    const onChangeProjectFileVersion = vi.fn();
+
+    render(
+      <Header
+        {...createProps()}
+        docType="pdf"
+        includeProjectFileOnExport
+        onChangeProjectFileVersion={onChangeProjectFileVersion}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: /保存/ }));
+    const select = screen.getByRole('combobox', { name: /プロジェクトファイルの形式/ });
+    expect(select).toHaveValue('2');
+
+    await user.selectOptions(select, '旧バージョン向け (v1)');
+    expect(onChangeProjectFileVersion).toHaveBeenCalledWith(1);
+  });
+
+  it('saves the project in place or under a new name and marks unsaved changes', async () => {
+    const user = userEvent.setup();
+    const onSaveProject = vi.fn();
+    const onSaveProjectAs = vi.fn();
+
+    render(
+      <Header
+        {...createProps()}
+        canSaveProject
+        projectFileName="ep01.cutmark"
+        hasUnsavedProjectChanges
+        onSaveProject={onSaveProject}
+        onSaveProjectAs={onSaveProjectAs}
+      />
+    );
+
+    expect(screen.getByRole('status', { name: '未保存の変更があります' })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /保存/ }));
+    expect(screen.getByText(/ep01\.cutmark/)).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'プロジェクトを上書き保存' }));
+    expect(onSaveProject).toHaveBeenCalledTimes(1);
+
+    await user.click(screen.getByRole('button', { name: /保存/ }));
+    await user.click(screen.getByRole('button', { name: 'プロジェクトに名前を付けて保存' }));
+    expect(onSaveProjectAs).toHaveBeenCalledTimes(1);
+  });
 });
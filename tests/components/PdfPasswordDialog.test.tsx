@@ -0,0 +1,48 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { PdfPasswordDialog } from '../../components/PdfPasswordDialog';
+
+describe('PdfPasswordDialog', () => {
+  it('renders nothing without a request', () => {
+    const { container } = render(<PdfPasswordDialog request={null} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('masks the password and submits it', () => {
+    const onSubmit = vi.fn();
+    render(
+      <PdfPasswordDialog
+        request={{ fileName: 'locked.pdf', isRetry: false, onSubmit, onCancel: vi.fn() }}
+      />
+    );
+
+    expect(
+      screen.getByText((content) => content.includes('「locked.pdf」はパスワードで保護されています'))
+    ).toBeInTheDocument();
+    const input = screen.getByLabelText('パスワード');
+    expect(input).toHaveAttribute('type', 'password');
+
+    fireEvent.change(input, { target: { value: 'secret' } });
+    fireEvent.click(screen.getByRole('button', { name: '開く' }));
+
+    expect(onSubmit).toHaveBeenCalledWith('secret');
+  });
+
+  it('asks again after a wrong password and can be cancelled', () => {
+    const onCancel = vi.fn();
+    render(
+      <PdfPasswordDialog
+        request={{ fileName: 'locked.pdf', isRetry: true, onSubmit: vi.fn(), onCancel }}
+      />
+    );
+
+    expect(screen.getByText('パスワードが違います。もう一度入力してください。')).toBeInTheDocument();
+
+    fireEvent.keyDown(screen.getByLabelText('パスワード'), { key: 'Escape' });
+    fireEvent.click(screen.getByRole('button', { name: 'キャンセル' }));
+
+    expect(onCancel).toHaveBeenCalledTimes(2);
+  });
+});
@@ -26,6 +26,8 @@ const createOrganizer = () => ({
       },
       expectedAsset: { sourceKind: 'image' as const, sourceLabel: '001.png', pageNumber: 1 },
       status: 'matched' as const,
+      confidence: 1,
+      reasons: [],
       cutCount: 1,
       isSelected: false,
     },
@@ -48,6 +50,8 @@ const createOrganizer = () => ({
       },
       expectedAsset: { sourceKind: 'image' as const, sourceLabel: '002.png', pageNumber: 2 },
       status: 'needs_review' as const,
+      confidence: 0.5,
+      reasons: ['ファイル名が異なる', 'ページ番号が異なる'],
       cutCount: 5,
       isSelected: true,
     },
@@ -60,6 +64,8 @@ const createOrganizer = () => ({
       logicalPage: null,
       expectedAsset: null,
       status: 'unassigned' as const,
+      confidence: null,
+      reasons: [],
       cutCount: 0,
       isSelected: false,
     },
@@ -94,6 +100,7 @@ describe('ProjectOrganizerPanel', () => {
         onSelectLogicalPage={vi.fn()}
         onSelectContePage={vi.fn()}
         onInsertBlankPageAtAsset={vi.fn()}
+        onFillUnassignedContesWithBlanks={vi.fn()}
         onRemoveLogicalPageFromConte={vi.fn()}
         onUnassignLogicalPage={vi.fn()}
         onMoveLogicalPageToAsset={vi.fn()}
@@ -122,6 +129,7 @@ describe('ProjectOrganizerPanel', () => {
     const onSelectLogicalPage = vi.fn();
     const onSelectContePage = vi.fn();
     const onInsertBlankPageAtAsset = vi.fn();
+    const onFillUnassignedContesWithBlanks = vi.fn();
     const onRemoveLogicalPageFromConte = vi.fn();
     const onUnassignLogicalPage = vi.fn();
     const onMoveLogicalPageToAsset = vi.fn();
@@ -140,6 +148,7 @@ describe('ProjectOrganizerPanel', () => {
         onSelectLogicalPage={onSelectLogicalPage}
         onSelectContePage={onSelectContePage}
         onInsertBlankPageAtAsset={onInsertBlankPageAtAsset}
+        onFillUnassignedContesWithBlanks={onFillUnassignedContesWithBlanks}
         onRemoveLogicalPageFromConte={onRemoveLogicalPageFromConte}
         onUnassignLogicalPage={onUnassignLogicalPage}
         onMoveLogicalPageToAsset={onMoveLogicalPageToAsset}
@@ -158,6 +167,7 @@ describe('ProjectOrganizerPanel', () => {
     await user.click(screen.getByRole('button', { name: '現在: 009_revised.png 前回: 002.png' }));
     await user.click(screen.getByRole('button', { name: '現在: 003.png' }));
     await user.click(screen.getByRole('button', { name: 'Page 2 に空欄を挿入' }));
+    await user.click(screen.getByRole('button', { name: '空欄で埋める' }));
     await user.click(screen.getByRole('button', { name: 'カット番号ページの削除方法を選ぶ Page 2' }));
     await user.click(screen.getByRole('button', { name: '未割付にする' }));
     await user.click(screen.getByRole('button', { name: '未配置のカット番号ページを削除 3' }));
@@ -192,6 +202,7 @@ describe('ProjectOrganizerPanel', () => {
     expect(onSelectContePage).toHaveBeenCalledWith(1, 'page-2');
     expect(onSelectContePage).toHaveBeenCalledWith(2, null);
     expect(onInsertBlankPageAtAsset).toHaveBeenCalledWith(1);
+    expect(onFillUnassignedContesWithBlanks).toHaveBeenCalledTimes(1);
     expect(onUnassignLogicalPage).toHaveBeenCalledWith('page-2');
     expect(onRemoveLogicalPageFromConte).toHaveBeenCalledWith('page-3');
     expect(onResetBindings).toHaveBeenCalledTimes(1);
@@ -199,6 +210,42 @@ describe('ProjectOrganizerPanel', () => {
     expect(onMoveLogicalPageToAsset).toHaveBeenCalledWith('page-1', 2);
   });
 
+  it('shows binding confidence with reasons and sorts by lowest confidence', async () => {
+    const user = userEvent.setup();
+
+    render(
+      <ProjectOrganizerPanel
+        projectName="catalog-revision"
+        savedAt="2026-04-18T01:23:45.000Z"
+        selectedLogicalPageId={null}
+        currentContePage={null}
+        organizer={createOrganizer()}
+        canApplyProject={true}
+        canResetBindings={true}
+        onSelectLogicalPage={vi.fn()}
+        onSelectContePage={vi.fn()}
+        onInsertBlankPageAtAsset={vi.fn()}
+        onFillUnassignedContesWithBlanks={vi.fn()}
+        onRemoveLogicalPageFromConte={vi.fn()}
+        onUnassignLogicalPage={vi.fn()}
+        onMoveLogicalPageToAsset={vi.fn()}
+        onResetBindings={vi.fn()}
+        onApplyProject={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('信頼度 50%')).toBeInTheDocument();
+    expect(screen.getByText(/ファイル名が異なる・ページ番号が異なる/)).toBeInTheDocument();
+    expect(screen.queryByText('信頼度 100%')).not.toBeInTheDocument();
+
+    const pageOrder = () => screen.getAllByText(/^Page \d$/).map((element) => element.textContent);
+    expect(pageOrder()).toEqual(['Page 1', 'Page 2', 'Page 3']);
+
+    await user.click(screen.getByRole('button', { name: '信頼度の低い順' }));
+    expect(pageOrder()).toEqual(['Page 3', 'Page 2', 'Page 1']);
+    expect(screen.getByRole('button', { name: '信頼度の低い順' })).toHaveAttribute('aria-pressed', 'true');
+  });
+
   it('lets the user pick ripple delete from the assigned card menu', async () => {
     const user = userEvent.setup();
     const onRemoveLogicalPageFromConte = vi.fn();
@@ -215,6 +262,7 @@ describe('ProjectOrganizerPanel', () => {
         onSelectLogicalPage={vi.fn()}
         onSelectContePage={vi.fn()}
         onInsertBlankPageAtAsset={vi.fn()}
+        onFillUnassignedContesWithBlanks={vi.fn()}
         onRemoveLogicalPageFromConte={onRemoveLogicalPageFromConte}
         onUnassignLogicalPage={vi.fn()}
         onMoveLogicalPageToAsset={vi.fn()}
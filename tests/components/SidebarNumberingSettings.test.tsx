@@ -25,6 +25,7 @@ describe('SidebarNumberingSettings', () => {
     expect(setNumberingState).toHaveBeenCalledWith({
       nextNumber: 5,
       branchChar: 'A',
+      sceneNumber: null,
     });
   });
 
@@ -47,6 +48,7 @@ describe('SidebarNumberingSettings', () => {
     expect(setNumberingState).toHaveBeenCalledWith({
       nextNumber: 6,
       branchChar: null,
+      sceneNumber: null,
     });
   });
 
@@ -107,6 +109,7 @@ describe('SidebarNumberingSettings', () => {
     expect(setNumberingState).toHaveBeenCalledWith({
       nextNumber: 12,
       branchChar: null,
+      sceneNumber: null,
     });
   });
 
@@ -136,4 +139,45 @@ describe('SidebarNumberingSettings', () => {
       'コンテ用紙設定で指定したカット番号列の近くをクリックすると、その行に合わせて自動配置します。'
     );
   });
+
+  it('updates the label format and scene counter and previews the next label', () => {
+    const setSettings = vi.fn();
+    const setNumberingState = vi.fn();
+    const settings = createAppSettings({
+      nextNumber: 12,
+      sceneNumber: 3,
+      labelFormat: {
+        prefix: 'C',
+        suffix: '',
+        scenePrefix: 'S',
+        sceneMinDigits: 2,
+        separator: '-',
+      },
+    });
+
+    render(
+      <SidebarNumberingSettings
+        settings={settings}
+        setSettings={setSettings}
+        setNumberingState={setNumberingState}
+        selectedCutId={null}
+        onRenumberFromSelected={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('S03-C012')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('カット記号'), { target: { value: 'K' } });
+    fireEvent.change(screen.getByLabelText('シーン番号'), { target: { value: '' } });
+
+    expect(setSettings).toHaveBeenCalledWith({
+      ...settings,
+      labelFormat: { ...settings.labelFormat, prefix: 'K' },
+    });
+    expect(setNumberingState).toHaveBeenCalledWith({
+      nextNumber: 12,
+      branchChar: null,
+      sceneNumber: null,
+    });
+  });
 });
@@ -7,35 +7,42 @@ import {
 import {
   advanceNumberingState,
   buildNumberLabel,
+  DEFAULT_CUT_LABEL_FORMAT,
   isSameNumberingState,
   renumberFlatCuts,
   renumberLogicalPagesFromCut,
   renumberLogicalPagesFromPage,
+  setLogicalPageCutStartsScene,
+  startNextScene,
 } from '../../domain/numbering';
 
 const policy: NumberingPolicy = {
   nextNumber: 10,
   branchChar: null,
+  sceneNumber: null,
   autoIncrement: true,
   minDigits: 3,
+  labelFormat: DEFAULT_CUT_LABEL_FORMAT,
 };
 
 describe('domain/numbering', () => {
   it('builds labels and advances numbering for normal and branch modes', () => {
-    expect(buildNumberLabel({ nextNumber: 7, branchChar: null }, 4)).toBe('0007');
-    expect(buildNumberLabel({ nextNumber: 7, branchChar: 'A' }, 4)).toBe('0007\nA');
+    expect(buildNumberLabel({ nextNumber: 7, branchChar: null, sceneNumber: null }, 4)).toBe('0007');
+    expect(buildNumberLabel({ nextNumber: 7, branchChar: 'A', sceneNumber: null }, 4)).toBe('0007\nA');
 
-    expect(advanceNumberingState({ nextNumber: 7, branchChar: null }, true)).toEqual({
+    expect(advanceNumberingState({ nextNumber: 7, branchChar: null, sceneNumber: null }, true)).toEqual({
       nextNumber: 8,
       branchChar: null,
+      sceneNumber: null,
     });
-    expect(advanceNumberingState({ nextNumber: 7, branchChar: 'A' }, true)).toEqual({
+    expect(advanceNumberingState({ nextNumber: 7, branchChar: 'A', sceneNumber: null }, true)).toEqual({
       nextNumber: 7,
       branchChar: 'B',
+      sceneNumber: null,
     });
     expect(isSameNumberingState(
-      { nextNumber: 7, branchChar: 'B' },
-      { nextNumber: 7, branchChar: 'B' }
+      { nextNumber: 7, branchChar: 'B', sceneNumber: null },
+      { nextNumber: 7, branchChar: 'B', sceneNumber: null }
     )).toBe(true);
   });
 
@@ -47,7 +54,7 @@ describe('domain/numbering', () => {
         createCut({ id: 'p0a', pageIndex: 0, x: 0.2, y: 0.1, label: 'old-1' }),
       ],
       'p0b',
-      { nextNumber: 10, branchChar: null },
+      { nextNumber: 10, branchChar: null, sceneNumber: null },
       3,
       true
     );
@@ -56,7 +63,7 @@ describe('domain/numbering', () => {
     expect(labelMap.get('p0a')).toBe('old-1');
     expect(labelMap.get('p0b')).toBe('010');
     expect(labelMap.get('p1')).toBe('011');
-    expect(result.nextNumbering).toEqual({ nextNumber: 12, branchChar: null });
+    expect(result.nextNumbering).toEqual({ nextNumber: 12, branchChar: null, sceneNumber: null });
   });
 
   it('renumbers logical pages from a selected cut across page order', () => {
@@ -85,7 +92,7 @@ describe('domain/numbering', () => {
     expect(labelMap.get('b')).toBe('old-b');
     expect(labelMap.get('a')).toBe('010');
     expect(labelMap.get('c')).toBe('011');
-    expect(result.nextNumbering).toEqual({ nextNumber: 12, branchChar: null });
+    expect(result.nextNumbering).toEqual({ nextNumber: 12, branchChar: null, sceneNumber: null });
   });
 
   it('renumbers within a page by the current cut-number order instead of Y position', () => {
@@ -108,8 +115,10 @@ describe('domain/numbering', () => {
       {
         nextNumber: 20,
         branchChar: null,
+        sceneNumber: null,
         autoIncrement: true,
         minDigits: 3,
+        labelFormat: DEFAULT_CUT_LABEL_FORMAT,
       }
     );
 
@@ -121,7 +130,7 @@ describe('domain/numbering', () => {
     expect(labelMap.get('cut-10a')).toBe('021');
     expect(labelMap.get('cut-11')).toBe('022');
     expect(labelMap.get('cut-12')).toBe('023');
-    expect(result.nextNumbering).toEqual({ nextNumber: 24, branchChar: null });
+    expect(result.nextNumbering).toEqual({ nextNumber: 24, branchChar: null, sceneNumber: null });
   });
 
   it('renumbers from a logical page boundary and ignores earlier pages', () => {
@@ -143,8 +152,10 @@ describe('domain/numbering', () => {
       {
         nextNumber: 20,
         branchChar: 'A',
+        sceneNumber: null,
         autoIncrement: true,
         minDigits: 4,
+        labelFormat: DEFAULT_CUT_LABEL_FORMAT,
       }
     );
 
@@ -154,6 +165,154 @@ describe('domain/numbering', () => {
     expect(result.nextNumbering).toEqual({
       nextNumber: 20,
       branchChar: 'C',
+      sceneNumber: null,
     });
   });
+
+  it('builds labels with a prefix, scene part and suffix from the label format', () => {
+    const format = {
+      ...DEFAULT_CUT_LABEL_FORMAT,
+      prefix: 'C',
+      scenePrefix: 'S',
+      sceneMinDigits: 2,
+      separator: '-',
+    };
+
+    expect(buildNumberLabel({ nextNumber: 12, branchChar: null, sceneNumber: 3 }, 3, format)).toBe('S03-C012');
+    expect(buildNumberLabel({ nextNumber: 12, branchChar: 'A', sceneNumber: 3 }, 3, format)).toBe('S03-C012\nA');
+    expect(buildNumberLabel({ nextNumber: 12, branchChar: null, sceneNumber: null }, 3, format)).toBe('C012');
+    expect(
+      buildNumberLabel(
+        { nextNumber: 45, branchChar: null, sceneNumber: 12 },
+        3,
+        { ...DEFAULT_CUT_LABEL_FORMAT, scenePrefix: '#' }
+      )
+    ).toBe('#12-045');
+    expect(
+      buildNumberLabel(
+        { nextNumber: 12, branchChar: null, sceneNumber: null },
+        3,
+        { ...DEFAULT_CUT_LABEL_FORMAT, prefix: 'C', suffix: '_t' }
+      )
+    ).toBe('C012_t');
+  });
+
+  it('renumbers formatted labels in their parsed cut-number order', () => {
+    const format = { ...DEFAULT_CUT_LABEL_FORMAT, prefix: 'C', scenePrefix: 'S' };
+    const result = renumberLogicalPagesFromCut(
+      [
+        createLogicalPage({
+          id: 'lp-1',
+          cuts: [
+            { id: 'c2', x: 0.1, y: 0.1, label: 'S01-C002', isBranch: false },
+            { id: 'c1a', x: 0.1, y: 0.5, label: 'S01-C001\nA', isBranch: true },
+            { id: 'c1', x: 0.1, y: 0.9, label: 'S01-C001', isBranch: false },
+          ],
+        }),
+      ],
+      'c1',
+      { ...policy, nextNumber: 5, sceneNumber: 1, labelFormat: format }
+    );
+
+    const labelMap = new Map(
+      result.logicalPages.flatMap((page) => page.cuts.map((cut) => [cut.id, cut.label]))
+    );
+    expect(labelMap.get('c1')).toBe('S01-C005');
+    expect(labelMap.get('c1a')).toBe('S01-C006');
+    expect(labelMap.get('c2')).toBe('S01-C007');
+    expect(result.nextNumbering).toEqual({ nextNumber: 8, branchChar: null, sceneNumber: 1 });
+  });
+
+  it('resets the cut counter at scene starts while renumbering', () => {
+    const format = { ...DEFAULT_CUT_LABEL_FORMAT, scenePrefix: 'S' };
+    const result = renumberLogicalPagesFromCut(
+      [
+        createLogicalPage({
+          id: 'lp-1',
+          cuts: [
+            { id: 'a', x: 0.1, y: 0.1, label: 'old-a', isBranch: false },
+            { id: 'b', x: 0.1, y: 0.2, label: 'old-b', isBranch: false },
+          ],
+        }),
+        createLogicalPage({
+          id: 'lp-2',
+          cuts: [
+            { id: 'c', x: 0.1, y: 0.1, label: 'old-c', isBranch: false, startsScene: true },
+            { id: 'd', x: 0.1, y: 0.2, label: 'old-d', isBranch: false },
+          ],
+        }),
+      ],
+      'a',
+      { ...policy, nextNumber: 1, sceneNumber: 1, labelFormat: format }
+    );
+
+    const labelMap = new Map(
+      result.logicalPages.flatMap((page) => page.cuts.map((cut) => [cut.id, cut.label]))
+    );
+    expect(labelMap.get('a')).toBe('S01-001');
+    expect(labelMap.get('b')).toBe('S01-002');
+    expect(labelMap.get('c')).toBe('S02-001');
+    expect(labelMap.get('d')).toBe('S02-002');
+    expect(result.nextNumbering).toEqual({ nextNumber: 3, branchChar: null, sceneNumber: 2 });
+    expect(startNextScene({ nextNumber: 9, branchChar: 'B', sceneNumber: null })).toEqual({
+      nextNumber: 1,
+      branchChar: null,
+      sceneNumber: 1,
+    });
+  });
+
+  it('marks and unmarks a scene start relative to the preceding cut', () => {
+    const format = { ...DEFAULT_CUT_LABEL_FORMAT, scenePrefix: 'S' };
+    const scenePolicy = { ...policy, nextNumber: 99, sceneNumber: 1, labelFormat: format };
+    const pages = [
+      createLogicalPage({
+        id: 'lp-1',
+        cuts: [
+          { id: 'a', x: 0.1, y: 0.1, label: 'S01-010', isBranch: false },
+          { id: 'b', x: 0.1, y: 0.2, label: 'S01-011', isBranch: false },
+          { id: 'c', x: 0.1, y: 0.3, label: 'S01-012', isBranch: false },
+        ],
+      }),
+    ];
+
+    const marked = setLogicalPageCutStartsScene(pages, 'b', true, scenePolicy);
+    expect(marked.logicalPages[0].cuts.map((cut) => cut.label)).toEqual([
+      'S01-010',
+      'S02-001',
+      'S02-002',
+    ]);
+    expect(marked.logicalPages[0].cuts[1].startsScene).toBe(true);
+    expect(marked.nextNumbering).toEqual({ nextNumber: 3, branchChar: null, sceneNumber: 2 });
+
+    const unmarked = setLogicalPageCutStartsScene(marked.logicalPages, 'b', false, scenePolicy);
+    expect(unmarked.logicalPages[0].cuts.map((cut) => cut.label)).toEqual([
+      'S01-010',
+      'S01-011',
+      'S01-012',
+    ]);
+    expect(unmarked.nextNumbering).toEqual({ nextNumber: 13, branchChar: null, sceneNumber: 1 });
+
+    expect(setLogicalPageCutStartsScene(pages, 'missing', true, scenePolicy).found).toBe(false);
+  });
+
+  it('continues a branch sequence when a scene start after a branch cut is unmarked', () => {
+    const pages = [
+      createLogicalPage({
+        id: 'lp-1',
+        cuts: [
+          { id: 'a', x: 0.1, y: 0.1, label: '012\nA', isBranch: true },
+          { id: 'b', x: 0.1, y: 0.2, label: '01-001', isBranch: false, startsScene: true },
+          { id: 'c', x: 0.1, y: 0.3, label: '01-002', isBranch: false },
+        ],
+      }),
+    ];
+
+    const unmarked = setLogicalPageCutStartsScene(pages, 'b', false, policy);
+    expect(unmarked.logicalPages[0].cuts.map(({ label, isBranch }) => ({ label, isBranch }))).toEqual([
+      { label: '012\nA', isBranch: true },
+      { label: '012\nB', isBranch: true },
+      { label: '012\nC', isBranch: true },
+    ]);
+    expect(unmarked.nextNumbering).toEqual({ nextNumber: 12, branchChar: 'D', sceneNumber: null });
+  });
 });
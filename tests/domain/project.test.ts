@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import { createAppSettings, createTemplate } from '../../test/factories';
 import {
+  CURRENT_PROJECT_VERSION,
   createEditorState,
   createLogicalPage,
   createProjectDocument,
@@ -14,6 +15,7 @@ describe('domain/project', () => {
     const settings = createAppSettings({
       nextNumber: 12,
       branchChar: 'B',
+      sceneNumber: null,
       autoIncrement: false,
       minDigits: 4,
       fontSize: 31,
@@ -26,12 +28,15 @@ describe('domain/project', () => {
     expect(toNumberingPolicy(settings)).toEqual({
       nextNumber: 12,
       branchChar: 'B',
+      sceneNumber: null,
       autoIncrement: false,
       minDigits: 4,
+      labelFormat: settings.labelFormat,
     });
 
     expect(toStyleSettings(settings)).toEqual({
       fontSize: 31,
+      labelFont: null,
       useWhiteBackground: true,
       backgroundPadding: 6,
       textOutlineWidth: 3,
@@ -52,7 +57,7 @@ describe('domain/project', () => {
     });
 
     expect(project).toMatchObject({
-      version: 1,
+      version: CURRENT_PROJECT_VERSION,
       meta: {
         name: 'Episode 1',
         savedAt: '2026-04-18T00:00:00.000Z',
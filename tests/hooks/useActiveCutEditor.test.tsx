@@ -1,6 +1,7 @@
 import { act, renderHook } from '@testing-library/react';
 import { describe, expect, it, vi } from 'vitest';
 import { createProjectDocument } from '../../domain/project';
+import { DEFAULT_CUT_LABEL_FORMAT } from '../../domain/numbering';
 import { useActiveCutEditor } from '../../hooks/useActiveCutEditor';
 import { LogicalCutEditorApi } from '../../hooks/logicalCutEditorApi';
 import { createAppSettings, createTemplate } from '../../test/factories';
@@ -12,6 +13,7 @@ const createEditorApi = (
     settings: createAppSettings({
       nextNumber: 5,
       branchChar: null,
+      sceneNumber: null,
       minDigits: 3,
       autoIncrement: true,
     }),
@@ -21,6 +23,7 @@ const createEditorApi = (
   settings: createAppSettings({
     nextNumber: 5,
     branchChar: null,
+    sceneNumber: null,
     minDigits: 3,
     autoIncrement: true,
   }),
@@ -37,6 +40,7 @@ const createEditorApi = (
   deleteCut: vi.fn(),
   setNumberingState: vi.fn(),
   renumberFromCut: vi.fn(),
+  setCutStartsScene: vi.fn(),
   undo: vi.fn(),
   redo: vi.fn(),
   ...overrides,
@@ -48,6 +52,7 @@ describe('useActiveCutEditor', () => {
       settings: createAppSettings({
         nextNumber: 12,
         branchChar: 'A',
+        sceneNumber: null,
         minDigits: 4,
         autoIncrement: true,
       }),
@@ -72,7 +77,7 @@ describe('useActiveCutEditor', () => {
       result.current.deleteCut('cut-2');
       result.current.updateCutPosition('cut-2', 0.5, 0.6);
       result.current.commitCutDrag();
-      result.current.setNumberingState({ nextNumber: 15, branchChar: null });
+      result.current.setNumberingState({ nextNumber: 15, branchChar: null, sceneNumber: null });
       result.current.renumberFromSelected('cut-2');
       result.current.undo();
       result.current.redo();
@@ -89,6 +94,7 @@ describe('useActiveCutEditor', () => {
       {
         nextNumber: 12,
         branchChar: 'B',
+        sceneNumber: null,
       }
     );
     expect(editor.selectCut).toHaveBeenCalledWith('cut-2');
@@ -98,12 +104,15 @@ describe('useActiveCutEditor', () => {
     expect(editor.setNumberingState).toHaveBeenCalledWith({
       nextNumber: 15,
       branchChar: null,
+      sceneNumber: null,
     });
     expect(editor.renumberFromCut).toHaveBeenCalledWith('cut-2', {
       nextNumber: 12,
       branchChar: 'A',
+      sceneNumber: null,
       minDigits: 4,
       autoIncrement: true,
+      labelFormat: DEFAULT_CUT_LABEL_FORMAT,
     });
     expect(editor.undo).toHaveBeenCalledTimes(1);
     expect(editor.redo).toHaveBeenCalledTimes(1);
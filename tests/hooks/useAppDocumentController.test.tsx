@@ -115,6 +115,7 @@ describe('useAppDocumentController', () => {
     expect(result.current.numberingState).toEqual({
       nextNumber: settings.nextNumber,
       branchChar: settings.branchChar,
+      sceneNumber: null,
     });
   });
 });
@@ -11,17 +11,25 @@ const canvasBehaviorMocks = vi.hoisted(() => ({
   useEditorCanvasBehavior: vi.fn(),
 }));
 
+const sessionAutosaveMocks = vi.hoisted(() => ({
+  useSessionAutosave: vi.fn(),
+}));
+
 vi.mock('../../hooks/useEditorWorkspace', () => ({
   useEditorWorkspace: editorWorkspaceMocks.useEditorWorkspace,
 }));
 vi.mock('../../hooks/useEditorCanvasBehavior', () => ({
   useEditorCanvasBehavior: canvasBehaviorMocks.useEditorCanvasBehavior,
 }));
+vi.mock('../../hooks/useSessionAutosave', () => ({
+  useSessionAutosave: sessionAutosaveMocks.useSessionAutosave,
+}));
 
 describe('useAppEditorController', () => {
   beforeEach(() => {
     editorWorkspaceMocks.useEditorWorkspace.mockReset();
     canvasBehaviorMocks.useEditorCanvasBehavior.mockReset();
+    sessionAutosaveMocks.useSessionAutosave.mockReset();
   });
 
   it('composes editor workspace and canvas behavior from document state', () => {
@@ -33,11 +41,13 @@ describe('useAppEditorController', () => {
       numberingState: {
         nextNumber: settings.nextNumber,
         branchChar: settings.branchChar,
+        sceneNumber: null,
       },
       setNumberingState: vi.fn(),
       setResetHandler: vi.fn(),
       docType: 'images' as const,
       pdfFile: null,
+      pdfSources: [],
       imageFiles: [new File(['img'], '001.png', { type: 'image/png' })],
       currentImageUrl: 'blob:image',
       numPages: 2,
@@ -71,6 +81,10 @@ describe('useAppEditorController', () => {
     };
     const editorWorkspace = {
       resetCurrentProject: vi.fn(),
+      currentProjectHistory: { past: [], present: { project: null, selectedCutId: null }, future: [] },
+      loadedProjectHistory: null,
+      restoreLoadedProjectHistory: vi.fn(),
+      resetLoadedProjectBindings: vi.fn(),
       isLoadedProjectActive: true,
       selectedLogicalPageId: 'page-1',
       effectiveSettings: settings,
@@ -96,10 +110,12 @@ describe('useAppEditorController', () => {
         loadProjectFile: vi.fn(),
         onProjectLoaded: vi.fn(),
         handleSaveProject: vi.fn(),
+        resolveProjectForExport: vi.fn(),
         projectOrganizerProps: null,
       },
       activeCutEditor: {
         selectedCutId: 'cut-1',
+        selectedCutStartsScene: false,
         canUndo: true,
         canRedo: false,
         historyIndex: 0,
@@ -113,6 +129,7 @@ describe('useAppEditorController', () => {
         commitCutDrag: vi.fn(),
         setNumberingState: vi.fn(),
         renumberFromSelected: vi.fn(),
+        toggleSceneStartFromSelected: vi.fn(),
       },
     };
     const canvasBehavior = {
@@ -122,6 +139,8 @@ describe('useAppEditorController', () => {
 
     editorWorkspaceMocks.useEditorWorkspace.mockReturnValue(editorWorkspace);
     canvasBehaviorMocks.useEditorCanvasBehavior.mockReturnValue(canvasBehavior);
+    const sessionRecovery = { status: 'awaiting-material', materialFiles: [] };
+    sessionAutosaveMocks.useSessionAutosave.mockReturnValue({ sessionRecovery });
 
     const setMode = vi.fn();
     const logDebug = vi.fn();
@@ -156,5 +175,18 @@ describe('useAppEditorController', () => {
     expect(result.current.activeProject).toBe(editorWorkspace.activeProject);
     expect(result.current.handleRowSnap).toBe(canvasBehavior.handleRowSnap);
     expect(result.current.applyPdfDefaultFontSize).toBe(canvasBehavior.applyPdfDefaultFontSize);
+    expect(sessionAutosaveMocks.useSessionAutosave).toHaveBeenCalledWith({
+      docType: 'images',
+      pdfFile: null,
+      pdfSources: [],
+      imageFiles: documentState.imageFiles,
+      currentAssetHints: documentState.currentAssetHints,
+      currentProjectHistory: editorWorkspace.currentProjectHistory,
+      loadedProjectHistory: null,
+      restoreLoadedProjectHistory: editorWorkspace.restoreLoadedProjectHistory,
+      resetLoadedProjectBindings: editorWorkspace.resetLoadedProjectBindings,
+      logDebug,
+    });
+    expect(result.current.sessionRecovery).toBe(sessionRecovery);
   });
 });
@@ -29,6 +29,10 @@ const shellPropsMocks = vi.hoisted(() => ({
   useAppShellProps: vi.fn(),
 }));
 
+const recentProjectsMocks = vi.hoisted(() => ({
+  useRecentProjects: vi.fn(),
+}));
+
 vi.mock('../../hooks/useDebugPanel', () => ({ useDebugPanel: debugPanelMocks.useDebugPanel }));
 vi.mock('../../hooks/useWorkspaceFileActions', () => ({
   useWorkspaceFileActions: fileActionsMocks.useWorkspaceFileActions,
@@ -37,6 +41,9 @@ vi.mock('../../hooks/useKeyboardShortcuts', () => ({
   useKeyboardShortcuts: keyboardMocks.useKeyboardShortcuts,
 }));
 vi.mock('../../hooks/useAppShellProps', () => ({ useAppShellProps: shellPropsMocks.useAppShellProps }));
+vi.mock('../../hooks/useRecentProjects', () => ({
+  useRecentProjects: recentProjectsMocks.useRecentProjects,
+}));
 
 describe('useAppPresentationController', () => {
   beforeEach(() => {
@@ -44,9 +51,10 @@ describe('useAppPresentationController', () => {
     fileActionsMocks.useWorkspaceFileActions.mockReset();
     keyboardMocks.useKeyboardShortcuts.mockReset();
     shellPropsMocks.useAppShellProps.mockReset();
+    recentProjectsMocks.useRecentProjects.mockReset();
   });
 
-  it('composes debug, file actions, shortcuts, and shell props from workspace state', () => {
+  it('composes debug, file actions, shortcuts, and shell props from workspace state', async () => {
     const settings = createAppSettings();
     const template = createTemplate();
     const activeProject = createProjectDocument({
@@ -64,6 +72,7 @@ describe('useAppPresentationController', () => {
       setMode: vi.fn(),
       docType: 'images' as const,
       pdfFile: null,
+      pdfSources: [],
       imageFiles: [new File(['img'], '001.png', { type: 'image/png' })],
       currentImageUrl: 'blob:image',
       numPages: 2,
@@ -102,16 +111,23 @@ describe('useAppPresentationController', () => {
       activeProject,
       previewCuts: [{ id: 'cut-1' }],
       effectiveExportCuts: [],
+      effectiveExportPageOrder: [],
       effectiveExportSettings: settings,
       canApplyLoadedProject: true,
       loadedProjectManager: {
         loadProjectFile: vi.fn(),
         onProjectLoaded: vi.fn(),
-        handleSaveProject: vi.fn(),
+        handleSaveProject: vi.fn().mockResolvedValue(activeProject),
+        handleSaveProjectInPlace: vi.fn().mockResolvedValue(null),
+        handleSaveProjectAs: vi.fn().mockResolvedValue(null),
+        hasUnsavedProjectChanges: true,
+        projectFileName: 'ep01.cutmark',
+        resolveProjectForExport: vi.fn(),
         projectOrganizerProps: null,
       },
       activeCutEditor: {
         selectedCutId: 'cut-1',
+        selectedCutStartsScene: false,
         canUndo: true,
         canRedo: false,
         historyIndex: 0,
@@ -125,9 +141,11 @@ describe('useAppPresentationController', () => {
         commitCutDrag: vi.fn(),
         setNumberingState: vi.fn(),
         renumberFromSelected: vi.fn(),
+        toggleSceneStartFromSelected: vi.fn(),
       },
       handleRowSnap: vi.fn(),
       applyPdfDefaultFontSize: vi.fn(),
+      sessionRecovery: null,
     };
     const debugPanel = {
       debugOpen: false,
@@ -139,8 +157,10 @@ describe('useAppPresentationController', () => {
       handleCopyDebugReport: vi.fn(),
     };
     const fileActions = {
+      importFiles: vi.fn(),
       onImportFilesSelected: vi.fn(),
       onFileDropped: vi.fn(),
+      pdfPasswordRequest: null,
       handleExportPdf: vi.fn(),
       handleExportImages: vi.fn(),
     };
@@ -157,6 +177,9 @@ describe('useAppPresentationController', () => {
     debugPanelMocks.useDebugPanel.mockReturnValue(debugPanel);
     fileActionsMocks.useWorkspaceFileActions.mockReturnValue(fileActions);
     shellPropsMocks.useAppShellProps.mockReturnValue(shellProps);
+    const recentProjects = { projects: [], onOpen: vi.fn(), onRemove: vi.fn() };
+    const recordRecentProject = vi.fn().mockResolvedValue(undefined);
+    recentProjectsMocks.useRecentProjects.mockReturnValue({ recentProjects, recordRecentProject });
 
     const { result } = renderHook(() => useAppPresentationController({
       workspace,
@@ -178,20 +201,43 @@ describe('useAppPresentationController', () => {
       expect.objectContaining({
         docType: 'images',
         imageFiles: workspace.imageFiles,
-        exportProjectFile: workspace.loadedProjectManager.handleSaveProject,
+        exportProjectFile: expect.any(Function),
+        resolveProjectForExport: workspace.loadedProjectManager.resolveProjectForExport,
         includeProjectFileOnExport: true,
+        pdfMarkMode: 'layer',
+        pdfWriteMode: 'incremental',
+        pdfSourceExportMode: 'combined',
+        pdfImageExportOptions: { dpi: 300, format: 'png', quality: 0.8, maxLongEdge: null },
+        imageExportOptions: { format: 'keep', quality: 0.8, maxLongEdge: null },
         isLoadedProjectActive: true,
         loadProjectFile: workspace.loadedProjectManager.loadProjectFile,
         setIsExporting: expect.any(Function),
       })
     );
+    await fileActionsMocks.useWorkspaceFileActions.mock.calls[0][0].exportProjectFile();
+    expect(workspace.loadedProjectManager.handleSaveProject).toHaveBeenCalledWith(2);
+    expect(recentProjectsMocks.useRecentProjects).toHaveBeenCalledWith(
+      expect.objectContaining({
+        docType: 'images',
+        imageFiles: workspace.imageFiles,
+        importFiles: fileActions.importFiles,
+      })
+    );
+    expect(recordRecentProject).toHaveBeenCalledWith(activeProject);
     expect(keyboardMocks.useKeyboardShortcuts).toHaveBeenCalledWith(
       expect.objectContaining({
         onUndo: workspace.activeCutEditor.undo,
         onRedo: workspace.activeCutEditor.redo,
         onRowSnap: workspace.handleRowSnap,
+        onSave: expect.any(Function),
       })
     );
+    await keyboardMocks.useKeyboardShortcuts.mock.calls[0][0].onSave();
+    expect(workspace.loadedProjectManager.handleSaveProjectInPlace).toHaveBeenCalledWith(2);
+    const headerProps = shellPropsMocks.useAppShellProps.mock.calls[0][0].header;
+    await headerProps.onSaveProjectAs();
+    expect(workspace.loadedProjectManager.handleSaveProjectAs).toHaveBeenCalledWith(2);
+    expect(recordRecentProject).toHaveBeenCalledTimes(1);
     expect(shellPropsMocks.useAppShellProps).toHaveBeenCalledWith(
       expect.objectContaining({
         header: expect.objectContaining({
@@ -199,6 +245,23 @@ describe('useAppPresentationController', () => {
           onImportFileChange: fileActions.onImportFilesSelected,
           includeProjectFileOnExport: true,
           onToggleIncludeProjectFileOnExport: expect.any(Function),
+          projectFileVersion: 2,
+          onChangeProjectFileVersion: expect.any(Function),
+          canSaveProject: true,
+          projectFileName: 'ep01.cutmark',
+          hasUnsavedProjectChanges: true,
+          pdfMarkMode: 'layer',
+          onChangePdfMarkMode: expect.any(Function),
+          pdfWriteMode: 'incremental',
+          onChangePdfWriteMode: expect.any(Function),
+          canAppendToPdf: true,
+          pdfSourceCount: 0,
+          pdfSourceExportMode: 'combined',
+          onChangePdfSourceExportMode: expect.any(Function),
+          pdfImageExportOptions: { dpi: 300, format: 'png', quality: 0.8, maxLongEdge: null },
+          onChangePdfImageExportOptions: expect.any(Function),
+          imageExportOptions: { format: 'keep', quality: 0.8, maxLongEdge: null },
+          onChangeImageExportOptions: expect.any(Function),
         }),
         preview: expect.objectContaining({
           currentImageUrl: 'blob:image',
@@ -207,11 +270,13 @@ describe('useAppPresentationController', () => {
             message: '左パネルでコンテへ割り付けると、プレビューが同期します。背景のコンテ表示は参照用です。',
           },
           onPdfPageLoadSuccess: workspace.applyPdfDefaultFontSize,
+          recentProjects,
         }),
         sidebar: expect.objectContaining({
           templates: workspace.templates,
           onRowSnap: workspace.handleRowSnap,
         }),
+        pdfPasswordDialog: { request: null },
       })
     );
     expect(result.current).toBe(shellProps);
@@ -39,6 +39,7 @@ const createProjectOrganizerProps = () => ({
   onSelectLogicalPage: vi.fn(),
   onSelectContePage: vi.fn(),
   onInsertBlankPageAtAsset: vi.fn(),
+  onFillUnassignedContesWithBlanks: vi.fn(),
   onRemoveLogicalPageFromConte: vi.fn(),
   onUnassignLogicalPage: vi.fn(),
   onMoveLogicalPageToAsset: vi.fn(),
@@ -72,6 +73,25 @@ describe('useAppShellProps', () => {
           onExportImages: vi.fn(),
           includeProjectFileOnExport: true,
           onToggleIncludeProjectFileOnExport: vi.fn(),
+          projectFileVersion: 2,
+          onChangeProjectFileVersion: vi.fn(),
+          canSaveProject: true,
+          projectFileName: null,
+          hasUnsavedProjectChanges: false,
+          onSaveProject: vi.fn(),
+          onSaveProjectAs: vi.fn(),
+          pdfMarkMode: 'layer',
+          onChangePdfMarkMode: vi.fn(),
+          pdfWriteMode: 'incremental',
+          onChangePdfWriteMode: vi.fn(),
+          canAppendToPdf: true,
+          pdfSourceCount: 0,
+          pdfSourceExportMode: 'combined',
+          onChangePdfSourceExportMode: vi.fn(),
+          pdfImageExportOptions: { dpi: 300, format: 'png', quality: 0.8, maxLongEdge: null },
+          onChangePdfImageExportOptions: vi.fn(),
+          imageExportOptions: { format: 'keep', quality: 0.8, maxLongEdge: null },
+          onChangeImageExportOptions: vi.fn(),
           onOpenDebug: vi.fn(),
           showDebug: true,
         },
@@ -147,6 +167,11 @@ describe('useAppShellProps', () => {
         },
         exportOverlay: {
           isExporting: false,
+          progress: null,
+          onCancel: vi.fn(),
+        },
+        pdfPasswordDialog: {
+          request: null,
         },
       })
     );
@@ -157,7 +182,11 @@ describe('useAppShellProps', () => {
       message: '左パネルでコンテへ割り付けると、プレビューが同期します。',
     });
     expect(result.current.sidebarProps.setLiveSettings).toBe(setSettingsLive);
-    expect(result.current.exportOverlayProps).toEqual({ isExporting: false });
+    expect(result.current.exportOverlayProps).toEqual({
+      isExporting: false,
+      progress: null,
+      onCancel: expect.any(Function),
+    });
 
     expect(isValidElement(result.current.leftProjectPanel)).toBe(true);
     if (isValidElement(result.current.leftProjectPanel)) {
@@ -190,6 +219,25 @@ describe('useAppShellProps', () => {
           onExportImages: vi.fn(),
           includeProjectFileOnExport: false,
           onToggleIncludeProjectFileOnExport: vi.fn(),
+          projectFileVersion: 2,
+          onChangeProjectFileVersion: vi.fn(),
+          canSaveProject: true,
+          projectFileName: null,
+          hasUnsavedProjectChanges: false,
+          onSaveProject: vi.fn(),
+          onSaveProjectAs: vi.fn(),
+          pdfMarkMode: 'layer',
+          onChangePdfMarkMode: vi.fn(),
+          pdfWriteMode: 'incremental',
+          onChangePdfWriteMode: vi.fn(),
+          canAppendToPdf: true,
+          pdfSourceCount: 0,
+          pdfSourceExportMode: 'combined',
+          onChangePdfSourceExportMode: vi.fn(),
+          pdfImageExportOptions: { dpi: 300, format: 'png', quality: 0.8, maxLongEdge: null },
+          onChangePdfImageExportOptions: vi.fn(),
+          imageExportOptions: { format: 'keep', quality: 0.8, maxLongEdge: null },
+          onChangeImageExportOptions: vi.fn(),
           onOpenDebug: vi.fn(),
           showDebug: false,
         },
@@ -259,6 +307,11 @@ describe('useAppShellProps', () => {
         },
         exportOverlay: {
           isExporting: true,
+          progress: null,
+          onCancel: vi.fn(),
+        },
+        pdfPasswordDialog: {
+          request: null,
         },
       })
     );
@@ -27,7 +27,7 @@ describe('useAppWorkspaceController', () => {
     const documentController = {
       settings: { nextNumber: 1 },
       setSettings: vi.fn(),
-      numberingState: { nextNumber: 1, branchChar: null },
+      numberingState: { nextNumber: 1, branchChar: null, sceneNumber: null },
       setNumberingState: vi.fn(),
       setResetHandler: vi.fn(),
       docType: 'images' as const,
@@ -87,6 +87,7 @@ describe('useAppWorkspaceController', () => {
         loadProjectFile: vi.fn(),
         onProjectLoaded: vi.fn(),
         handleSaveProject: vi.fn(),
+        resolveProjectForExport: vi.fn(),
         projectOrganizerProps: null,
       },
       activeCutEditor: { createCutAt: vi.fn() },
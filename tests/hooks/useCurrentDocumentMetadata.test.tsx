@@ -1,7 +1,17 @@
-import { renderHook } from '@testing-library/react';
-import { describe, expect, it } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { useCurrentDocumentMetadata } from '../../hooks/useCurrentDocumentMetadata';
 
+const mocks = vi.hoisted(() => ({
+  computePdfPageContentHints: vi.fn(),
+  computeImageContentHints: vi.fn(),
+}));
+
+vi.mock('../../services/assetFingerprints', () => ({
+  computePdfPageContentHints: mocks.computePdfPageContentHints,
+  computeImageContentHints: mocks.computeImageContentHints,
+}));
+
 const withRelativePath = (file: File, value: string) => {
   Object.defineProperty(file, 'webkitRelativePath', {
     configurable: true,
@@ -11,6 +21,11 @@ const withRelativePath = (file: File, value: string) => {
 };
 
 describe('useCurrentDocumentMetadata', () => {
+  beforeEach(() => {
+    mocks.computePdfPageContentHints.mockReset().mockReturnValue(new Promise(() => {}));
+    mocks.computeImageContentHints.mockReset().mockReturnValue(new Promise(() => {}));
+  });
+
   it('derives asset hints and project name for a PDF document', () => {
     const pdfFile = new File(['pdf'], 'book.pdf', { type: 'application/pdf' });
 
@@ -18,6 +33,7 @@ describe('useCurrentDocumentMetadata', () => {
       useCurrentDocumentMetadata({
         docType: 'pdf',
         pdfFile,
+        pdfSources: [],
         imageFiles: [],
         numPages: 2,
       })
@@ -40,6 +56,7 @@ describe('useCurrentDocumentMetadata', () => {
       useCurrentDocumentMetadata({
         docType: 'images',
         pdfFile: null,
+        pdfSources: [],
         imageFiles: [imageFile],
         numPages: 0,
       })
@@ -56,6 +73,7 @@ describe('useCurrentDocumentMetadata', () => {
       useCurrentDocumentMetadata({
         docType: null,
         pdfFile: null,
+        pdfSources: [],
         imageFiles: [],
         numPages: 0,
       })
@@ -64,4 +82,38 @@ describe('useCurrentDocumentMetadata', () => {
     expect(result.current.currentProjectName).toBeUndefined();
     expect(result.current.currentAssetHints).toEqual([]);
   });
+
+  it('attaches content fingerprints and page sizes once they are computed', async () => {
+    const pdfFile = new File(['pdf'], 'book.pdf', { type: 'application/pdf' });
+    mocks.computePdfPageContentHints.mockResolvedValue([
+      { fingerprint: 'dhash16:aa', width: 595.28, height: 841.89 },
+      undefined,
+    ]);
+
+    const { result } = renderHook(() =>
+      useCurrentDocumentMetadata({
+        docType: 'pdf',
+        pdfFile,
+        pdfSources: [],
+        imageFiles: [],
+        numPages: 2,
+      })
+    );
+
+    await waitFor(() => {
+      expect(result.current.currentAssetHints).toEqual([
+        {
+          sourceKind: 'pdf-page',
+          sourceLabel: 'book.pdf',
+          pageNumber: 1,
+          fingerprint: 'dhash16:aa',
+          width: 595.28,
+          height: 841.89,
+        },
+        { sourceKind: 'pdf-page', sourceLabel: 'book.pdf', pageNumber: 2 },
+      ]);
+    });
+    expect(mocks.computePdfPageContentHints).toHaveBeenCalledWith(pdfFile, expect.any(AbortSignal));
+    expect(mocks.computeImageContentHints).not.toHaveBeenCalled();
+  });
 });
@@ -23,6 +23,7 @@ const useCurrentProjectSessionHarness = (
     settings: createAppSettings({
       nextNumber: numberingState.nextNumber,
       branchChar: numberingState.branchChar,
+      sceneNumber: null,
     }),
     numberingState,
     setNumberingState,
@@ -37,6 +38,7 @@ describe('useCurrentProjectSession', () => {
         const [numberingState, setNumberingState] = useState<NumberingState>({
           nextNumber: 1,
           branchChar: null,
+          sceneNumber: null,
         });
 
         return useCurrentProjectSession({
@@ -51,6 +53,7 @@ describe('useCurrentProjectSession', () => {
           settings: createAppSettings({
             nextNumber: numberingState.nextNumber,
             branchChar: numberingState.branchChar,
+            sceneNumber: null,
           }),
           numberingState,
           setNumberingState,
@@ -67,28 +70,32 @@ describe('useCurrentProjectSession', () => {
     expect(result.current.project?.numbering).toMatchObject({
       nextNumber: 1,
       branchChar: null,
+      sceneNumber: null,
     });
 
     act(() => {
       result.current.projectCutEditorApi.setNumberingState({
         nextNumber: 12,
         branchChar: 'A',
+        sceneNumber: null,
       });
     });
 
     expect(result.current.project?.numbering).toMatchObject({
       nextNumber: 12,
       branchChar: 'A',
+      sceneNumber: null,
     });
     expect(result.current.projectCutEditorApi.settings).toMatchObject({
       nextNumber: 12,
       branchChar: 'A',
+      sceneNumber: null,
     });
   });
 
   it('exposes the current document as a projected project session', () => {
     const { result } = renderHook(() =>
-      useCurrentProjectSessionHarness(2, { nextNumber: 5, branchChar: null })
+      useCurrentProjectSessionHarness(2, { nextNumber: 5, branchChar: null, sceneNumber: null })
     );
 
     act(() => {
@@ -100,7 +107,7 @@ describe('useCurrentProjectSession', () => {
           label: '005',
           isBranch: false,
         },
-        { nextNumber: 6, branchChar: null }
+        { nextNumber: 6, branchChar: null, sceneNumber: null }
       );
     });
 
@@ -123,13 +130,13 @@ describe('useCurrentProjectSession', () => {
 
   it('keeps current document cuts and numbering in project-backed undo history', () => {
     const { result } = renderHook(() =>
-      useCurrentProjectSessionHarness(1, { nextNumber: 1, branchChar: null })
+      useCurrentProjectSessionHarness(1, { nextNumber: 1, branchChar: null, sceneNumber: null })
     );
 
     act(() => {
       result.current.addCut(
         createCut({ id: 'cut-a', pageIndex: 0, label: '001' }),
-        { nextNumber: 2, branchChar: null }
+        { nextNumber: 2, branchChar: null, sceneNumber: null }
       );
     });
 
@@ -143,6 +150,7 @@ describe('useCurrentProjectSession', () => {
     expect(result.current.project?.numbering).toMatchObject({
       nextNumber: 2,
       branchChar: null,
+      sceneNumber: null,
     });
 
     act(() => {
@@ -153,6 +161,7 @@ describe('useCurrentProjectSession', () => {
     expect(result.current.project?.numbering).toMatchObject({
       nextNumber: 1,
       branchChar: null,
+      sceneNumber: null,
     });
 
     act(() => {
@@ -169,6 +178,7 @@ describe('useCurrentProjectSession', () => {
     expect(result.current.project?.numbering).toMatchObject({
       nextNumber: 2,
       branchChar: null,
+      sceneNumber: null,
     });
   });
 });
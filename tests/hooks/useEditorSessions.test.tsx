@@ -54,6 +54,7 @@ describe('useEditorSessions', () => {
       numberingState: {
         nextNumber: settings.nextNumber,
         branchChar: settings.branchChar,
+        sceneNumber: null,
       },
       setNumberingState: vi.fn(),
       template,
@@ -39,6 +39,7 @@ const createOptions = () => ({
   numberingState: {
     nextNumber: 1,
     branchChar: null,
+    sceneNumber: null,
   },
   setNumberingState: vi.fn(),
   templateApi: {
@@ -111,10 +112,12 @@ describe('useEditorWorkspace', () => {
         projectOrganizerProps: null,
         loadProjectFile: vi.fn(),
         handleSaveProject: vi.fn(),
+        resolveProjectForExport: vi.fn(),
         onProjectLoaded: vi.fn(),
       },
       activeCutEditor: {
         selectedCutId: null,
+        selectedCutStartsScene: false,
         canUndo: true,
         canRedo: false,
         historyIndex: 0,
@@ -126,6 +129,7 @@ describe('useEditorWorkspace', () => {
         commitCutDrag: vi.fn(),
         setNumberingState: vi.fn(),
         renumberFromSelected: vi.fn(),
+        toggleSceneStartFromSelected: vi.fn(),
         undo: vi.fn(),
         redo: vi.fn(),
       },
@@ -228,6 +232,7 @@ describe('useEditorWorkspace', () => {
         projectOrganizerProps: null,
         loadProjectFile: vi.fn(),
         handleSaveProject: vi.fn(),
+        resolveProjectForExport: vi.fn(),
         onProjectLoaded: vi.fn(),
       },
       activeCutEditor: {
@@ -70,10 +70,12 @@ describe('useEditorWorkspaceControls', () => {
       projectOrganizerProps: null,
       loadProjectFile: vi.fn(),
       handleSaveProject: vi.fn(),
+      resolveProjectForExport: vi.fn(),
       onProjectLoaded: vi.fn(),
     };
     const activeCutEditor = {
       selectedCutId: null,
+      selectedCutStartsScene: false,
       canUndo: true,
       canRedo: false,
       historyIndex: 0,
@@ -85,6 +87,7 @@ describe('useEditorWorkspaceControls', () => {
       commitCutDrag: vi.fn(),
       setNumberingState: vi.fn(),
       renumberFromSelected: vi.fn(),
+      toggleSceneStartFromSelected: vi.fn(),
       undo: vi.fn(),
       redo: vi.fn(),
     };
@@ -36,6 +36,17 @@ describe('useKeyboardShortcuts', () => {
     expect(handlers.onRedo).toHaveBeenCalledTimes(1);
   });
 
+  it('saves with Ctrl+S instead of opening the browser save dialog', () => {
+    const onSave = vi.fn();
+    renderHook(() => useKeyboardShortcuts({ ...createHandlers(), onSave }));
+
+    const event = new KeyboardEvent('keydown', { key: 's', ctrlKey: true, cancelable: true });
+    window.dispatchEvent(event);
+
+    expect(onSave).toHaveBeenCalledTimes(1);
+    expect(event.defaultPrevented).toBe(true);
+  });
+
   it('ignores shortcuts while form fields have focus', () => {
     const handlers = createHandlers();
     renderHook(() => useKeyboardShortcuts(handlers));
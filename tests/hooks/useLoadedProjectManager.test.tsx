@@ -35,6 +35,7 @@ const project = createProjectDocument({
 
 const createLoadedProjectSession = (): UseLoadedProjectSessionResult => ({
   project,
+  history: null,
   bindings: { 'page-1': 0 },
   bindingStatuses: { 'page-1': 'matched' },
   workspaceSession: {
@@ -63,6 +64,7 @@ const createLoadedProjectSession = (): UseLoadedProjectSessionResult => ({
     deleteCut: vi.fn(),
     setNumberingState: vi.fn(),
     renumberFromCut: vi.fn(),
+    setCutStartsScene: vi.fn(),
     undo: vi.fn(),
     redo: vi.fn(),
   },
@@ -73,6 +75,7 @@ const createLoadedProjectSession = (): UseLoadedProjectSessionResult => ({
     commitTransaction: vi.fn(),
   },
   loadProject: vi.fn(),
+  restoreHistory: vi.fn(),
   replaceProject: vi.fn(),
   assignAsset: vi.fn(),
   resetBindings: vi.fn(),
@@ -82,6 +85,7 @@ const createLoadedProjectSession = (): UseLoadedProjectSessionResult => ({
   removePage: vi.fn(),
   movePage: vi.fn(),
   insertBlankPageAtAsset: vi.fn(),
+  fillUnassignedContesWithBlanks: vi.fn(),
   removePageFromConte: vi.fn(),
   movePageToAsset: vi.fn(),
   undoDraft: vi.fn(),
@@ -98,6 +102,7 @@ describe('useLoadedProjectManager', () => {
     const loadedProjectSession = createLoadedProjectSession();
     const handleApplyLoadedProject = vi.fn();
     const handleSaveProject = vi.fn();
+    const resolveProjectForExport = vi.fn();
     const loadProjectFile = vi.fn();
     const onProjectLoaded = vi.fn();
     const projectOrganizerProps = {
@@ -107,6 +112,7 @@ describe('useLoadedProjectManager', () => {
     lifecycleMocks.useProjectLifecycle.mockReturnValue({
       handleApplyLoadedProject,
       handleSaveProject,
+      resolveProjectForExport,
       loadProjectFile,
       onProjectLoaded,
     });
@@ -173,6 +179,7 @@ describe('useLoadedProjectManager', () => {
     expect(result.current).toEqual({
       projectOrganizerProps,
       handleSaveProject,
+      resolveProjectForExport,
       loadProjectFile,
       onProjectLoaded,
     });
@@ -185,6 +192,7 @@ describe('useLoadedProjectManager', () => {
     lifecycleMocks.useProjectLifecycle.mockReturnValue({
       handleApplyLoadedProject,
       handleSaveProject: vi.fn(),
+      resolveProjectForExport: vi.fn(),
       loadProjectFile: vi.fn(),
       onProjectLoaded: vi.fn(),
     });
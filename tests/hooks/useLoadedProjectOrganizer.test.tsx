@@ -24,6 +24,7 @@ const project = createProjectDocument({
 
 const createLoadedProjectSession = (): UseLoadedProjectSessionResult => ({
   project,
+  history: null,
   bindings: { 'page-1': 0, 'page-2': null },
   bindingStatuses: { 'page-1': 'matched', 'page-2': 'unbound' },
   workspaceSession: {
@@ -52,6 +53,7 @@ const createLoadedProjectSession = (): UseLoadedProjectSessionResult => ({
     deleteCut: vi.fn(),
     setNumberingState: vi.fn(),
     renumberFromCut: vi.fn(),
+    setCutStartsScene: vi.fn(),
     undo: vi.fn(),
     redo: vi.fn(),
   },
@@ -62,6 +64,7 @@ const createLoadedProjectSession = (): UseLoadedProjectSessionResult => ({
     commitTransaction: vi.fn(),
   },
   loadProject: vi.fn(),
+  restoreHistory: vi.fn(),
   replaceProject: vi.fn(),
   assignAsset: vi.fn(),
   resetBindings: vi.fn(),
@@ -71,6 +74,7 @@ const createLoadedProjectSession = (): UseLoadedProjectSessionResult => ({
   removePage: vi.fn(),
   movePage: vi.fn(),
   insertBlankPageAtAsset: vi.fn(),
+  fillUnassignedContesWithBlanks: vi.fn(),
   removePageFromConte: vi.fn(),
   movePageToAsset: vi.fn(),
   undoDraft: vi.fn(),
@@ -106,6 +110,7 @@ describe('useLoadedProjectOrganizer', () => {
       result.current.projectOrganizerProps?.onSelectLogicalPage('page-2');
       result.current.projectOrganizerProps?.onSelectContePage(1, 'page-2');
       result.current.projectOrganizerProps?.onInsertBlankPageAtAsset(1);
+      result.current.projectOrganizerProps?.onFillUnassignedContesWithBlanks();
       result.current.projectOrganizerProps?.onRemoveLogicalPageFromConte('page-1');
       result.current.projectOrganizerProps?.onUnassignLogicalPage('page-2');
       result.current.projectOrganizerProps?.onMoveLogicalPageToAsset('page-2', 0);
@@ -116,6 +121,7 @@ describe('useLoadedProjectOrganizer', () => {
     expect(loadedProjectSession.selectLogicalPage).toHaveBeenCalledWith('page-2');
     expect(onSelectContePage).toHaveBeenCalledWith(1, 'page-2');
     expect(loadedProjectSession.insertBlankPageAtAsset).toHaveBeenCalledWith(1);
+    expect(loadedProjectSession.fillUnassignedContesWithBlanks).toHaveBeenCalledTimes(1);
     expect(loadedProjectSession.removePageFromConte).toHaveBeenCalledWith('page-1');
     expect(loadedProjectSession.assignAsset).toHaveBeenCalledWith('page-2', null);
     expect(loadedProjectSession.movePageToAsset).toHaveBeenCalledWith('page-2', 0);
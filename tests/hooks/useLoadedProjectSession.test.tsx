@@ -8,6 +8,7 @@ const loadedProject = createProjectDocument({
   settings: createAppSettings({
     nextNumber: 12,
     branchChar: 'A',
+    sceneNumber: null,
     minDigits: 4,
     autoIncrement: true,
   }),
@@ -49,6 +50,7 @@ describe('useLoadedProjectSession', () => {
     expect(result.current.projectCutEditorApi.settings).toMatchObject({
       nextNumber: 12,
       branchChar: 'A',
+      sceneNumber: null,
       minDigits: 4,
     });
 
@@ -56,6 +58,7 @@ describe('useLoadedProjectSession', () => {
       result.current.projectCutEditorApi.setNumberingState({
         nextNumber: 20,
         branchChar: null,
+        sceneNumber: null,
       });
       result.current.projectCutEditorApi.addCutToSelectedPage(
         {
@@ -68,6 +71,7 @@ describe('useLoadedProjectSession', () => {
         {
           nextNumber: 21,
           branchChar: null,
+          sceneNumber: null,
         }
       );
     });
@@ -75,6 +79,7 @@ describe('useLoadedProjectSession', () => {
     expect(result.current.project?.numbering).toMatchObject({
       nextNumber: 21,
       branchChar: null,
+      sceneNumber: null,
     });
     expect(result.current.project?.logicalPages[0].cuts).toEqual(
       expect.arrayContaining([
@@ -1,6 +1,7 @@
 import { act, renderHook } from '@testing-library/react';
 import { describe, expect, it } from 'vitest';
 import { useProjectEditor } from '../../hooks/useProjectEditor';
+import { DEFAULT_CUT_LABEL_FORMAT } from '../../domain/numbering';
 import { createProjectDocument } from '../../domain/project';
 import { createAppSettings, createTemplate } from '../../test/factories';
 
@@ -139,8 +140,10 @@ describe('useProjectEditor', () => {
       nextNumbering = result.current.renumberFromCut('cut-1', {
         nextNumber: 20,
         branchChar: null,
+        sceneNumber: null,
         autoIncrement: true,
         minDigits: 4,
+        labelFormat: DEFAULT_CUT_LABEL_FORMAT,
       });
     });
 
@@ -149,6 +152,7 @@ describe('useProjectEditor', () => {
     expect(nextNumbering).toMatchObject({
       nextNumber: 22,
       branchChar: null,
+      sceneNumber: null,
       autoIncrement: true,
       minDigits: 4,
     });
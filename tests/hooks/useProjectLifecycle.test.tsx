@@ -6,13 +6,16 @@ import { useProjectLifecycle } from '../../hooks/useProjectLifecycle';
 import { createAppSettings, createTemplate } from '../../test/factories';
 
 const repositoryMocks = vi.hoisted(() => ({
-  loadProjectDocumentFromFile: vi.fn(),
-  downloadProjectDocument: vi.fn(),
+  recoverProjectDocumentFromFile: vi.fn(),
+  chooseProjectSaveTarget: vi.fn(),
+  writeProjectDocument: vi.fn(),
 }));
 
 vi.mock('../../repositories/projectRepository', () => ({
-  loadProjectDocumentFromFile: repositoryMocks.loadProjectDocumentFromFile,
-  downloadProjectDocument: repositoryMocks.downloadProjectDocument,
+  recoverProjectDocumentFromFile: repositoryMocks.recoverProjectDocumentFromFile,
+  chooseProjectSaveTarget: repositoryMocks.chooseProjectSaveTarget,
+  createProjectDownloadFileName: (name: string) => `${name}.cutmark`,
+  writeProjectDocument: repositoryMocks.writeProjectDocument,
 }));
 
 const createProject = (name = 'Episode 01', pageCount = 1) =>
@@ -31,12 +34,13 @@ const createProject = (name = 'Episode 01', pageCount = 1) =>
 
 describe('useProjectLifecycle', () => {
   beforeEach(() => {
-    repositoryMocks.loadProjectDocumentFromFile.mockReset();
-    repositoryMocks.downloadProjectDocument.mockReset();
+    repositoryMocks.recoverProjectDocumentFromFile.mockReset();
+    repositoryMocks.chooseProjectSaveTarget.mockReset();
+    repositoryMocks.writeProjectDocument.mockReset().mockResolvedValue(undefined);
     vi.restoreAllMocks();
   });
 
-  it('saves the current project through the shared project contract', () => {
+  it('saves the current project through the shared project contract', async () => {
     const currentProject = createProject('Current');
     const resolvedProject = {
       ...currentProject,
@@ -69,13 +73,15 @@ describe('useProjectLifecycle', () => {
       })
     );
 
-    act(() => {
-      result.current.handleSaveProject();
+    await act(async () => {
+      await result.current.handleSaveProject();
     });
 
     expect(loadProjectIntoEditor).toHaveBeenCalledWith(resolvedProject);
     expect(replaceEditorProject).not.toHaveBeenCalled();
-    expect(repositoryMocks.downloadProjectDocument).toHaveBeenCalledWith(resolvedProject);
+    expect(repositoryMocks.writeProjectDocument).toHaveBeenCalledWith(resolvedProject, 'download', {
+      version: 2,
+    });
     expect(logDebug).toHaveBeenCalledWith(
       'info',
       'プロジェクト保存',
@@ -83,7 +89,7 @@ describe('useProjectLifecycle', () => {
     );
   });
 
-  it('saves a loaded project even when no asset document is open', () => {
+  it('saves a loaded project even when no asset document is open', async () => {
     const loadedProject = createProject('Loaded');
     const resolvedProject = {
       ...loadedProject,
@@ -114,17 +120,108 @@ describe('useProjectLifecycle', () => {
       })
     );
 
-    act(() => {
-      result.current.handleSaveProject();
+    await act(async () => {
+      await result.current.handleSaveProject(1);
     });
 
     expect(replaceEditorProject).toHaveBeenCalledWith(resolvedProject, { 'page-1': null });
-    expect(repositoryMocks.downloadProjectDocument).toHaveBeenCalledWith(resolvedProject);
+    expect(repositoryMocks.writeProjectDocument).toHaveBeenCalledWith(resolvedProject, 'download', {
+      version: 1,
+    });
+  });
+
+  it('keeps the picked file and overwrites it on later saves', async () => {
+    const handle = { name: 'ep01.cutmark', createWritable: vi.fn() };
+    repositoryMocks.chooseProjectSaveTarget.mockResolvedValue(handle);
+    const loadedProject = createProject('Loaded');
+    const resolveProjectDocumentForCurrentState = vi.fn(
+      (project: ReturnType<typeof createProject>) => project
+    );
+
+    const { result, rerender } = renderHook(
+      ({ project }) =>
+        useProjectLifecycle({
+          docType: null,
+          numPages: 0,
+          currentAssetHints: [],
+          loadedProject: project,
+          projectBindings: {},
+          currentProject: null,
+          currentProjectBindings: {},
+          canApplyLoadedProject: false,
+          resolveProjectDocumentForCurrentState,
+          loadProjectIntoEditor: vi.fn(),
+          replaceEditorProject: vi.fn(),
+          upsertTemplate: vi.fn(),
+          setMode: vi.fn(),
+          logDebug: vi.fn(),
+        }),
+      { initialProps: { project: loadedProject } }
+    );
+
+    expect(result.current.hasUnsavedProjectChanges).toBe(true);
+    expect(result.current.projectFileName).toBeNull();
+
+    await act(async () => {
+      await result.current.handleSaveProjectInPlace();
+    });
+
+    expect(repositoryMocks.chooseProjectSaveTarget).toHaveBeenCalledWith('Loaded.cutmark');
+    expect(repositoryMocks.writeProjectDocument).toHaveBeenLastCalledWith(loadedProject, handle, {
+      version: 2,
+    });
+    expect(result.current.projectFileName).toBe('ep01.cutmark');
+    expect(result.current.hasUnsavedProjectChanges).toBe(false);
+
+    const editedProject = createProject('Loaded', 2);
+    rerender({ project: editedProject });
+    expect(result.current.hasUnsavedProjectChanges).toBe(true);
+
+    await act(async () => {
+      await result.current.handleSaveProjectInPlace();
+    });
+
+    expect(repositoryMocks.chooseProjectSaveTarget).toHaveBeenCalledTimes(1);
+    expect(repositoryMocks.writeProjectDocument).toHaveBeenLastCalledWith(editedProject, handle, {
+      version: 2,
+    });
+    expect(result.current.hasUnsavedProjectChanges).toBe(false);
+  });
+
+  it('leaves the project unsaved when the save picker is cancelled', async () => {
+    repositoryMocks.chooseProjectSaveTarget.mockResolvedValue(null);
+    const loadedProject = createProject('Loaded');
+
+    const { result } = renderHook(() =>
+      useProjectLifecycle({
+        docType: null,
+        numPages: 0,
+        currentAssetHints: [],
+        loadedProject,
+        projectBindings: {},
+        currentProject: null,
+        currentProjectBindings: {},
+        canApplyLoadedProject: false,
+        resolveProjectDocumentForCurrentState: vi.fn((project) => project),
+        loadProjectIntoEditor: vi.fn(),
+        replaceEditorProject: vi.fn(),
+        upsertTemplate: vi.fn(),
+        setMode: vi.fn(),
+        logDebug: vi.fn(),
+      })
+    );
+
+    await act(async () => {
+      await result.current.handleSaveProjectAs();
+    });
+
+    expect(repositoryMocks.writeProjectDocument).not.toHaveBeenCalled();
+    expect(result.current.hasUnsavedProjectChanges).toBe(true);
   });
 
   it('loads a project file and applies it immediately when page counts match', async () => {
     const project = createProject('Loaded');
-    repositoryMocks.loadProjectDocumentFromFile.mockResolvedValue(project);
+    repositoryMocks.recoverProjectDocumentFromFile.mockResolvedValue({ project, issues: [] });
 
     const loadProjectIntoEditor = vi.fn();
     const upsertTemplate = vi.fn();
@@ -161,7 +258,7 @@ describe('useProjectLifecycle', () => {
       await result.current.onProjectLoaded(event);
     });
 
-    expect(repositoryMocks.loadProjectDocumentFromFile).toHaveBeenCalledTimes(1);
+    expect(repositoryMocks.recoverProjectDocumentFromFile).toHaveBeenCalledTimes(1);
     expect(loadProjectIntoEditor).toHaveBeenCalledWith(project);
     expect(upsertTemplate).toHaveBeenCalled();
     expect(setMode).toHaveBeenCalledWith('edit');
@@ -171,7 +268,7 @@ describe('useProjectLifecycle', () => {
 
   it('loads a project file against an explicit import context', async () => {
     const project = createProject('Loaded');
-    repositoryMocks.loadProjectDocumentFromFile.mockResolvedValue(project);
+    repositoryMocks.recoverProjectDocumentFromFile.mockResolvedValue({ project, issues: [] });
 
     const loadProjectIntoEditor = vi.fn();
     const upsertTemplate = vi.fn();
@@ -216,7 +313,7 @@ describe('useProjectLifecycle', () => {
 
   it('auto-applies a deferred PDF import after the document page count becomes available', async () => {
     const project = createProject('Loaded', 2);
-    repositoryMocks.loadProjectDocumentFromFile.mockResolvedValue(project);
+    repositoryMocks.recoverProjectDocumentFromFile.mockResolvedValue({ project, issues: [] });
 
     const setMode = vi.fn();
     const upsertTemplate = vi.fn();
@@ -292,7 +389,7 @@ describe('useProjectLifecycle', () => {
 
   it('does not show a modal when a project is loaded before any asset document', async () => {
     const project = createProject('Loaded', 2);
-    repositoryMocks.loadProjectDocumentFromFile.mockResolvedValue(project);
+    repositoryMocks.recoverProjectDocumentFromFile.mockResolvedValue({ project, issues: [] });
     const alertSpy = vi.spyOn(window, 'alert').mockImplementation(() => {});
     const logDebug = vi.fn();
 
@@ -327,7 +424,7 @@ describe('useProjectLifecycle', () => {
 
   it('does not show a modal when project and asset page counts differ', async () => {
     const project = createProject('Loaded', 3);
-    repositoryMocks.loadProjectDocumentFromFile.mockResolvedValue(project);
+    repositoryMocks.recoverProjectDocumentFromFile.mockResolvedValue({ project, issues: [] });
     const alertSpy = vi.spyOn(window, 'alert').mockImplementation(() => {});
     const logDebug = vi.fn();
 
@@ -362,4 +459,57 @@ describe('useProjectLifecycle', () => {
     expect(alertSpy).not.toHaveBeenCalled();
     expect(logDebug).toHaveBeenCalledWith('warn', 'プロジェクト読込保留', expect.any(Function));
   });
+
+  it('asks before loading a repaired project and lists what was changed', async () => {
+    const project = createProject('Loaded', 2);
+    const issues = [
+      { path: '$.logicalPages[0].cuts[1].x', message: '数値ではありません', action: 'dropped' as const },
+      ...Array.from({ length: 11 }, (_, index) => ({
+        path: `$.logicalPages[1].cuts[${index}].y`,
+        message: '0〜1 の範囲外です',
+        action: 'repaired' as const,
+      })),
+    ];
+    repositoryMocks.recoverProjectDocumentFromFile.mockResolvedValue({ project, issues });
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+    const loadProjectIntoEditor = vi.fn();
+
+    const { result } = renderHook(() =>
+      useProjectLifecycle({
+        docType: null,
+        numPages: 0,
+        currentAssetHints: [],
+        loadedProject: null,
+        projectBindings: {},
+        currentProject: null,
+        currentProjectBindings: {},
+        canApplyLoadedProject: false,
+        resolveProjectDocumentForCurrentState: vi.fn((value) => value),
+        loadProjectIntoEditor,
+        replaceEditorProject: vi.fn(),
+        upsertTemplate: vi.fn(),
+        setMode: vi.fn(),
+        logDebug: vi.fn(),
+      })
+    );
+    const file = new File(['{}'], 'damaged.cutmark', { type: 'application/json' });
+
+    await act(async () => {
+      await result.current.loadProjectFile(file);
+    });
+
+    const summary = confirmSpy.mock.calls[0][0] as string;
+    expect(summary).toContain('12 件の問題');
+    expect(summary).toContain('修復: 11 件 / 除外: 1 件');
+    expect(summary).toContain('2 ページ、カット 1 件');
+    expect(summary).toContain('・$.logicalPages[0].cuts[1].x: 数値ではありません（除外）');
+    expect(summary).toContain('ほか 2 件');
+    expect(loadProjectIntoEditor).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await result.current.loadProjectFile(file);
+    });
+
+    expect(loadProjectIntoEditor).toHaveBeenCalledWith(project);
+  });
 });
@@ -0,0 +1,197 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createProjectDocument } from '../../domain/project';
+import { useRecentProjects } from '../../hooks/useRecentProjects';
+import { createAppSettings, createTemplate } from '../../test/factories';
+
+const repositoryMocks = vi.hoisted(() => ({
+  createRecentProjectId: vi.fn(),
+  listRecentProjects: vi.fn(),
+  saveRecentProject: vi.fn(),
+  deleteRecentProject: vi.fn(),
+}));
+
+vi.mock('../../repositories/recentProjectRepository', () => ({
+  createRecentProjectId: repositoryMocks.createRecentProjectId,
+  listRecentProjects: repositoryMocks.listRecentProjects,
+  saveRecentProject: repositoryMocks.saveRecentProject,
+  deleteRecentProject: repositoryMocks.deleteRecentProject,
+}));
+
+const project = createProjectDocument({
+  name: 'ep01',
+  savedAt: '2026-04-18T00:00:00.000Z',
+  settings: createAppSettings(),
+  template: createTemplate(),
+});
+
+const pdfFile = new File(['pdf'], 'ep01.pdf', { type: 'application/pdf' });
+
+const storedEntry = {
+  id: 'ep01',
+  name: 'ep01',
+  savedAt: '2026-04-18T00:00:00.000Z',
+  serializedProject: '{"version":3}',
+  materialFiles: [pdfFile],
+};
+
+const createOptions = () => ({
+  docType: 'pdf' as const,
+  pdfFile,
+  pdfSources: [],
+  imageFiles: [],
+  importFiles: vi.fn().mockResolvedValue(undefined),
+  logDebug: vi.fn(),
+});
+
+const flushLoad = () => act(async () => {});
+
+describe('useRecentProjects', () => {
+  beforeEach(() => {
+    let nextId = 0;
+    repositoryMocks.createRecentProjectId.mockReset().mockImplementation(() => `recent-${++nextId}`);
+    repositoryMocks.listRecentProjects.mockReset().mockResolvedValue([]);
+    repositoryMocks.saveRecentProject.mockReset().mockResolvedValue(undefined);
+    repositoryMocks.deleteRecentProject.mockReset().mockResolvedValue(undefined);
+  });
+
+  it('records a saved project with the loaded material', async () => {
+    const options = createOptions();
+    const { result } = renderHook(() => useRecentProjects(options));
+    await flushLoad();
+    expect(result.current.recentProjects).toBeNull();
+
+    repositoryMocks.listRecentProjects.mockResolvedValue([storedEntry]);
+    await act(async () => {
+      await result.current.recordRecentProject(project);
+    });
+
+    expect(repositoryMocks.saveRecentProject).toHaveBeenCalledWith(
+      {
+        id: 'recent-1',
+        name: 'ep01',
+        savedAt: '2026-04-18T00:00:00.000Z',
+        serializedProject: expect.stringContaining('"name": "ep01"'),
+      },
+      [pdfFile]
+    );
+    expect(result.current.recentProjects?.projects).toEqual([
+      {
+        id: 'ep01',
+        name: 'ep01',
+        savedAt: '2026-04-18T00:00:00.000Z',
+        materialFiles: [{ name: 'ep01.pdf', size: 3 }],
+      },
+    ]);
+  });
+
+  it('keeps the project listed without material when the material does not fit', async () => {
+    repositoryMocks.saveRecentProject
+      .mockRejectedValueOnce(new DOMException('full', 'QuotaExceededError'))
+      .mockResolvedValueOnce(undefined);
+    const options = createOptions();
+    const { result } = renderHook(() => useRecentProjects(options));
+    await flushLoad();
+
+    await act(async () => {
+      await result.current.recordRecentProject(project);
+    });
+
+    expect(repositoryMocks.saveRecentProject).toHaveBeenCalledTimes(2);
+    expect(repositoryMocks.saveRecentProject).toHaveBeenLastCalledWith(
+      expect.objectContaining({ id: 'recent-1' }),
+      []
+    );
+  });
+
+  it('updates the same entry on the next save without rewriting unchanged material', async () => {
+    const options = createOptions();
+    const { result } = renderHook(() => useRecentProjects(options));
+    await flushLoad();
+
+    await act(async () => {
+      await result.current.recordRecentProject(project);
+    });
+    await act(async () => {
+      await result.current.recordRecentProject(project);
+    });
+
+    const saves = repositoryMocks.saveRecentProject.mock.calls.map(([entry, material]) => [
+      entry.id,
+      material,
+    ]);
+    expect(saves).toEqual([
+      ['recent-1', [pdfFile]],
+      ['recent-1', undefined],
+    ]);
+  });
+
+  it('keeps same-named projects on different material as separate entries', async () => {
+    const untitled = createProjectDocument({
+      settings: createAppSettings(),
+      template: createTemplate(),
+    });
+    const otherPdfFile = new File(['other'], 'ep02.pdf', { type: 'application/pdf' });
+    const options = createOptions();
+    const { result, rerender } = renderHook((props) => useRecentProjects(props), {
+      initialProps: options,
+    });
+    await flushLoad();
+
+    await act(async () => {
+      await result.current.recordRecentProject(untitled);
+    });
+    rerender({ ...options, pdfFile: otherPdfFile });
+    await act(async () => {
+      await result.current.recordRecentProject(untitled);
+    });
+
+    const saves = repositoryMocks.saveRecentProject.mock.calls.map(([entry, material]) => [
+      entry.id,
+      entry.name,
+      material,
+    ]);
+    expect(saves).toEqual([
+      ['recent-1', 'Untitled Project', [pdfFile]],
+      ['recent-2', 'Untitled Project', [otherPdfFile]],
+    ]);
+  });
+
+  it('reopens a project by importing its material and project file together', async () => {
+    repositoryMocks.listRecentProjects.mockResolvedValue([storedEntry]);
+    const options = createOptions();
+    const { result } = renderHook(() => useRecentProjects(options));
+    await flushLoad();
+
+    await act(async () => {
+      await result.current.recentProjects?.onOpen('ep01');
+    });
+
+    const [files] = options.importFiles.mock.calls[0];
+    expect(files[0]).toBe(pdfFile);
+    expect(files[1].name).toBe('ep01.cutmark');
+    expect(await files[1].text()).toBe('{"version":3}');
+
+    await act(async () => {
+      await result.current.recordRecentProject(project);
+    });
+    expect(repositoryMocks.saveRecentProject).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'ep01' }),
+      undefined
+    );
+  });
+
+  it('removes a project from the list', async () => {
+    repositoryMocks.listRecentProjects.mockResolvedValue([storedEntry]);
+    const options = createOptions();
+    const { result } = renderHook(() => useRecentProjects(options));
+    await flushLoad();
+
+    await act(async () => {
+      await result.current.recentProjects?.onRemove('ep01');
+    });
+
+    expect(repositoryMocks.deleteRecentProject).toHaveBeenCalledWith('ep01');
+    expect(result.current.recentProjects).toBeNull();
+  });
+});
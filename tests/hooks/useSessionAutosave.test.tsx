@@ -0,0 +1,257 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAutosavedSession } from '../../application/sessionAutosave';
+import { AssetHint, createEditorState, createProjectDocument, EditorState } from '../../domain/project';
+import { HistoryState } from '../../application/history';
+import { useSessionAutosave } from '../../hooks/useSessionAutosave';
+import { createAppSettings, createTemplate } from '../../test/factories';
+
+const repositoryMocks = vi.hoisted(() => ({
+  loadAutosavedSession: vi.fn(),
+  saveAutosavedSession: vi.fn(),
+  clearAutosavedSession: vi.fn(),
+}));
+
+vi.mock('../../repositories/sessionAutosaveRepository', () => ({
+  loadAutosavedSession: repositoryMocks.loadAutosavedSession,
+  saveAutosavedSession: repositoryMocks.saveAutosavedSession,
+  clearAutosavedSession: repositoryMocks.clearAutosavedSession,
+}));
+
+const project = createProjectDocument({
+  name: 'ep01',
+  settings: createAppSettings(),
+  template: createTemplate(),
+  logicalPages: [
+    { id: 'page-1', cuts: [{ id: 'cut-1', x: 0.1, y: 0.2, label: '001', isBranch: false }] },
+  ],
+});
+
+const editorHistory: HistoryState<EditorState> = {
+  past: [],
+  present: createEditorState(project),
+  future: [],
+};
+
+const emptyCurrentHistory = {
+  past: [],
+  present: { project: null, selectedCutId: null },
+  future: [],
+};
+
+const savedSession = createAutosavedSession(
+  editorHistory,
+  {
+    docType: 'images',
+    files: [{ name: '001.png', size: 3 }],
+    assets: [{ sourceKind: 'image', sourceLabel: '001.png' }],
+  },
+  '2026-01-01T00:00:00.000Z'
+);
+
+const createOptions = (overrides: Partial<Parameters<typeof useSessionAutosave>[0]> = {}) => ({
+  docType: null,
+  pdfFile: null,
+  pdfSources: [],
+  imageFiles: [],
+  currentAssetHints: [] as AssetHint[],
+  currentProjectHistory: emptyCurrentHistory,
+  loadedProjectHistory: null,
+  restoreLoadedProjectHistory: vi.fn(),
+  resetLoadedProjectBindings: vi.fn(),
+  logDebug: vi.fn(),
+  ...overrides,
+});
+
+const flushLoad = () => act(async () => {});
+
+describe('useSessionAutosave', () => {
+  beforeEach(() => {
+    repositoryMocks.loadAutosavedSession.mockReset();
+    repositoryMocks.saveAutosavedSession.mockReset().mockResolvedValue(undefined);
+    repositoryMocks.clearAutosavedSession.mockReset().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('offers the last session and restores it into the project editor', async () => {
+    repositoryMocks.loadAutosavedSession.mockResolvedValue(savedSession);
+    const options = createOptions();
+    const { result, rerender } = renderHook((props) => useSessionAutosave(props), {
+      initialProps: options,
+    });
+    await flushLoad();
+
+    expect(result.current.sessionRecovery).toMatchObject({
+      status: 'available',
+      summary: { projectName: 'ep01', cutCount: 1 },
+    });
+
+    act(() => {
+      if (result.current.sessionRecovery?.status === 'available') {
+        result.current.sessionRecovery.onRestore();
+      }
+    });
+
+    expect(options.restoreLoadedProjectHistory).toHaveBeenCalledWith(editorHistory);
+    expect(result.current.sessionRecovery).toEqual({
+      status: 'awaiting-material',
+      materialFiles: [{ name: '001.png', size: 3 }],
+    });
+
+    rerender({
+      ...options,
+      docType: 'images',
+      imageFiles: [new File(['abc'], '001.png')],
+      currentAssetHints: [{ sourceKind: 'image', sourceLabel: '001.png' }],
+      loadedProjectHistory: editorHistory,
+    });
+    await flushLoad();
+
+    expect(options.resetLoadedProjectBindings).not.toHaveBeenCalled();
+    expect(result.current.sessionRecovery).toBeNull();
+  });
+
+  it('re-suggests bindings when the re-dropped material is different', async () => {
+    repositoryMocks.loadAutosavedSession.mockResolvedValue(savedSession);
+    const options = createOptions();
+    const { result, rerender } = renderHook((props) => useSessionAutosave(props), {
+      initialProps: options,
+    });
+    await flushLoad();
+
+    act(() => {
+      if (result.current.sessionRecovery?.status === 'available') {
+        result.current.sessionRecovery.onRestore();
+      }
+    });
+    rerender({
+      ...options,
+      docType: 'images',
+      imageFiles: [new File(['abc'], '001.png'), new File(['abc'], '002.png')],
+      currentAssetHints: [
+        { sourceKind: 'image', sourceLabel: '001.png' },
+        { sourceKind: 'image', sourceLabel: '002.png' },
+      ],
+      loadedProjectHistory: editorHistory,
+    });
+    await flushLoad();
+
+    expect(options.resetLoadedProjectBindings).toHaveBeenCalledTimes(1);
+  });
+
+  it('discards the last session', async () => {
+    repositoryMocks.loadAutosavedSession.mockResolvedValue(savedSession);
+    const { result } = renderHook(() => useSessionAutosave(createOptions()));
+    await flushLoad();
+
+    act(() => {
+      if (result.current.sessionRecovery?.status === 'available') {
+        result.current.sessionRecovery.onDiscard();
+      }
+    });
+
+    expect(repositoryMocks.clearAutosavedSession).toHaveBeenCalledTimes(1);
+    expect(result.current.sessionRecovery).toBeNull();
+  });
+
+  it('saves edits after a pause and leaves an empty workspace alone', async () => {
+    vi.useFakeTimers();
+    repositoryMocks.loadAutosavedSession.mockResolvedValue(null);
+    const options = createOptions();
+    const { rerender } = renderHook((props) => useSessionAutosave(props), {
+      initialProps: options,
+    });
+    await flushLoad();
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(repositoryMocks.saveAutosavedSession).not.toHaveBeenCalled();
+
+    const imageFiles = [new File(['abc'], '001.png')];
+    rerender({
+      ...options,
+      docType: 'images',
+      imageFiles,
+      currentAssetHints: [{ sourceKind: 'image', sourceLabel: '001.png' }],
+      currentProjectHistory: { past: [], present: { project, selectedCutId: null }, future: [] },
+    });
+    act(() => {
+      vi.advanceTimersByTime(999);
+    });
+    expect(repositoryMocks.saveAutosavedSession).not.toHaveBeenCalled();
+
+    act(() => {
+      vi.advanceTimersByTime(1);
+    });
+    expect(repositoryMocks.saveAutosavedSession).toHaveBeenCalledTimes(1);
+    expect(repositoryMocks.saveAutosavedSession.mock.calls[0][0]).toMatchObject({
+      history: { present: { state: { project: { meta: { name: 'ep01' } } } } },
+      material: { docType: 'images', files: [{ name: '001.png', size: 3 }] },
+    });
+  });
+
+  it('saves at once when the page is hidden instead of waiting for the pause', async () => {
+    vi.useFakeTimers();
+    repositoryMocks.loadAutosavedSession.mockResolvedValue(null);
+    const options = createOptions({
+      docType: 'images',
+      imageFiles: [new File(['abc'], '001.png')],
+      currentAssetHints: [{ sourceKind: 'image', sourceLabel: '001.png' }],
+      currentProjectHistory: { past: [], present: { project, selectedCutId: null }, future: [] },
+    });
+    renderHook((props) => useSessionAutosave(props), { initialProps: options });
+    await flushLoad();
+
+    const visibility = vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+    act(() => {
+      document.dispatchEvent(new Event('visibilitychange'));
+    });
+    expect(repositoryMocks.saveAutosavedSession).toHaveBeenCalledTimes(1);
+
+    // The pending write already went out, so neither pagehide nor the timer repeats it
+    act(() => {
+      window.dispatchEvent(new Event('pagehide'));
+      vi.advanceTimersByTime(1000);
+    });
+    expect(repositoryMocks.saveAutosavedSession).toHaveBeenCalledTimes(1);
+    visibility.mockRestore();
+  });
+
+  it('does not autosave over a last session that has not been answered', async () => {
+    vi.useFakeTimers();
+    repositoryMocks.loadAutosavedSession.mockResolvedValue(savedSession);
+    const options = createOptions();
+    const { result, rerender } = renderHook((props) => useSessionAutosave(props), {
+      initialProps: options,
+    });
+    await flushLoad();
+
+    const workingOptions = {
+      ...options,
+      docType: 'images' as const,
+      imageFiles: [new File(['abc'], '001.png')],
+      currentAssetHints: [{ sourceKind: 'image' as const, sourceLabel: '001.png' }],
+      currentProjectHistory: { past: [], present: { project, selectedCutId: null }, future: [] },
+    };
+    rerender(workingOptions);
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(repositoryMocks.saveAutosavedSession).not.toHaveBeenCalled();
+    expect(result.current.sessionRecovery?.status).toBe('available');
+
+    act(() => {
+      if (result.current.sessionRecovery?.status === 'available') {
+        result.current.sessionRecovery.onDiscard();
+      }
+    });
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(repositoryMocks.saveAutosavedSession).toHaveBeenCalledTimes(1);
+  });
+});
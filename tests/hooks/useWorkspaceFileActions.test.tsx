@@ -1,31 +1,74 @@
 import type { ChangeEvent, DragEvent } from 'react';
-import { act, renderHook } from '@testing-library/react';
+import { act, renderHook, waitFor } from '@testing-library/react';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import {
   classifyImportFiles,
   createWorkspaceImportPlan,
   useWorkspaceFileActions,
 } from '../../hooks/useWorkspaceFileActions';
+import { EncryptedPdfExportError } from '../../services/pdfSecurityHandler';
 import { createAppSettings } from '../../test/factories';
+import type { Cut, PdfSource } from '../../types';
 
 const pdfServiceMocks = vi.hoisted(() => ({
   saveMarkedPdf: vi.fn(),
   saveImagesAsPdf: vi.fn(),
 }));
 
+const pdfImportMocks = vi.hoisted(() => ({
+  preparePdfImport: vi.fn(),
+  unlockEncryptedPdf: vi.fn(),
+  mergeSourceFiles: vi.fn(),
+  arrangePdfPages: vi.fn(),
+  isRewrittenOnImport: vi.fn(),
+  hasDroppedRestrictions: vi.fn(),
+  PdfPasswordCancelledError: class PdfPasswordCancelledError extends Error {},
+}));
+
 const imageExportServiceMocks = vi.hoisted(() => ({
   exportImagesAsZip: vi.fn(),
 }));
 
+const pdfPageExportServiceMocks = vi.hoisted(() => ({
+  savePdfPagesZip: vi.fn(),
+}));
+
+const pdfjsDocumentMocks = vi.hoisted(() => ({
+  openPdfjsDocument: vi.fn(),
+}));
+
 vi.mock('../../services/pdfService', () => ({
   saveMarkedPdf: pdfServiceMocks.saveMarkedPdf,
   saveImagesAsPdf: pdfServiceMocks.saveImagesAsPdf,
 }));
 
+vi.mock('../../services/pdfImport', () => ({
+  preparePdfImport: pdfImportMocks.preparePdfImport,
+  unlockEncryptedPdf: pdfImportMocks.unlockEncryptedPdf,
+  mergeSourceFiles: pdfImportMocks.mergeSourceFiles,
+  arrangePdfPages: pdfImportMocks.arrangePdfPages,
+  isRewrittenOnImport: pdfImportMocks.isRewrittenOnImport,
+  hasDroppedRestrictions: pdfImportMocks.hasDroppedRestrictions,
+  PdfPasswordCancelledError: pdfImportMocks.PdfPasswordCancelledError,
+}));
+
 vi.mock('../../services/imageExportService', () => ({
   exportImagesAsZip: imageExportServiceMocks.exportImagesAsZip,
 }));
 
+vi.mock('../../services/pdfPageExportService', () => ({
+  savePdfPagesZip: pdfPageExportServiceMocks.savePdfPagesZip,
+  getPdfPagesZipFileName: (pdfFile: File) => `marked_${pdfFile.name.replace(/\.pdf$/i, '')}.zip`,
+  isPdfPageEncodeError: (error: unknown) =>
+    error instanceof Error && error.name === 'PdfPageEncodeError',
+}));
+
+// react-pdf needs DOMMatrix, which jsdom lacks
+vi.mock('../../services/pdfjsDocument', () => ({
+  openPdfjsDocument: pdfjsDocumentMocks.openPdfjsDocument,
+  getPdfPassword: () => undefined,
+}));
+
 const createFileList = (files: File[]) =>
   ({
     ...files,
@@ -36,8 +79,10 @@ const createFileList = (files: File[]) =>
 const createOptions = () => ({
   docType: 'images' as const,
   pdfFile: null,
+  pdfSources: [] as PdfSource[],
   imageFiles: [] as File[],
-  effectiveExportCuts: [],
+  effectiveExportCuts: [] as Cut[],
+  effectiveExportPageOrder: [] as number[],
   effectiveExportSettings: createAppSettings(),
   isLoadedProjectActive: false,
   canApplyLoadedProject: true,
@@ -45,7 +90,13 @@ const createOptions = () => ({
   loadImages: vi.fn(),
   loadProjectFile: vi.fn().mockResolvedValue(undefined),
   exportProjectFile: vi.fn(),
+  resolveProjectForExport: vi.fn().mockReturnValue(null),
   includeProjectFileOnExport: false,
+  pdfMarkMode: 'layer' as const,
+  pdfWriteMode: 'incremental' as const,
+  pdfSourceExportMode: 'combined' as const,
+  pdfImageExportOptions: { dpi: 300, format: 'png' as const, quality: 0.8, maxLongEdge: null },
+  imageExportOptions: { format: 'keep' as const, quality: 0.8, maxLongEdge: null },
   onDrop: vi.fn(),
   setIsExporting: vi.fn(),
   logDebug: vi.fn(),
@@ -56,6 +107,19 @@ describe('useWorkspaceFileActions', () => {
     pdfServiceMocks.saveMarkedPdf.mockReset();
     pdfServiceMocks.saveImagesAsPdf.mockReset();
     imageExportServiceMocks.exportImagesAsZip.mockReset();
+    pdfPageExportServiceMocks.savePdfPagesZip.mockReset();
+    pdfjsDocumentMocks.openPdfjsDocument.mockReset();
+    pdfImportMocks.preparePdfImport.mockReset();
+    pdfImportMocks.unlockEncryptedPdf.mockReset();
+    pdfImportMocks.mergeSourceFiles.mockReset();
+    pdfImportMocks.arrangePdfPages.mockReset();
+    pdfImportMocks.isRewrittenOnImport.mockReset().mockReturnValue(false);
+    pdfImportMocks.hasDroppedRestrictions.mockReset().mockReturnValue(false);
+    pdfImportMocks.preparePdfImport.mockImplementation(async (file: File) => ({
+      file,
+      strippedPageCount: 0,
+      embeddedProjectFile: null,
+    }));
     vi.restoreAllMocks();
   });
 
@@ -87,15 +151,6 @@ describe('useWorkspaceFileActions', () => {
         unsupportedFiles: [],
       })
     ).toThrow('プロジェクトファイルは1つだけ選んでください。');
-
-    expect(() =>
-      createWorkspaceImportPlan({
-        projectFiles: [],
-        pdfFiles: [new File(['pdf'], 'sample.pdf', { type: 'application/pdf' })],
-        imageFiles: [new File(['img'], '001.png', { type: 'image/png' })],
-        unsupportedFiles: [],
-      })
-    ).toThrow('素材は PDF 1つ か 連番画像(JPG/PNG) のどちらか一方だけを選んでください。');
   });
 
   it('loads images and a project file from one selection', async () => {
@@ -148,7 +203,7 @@ describe('useWorkspaceFileActions', () => {
       await result.current.onImportFilesSelected(event);
     });
 
-    expect(options.loadPdf).toHaveBeenCalledWith(pdfFile);
+    expect(options.loadPdf).toHaveBeenCalledWith(pdfFile, []);
     expect(options.loadProjectFile).toHaveBeenCalledWith(
       projectFile,
       expect.objectContaining({
@@ -160,6 +215,208 @@ describe('useWorkspaceFileActions', () => {
     );
   });
 
+  it('restores the project embedded in an exported PDF when confirmed', async () => {
+    const options = createOptions();
+    const pdfFile = new File(['pdf'], 'marked_sample.pdf', { type: 'application/pdf' });
+    const cleanedPdfFile = new File(['clean'], 'marked_sample.pdf', { type: 'application/pdf' });
+    const embeddedProjectFile = new File(['{}'], 'sample.cutmark', { type: 'application/json' });
+    pdfImportMocks.preparePdfImport.mockResolvedValue({
+      file: cleanedPdfFile,
+      strippedPageCount: 1,
+      embeddedProjectFile,
+    });
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true);
+    const event = {
+      target: { files: createFileList([pdfFile]), value: 'selected' },
+    } as unknown as ChangeEvent<HTMLInputElement>;
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.onImportFilesSelected(event);
+    });
+
+    expect(confirmSpy).toHaveBeenCalledTimes(1);
+    expect(options.loadPdf).toHaveBeenCalledWith(cleanedPdfFile, []);
+    expect(options.loadProjectFile).toHaveBeenCalledWith(
+      embeddedProjectFile,
+      expect.objectContaining({ docType: 'pdf', autoApplyWhenReady: true })
+    );
+  });
+
+  it('asks for the password of an encrypted PDF in a dialog and loads the decrypted copy', async () => {
+    const options = createOptions();
+    const pdfFile = new File(['%PDF-1.7\ntrailer\n<< /Root 1 0 R /Encrypt 9 0 R >>'], 'locked.pdf', {
+      type: 'application/pdf',
+    });
+    const decryptedPdfFile = new File(['plain'], 'locked.pdf', { type: 'application/pdf' });
+    pdfImportMocks.unlockEncryptedPdf.mockImplementation(
+      async (_file: File, requestPassword: (isRetry: boolean) => Promise<string | null>) => {
+        expect(await requestPassword(false)).toBe('secret');
+        return { file: decryptedPdfFile, isDecrypted: true };
+      }
+    );
+    const event = {
+      target: { files: createFileList([pdfFile]), value: 'selected' },
+    } as unknown as ChangeEvent<HTMLInputElement>;
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    let importing: Promise<void> = Promise.resolve();
+    act(() => {
+      importing = result.current.onImportFilesSelected(event);
+    });
+    await waitFor(() =>
+      expect(result.current.pdfPasswordRequest).toMatchObject({ fileName: 'locked.pdf', isRetry: false })
+    );
+    await act(async () => {
+      result.current.pdfPasswordRequest?.onSubmit('secret');
+      await importing;
+    });
+
+    expect(result.current.pdfPasswordRequest).toBeNull();
+    expect(pdfImportMocks.unlockEncryptedPdf).toHaveBeenCalledWith(pdfFile, expect.any(Function));
+    expect(pdfImportMocks.preparePdfImport).toHaveBeenCalledWith(decryptedPdfFile);
+    expect(options.loadPdf).toHaveBeenCalledWith(decryptedPdfFile, []);
+  });
+
+  it('leaves unencrypted PDFs alone and stops quietly when the password is not given', async () => {
+    const options = createOptions();
+    const plainPdfFile = new File(['%PDF-1.7\ntrailer\n<< /Root 1 0 R >>'], 'plain.pdf', {
+      type: 'application/pdf',
+    });
+    const lockedPdfFile = new File(['trailer << /Encrypt << /Filter /Standard >> >>'], 'locked.pdf', {
+      type: 'application/pdf',
+    });
+    pdfImportMocks.unlockEncryptedPdf.mockRejectedValue(
+      new pdfImportMocks.PdfPasswordCancelledError('cancelled')
+    );
+    const alertSpy = vi.spyOn(window, 'alert').mockImplementation(() => {});
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.onFileDropped({
+        dataTransfer: { files: [plainPdfFile] },
+      } as unknown as DragEvent<HTMLDivElement>);
+    });
+    await act(async () => {
+      await result.current.onFileDropped({
+        dataTransfer: { files: [lockedPdfFile] },
+      } as unknown as DragEvent<HTMLDivElement>);
+    });
+
+    expect(pdfImportMocks.unlockEncryptedPdf).toHaveBeenCalledTimes(1);
+    expect(options.loadPdf).toHaveBeenCalledTimes(1);
+    expect(options.loadPdf).toHaveBeenCalledWith(plainPdfFile, []);
+    expect(alertSpy).not.toHaveBeenCalled();
+  });
+
+  it('merges several PDFs in name order into one workspace', async () => {
+    const options = createOptions();
+    const partB = new File(['b'], 'ep01_B.pdf', { type: 'application/pdf' });
+    const partA = new File(['a'], 'ep01_A.pdf', { type: 'application/pdf' });
+    const mergedFile = new File(['ab'], 'ep01_A+ep01_B.pdf', { type: 'application/pdf' });
+    const sources = [
+      { kind: 'pdf' as const, file: partA, pageCount: 3 },
+      { kind: 'pdf' as const, file: partB, pageCount: 2 },
+    ];
+    pdfImportMocks.mergeSourceFiles.mockResolvedValue({ file: mergedFile, sources });
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true);
+    const event = {
+      target: { files: createFileList([partB, partA]), value: 'selected' },
+    } as unknown as ChangeEvent<HTMLInputElement>;
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.onImportFilesSelected(event);
+    });
+
+    expect(pdfImportMocks.preparePdfImport).toHaveBeenCalledTimes(2);
+    expect(pdfImportMocks.mergeSourceFiles).toHaveBeenCalledWith([
+      { kind: 'pdf', file: partA },
+      { kind: 'pdf', file: partB },
+    ]);
+    expect(confirmSpy).not.toHaveBeenCalled();
+    expect(options.loadPdf).toHaveBeenCalledWith(mergedFile, sources);
+  });
+
+  it('hands a scan named after a PDF page to the merge as that page', async () => {
+    const options = createOptions();
+    const pdfFile = new File(['pdf'], 'ep01.pdf', { type: 'application/pdf' });
+    const scan = new File(['jpg'], 'ep01_p012.jpg', { type: 'image/jpeg' });
+    const extra = new File(['jpg'], 'ep01_extra.jpg', { type: 'image/jpeg' });
+    pdfImportMocks.mergeSourceFiles.mockResolvedValue({
+      file: new File(['merged'], 'ep01+ep01_extra.pdf', { type: 'application/pdf' }),
+      sources: [],
+    });
+    const event = {
+      target: { files: createFileList([scan, extra, pdfFile]), value: 'selected' },
+    } as unknown as ChangeEvent<HTMLInputElement>;
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.onImportFilesSelected(event);
+    });
+
+    expect(pdfImportMocks.preparePdfImport).toHaveBeenCalledTimes(1);
+    expect(pdfImportMocks.mergeSourceFiles).toHaveBeenCalledWith([
+      { kind: 'pdf', file: pdfFile, replacementPages: [{ pageNumber: 12, file: scan }] },
+      { kind: 'image', file: extra },
+    ]);
+    expect(options.loadImages).not.toHaveBeenCalled();
+    expect(options.loadPdf).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps an explicitly chosen project over the one embedded in the PDF', async () => {
+    const options = createOptions();
+    const pdfFile = new File(['pdf'], 'marked_sample.pdf', { type: 'application/pdf' });
+    const projectFile = new File(['{}'], 'chosen.cutmark', { type: 'application/json' });
+    pdfImportMocks.preparePdfImport.mockResolvedValue({
+      file: pdfFile,
+      strippedPageCount: 0,
+      embeddedProjectFile: new File(['{}'], 'embedded.cutmark', { type: 'application/json' }),
+    });
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true);
+    const event = {
+      target: { files: createFileList([projectFile, pdfFile]), value: 'selected' },
+    } as unknown as ChangeEvent<HTMLInputElement>;
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.onImportFilesSelected(event);
+    });
+
+    expect(confirmSpy).not.toHaveBeenCalled();
+    expect(options.loadProjectFile).toHaveBeenCalledWith(projectFile, expect.anything());
+  });
+
+  it('loads only the PDF when restoring the embedded project is declined', async () => {
+    const options = createOptions();
+    const pdfFile = new File(['pdf'], 'marked_sample.pdf', { type: 'application/pdf' });
+    pdfImportMocks.preparePdfImport.mockResolvedValue({
+      file: pdfFile,
+      strippedPageCount: 0,
+      embeddedProjectFile: new File(['{}'], 'embedded.cutmark', { type: 'application/json' }),
+    });
+    vi.spyOn(window, 'confirm').mockReturnValue(false);
+    const event = {
+      target: { files: createFileList([pdfFile]), value: 'selected' },
+    } as unknown as ChangeEvent<HTMLInputElement>;
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.onImportFilesSelected(event);
+    });
+
+    expect(options.loadPdf).toHaveBeenCalledWith(pdfFile, []);
+    expect(options.loadProjectFile).not.toHaveBeenCalled();
+  });
+
   it('accepts the same combined import patterns from drag and drop', async () => {
     const options = createOptions();
     const imageFile = new File(['img'], '001.png', { type: 'image/png' });
@@ -188,6 +445,100 @@ describe('useWorkspaceFileActions', () => {
     );
   });
 
+  it('walks dropped folders recursively and ignores system files', async () => {
+    const options = createOptions();
+    const fileEntry = (file: File) => ({
+      name: file.name,
+      isFile: true,
+      isDirectory: false,
+      file: (success: (file: File) => void) => success(file),
+    });
+    const directoryEntry = (name: string, children: unknown[]) => ({
+      name,
+      isFile: false,
+      isDirectory: true,
+      createReader: () => {
+        let done = false;
+        return {
+          readEntries: (success: (entries: unknown[]) => void) => {
+            success(done ? [] : children);
+            done = true;
+          },
+        };
+      },
+    });
+    const cut2 = new File(['img'], 'c002.png', { type: 'image/png' });
+    const cut10 = new File(['img'], 'c010.png', { type: 'image/png' });
+    const cut1 = new File(['img'], 'c001.png', { type: 'image/png' });
+    const thumbs = new File(['db'], 'Thumbs.db');
+    const root = directoryEntry('ep01', [
+      fileEntry(thumbs),
+      directoryEntry('B', [fileEntry(cut10)]),
+      directoryEntry('A', [fileEntry(cut2), fileEntry(cut1)]),
+    ]);
+    const event = {
+      dataTransfer: {
+        types: ['Files'],
+        items: { 0: { webkitGetAsEntry: () => root }, length: 1 },
+      },
+    } as unknown as DragEvent<HTMLDivElement>;
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.onFileDropped(event);
+    });
+
+    expect(options.loadImages).toHaveBeenCalledWith([cut1, cut2, cut10]);
+    expect(options.logDebug).not.toHaveBeenCalledWith('warn', '未対応ファイルを無視', expect.anything());
+  });
+
+  it('keeps dropped folders in order when they reuse file names', async () => {
+    const options = createOptions();
+    const fileEntry = (file: File) => ({
+      name: file.name,
+      isFile: true,
+      isDirectory: false,
+      file: (success: (file: File) => void) => success(file),
+    });
+    const directoryEntry = (name: string, children: unknown[]) => ({
+      name,
+      isFile: false,
+      isDirectory: true,
+      createReader: () => {
+        let done = false;
+        return {
+          readEntries: (success: (entries: unknown[]) => void) => {
+            success(done ? [] : children);
+            done = true;
+          },
+        };
+      },
+    });
+    const a1 = new File(['A1'], '001.png', { type: 'image/png' });
+    const a2 = new File(['A2'], '002.png', { type: 'image/png' });
+    const b1 = new File(['B1'], '001.png', { type: 'image/png' });
+    const b2 = new File(['B2'], '002.png', { type: 'image/png' });
+    const event = {
+      dataTransfer: {
+        types: ['Files'],
+        items: {
+          0: { webkitGetAsEntry: () => directoryEntry('B', [fileEntry(b2), fileEntry(b1)]) },
+          1: { webkitGetAsEntry: () => directoryEntry('A', [fileEntry(a1), fileEntry(a2)]) },
+          length: 2,
+        },
+      },
+    } as unknown as DragEvent<HTMLDivElement>;
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.onFileDropped(event);
+    });
+
+    expect(options.loadImages).toHaveBeenCalledWith([a1, a2, b1, b2]);
+  });
+
   it('routes PDF export through saveMarkedPdf', async () => {
     const pdfFile = new File(['pdf'], 'sample.pdf', { type: 'application/pdf' });
     const options = {
@@ -210,7 +561,15 @@ describe('useWorkspaceFileActions', () => {
     expect(pdfServiceMocks.saveMarkedPdf).toHaveBeenCalledWith(
       expect.any(ArrayBuffer),
       options.effectiveExportCuts,
-      options.effectiveExportSettings
+      options.effectiveExportSettings,
+      {
+        markMode: 'layer',
+        writeMode: 'incremental',
+        onRewriteFallback: expect.any(Function),
+        project: null,
+        onProgress: expect.any(Function),
+        signal: expect.any(AbortSignal),
+      }
     );
     expect(alertSpy).not.toHaveBeenCalled();
     expect(createObjectUrlSpy).toHaveBeenCalledTimes(1);
@@ -218,6 +577,285 @@ describe('useWorkspaceFileActions', () => {
     expect(clickSpy).toHaveBeenCalledTimes(1);
   });
 
+  it('asks before exporting a PDF whose restrictions were dropped by decrypting it', async () => {
+    const pdfFile = new File(['pdf'], 'restricted.pdf', { type: 'application/pdf' });
+    const options = {
+      ...createOptions(),
+      docType: 'pdf' as const,
+      pdfFile,
+    };
+    vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:pdf');
+    vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+    pdfImportMocks.hasDroppedRestrictions.mockImplementation((file: File) => file === pdfFile);
+    pdfServiceMocks.saveMarkedPdf.mockResolvedValue(new Uint8Array([1, 2, 3]));
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.handleExportPdf();
+    });
+    expect(confirmSpy).toHaveBeenCalledTimes(1);
+    expect(pdfServiceMocks.saveMarkedPdf).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await result.current.handleExportPdf();
+    });
+    expect(confirmSpy).toHaveBeenCalledTimes(2);
+    expect(pdfServiceMocks.saveMarkedPdf).toHaveBeenCalledTimes(1);
+  });
+
+  it('rewrites a PDF that was rewritten on import and logs when appending falls back', async () => {
+    const pdfFile = new File(['pdf'], 'decrypted.pdf', { type: 'application/pdf' });
+    const options = {
+      ...createOptions(),
+      docType: 'pdf' as const,
+      pdfFile,
+    };
+    vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:pdf');
+    vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    pdfImportMocks.isRewrittenOnImport.mockImplementation((file: File) => file === pdfFile);
+    pdfServiceMocks.saveMarkedPdf.mockImplementation(
+      async (_bytes: ArrayBuffer, _cuts: Cut[], _settings: unknown, { onRewriteFallback }) => {
+        onRewriteFallback?.('no cross-reference section');
+        return new Uint8Array([1, 2, 3]);
+      }
+    );
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.handleExportPdf();
+    });
+
+    expect(pdfServiceMocks.saveMarkedPdf).toHaveBeenCalledWith(
+      expect.any(ArrayBuffer),
+      options.effectiveExportCuts,
+      options.effectiveExportSettings,
+      expect.objectContaining({ writeMode: 'rewrite' })
+    );
+    expect(options.logDebug).toHaveBeenCalledWith('warn', 'PDFに追記できないため全体を書き直し', expect.any(Function));
+    const fallbackLog = options.logDebug.mock.calls.find(([level]) => level === 'warn');
+    expect(fallbackLog?.[2]()).toEqual({
+      filename: 'marked_decrypted.pdf',
+      reason: 'no cross-reference section',
+    });
+  });
+
+  it('exports one marked PDF per source file with the cuts moved back to their own pages', async () => {
+    const partA = new File(['a'], 'ep01_A.pdf', { type: 'application/pdf' });
+    const scanB = new File(['b'], 'ep01_B.jpg', { type: 'image/jpeg' });
+    const cutOnA = { id: 'a', pageIndex: 1, x: 0.1, y: 0.1, label: '001', isBranch: false };
+    const cutOnB = { id: 'b', pageIndex: 2, x: 0.1, y: 0.1, label: '002', isBranch: false };
+    const options = {
+      ...createOptions(),
+      docType: 'pdf' as const,
+      pdfFile: new File(['ab'], 'ep01_A+ep01_B.pdf', { type: 'application/pdf' }),
+      pdfSources: [
+        { kind: 'pdf' as const, file: partA, pageCount: 2 },
+        { kind: 'image' as const, file: scanB, pageCount: 1 },
+      ],
+      pdfSourceExportMode: 'per-source' as const,
+      effectiveExportCuts: [cutOnA, cutOnB],
+    };
+    vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:pdf');
+    vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+    const downloads: string[] = [];
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      downloads.push(this.download);
+    });
+    pdfServiceMocks.saveMarkedPdf.mockResolvedValue(new Uint8Array([1, 2, 3]));
+    pdfServiceMocks.saveImagesAsPdf.mockResolvedValue(new Uint8Array([4, 5, 6]));
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.handleExportPdf();
+    });
+
+    expect(pdfServiceMocks.saveMarkedPdf).toHaveBeenCalledWith(
+      expect.any(ArrayBuffer),
+      [cutOnA],
+      options.effectiveExportSettings,
+      expect.objectContaining({ writeMode: 'incremental' })
+    );
+    expect(pdfServiceMocks.saveImagesAsPdf).toHaveBeenCalledWith(
+      [scanB],
+      [{ ...cutOnB, pageIndex: 0 }],
+      options.effectiveExportSettings,
+      expect.objectContaining({ markMode: 'layer' })
+    );
+    expect(downloads).toEqual(['marked_ep01_A.pdf', 'marked_ep01_B.pdf']);
+  });
+
+  it('writes a rescan into the PDF it replaces a page of when exporting per source', async () => {
+    const pdfFile = new File(['merged'], 'ep01+ep02.pdf', { type: 'application/pdf' });
+    const ep01 = new File(['ep01'], 'ep01.pdf', { type: 'application/pdf' });
+    const ep02 = new File(['ep02'], 'ep02.pdf', { type: 'application/pdf' });
+    const scan = new File(['scan'], 'ep01_p12.png', { type: 'image/png' });
+    const assembledFile = new File(['assembled'], 'ep01.pdf', { type: 'application/pdf' });
+    const cutOnScan = { id: 'scan', pageIndex: 11, x: 0.1, y: 0.1, label: '012', isBranch: false };
+    const cutOnEp02 = { id: 'ep02', pageIndex: 20, x: 0.1, y: 0.1, label: '021', isBranch: false };
+    const options = {
+      ...createOptions(),
+      docType: 'pdf' as const,
+      pdfFile,
+      pdfSources: [
+        { kind: 'pdf' as const, file: ep01, pageCount: 11 },
+        { kind: 'image' as const, file: scan, pageCount: 1, replacedPage: { file: ep01, pageNumber: 12 } },
+        { kind: 'pdf' as const, file: ep01, pageCount: 8, firstPage: 13 },
+        { kind: 'pdf' as const, file: ep02, pageCount: 4 },
+      ],
+      pdfSourceExportMode: 'per-source' as const,
+      effectiveExportCuts: [cutOnScan, cutOnEp02],
+    };
+    vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:pdf');
+    vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+    const downloads: string[] = [];
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      downloads.push(this.download);
+    });
+    pdfImportMocks.arrangePdfPages.mockResolvedValue(assembledFile);
+    pdfServiceMocks.saveMarkedPdf.mockResolvedValue(new Uint8Array([1, 2, 3]));
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.handleExportPdf();
+    });
+
+    expect(pdfImportMocks.arrangePdfPages).toHaveBeenCalledWith(
+      pdfFile,
+      Array.from({ length: 20 }, (_, pageIndex) => pageIndex)
+    );
+    expect(pdfServiceMocks.saveMarkedPdf).toHaveBeenNthCalledWith(
+      1,
+      await assembledFile.arrayBuffer(),
+      [cutOnScan],
+      options.effectiveExportSettings,
+      expect.any(Object)
+    );
+    expect(pdfServiceMocks.saveMarkedPdf).toHaveBeenNthCalledWith(
+      2,
+      await ep02.arrayBuffer(),
+      [{ ...cutOnEp02, pageIndex: 0 }],
+      options.effectiveExportSettings,
+      expect.any(Object)
+    );
+    expect(pdfServiceMocks.saveImagesAsPdf).not.toHaveBeenCalled();
+    expect(downloads).toEqual(['marked_ep01.pdf', 'marked_ep02.pdf']);
+  });
+
+  it('writes each source in the order its pages are bound when exporting per source', async () => {
+    const pdfFile = new File(['merged'], 'ep01_A+ep01_B.pdf', { type: 'application/pdf' });
+    const partA = new File(['a'], 'ep01_A.pdf', { type: 'application/pdf' });
+    const partB = new File(['b'], 'ep01_B.pdf', { type: 'application/pdf' });
+    const arrangedFile = new File(['arranged'], 'ep01_B.pdf', { type: 'application/pdf' });
+    const cutOnA = { id: 'a', pageIndex: 1, x: 0.1, y: 0.1, label: '001', isBranch: false };
+    const cutOnB = { id: 'b', pageIndex: 4, x: 0.1, y: 0.1, label: '002', isBranch: false };
+    const options = {
+      ...createOptions(),
+      docType: 'pdf' as const,
+      pdfFile,
+      pdfSources: [
+        { kind: 'pdf' as const, file: partA, pageCount: 2 },
+        { kind: 'pdf' as const, file: partB, pageCount: 3 },
+      ],
+      pdfSourceExportMode: 'per-source' as const,
+      isLoadedProjectActive: true,
+      // The last page of B is bound ahead of the rest of the storyboard
+      effectiveExportPageOrder: [4, 0, 1, 2, 3],
+      effectiveExportCuts: [cutOnA, cutOnB],
+    };
+    vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:pdf');
+    vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    pdfImportMocks.arrangePdfPages.mockResolvedValue(arrangedFile);
+    pdfServiceMocks.saveMarkedPdf.mockResolvedValue(new Uint8Array([1, 2, 3]));
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.handleExportPdf();
+    });
+
+    expect(pdfImportMocks.arrangePdfPages).toHaveBeenCalledTimes(1);
+    expect(pdfImportMocks.arrangePdfPages).toHaveBeenCalledWith(pdfFile, [4, 2, 3]);
+    expect(pdfServiceMocks.saveMarkedPdf).toHaveBeenNthCalledWith(
+      1,
+      await partA.arrayBuffer(),
+      [cutOnA],
+      options.effectiveExportSettings,
+      expect.any(Object)
+    );
+    expect(pdfServiceMocks.saveMarkedPdf).toHaveBeenNthCalledWith(
+      2,
+      await arrangedFile.arrayBuffer(),
+      [{ ...cutOnB, pageIndex: 0 }],
+      options.effectiveExportSettings,
+      expect.any(Object)
+    );
+  });
+
+  it('writes a merged storyboard in the order its pages are bound', async () => {
+    const pdfFile = new File(['merged'], 'ep01+ep01_extra.pdf', { type: 'application/pdf' });
+    const arrangedFile = new File(['arranged'], 'ep01+ep01_extra.pdf', { type: 'application/pdf' });
+    const cutOnScan = { id: 'scan', pageIndex: 2, x: 0.1, y: 0.1, label: '002', isBranch: false };
+    const options = {
+      ...createOptions(),
+      docType: 'pdf' as const,
+      pdfFile,
+      pdfSources: [
+        { kind: 'pdf' as const, file: new File(['pdf'], 'ep01.pdf'), pageCount: 2 },
+        { kind: 'image' as const, file: new File(['jpg'], 'ep01_extra.jpg'), pageCount: 1 },
+      ],
+      isLoadedProjectActive: true,
+      // The scan at the end is bound in place of the second page
+      effectiveExportPageOrder: [0, 2],
+      effectiveExportCuts: [cutOnScan],
+    };
+    vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:pdf');
+    vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    pdfImportMocks.arrangePdfPages.mockResolvedValue(arrangedFile);
+    pdfServiceMocks.saveMarkedPdf.mockResolvedValue(new Uint8Array([1, 2, 3]));
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.handleExportPdf();
+    });
+
+    expect(pdfImportMocks.arrangePdfPages).toHaveBeenCalledWith(pdfFile, [0, 2]);
+    expect(pdfServiceMocks.saveMarkedPdf).toHaveBeenCalledWith(
+      await arrangedFile.arrayBuffer(),
+      [{ ...cutOnScan, pageIndex: 1 }],
+      options.effectiveExportSettings,
+      expect.any(Object)
+    );
+  });
+
+  it('explains why an encrypted PDF could not be marked', async () => {
+    const options = {
+      ...createOptions(),
+      docType: 'pdf' as const,
+      pdfFile: new File(['pdf'], 'locked.pdf', { type: 'application/pdf' }),
+    };
+    const alertSpy = vi.spyOn(window, 'alert').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    pdfServiceMocks.saveMarkedPdf.mockRejectedValue(new EncryptedPdfExportError());
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.handleExportPdf();
+    });
+
+    expect(alertSpy).toHaveBeenCalledWith(expect.stringContaining('暗号化'));
+  });
+
   it('downloads the project file alongside PDF export when the option is enabled', async () => {
     const pdfFile = new File(['pdf'], 'sample.pdf', { type: 'application/pdf' });
     const options = {
@@ -279,4 +917,103 @@ describe('useWorkspaceFileActions', () => {
 
     expect(options.exportProjectFile).not.toHaveBeenCalled();
   });
+
+  it('passes the chosen format, quality and size limit to image export', async () => {
+    const imageFiles = [new File(['img'], '001.png', { type: 'image/png' })];
+    const options = {
+      ...createOptions(),
+      docType: 'images' as const,
+      imageFiles,
+      imageExportOptions: { format: 'webp' as const, quality: 0.6, maxLongEdge: 2000 },
+    };
+    imageExportServiceMocks.exportImagesAsZip.mockResolvedValue(true);
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.handleExportImages();
+    });
+
+    expect(imageExportServiceMocks.exportImagesAsZip).toHaveBeenCalledWith(
+      imageFiles,
+      options.effectiveExportCuts,
+      options.effectiveExportSettings,
+      { format: 'webp', quality: 0.6, maxLongEdge: 2000 },
+      { onProgress: expect.any(Function), signal: expect.any(AbortSignal) }
+    );
+  });
+
+  it('rasterizes PDF pages for image export with the chosen options', async () => {
+    const pdfFile = new File(['pdf'], 'sample.pdf', { type: 'application/pdf' });
+    const options = {
+      ...createOptions(),
+      docType: 'pdf' as const,
+      pdfFile,
+      pdfImageExportOptions: { dpi: 600, format: 'jpeg' as const, quality: 0.9, maxLongEdge: 2000 },
+    };
+    const alertSpy = vi.spyOn(window, 'alert').mockImplementation(() => {});
+    const loadingTask = { promise: Promise.resolve({ numPages: 1 }) };
+    pdfjsDocumentMocks.openPdfjsDocument.mockResolvedValue(loadingTask);
+    pdfPageExportServiceMocks.savePdfPagesZip.mockResolvedValue(true);
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    await act(async () => {
+      await result.current.handleExportImages();
+    });
+
+    expect(alertSpy).not.toHaveBeenCalled();
+    expect(imageExportServiceMocks.exportImagesAsZip).not.toHaveBeenCalled();
+    expect(pdfjsDocumentMocks.openPdfjsDocument).toHaveBeenCalledWith(pdfFile);
+    expect(pdfPageExportServiceMocks.savePdfPagesZip).toHaveBeenCalledWith(
+      loadingTask,
+      pdfFile,
+      options.effectiveExportCuts,
+      options.effectiveExportSettings,
+      { dpi: 600, format: 'jpeg', quality: 0.9, maxLongEdge: 2000 },
+      expect.any(Function),
+      { onProgress: expect.any(Function), signal: expect.any(AbortSignal) }
+    );
+  });
+
+  it('tracks PDF export progress and cancels without downloading', async () => {
+    const pdfFile = new File(['pdf'], 'sample.pdf', { type: 'application/pdf' });
+    const options = {
+      ...createOptions(),
+      docType: 'pdf' as const,
+      pdfFile,
+    };
+    const alertSpy = vi.spyOn(window, 'alert').mockImplementation(() => {});
+    const clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    pdfServiceMocks.saveMarkedPdf.mockImplementation(
+      (_bytes, _cuts, _settings, { onProgress, signal }) =>
+        new Promise((_resolve, reject) => {
+          onProgress(1, 2);
+          signal.addEventListener('abort', () => reject(signal.reason));
+        })
+    );
+
+    const { result } = renderHook(() => useWorkspaceFileActions(options));
+
+    let exportPromise: Promise<void> = Promise.resolve();
+    await act(async () => {
+      exportPromise = result.current.handleExportPdf();
+      await Promise.resolve();
+    });
+
+    expect(result.current.exportProgress).toEqual(
+      expect.objectContaining({ current: 1, total: 2, isCancelling: false })
+    );
+
+    await act(async () => {
+      result.current.cancelExport();
+      await exportPromise;
+    });
+
+    expect(alertSpy).not.toHaveBeenCalled();
+    expect(clickSpy).not.toHaveBeenCalled();
+    expect(result.current.exportProgress).toBeNull();
+    expect(options.setIsExporting).toHaveBeenLastCalledWith(false);
+    expect(options.logDebug).toHaveBeenCalledWith('info', 'PDF書き出しキャンセル');
+  });
 });
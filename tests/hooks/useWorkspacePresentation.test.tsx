@@ -54,7 +54,7 @@ describe('useWorkspacePresentation', () => {
         ...current,
         xPosition: 0.5,
       }));
-      result.current.setEffectiveNumberingState({ nextNumber: 30, branchChar: 'A' });
+      result.current.setEffectiveNumberingState({ nextNumber: 30, branchChar: 'A', sceneNumber: null });
       result.current.handleTemplateChange(template.id);
       result.current.handleSaveTemplate('Saved');
       result.current.handleDeleteTemplate();
@@ -111,7 +111,7 @@ describe('useWorkspacePresentation', () => {
         ...current,
         xPosition: 0.2,
       }));
-      result.current.setEffectiveNumberingState({ nextNumber: 8, branchChar: null });
+      result.current.setEffectiveNumberingState({ nextNumber: 8, branchChar: null, sceneNumber: null });
       result.current.handleTemplateChange(template.id);
       result.current.handleSaveTemplate('Local');
       result.current.handleDeleteTemplate();
@@ -123,6 +123,7 @@ describe('useWorkspacePresentation', () => {
     expect(setCurrentNumberingStateWithHistory).toHaveBeenCalledWith({
       nextNumber: 8,
       branchChar: null,
+      sceneNumber: null,
     });
     expect(templateApi.changeTemplate).toHaveBeenCalledWith(template.id);
     expect(templateApi.saveTemplateByName).toHaveBeenCalledWith('Local');
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  downgradeProjectDocument,
+  migrateProjectDocument,
+} from '../../repositories/projectMigrations';
+import { CURRENT_PROJECT_VERSION, createLogicalPage, createProjectDocument } from '../../domain/project';
+import { createAppSettings, createTemplate } from '../../test/factories';
+
+const project = createProjectDocument({
+  settings: createAppSettings(),
+  template: createTemplate(),
+  name: 'Episode 01',
+  savedAt: '2026-04-18T00:00:00.000Z',
+  logicalPages: [createLogicalPage({ id: 'page-1' })],
+});
+
+describe('repositories/projectMigrations', () => {
+  it('upgrades a v1 document step by step and fills the fields v2 always writes', () => {
+    const numbering: Record<string, unknown> = { ...project.numbering };
+    delete numbering.labelFormat;
+    delete numbering.sceneNumber;
+    const style: Record<string, unknown> = { ...project.style };
+    delete style.labelFont;
+
+    const migrated = migrateProjectDocument({
+      ...project,
+      version: 1,
+      numbering,
+      style,
+      reviewer: 'kept',
+    });
+
+    expect(migrated).toEqual({ ...project, reviewer: 'kept' });
+  });
+
+  it('takes the scene number out of the label format of the first label format builds', () => {
+    const numbering: Record<string, unknown> = { ...project.numbering };
+    delete numbering.sceneNumber;
+
+    const migrated = migrateProjectDocument({
+      ...project,
+      version: 1,
+      numbering: { ...numbering, labelFormat: { ...project.numbering.labelFormat, sceneNumber: 3 } },
+    });
+
+    expect(migrated).toEqual({ ...project, numbering: { ...project.numbering, sceneNumber: 3 } });
+  });
+
+  it('leaves current documents and non-objects alone', () => {
+    expect(migrateProjectDocument(project)).toEqual(project);
+    expect(migrateProjectDocument('not a project')).toBe('not a project');
+  });
+
+  it('tells newer files apart from unknown versions', () => {
+    expect(() => migrateProjectDocument({ ...project, version: CURRENT_PROJECT_VERSION + 1 })).toThrow(
+      `Unsupported project version ${CURRENT_PROJECT_VERSION + 1}: saved by a newer CutMark`
+    );
+    expect(() => migrateProjectDocument({ ...project, version: '1' })).toThrow(
+      'Unsupported project version'
+    );
+  });
+
+  it('downgrades for older builds and migrates back without losing anything', () => {
+    const downgraded = downgradeProjectDocument(project, 1);
+
+    expect(downgraded.version).toBe(1);
+    expect(migrateProjectDocument(downgraded)).toEqual(project);
+    expect(downgradeProjectDocument(project, CURRENT_PROJECT_VERSION)).toEqual(project);
+    expect(() => downgradeProjectDocument(project, 0)).toThrow('Unsupported project version 0');
+  });
+});
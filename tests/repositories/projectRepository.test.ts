@@ -1,11 +1,14 @@
 import { describe, expect, it, vi } from 'vitest';
 import {
+  chooseProjectSaveTarget,
   createProjectDownloadFileName,
   downloadProjectDocument,
-  loadProjectDocumentFromFile,
   parseProjectDocument,
+  parseProjectDocumentWithRecovery,
   PROJECT_FILE_EXTENSION,
+  recoverProjectDocumentFromFile,
   serializeProjectDocument,
+  writeProjectDocument,
 } from '../../repositories/projectRepository';
 import {
   createLogicalPage,
@@ -35,10 +38,93 @@ describe('repositories/projectRepository', () => {
     expect(parsed).not.toBe(project);
   });
 
+  it('round-trips label formats and scene starts and fills defaults for older files', () => {
+    const formattedProject = {
+      ...project,
+      logicalPages: [
+        {
+          ...project.logicalPages[0],
+          cuts: [{ ...project.logicalPages[0].cuts[0], startsScene: true }],
+        },
+      ],
+      numbering: {
+        ...project.numbering,
+        sceneNumber: 3,
+        labelFormat: {
+          ...project.numbering.labelFormat,
+          prefix: 'C',
+          scenePrefix: 'S',
+        },
+      },
+    };
+    expect(parseProjectDocument(serializeProjectDocument(formattedProject))).toEqual(
+      formattedProject
+    );
+
+    const legacyNumbering: Record<string, unknown> = { ...project.numbering };
+    delete legacyNumbering.labelFormat;
+    delete legacyNumbering.sceneNumber;
+    const legacy = parseProjectDocument(
+      JSON.stringify({ ...project, version: 1, numbering: legacyNumbering })
+    );
+    expect(legacy.numbering.labelFormat).toEqual(project.numbering.labelFormat);
+    expect(legacy.numbering.sceneNumber).toBeNull();
+
+    expect(() =>
+      parseProjectDocument(
+        JSON.stringify({
+          ...project,
+          numbering: { ...project.numbering, sceneNumber: '3' },
+        })
+      )
+    ).toThrow('$.numbering.sceneNumber 数値または null ではありません');
+  });
+
+  it('round-trips an embedded label font and defaults it to null for older files', () => {
+    const withFont = {
+      ...project,
+      style: { ...project.style, labelFont: { name: 'NotoSansJP.otf', data: 'T1RUTwAK' } },
+    };
+    expect(parseProjectDocument(serializeProjectDocument(withFont))).toEqual(withFont);
+
+    const legacyStyle: Record<string, unknown> = { ...project.style };
+    delete legacyStyle.labelFont;
+    expect(
+      parseProjectDocument(JSON.stringify({ ...project, version: 1, style: legacyStyle })).style.labelFont
+    ).toBeNull();
+
+    expect(() =>
+      parseProjectDocument(
+        JSON.stringify({ ...project, style: { ...project.style, labelFont: { name: 'x.ttf' } } })
+      )
+    ).toThrow('$.style.labelFont.data 文字列ではありません');
+  });
+
   it('rejects an unsupported project version', () => {
     expect(() =>
       parseProjectDocument(JSON.stringify({ ...project, version: 999 }))
     ).toThrow('Unsupported project version');
+    expect(() =>
+      parseProjectDocument(JSON.stringify({ ...project, version: 0 }))
+    ).toThrow('Unsupported project version');
+  });
+
+  it('preserves fields it does not know about', () => {
+    const withExtras = {
+      ...project,
+      reviewer: 'A. Suzuki',
+      logicalPages: [{ ...project.logicalPages[0], color: 'red' }],
+      numbering: { ...project.numbering, futureOption: true },
+    };
+
+    expect(parseProjectDocument(JSON.stringify(withExtras))).toEqual(withExtras);
+  });
+
+  it('serializes an older version for builds that cannot read the current one', () => {
+    const serialized = serializeProjectDocument(project, 1);
+
+    expect(JSON.parse(serialized)).toEqual({ ...project, version: 1 });
+    expect(parseProjectDocument(serialized)).toEqual(project);
   });
 
   it('creates a safe project filename', () => {
@@ -55,10 +141,27 @@ describe('repositories/projectRepository', () => {
       type: 'application/json',
     });
 
-    await expect(loadProjectDocumentFromFile(file)).resolves.toEqual(project);
+    await expect(recoverProjectDocumentFromFile(file)).resolves.toEqual({ project, issues: [] });
+  });
+
+  it('recovers a damaged project document and reports what it changed', () => {
+    const damaged = JSON.stringify({
+      ...project,
+      version: 1,
+      logicalPages: [
+        { ...project.logicalPages[0], cuts: [{ ...project.logicalPages[0].cuts[0], x: -0.5 }] },
+      ],
+    });
+
+    expect(() => parseProjectDocument(damaged)).toThrow('$.logicalPages[0].cuts[0].x');
+    const { project: recovered, issues } = parseProjectDocumentWithRecovery(damaged);
+    expect(recovered.logicalPages[0].cuts[0].x).toBe(0);
+    expect(issues).toEqual([
+      { path: '$.logicalPages[0].cuts[0].x', message: '0〜1 の範囲外です', action: 'repaired' },
+    ]);
   });
 
-  it('downloads a serialized project document', () => {
+  it('downloads a serialized project document', async () => {
     const appendSpy = vi.spyOn(document.body, 'appendChild');
     const removeSpy = vi.spyOn(document.body, 'removeChild');
     const createSpy = vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:test');
@@ -67,12 +170,60 @@ describe('repositories/projectRepository', () => {
       .spyOn(HTMLAnchorElement.prototype, 'click')
       .mockImplementation(() => {});
 
-    downloadProjectDocument(project);
+    downloadProjectDocument(project, { version: 1 });
 
     expect(createSpy).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(await (createSpy.mock.calls[0][0] as Blob).text()).version).toBe(1);
     expect(appendSpy).toHaveBeenCalledTimes(1);
     expect(clickSpy).toHaveBeenCalledTimes(1);
     expect(removeSpy).toHaveBeenCalledTimes(1);
     expect(revokeSpy).toHaveBeenCalledWith('blob:test');
   });
+
+  it('overwrites a picked file and falls back to a download without the save picker', async () => {
+    const windowWithSaveFilePicker = window as typeof window & { showSaveFilePicker?: unknown };
+    expect(await chooseProjectSaveTarget('ep01.cutmark')).toBe('download');
+
+    const write = vi.fn().mockResolvedValue(undefined);
+    const close = vi.fn().mockResolvedValue(undefined);
+    const abort = vi.fn().mockResolvedValue(undefined);
+    const handle = {
+      name: 'ep01.cutmark',
+      createWritable: vi.fn().mockResolvedValue({ write, close, abort }),
+    };
+    windowWithSaveFilePicker.showSaveFilePicker = vi.fn().mockResolvedValue(handle);
+
+    try {
+      expect(await chooseProjectSaveTarget('ep01.cutmark')).toBe(handle);
+      expect(windowWithSaveFilePicker.showSaveFilePicker).toHaveBeenCalledWith(
+        expect.objectContaining({ suggestedName: 'ep01.cutmark' })
+      );
+
+      await writeProjectDocument(project, handle, { version: 1 });
+      expect(JSON.parse(await (write.mock.calls[0][0] as Blob).text()).version).toBe(1);
+      expect(close).toHaveBeenCalledTimes(1);
+
+      windowWithSaveFilePicker.showSaveFilePicker = vi
+        .fn()
+        .mockRejectedValue(new DOMException('cancelled', 'AbortError'));
+      expect(await chooseProjectSaveTarget('ep01.cutmark')).toBeNull();
+    } finally {
+      delete windowWithSaveFilePicker.showSaveFilePicker;
+    }
+  });
+
+  it('aborts the writable when writing the picked file fails', async () => {
+    const writeError = new DOMException('disk full', 'QuotaExceededError');
+    const write = vi.fn().mockRejectedValue(writeError);
+    const close = vi.fn().mockResolvedValue(undefined);
+    const abort = vi.fn().mockResolvedValue(undefined);
+    const handle = {
+      name: 'ep01.cutmark',
+      createWritable: vi.fn().mockResolvedValue({ write, close, abort }),
+    };
+
+    await expect(writeProjectDocument(project, handle)).rejects.toBe(writeError);
+    expect(abort).toHaveBeenCalledTimes(1);
+    expect(close).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { createProjectDocument } from '../../domain/project';
+import {
+  ProjectValidationError,
+  recoverProjectDocument,
+} from '../../repositories/projectValidation';
+import { assertIsProjectDocument } from '../../repositories/projectRepository';
+import { createAppSettings, createTemplate } from '../../test/factories';
+
+const project = createProjectDocument({
+  settings: createAppSettings(),
+  template: createTemplate(),
+  name: 'Episode 01',
+  savedAt: '2026-04-18T00:00:00.000Z',
+  logicalPages: [
+    {
+      id: 'page-1',
+      cuts: [
+        { id: 'cut-1', x: 0.1, y: 0.2, label: '001', isBranch: false },
+        { id: 'cut-2', x: 0.1, y: 0.4, label: '002', isBranch: false, startsScene: true },
+      ],
+      expectedAssetHint: { sourceKind: 'image', sourceLabel: '001.png', pageNumber: 1 },
+    },
+    { id: 'page-2', cuts: [], expectedAssetHint: null },
+  ],
+});
+
+type JsonContainer = Record<string | number, unknown>;
+
+// Overwrites the value at each path of a copy of the project, in order
+const damage = (...edits: Array<[path: Array<string | number>, value: unknown]>) => {
+  const value = structuredClone(project) as unknown as JsonContainer;
+  for (const [path, replacement] of edits) {
+    const parent = path
+      .slice(0, -1)
+      .reduce<JsonContainer>((node, key) => node[key] as JsonContainer, value);
+    parent[path[path.length - 1]] = structuredClone(replacement);
+  }
+  return value;
+};
+
+describe('repositories/projectValidation', () => {
+  it('returns a valid project unchanged and without issues', () => {
+    expect(recoverProjectDocument(JSON.parse(JSON.stringify(project)))).toEqual({
+      project,
+      issues: [],
+    });
+  });
+
+  it('collects every problem with its JSON path instead of stopping at the first', () => {
+    const { project: recovered, issues } = recoverProjectDocument(
+      damage(
+        [['meta', 'name'], 42],
+        [['logicalPages', 0, 'cuts', 0, 'x'], 'left'],
+        [['logicalPages', 0, 'cuts', 1, 'y'], 1.4],
+        [['logicalPages', 1, 'cuts'], null],
+        [['numbering', 'minDigits'], '3'],
+        [['template', 'rowPositions'], [0.1, 'mid', 0.9]]
+      )
+    );
+
+    expect(issues).toEqual([
+      { path: '$.meta.name', message: '文字列ではありません', action: 'repaired' },
+      { path: '$.logicalPages[0].cuts[0].x', message: '数値ではありません', action: 'dropped' },
+      { path: '$.logicalPages[0].cuts[1].y', message: '0〜1 の範囲外です', action: 'repaired' },
+      { path: '$.logicalPages[1].cuts', message: '配列ではありません', action: 'repaired' },
+      { path: '$.numbering.minDigits', message: '数値ではありません', action: 'repaired' },
+      { path: '$.template.rowPositions[1]', message: '数値ではありません', action: 'dropped' },
+    ]);
+    expect(recovered.meta.name).toBe('Untitled Project');
+    expect(recovered.logicalPages.map((page) => page.cuts.map((cut) => [cut.id, cut.y]))).toEqual([
+      [['cut-2', 1]],
+      [],
+    ]);
+    expect(recovered.numbering.minDigits).toBe(3);
+    expect(recovered.template.rowPositions).toEqual([0.1, 0.9]);
+  });
+
+  it('salvages pages and cuts and repairs what can be inferred', () => {
+    const { project: recovered, issues } = recoverProjectDocument(
+      damage(
+        [['logicalPages'], [project.logicalPages[0], 'not a page', project.logicalPages[1]]],
+        [['logicalPages', 0, 'cuts', 0, 'label'], 7],
+        [['logicalPages', 0, 'cuts', 0, 'isBranch'], 'no'],
+        [['logicalPages', 0, 'cuts', 1, 'id'], 'cut-1'],
+        [['logicalPages', 0, 'cuts', 1, 'startsScene'], 'yes'],
+        [['logicalPages', 0, 'expectedAssetHint', 'width'], 'wide'],
+        [['logicalPages', 2, 'id'], 'page-1'],
+        [['style', 'labelFont'], { name: 'font.otf' }]
+      )
+    );
+
+    expect(issues.map(({ path, action }) => [path, action])).toEqual([
+      ['$.logicalPages[0].cuts[0].label', 'repaired'],
+      ['$.logicalPages[0].cuts[0].isBranch', 'repaired'],
+      ['$.logicalPages[0].cuts[1].startsScene', 'repaired'],
+      ['$.logicalPages[0].cuts[1].id', 'repaired'],
+      ['$.logicalPages[0].expectedAssetHint.width', 'repaired'],
+      ['$.logicalPages[1]', 'dropped'],
+      ['$.logicalPages[2].id', 'repaired'],
+      ['$.style.labelFont.data', 'repaired'],
+    ]);
+
+    const [firstPage, secondPage] = recovered.logicalPages;
+    expect(recovered.logicalPages).toHaveLength(2);
+    expect(firstPage.cuts[0]).toMatchObject({ label: '7', isBranch: false });
+    expect(firstPage.cuts[1].id).not.toBe('cut-1');
+    expect(firstPage.cuts[1]).not.toHaveProperty('startsScene');
+    expect(firstPage.expectedAssetHint).toEqual({
+      sourceKind: 'image',
+      sourceLabel: '001.png',
+      pageNumber: 1,
+    });
+    expect(secondPage.id).not.toBe('page-1');
+    expect(recovered.style.labelFont).toBeNull();
+  });
+
+  it('falls back to default settings when a whole section is unreadable', () => {
+    const { project: recovered, issues } = recoverProjectDocument(
+      damage([['numbering'], null], [['template'], 'standard'])
+    );
+
+    expect(issues).toContainEqual({
+      path: '$.numbering',
+      message: 'オブジェクトではありません',
+      action: 'repaired',
+    });
+    expect(recovered.numbering).toMatchObject({ nextNumber: 1, minDigits: 3, autoIncrement: true });
+    expect(recovered.template).toMatchObject({ id: 'default', rowCount: 5 });
+    expect(recovered.logicalPages).toEqual(project.logicalPages);
+  });
+
+  it('gives up only when there is nothing to salvage', () => {
+    expect(() => recoverProjectDocument([])).toThrow('Project document must be an object');
+    expect(() => recoverProjectDocument(damage([['logicalPages'], {}]))).toThrow(
+      'Project logicalPages must be an array'
+    );
+  });
+
+  it('reports every problem at once when strict validation fails', () => {
+    const damaged = damage(
+      [['logicalPages', 0, 'cuts', 0, 'x'], null],
+      [['style', 'fontSize'], 'large']
+    );
+
+    expect(() => assertIsProjectDocument(damaged)).toThrow(ProjectValidationError);
+    try {
+      assertIsProjectDocument(damaged);
+    } catch (error) {
+      expect((error as ProjectValidationError).issues.map((issue) => issue.path)).toEqual([
+        '$.logicalPages[0].cuts[0].x',
+        '$.style.fontSize',
+      ]);
+    }
+  });
+});
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getLabelFontId } from '../../services/labelFont';
+import {
+  listRecentProjects,
+  MAX_RECENT_PROJECTS,
+  saveRecentProject,
+} from '../../repositories/recentProjectRepository';
+
+const databaseMocks = vi.hoisted(() => ({
+  readAllStoredValues: vi.fn(),
+  readStoredValue: vi.fn(),
+  writeStoredValue: vi.fn(),
+  deleteStoredValue: vi.fn(),
+  readAllStoredKeys: vi.fn(),
+}));
+
+vi.mock('../../repositories/browserDatabase', () => ({
+  RECENT_PROJECTS_STORE: 'recent-projects',
+  RECENT_PROJECT_MATERIAL_STORE: 'recent-project-material',
+  RECENT_PROJECT_FONTS_STORE: 'recent-project-fonts',
+  readAllStoredKeys: databaseMocks.readAllStoredKeys,
+  readAllStoredValues: databaseMocks.readAllStoredValues,
+  readStoredValue: databaseMocks.readStoredValue,
+  writeStoredValue: databaseMocks.writeStoredValue,
+  deleteStoredValue: databaseMocks.deleteStoredValue,
+}));
+
+const createEntry = (index: number) => ({
+  id: `ep${index}`,
+  name: `ep${index}`,
+  savedAt: `2026-01-${String(index).padStart(2, '0')}T00:00:00.000Z`,
+  serializedProject: '{}',
+});
+
+const toStoredEntry = (entry: ReturnType<typeof createEntry>) => ({ ...entry, labelFont: null });
+
+const pdfFile = new File(['pdf'], 'ep.pdf');
+const labelFont = { name: 'label.otf', data: 'T1RUTwAKAIA=' };
+
+describe('repositories/recentProjectRepository', () => {
+  beforeEach(() => {
+    databaseMocks.readAllStoredValues.mockReset();
+    databaseMocks.readStoredValue.mockReset().mockResolvedValue([pdfFile]);
+    databaseMocks.writeStoredValue.mockReset().mockResolvedValue(undefined);
+    databaseMocks.deleteStoredValue.mockReset().mockResolvedValue(undefined);
+    databaseMocks.readAllStoredKeys.mockReset().mockResolvedValue([]);
+  });
+
+  it('lists the newest projects first with their material and skips entries it cannot read', async () => {
+    databaseMocks.readAllStoredValues.mockResolvedValue([
+      createEntry(1),
+      { id: 'broken' },
+      createEntry(3),
+    ]);
+    databaseMocks.readStoredValue.mockImplementation(async (_store: string, id: string) =>
+      id === 'ep3' ? [pdfFile] : ['not a file']
+    );
+
+    const projects = await listRecentProjects();
+
+    expect(projects.map((entry) => entry.id)).toEqual(['ep3', 'ep1']);
+    expect(projects.map((entry) => entry.materialFiles)).toEqual([[pdfFile], []]);
+  });
+
+  it('writes material only when it is given', async () => {
+    databaseMocks.readAllStoredValues.mockResolvedValue([createEntry(1)]);
+
+    await saveRecentProject(createEntry(1), [pdfFile]);
+    expect(databaseMocks.writeStoredValue).toHaveBeenCalledWith(
+      'recent-project-material',
+      'ep1',
+      [pdfFile]
+    );
+    expect(databaseMocks.writeStoredValue).toHaveBeenCalledWith('recent-projects', 'ep1', toStoredEntry(createEntry(1)));
+
+    databaseMocks.writeStoredValue.mockClear();
+    await saveRecentProject(createEntry(1));
+    expect(databaseMocks.writeStoredValue).toHaveBeenCalledTimes(1);
+    expect(databaseMocks.writeStoredValue).toHaveBeenCalledWith('recent-projects', 'ep1', toStoredEntry(createEntry(1)));
+  });
+
+  it('drops the oldest projects and their material beyond the limit after saving', async () => {
+    const entries = Array.from({ length: MAX_RECENT_PROJECTS + 1 }, (_, index) =>
+      createEntry(index + 1)
+    );
+    databaseMocks.readAllStoredValues.mockResolvedValue(entries);
+
+    await saveRecentProject(entries[MAX_RECENT_PROJECTS], [pdfFile]);
+
+    expect(databaseMocks.writeStoredValue).toHaveBeenCalledWith(
+      'recent-projects',
+      `ep${MAX_RECENT_PROJECTS + 1}`,
+      toStoredEntry(entries[MAX_RECENT_PROJECTS])
+    );
+    expect(databaseMocks.deleteStoredValue.mock.calls).toEqual([
+      ['recent-projects', 'ep1'],
+      ['recent-project-material', 'ep1'],
+    ]);
+  });
+
+  it('stores the label font once for every entry that uses it and puts it back when listing', async () => {
+    const fontId = getLabelFontId(labelFont);
+    const withFont = (index: number) => ({
+      ...createEntry(index),
+      serializedProject: JSON.stringify({ style: { labelFont } }),
+    });
+    const storedEntries: unknown[] = [];
+    databaseMocks.readAllStoredValues.mockImplementation(async () => storedEntries);
+    databaseMocks.writeStoredValue.mockImplementation(
+      async (store: string, _id: string, value: unknown) => {
+        if (store === 'recent-projects') storedEntries.push(value);
+      }
+    );
+
+    await saveRecentProject(withFont(1));
+    databaseMocks.readAllStoredKeys.mockResolvedValue([fontId]);
+    await saveRecentProject(withFont(2));
+
+    const fontWrites = databaseMocks.writeStoredValue.mock.calls.filter(
+      ([store]) => store === 'recent-project-fonts'
+    );
+    expect(fontWrites).toEqual([['recent-project-fonts', fontId, labelFont.data]]);
+    expect(storedEntries).toHaveLength(2);
+    for (const stored of storedEntries) {
+      expect(stored).toMatchObject({ labelFont: { id: fontId, name: labelFont.name } });
+      expect(JSON.stringify(stored)).not.toContain(labelFont.data);
+    }
+    expect(databaseMocks.deleteStoredValue).not.toHaveBeenCalled();
+
+    databaseMocks.readStoredValue.mockImplementation(async (store: string) =>
+      store === 'recent-project-fonts' ? labelFont.data : [pdfFile]
+    );
+    const projects = await listRecentProjects();
+    expect(projects.map(({ serializedProject }) => JSON.parse(serializedProject).style.labelFont)).toEqual([
+      labelFont,
+      labelFont,
+    ]);
+  });
+});
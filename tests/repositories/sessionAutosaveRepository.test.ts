@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAutosavedSession } from '../../application/sessionAutosave';
+import { createEditorState, createProjectDocument, EditorState } from '../../domain/project';
+import {
+  clearAutosavedSession,
+  loadAutosavedSession,
+  saveAutosavedSession,
+} from '../../repositories/sessionAutosaveRepository';
+import { createAppSettings, createTemplate } from '../../test/factories';
+
+const storedValues = vi.hoisted(() => new Map<string, unknown>());
+
+const databaseMocks = vi.hoisted(() => ({
+  readStoredValue: vi.fn(async (_store: string, key: string) => storedValues.get(key)),
+  readAllStoredKeys: vi.fn(async () => [...storedValues.keys()]),
+  writeStoredValue: vi.fn(async (_store: string, key: string, value: unknown) => {
+    storedValues.set(key, value);
+  }),
+  deleteStoredValue: vi.fn(async (_store: string, key: string) => {
+    storedValues.delete(key);
+  }),
+}));
+
+vi.mock('../../repositories/browserDatabase', () => ({
+  AUTOSAVE_STORE: 'autosave',
+  ...databaseMocks,
+}));
+
+const labelFont = { name: 'Label.otf', data: 'T1RUTwAKAIA=' };
+
+const createStep = (cutCount: number) =>
+  createEditorState(
+    createProjectDocument({
+      name: 'ep01',
+      settings: createAppSettings({ labelFont }),
+      template: createTemplate(),
+      logicalPages: [
+        {
+          id: 'page-1',
+          cuts: Array.from({ length: cutCount }, (_, index) => ({
+            id: `cut-${index + 1}`,
+            x: 0.1,
+            y: 0.1,
+            label: String(index + 1).padStart(3, '0'),
+            isBranch: false,
+          })),
+        },
+      ],
+    })
+  );
+
+const save = (past: EditorState[], present: EditorState) =>
+  saveAutosavedSession(createAutosavedSession({ past, present, future: [] }, null));
+
+const countWrites = () => databaseMocks.writeStoredValue.mock.calls.length;
+
+describe('repositories/sessionAutosaveRepository', () => {
+  beforeEach(() => {
+    storedValues.clear();
+    databaseMocks.writeStoredValue.mockClear();
+  });
+
+  it('writes only the new steps and drops the ones that fell out of the history', async () => {
+    const steps = [createStep(0), createStep(1), createStep(2), createStep(3)];
+
+    await save(steps.slice(0, 2), steps[2]);
+    // Three steps, the font and the session record
+    expect(countWrites()).toBe(5);
+
+    databaseMocks.writeStoredValue.mockClear();
+    await save(steps.slice(1, 3), steps[3]);
+    expect(countWrites()).toBe(2);
+    expect([...storedValues.keys()].filter((key) => key.startsWith('history-entry:'))).toHaveLength(3);
+
+    const loaded = await loadAutosavedSession();
+    expect(loaded?.history.present.state.project.logicalPages[0].cuts).toHaveLength(3);
+    expect(loaded?.history.past).toHaveLength(2);
+    expect(loaded?.labelFonts).toEqual([labelFont]);
+  });
+
+  it('offers nothing when a step is missing and clears every record', async () => {
+    await save([createStep(0)], createStep(1));
+    const entryKey = [...storedValues.keys()].find((key) => key.startsWith('history-entry:'));
+    storedValues.delete(entryKey!);
+
+    expect(await loadAutosavedSession()).toBeNull();
+
+    await clearAutosavedSession();
+    expect([...storedValues.keys()]).toEqual([]);
+  });
+});
@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runMarkedPdfExport, runPdfPagesZipExport } from '../../services/exportRunner';
+import { createAppSettings, createCut } from '../../test/factories';
+
+const { saveMarkedPdfMock, savePdfPagesZipMock, openPdfjsDocumentMock, chooseZipSaveTargetMock } =
+  vi.hoisted(() => ({
+    saveMarkedPdfMock: vi.fn(),
+    savePdfPagesZipMock: vi.fn(),
+    openPdfjsDocumentMock: vi.fn(),
+    chooseZipSaveTargetMock: vi.fn(),
+  }));
+
+vi.mock('../../services/pdfService', () => ({
+  saveMarkedPdf: saveMarkedPdfMock,
+  saveImagesAsPdf: vi.fn(),
+}));
+
+vi.mock('../../services/pdfPageExportService', () => ({
+  savePdfPagesZip: savePdfPagesZipMock,
+  getPdfPagesZipFileName: () => 'marked_source.zip',
+}));
+
+// react-pdf needs DOMMatrix, which jsdom lacks
+vi.mock('../../services/pdfjsDocument', () => ({
+  openPdfjsDocument: openPdfjsDocumentMock,
+  getPdfPassword: () => 'secret',
+}));
+
+vi.mock('../../services/zipDownload', () => ({
+  chooseZipSaveTarget: chooseZipSaveTargetMock,
+  saveZipBlob: vi.fn(),
+  writeZipResponse: vi.fn(),
+}));
+
+type FakeWorkerHandler = (worker: FakeWorker, message: unknown) => void;
+
+class FakeWorker {
+  static handler: FakeWorkerHandler = () => {};
+  static instances: FakeWorker[] = [];
+
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  messages: unknown[] = [];
+  terminate = vi.fn();
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: unknown) {
+    this.messages.push(message);
+    FakeWorker.handler(this, message);
+  }
+
+  respond(data: unknown) {
+    this.onmessage?.({ data } as MessageEvent);
+  }
+
+  fail(message: string) {
+    this.onerror?.({ message, preventDefault: () => {} } as ErrorEvent);
+  }
+}
+
+const createPdfFile = () => new File([new Uint8Array([1, 2, 3])], 'source.pdf', { type: 'application/pdf' });
+const pdfImageOptions = { dpi: 150, format: 'png', quality: 0.8, maxLongEdge: null } as const;
+
+describe('exportRunner', () => {
+  beforeEach(() => {
+    saveMarkedPdfMock.mockReset();
+    savePdfPagesZipMock.mockReset();
+    openPdfjsDocumentMock.mockReset();
+    chooseZipSaveTargetMock.mockReset();
+    FakeWorker.instances = [];
+    FakeWorker.handler = () => {};
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('falls back to the main thread when workers are unsupported', async () => {
+    saveMarkedPdfMock.mockResolvedValue(new Uint8Array([9]));
+    const cuts = [createCut({ id: 'cut-1' })];
+    const settings = createAppSettings();
+
+    const result = await runMarkedPdfExport(createPdfFile(), cuts, settings, { markMode: 'flatten' });
+
+    expect(result).toEqual(new Uint8Array([9]));
+    expect(saveMarkedPdfMock).toHaveBeenCalledWith(expect.any(ArrayBuffer), cuts, settings, {
+      markMode: 'flatten',
+    });
+  });
+
+  it('asks where to save before loading the PDF and stops when the picker is cancelled', async () => {
+    chooseZipSaveTargetMock.mockResolvedValue(null);
+
+    const saved = await runPdfPagesZipExport(createPdfFile(), [], createAppSettings(), pdfImageOptions);
+
+    expect(saved).toBe(false);
+    expect(chooseZipSaveTargetMock).toHaveBeenCalledWith('marked_source.zip');
+    expect(openPdfjsDocumentMock).not.toHaveBeenCalled();
+    expect(savePdfPagesZipMock).not.toHaveBeenCalled();
+  });
+
+  it('renders PDF pages on the main thread when workers are unsupported', async () => {
+    const loadingTask = { promise: Promise.resolve({ numPages: 1 }) };
+    chooseZipSaveTargetMock.mockResolvedValue('download');
+    openPdfjsDocumentMock.mockResolvedValue(loadingTask);
+    savePdfPagesZipMock.mockResolvedValue(true);
+    const pdfFile = createPdfFile();
+
+    const saved = await runPdfPagesZipExport(pdfFile, [], createAppSettings(), pdfImageOptions);
+
+    expect(saved).toBe(true);
+    expect(openPdfjsDocumentMock).toHaveBeenCalledWith(pdfFile);
+    expect(savePdfPagesZipMock.mock.calls[0][0]).toBe(loadingTask);
+  });
+
+  describe('with worker support', () => {
+    beforeEach(() => {
+      vi.stubGlobal('Worker', FakeWorker);
+      vi.stubGlobal('OffscreenCanvas', class {});
+    });
+
+    it('runs the export in the worker and forwards its progress and rewrite fallback', async () => {
+      const onProgress = vi.fn();
+      const onRewriteFallback = vi.fn();
+      FakeWorker.handler = (worker, message) => {
+        if ((message as { type: string }).type !== 'marked-pdf') return;
+        worker.respond({ type: 'ready' });
+        worker.respond({ type: 'progress', current: 1, total: 2 });
+        worker.respond({ type: 'rewrite-fallback', reason: 'broken xref' });
+        worker.respond({ type: 'done', result: new Uint8Array([4, 2]) });
+      };
+
+      const result = await runMarkedPdfExport(createPdfFile(), [], createAppSettings(), {
+        onProgress,
+        onRewriteFallback,
+      });
+
+      expect(result).toEqual(new Uint8Array([4, 2]));
+      expect(onProgress).toHaveBeenCalledWith(1, 2);
+      expect(onRewriteFallback).toHaveBeenCalledWith('broken xref');
+      expect(saveMarkedPdfMock).not.toHaveBeenCalled();
+      expect(FakeWorker.instances[0].terminate).toHaveBeenCalled();
+    });
+
+    it('posts a cancel request and rejects with an AbortError when aborted', async () => {
+      const controller = new AbortController();
+      FakeWorker.handler = (worker, message) => {
+        const { type } = message as { type: string };
+        if (type === 'marked-pdf') {
+          worker.respond({ type: 'ready' });
+          controller.abort();
+        }
+        if (type === 'cancel') {
+          worker.respond({ type: 'error', name: 'AbortError', message: 'aborted' });
+        }
+      };
+
+      await expect(
+        runMarkedPdfExport(createPdfFile(), [], createAppSettings(), { signal: controller.signal })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(FakeWorker.instances[0].messages).toContainEqual({ type: 'cancel' });
+    });
+
+    it('renders PDF pages in the worker with the remembered password and picked file', async () => {
+      const fileHandle = { createWritable: vi.fn() };
+      chooseZipSaveTargetMock.mockResolvedValue(fileHandle);
+      FakeWorker.handler = (worker, message) => {
+        if ((message as { type: string }).type !== 'pdf-pages-zip') return;
+        worker.respond({ type: 'ready' });
+        worker.respond({ type: 'done', result: true });
+      };
+      const pdfFile = createPdfFile();
+
+      const saved = await runPdfPagesZipExport(pdfFile, [], createAppSettings(), pdfImageOptions);
+
+      expect(saved).toBe(true);
+      expect(FakeWorker.instances[0].messages[0]).toMatchObject({
+        type: 'pdf-pages-zip',
+        pdfFile,
+        password: 'secret',
+        options: pdfImageOptions,
+        fileHandle,
+      });
+      expect(openPdfjsDocumentMock).not.toHaveBeenCalled();
+      expect(savePdfPagesZipMock).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the main thread when the worker fails to start', async () => {
+      saveMarkedPdfMock.mockResolvedValue(new Uint8Array([7]));
+      FakeWorker.handler = (worker) => worker.fail('module load failed');
+
+      const result = await runMarkedPdfExport(createPdfFile(), [], createAppSettings());
+
+      expect(result).toEqual(new Uint8Array([7]));
+      expect(saveMarkedPdfMock).toHaveBeenCalledTimes(1);
+    });
+  });
+});
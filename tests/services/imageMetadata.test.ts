@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { getImageFileMetadata } from '../../services/imageMetadata';
+
+// IFD0 with XResolution, YResolution (rationals after the IFD), ResolutionUnit=inch and Orientation
+const buildTiffHeader = (xDpi: number, yDpi: number, orientation: number) => {
+  const bytes = new Uint8Array(8 + 2 + 4 * 12 + 4 + 16);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49, 0x2a, 0x00]);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, 4, true);
+  const rationalOffset = 8 + 2 + 4 * 12 + 4;
+  const entries: Array<[number, number, number]> = [
+    [0x011a, 5, rationalOffset],
+    [0x011b, 5, rationalOffset + 8],
+    [0x0112, 3, orientation],
+    [0x0128, 3, 2],
+  ];
+  entries.forEach(([tag, type, value], index) => {
+    const entryOffset = 10 + index * 12;
+    view.setUint16(entryOffset, tag, true);
+    view.setUint16(entryOffset + 2, type, true);
+    view.setUint32(entryOffset + 4, 1, true);
+    if (type === 3) view.setUint16(entryOffset + 8, value, true);
+    else view.setUint32(entryOffset + 8, value, true);
+  });
+  view.setUint32(rationalOffset, xDpi, true);
+  view.setUint32(rationalOffset + 4, 1, true);
+  view.setUint32(rationalOffset + 8, yDpi, true);
+  view.setUint32(rationalOffset + 12, 1, true);
+  return bytes;
+};
+
+const buildWebpWithExif = (exif: Uint8Array) => {
+  const vp8l = [0x2f, 0x00, 0x00, 0x00, 0x00];
+  const chunks = [
+    ...Array.from('VP8L', (char) => char.charCodeAt(0)),
+    vp8l.length, 0, 0, 0,
+    ...vp8l,
+    0x00, // padding to an even length
+    ...Array.from('EXIF', (char) => char.charCodeAt(0)),
+    exif.length & 0xff, exif.length >> 8, 0, 0,
+    ...exif,
+  ];
+  const size = 4 + chunks.length;
+  return Uint8Array.from([
+    ...Array.from('RIFF', (char) => char.charCodeAt(0)),
+    size & 0xff, (size >> 8) & 0xff, 0, 0,
+    ...Array.from('WEBP', (char) => char.charCodeAt(0)),
+    ...chunks,
+  ]);
+};
+
+const buildBmpHeader = (pixelsPerMetre: number) => {
+  const bytes = new Uint8Array(54);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x42, 0x4d]);
+  view.setUint32(14, 40, true);
+  view.setInt32(18, 1, true);
+  view.setInt32(22, 1, true);
+  view.setInt32(38, pixelsPerMetre, true);
+  view.setInt32(42, pixelsPerMetre, true);
+  return bytes;
+};
+
+describe('getImageFileMetadata', () => {
+  it('reads resolution and orientation from a TIFF scan', async () => {
+    const file = new File([buildTiffHeader(400, 400, 1)], 'scan_001.tif', { type: 'image/tiff' });
+
+    await expect(getImageFileMetadata(file)).resolves.toEqual({
+      fileType: 'tiff',
+      orientation: 1,
+      dpi: { x: 400, y: 400 },
+    });
+  });
+
+  it('swaps TIFF resolution for rotated scans', async () => {
+    const file = new File([buildTiffHeader(300, 600, 6)], 'scan_002.TIFF');
+
+    const metadata = await getImageFileMetadata(file);
+
+    expect(metadata.fileType).toBe('tiff');
+    expect(metadata.orientation).toBe(6);
+    expect(metadata.dpi).toEqual({ x: 600, y: 300 });
+  });
+
+  it('reads the EXIF chunk of a WebP image', async () => {
+    const file = new File([buildWebpWithExif(buildTiffHeader(350, 350, 1))], 'c001.webp');
+
+    await expect(getImageFileMetadata(file)).resolves.toEqual({
+      fileType: 'webp',
+      orientation: 1,
+      dpi: { x: 350, y: 350 },
+    });
+  });
+
+  it('converts BMP pixels per metre to dpi', async () => {
+    const file = new File([buildBmpHeader(11811)], 'c001.bmp');
+
+    const metadata = await getImageFileMetadata(file);
+
+    expect(metadata.fileType).toBe('bmp');
+    expect(metadata.orientation).toBeNull();
+    expect(metadata.dpi?.x).toBeCloseTo(300, 0);
+    expect(metadata.dpi?.y).toBeCloseTo(300, 0);
+  });
+
+  it('ignores files that are not images', async () => {
+    const file = new File(['hello'], 'notes.txt', { type: 'text/plain' });
+
+    await expect(getImageFileMetadata(file)).resolves.toEqual({
+      fileType: null,
+      orientation: null,
+      dpi: null,
+    });
+  });
+});
@@ -5,6 +5,7 @@ import {
   getExifOrientation,
   getImageResolution,
   getOrientedDimensions,
+  setBlobDpi,
 } from '../../services/imageProcessing';
 
 const toArrayBuffer = (bytes: number[]) => Uint8Array.from(bytes).buffer;
@@ -88,6 +89,29 @@ const buildExifPng = (orientation: number) =>
     ...buildPngChunk('IEND', []),
   ]);
 
+const toLittleEndianBytes = (value: number, byteLength: number) =>
+  numberToBytes(value, byteLength).reverse();
+
+// Lossless WebP without a VP8X header, as canvas encoders produce it
+const buildSimpleWebp = (width: number, height: number) => {
+  const bits = (width - 1) | ((height - 1) << 14) | (1 << 28);
+  const chunk = [
+    0x56, 0x50, 0x38, 0x4c, // VP8L
+    ...toLittleEndianBytes(5, 4),
+    0x2f, ...toLittleEndianBytes(bits, 4),
+    0x00, // Padding to an even size
+  ];
+  return Uint8Array.from([
+    0x52, 0x49, 0x46, 0x46, // RIFF
+    ...toLittleEndianBytes(4 + chunk.length, 4),
+    0x57, 0x45, 0x42, 0x50, // WEBP
+    ...chunk,
+  ]);
+};
+
+const readFourCC = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
 describe('imageProcessing helpers', () => {
   it('reads DPI from JFIF JPEG data', () => {
     const buffer = buildJfifJpeg(300, 300);
@@ -106,6 +130,28 @@ describe('imageProcessing helpers', () => {
     expect(dpi?.y).toBeCloseTo(96.012, 3);
   });
 
+  it('writes WebP DPI into an EXIF chunk behind a VP8X header', async () => {
+    const blob = await setBlobDpi(new Blob([buildSimpleWebp(100, 50)]), { x: 150, y: 150 }, 'webp');
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+
+    expect(blob.type).toBe('image/webp');
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+
+    expect(readFourCC(bytes, 12)).toBe('VP8X');
+    expect(bytes[20]).toBe(0x18); // Alpha and EXIF flags
+    expect(view.getUint16(24, true)).toBe(99);
+    expect(view.getUint16(27, true)).toBe(49);
+    expect(readFourCC(bytes, 30)).toBe('VP8L');
+
+    const exifOffset = 30 + 8 + 6;
+    expect(readFourCC(bytes, exifOffset)).toBe('EXIF');
+    const tiffStart = exifOffset + 8;
+    expect(view.getUint16(tiffStart, true)).toBe(0x4949);
+    expect(view.getUint32(tiffStart + 50, true)).toBe(150);
+    expect(view.getUint32(tiffStart + 58, true)).toBe(150);
+  });
+
   it('reads EXIF orientation from JPEG and PNG metadata', () => {
     expect(getExifOrientation(buildExifJpeg(6), 'jpeg')).toBe(6);
     expect(getExifOrientation(buildExifPng(8), 'png')).toBe(8);
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decodeLabelFontData,
+  DEFAULT_LABEL_FONT_STACK,
+  encodeLabelFontData,
+  getLabelCanvasFont,
+  getLabelFontId,
+  getLabelFontStack,
+  isSupportedFontData,
+  readLabelFontFile,
+} from '../../services/labelFont';
+
+const trueTypeHeader = [0x00, 0x01, 0x00, 0x00, 0x00, 0x0a, 0x00, 0x80];
+const openTypeHeader = [0x4f, 0x54, 0x54, 0x4f, 0x00, 0x0a, 0x00, 0x80];
+
+describe('labelFont', () => {
+  it('accepts TrueType and OpenType signatures only', () => {
+    expect(isSupportedFontData(Uint8Array.from(trueTypeHeader))).toBe(true);
+    expect(isSupportedFontData(Uint8Array.from(openTypeHeader))).toBe(true);
+    expect(isSupportedFontData(Uint8Array.from([0x77, 0x4f, 0x46, 0x46]))).toBe(false);
+    expect(isSupportedFontData(new Uint8Array())).toBe(false);
+  });
+
+  it('round-trips font bytes through the stored base64 data', () => {
+    const bytes = Uint8Array.from({ length: 70000 }, (_, index) => index % 256);
+    const data = encodeLabelFontData(bytes);
+
+    expect(decodeLabelFontData({ name: 'large.ttf', data })).toEqual(bytes);
+  });
+
+  it('reads a font file into settings and rejects other files', async () => {
+    const font = await readLabelFontFile(
+      new File([Uint8Array.from(openTypeHeader)], 'NotoSansJP-Bold.otf')
+    );
+    expect(font.name).toBe('NotoSansJP-Bold.otf');
+    expect(decodeLabelFontData(font)).toEqual(Uint8Array.from(openTypeHeader));
+
+    await expect(
+      readLabelFontFile(new File(['not a font'], 'notes.txt'))
+    ).rejects.toThrow('Label font must be a TrueType or OpenType font file');
+  });
+
+  it('uses one stable family per font and falls back to bold Helvetica', () => {
+    const font = { name: 'a.ttf', data: encodeLabelFontData(Uint8Array.from(trueTypeHeader)) };
+    const other = { name: 'b.otf', data: encodeLabelFontData(Uint8Array.from(openTypeHeader)) };
+
+    expect(getLabelFontStack(null)).toBe(DEFAULT_LABEL_FONT_STACK);
+    expect(getLabelCanvasFont(null, 28)).toBe(`bold 28px ${DEFAULT_LABEL_FONT_STACK}`);
+    expect(getLabelFontStack({ ...font })).toBe(getLabelFontStack(font));
+    expect(getLabelFontStack(other)).not.toBe(getLabelFontStack(font));
+    expect(getLabelCanvasFont(font, 28)).toBe(`normal 28px ${getLabelFontStack(font)}`);
+    expect(getLabelFontStack(font).endsWith(DEFAULT_LABEL_FONT_STACK)).toBe(true);
+  });
+
+  it('identifies a font by its data rather than its name', () => {
+    const data = encodeLabelFontData(Uint8Array.from(trueTypeHeader));
+    const id = getLabelFontId({ name: 'a.ttf', data });
+
+    expect(id).toMatch(/^[0-9a-f]{14}$/);
+    expect(getLabelFontId({ name: 'renamed.ttf', data: `${data}` })).toBe(id);
+    expect(
+      getLabelFontId({ name: 'a.ttf', data: encodeLabelFontData(Uint8Array.from(openTypeHeader)) })
+    ).not.toBe(id);
+  });
+});
@@ -0,0 +1,93 @@
+import { decodePDFRawStream, PDFArray, PDFDict, PDFDocument, PDFName, PDFRawStream, PDFRef } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { findCutMarkContentRanges, stripCutMarks } from '../../services/pdfCutMarks';
+import { saveMarkedPdf } from '../../services/pdfService';
+import { createAppSettings, createCut } from '../../test/factories';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const cutOut = (text: string) => {
+  const bytes = encode(text);
+  return findCutMarkContentRanges(bytes).map(([start, end]) =>
+    new TextDecoder().decode(bytes.subarray(start, end))
+  );
+};
+
+const createSourcePdf = async () => {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([400, 600]);
+  page.drawRectangle({ x: 10, y: 10, width: 20, height: 20 });
+  const bytes = await pdfDoc.save();
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+};
+
+const readPageContent = (pdfDoc: PDFDocument, pageIndex: number) => {
+  const contents = pdfDoc.getPage(pageIndex).node.get(PDFName.of('Contents'));
+  const refs = contents instanceof PDFArray ? contents.asArray() : [contents];
+  return refs
+    .map((ref) => pdfDoc.context.lookup(ref as PDFRef))
+    .filter((stream): stream is PDFRawStream => stream instanceof PDFRawStream)
+    .map((stream) => new TextDecoder('latin1').decode(decodePDFRawStream(stream).decode()))
+    .join('\n');
+};
+
+const countTags = (content: string) => content.split('/CutMark /CutMarkLabel BDC').length - 1;
+
+describe('pdfCutMarks', () => {
+  it('finds only outermost CutMark sequences and leaves other marked content alone', () => {
+    expect(
+      cutOut('q /Span BMC (a) Tj EMC Q /CutMark /CutMarkLabel BDC (x\\) EMC (y)) Tj EMC 0 0 m')
+    ).toEqual(['/CutMark /CutMarkLabel BDC (x\\) EMC (y)) Tj EMC']);
+
+    expect(
+      cutOut('/OC /CutMarkLayer BDC /CutMark /CutMarkLabel BDC q Q EMC /CutMark /CutMarkLabel BDC EMC EMC')
+    ).toEqual([
+      '/OC /CutMarkLayer BDC /CutMark /CutMarkLabel BDC q Q EMC /CutMark /CutMarkLabel BDC EMC EMC',
+    ]);
+
+    expect(cutOut('/OC /OtherLayer BDC BI /W 1 /H 1 ID \x00EMC\xff EI EMC')).toEqual([]);
+    expect(cutOut('/P <</MCID 0>> BDC <45 4d 43> Tj EMC')).toEqual([]);
+  });
+
+  it('strips labels and the layer written by an earlier export', async () => {
+    const exported = await saveMarkedPdf(
+      await createSourcePdf(),
+      [createCut({ id: 'cut-1', label: '001' }), createCut({ id: 'cut-2', y: 0.5, label: '002' })],
+      createAppSettings()
+    );
+
+    const pdfDoc = await PDFDocument.load(exported);
+    expect(countTags(readPageContent(pdfDoc, 0))).toBe(2);
+
+    expect(stripCutMarks(pdfDoc)).toBe(1);
+    const content = readPageContent(pdfDoc, 0);
+    expect(countTags(content)).toBe(0);
+    expect(content).not.toContain('/CutMarkLayer');
+    expect(content).toContain('0 0 0 rg');
+    expect(pdfDoc.catalog.get(PDFName.of('OCProperties'))).toBeUndefined();
+  });
+
+  it('replaces earlier labels instead of stacking them on re-export', async () => {
+    const firstExport = await saveMarkedPdf(
+      await createSourcePdf(),
+      [createCut({ id: 'cut-1', label: '001' })],
+      createAppSettings()
+    );
+    const secondExport = await saveMarkedPdf(
+      firstExport.buffer.slice(
+        firstExport.byteOffset,
+        firstExport.byteOffset + firstExport.byteLength
+      ) as ArrayBuffer,
+      [createCut({ id: 'cut-1', label: '001' })],
+      createAppSettings()
+    );
+
+    const pdfDoc = await PDFDocument.load(secondExport);
+    expect(countTags(readPageContent(pdfDoc, 0))).toBe(1);
+    const ocgs = pdfDoc.catalog
+      .lookup(PDFName.of('OCProperties'), PDFDict)
+      .lookup(PDFName.of('OCGs'), PDFArray);
+    expect(ocgs.size()).toBe(1);
+  });
+
+});
@@ -0,0 +1,322 @@
+import { createCipheriv, createHash } from 'node:crypto';
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+  StandardFonts,
+} from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { decryptPdfBytes, hasRestrictedPermissions } from '../../services/pdfDecryption';
+import {
+  PdfPasswordError,
+  UnsupportedPdfEncryptionError,
+} from '../../services/pdfSecurityHandler';
+
+// An independent encryptor built on node:crypto, so the handler is checked against the spec rather than itself
+const PADDING = Buffer.from(
+  '28bf4e5e4e758a4164004e56fffa01082e2e00b6d0683e802f0ca9fe6453697a',
+  'hex'
+);
+const DOCUMENT_ID = Buffer.from('00112233445566778899aabbccddeeff', 'hex');
+const FIXED_IV = Buffer.alloc(16, 7);
+const PERMISSIONS = -3904;
+
+type Encryption = 'rc4' | 'aes128' | 'aes256';
+
+const md5 = (...chunks: Uint8Array[]) => {
+  const hash = createHash('md5');
+  chunks.forEach((chunk) => hash.update(chunk));
+  return hash.digest();
+};
+
+const rc4 = (key: Uint8Array, data: Uint8Array) => {
+  const state = Array.from({ length: 256 }, (_, index) => index);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) % 256;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+  const result = Buffer.alloc(data.length);
+  for (let index = 0, i = 0, j = 0; index < data.length; index++) {
+    i = (i + 1) % 256;
+    j = (j + state[i]) % 256;
+    [state[i], state[j]] = [state[j], state[i]];
+    result[index] = data[index] ^ state[(state[i] + state[j]) % 256];
+  }
+  return result;
+};
+
+const aesCbc = (key: Uint8Array, iv: Uint8Array, data: Uint8Array, padding: boolean) => {
+  const cipher = createCipheriv(key.length === 32 ? 'aes-256-cbc' : 'aes-128-cbc', key, iv);
+  cipher.setAutoPadding(padding);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+};
+
+const pad = (password: string) => Buffer.concat([Buffer.from(password, 'latin1'), PADDING]).subarray(0, 32);
+
+const permissionBytes = () => {
+  const bytes = Buffer.alloc(4);
+  bytes.writeInt32LE(PERMISSIONS);
+  return bytes;
+};
+
+const createLegacyEncryption = (userPassword: string, ownerPassword: string, revision: number) => {
+  let ownerHash = md5(pad(ownerPassword));
+  for (let index = 0; index < 50; index++) ownerHash = md5(ownerHash);
+  let owner = rc4(ownerHash, pad(userPassword));
+  for (let index = 1; index <= 19; index++) {
+    owner = rc4(ownerHash.map((byte) => byte ^ index), owner);
+  }
+
+  let key = md5(pad(userPassword), owner, permissionBytes(), DOCUMENT_ID);
+  for (let index = 0; index < 50; index++) key = md5(key);
+
+  let user = rc4(key, md5(PADDING, DOCUMENT_ID));
+  for (let index = 1; index <= 19; index++) {
+    user = rc4(key.map((byte) => byte ^ index), user);
+  }
+
+  return {
+    key,
+    entries: {
+      V: revision === 4 ? 4 : 2,
+      R: revision,
+      Length: 128,
+      O: owner,
+      U: Buffer.concat([user, Buffer.alloc(16)]),
+    },
+  };
+};
+
+const hashRevision6 = (password: Buffer, salt: Buffer, userKey: Buffer) => {
+  let hash = createHash('sha256').update(Buffer.concat([password, salt, userKey])).digest();
+  let round = 0;
+  let encrypted: Buffer;
+  do {
+    const block = Buffer.concat([password, hash, userKey]);
+    encrypted = aesCbc(hash.subarray(0, 16), hash.subarray(16, 32), Buffer.concat(Array(64).fill(block)), false);
+    const selector = encrypted.subarray(0, 16).reduce((total, value) => total + value, 0) % 3;
+    hash = createHash(['sha256', 'sha384', 'sha512'][selector]).update(encrypted).digest();
+    round++;
+  } while (round < 64 || encrypted[encrypted.length - 1] > round - 32);
+  return hash.subarray(0, 32);
+};
+
+const createAes256Encryption = (userPassword: string, ownerPassword: string) => {
+  const key = Buffer.alloc(32, 0x5a);
+  const user = Buffer.from(userPassword, 'utf8');
+  const owner = Buffer.from(ownerPassword, 'utf8');
+  const [userValidation, userKeySalt, ownerValidation, ownerKeySalt] = [1, 2, 3, 4].map((seed) =>
+    Buffer.alloc(8, seed)
+  );
+
+  const u = Buffer.concat([hashRevision6(user, userValidation, Buffer.alloc(0)), userValidation, userKeySalt]);
+  const o = Buffer.concat([hashRevision6(owner, ownerValidation, u), ownerValidation, ownerKeySalt]);
+  return {
+    key,
+    entries: {
+      V: 5,
+      R: 6,
+      Length: 256,
+      O: o,
+      U: u,
+      OE: aesCbc(hashRevision6(owner, ownerKeySalt, u), Buffer.alloc(16), key, false),
+      UE: aesCbc(hashRevision6(user, userKeySalt, Buffer.alloc(0)), Buffer.alloc(16), key, false),
+      Perms: aesCbc(key, Buffer.alloc(16), Buffer.concat([permissionBytes(), Buffer.alloc(4, 0xff), Buffer.from('Tadb'), Buffer.alloc(4)]), false),
+    },
+  };
+};
+
+const createCipher = (encryption: Encryption, fileKey: Buffer) => (ref: PDFRef, data: Uint8Array) => {
+  if (encryption === 'aes256') {
+    return Buffer.concat([FIXED_IV, aesCbc(fileKey, FIXED_IV, data, true)]);
+  }
+  const objectId = Buffer.from([
+    ref.objectNumber & 0xff,
+    (ref.objectNumber >> 8) & 0xff,
+    (ref.objectNumber >> 16) & 0xff,
+    ref.generationNumber & 0xff,
+    (ref.generationNumber >> 8) & 0xff,
+  ]);
+  if (encryption === 'rc4') {
+    return rc4(md5(fileKey, objectId).subarray(0, 16), data);
+  }
+  const key = md5(fileKey, objectId, Buffer.from('sAlT')).subarray(0, 16);
+  return Buffer.concat([FIXED_IV, aesCbc(key, FIXED_IV, data, true)]);
+};
+
+const encryptStrings = (object: PDFObject, encrypt: (data: Uint8Array) => Buffer): PDFObject => {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return PDFHexString.of(encrypt(object.asBytes()).toString('hex'));
+  }
+  if (object instanceof PDFArray) {
+    object.asArray().forEach((item, index) => object.set(index, encryptStrings(item, encrypt)));
+  }
+  if (object instanceof PDFDict) {
+    object.entries().forEach(([key, value]) => object.set(key, encryptStrings(value, encrypt)));
+  }
+  return object;
+};
+
+const createPlainPdf = async () => {
+  const pdfDoc = await PDFDocument.create({ updateMetadata: false });
+  pdfDoc.setTitle('絵コンテ 第1話');
+  const page = pdfDoc.addPage([400, 600]);
+  page.drawText('Scene 1', { x: 40, y: 500, font: await pdfDoc.embedFont(StandardFonts.Helvetica) });
+  return pdfDoc.save({ useObjectStreams: false });
+};
+
+// Moves every plain dictionary into one object stream, as most current writers do
+const packIntoObjectStream = (pdfDoc: PDFDocument, cipher: (ref: PDFRef, data: Uint8Array) => Buffer) => {
+  const { context } = pdfDoc;
+  const members = context
+    .enumerateIndirectObjects()
+    .filter(([, object]) => object instanceof PDFDict && !(object instanceof PDFRawStream));
+  const bodies = members.map(([, object]) => Buffer.from(`${object.toString()}\n`, 'latin1'));
+  let offset = 0;
+  const header = members
+    .map(([ref], index) => {
+      const entry = `${ref.objectNumber} ${offset}`;
+      offset += bodies[index].length;
+      return entry;
+    })
+    .join(' ');
+  const headerBytes = Buffer.from(`${header}\n`, 'latin1');
+
+  const streamRef = context.nextRef();
+  const contents = cipher(streamRef, Buffer.concat([headerBytes, ...bodies]));
+  const dict = context.obj({ Type: 'ObjStm', N: members.length, First: headerBytes.length });
+  members.forEach(([ref]) => context.delete(ref));
+  context.assign(streamRef, PDFRawStream.of(dict, contents));
+};
+
+const createEncryptedPdf = async (
+  encryption: Encryption,
+  { userPassword = 'user', ownerPassword = 'owner', objectStreams = false } = {}
+) => {
+  const pdfDoc = await PDFDocument.load(await createPlainPdf(), { updateMetadata: false });
+  const { context } = pdfDoc;
+  const { key, entries } =
+    encryption === 'aes256'
+      ? createAes256Encryption(userPassword, ownerPassword)
+      : createLegacyEncryption(userPassword, ownerPassword, encryption === 'rc4' ? 3 : 4);
+  const cipher = createCipher(encryption, key);
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    // Strings inside object streams are only protected by the stream itself
+    const isPacked = objectStreams && object instanceof PDFDict && !(object instanceof PDFRawStream);
+    if (isPacked) continue;
+    if (object instanceof PDFRawStream) {
+      encryptStrings(object.dict, (data) => cipher(ref, data));
+      context.assign(ref, PDFRawStream.of(object.dict, cipher(ref, object.contents)));
+    } else {
+      context.assign(ref, encryptStrings(object, (data) => cipher(ref, data)));
+    }
+  }
+  if (objectStreams) {
+    packIntoObjectStream(pdfDoc, cipher);
+  }
+
+  const cryptFilter =
+    encryption === 'rc4'
+      ? {}
+      : {
+          CF: { StdCF: { CFM: encryption === 'aes256' ? 'AESV3' : 'AESV2', Length: key.length } },
+          StmF: 'StdCF',
+          StrF: 'StdCF',
+        };
+  const { O, U, OE, UE, Perms, ...numbers } = entries as typeof entries & {
+    OE?: Buffer;
+    UE?: Buffer;
+    Perms?: Buffer;
+  };
+  const encrypt = context.obj({ Filter: 'Standard', P: PERMISSIONS, ...numbers, ...cryptFilter });
+  encrypt.set(PDFName.of('O'), PDFHexString.of(O.toString('hex')));
+  encrypt.set(PDFName.of('U'), PDFHexString.of(U.toString('hex')));
+  if (OE && UE && Perms) {
+    encrypt.set(PDFName.of('OE'), PDFHexString.of(OE.toString('hex')));
+    encrypt.set(PDFName.of('UE'), PDFHexString.of(UE.toString('hex')));
+    encrypt.set(PDFName.of('Perms'), PDFHexString.of(Perms.toString('hex')));
+  }
+  context.trailerInfo.Encrypt = context.register(encrypt);
+  context.trailerInfo.ID = context.obj([
+    PDFHexString.of(DOCUMENT_ID.toString('hex')),
+    PDFHexString.of(DOCUMENT_ID.toString('hex')),
+  ]);
+
+  return pdfDoc.save({ useObjectStreams: false, addDefaultPage: false, updateFieldAppearances: false });
+};
+
+const readPageText = (pdfDoc: PDFDocument) => {
+  const contents = pdfDoc.getPage(0).node.Contents();
+  const stream = contents instanceof PDFArray ? contents.lookup(0) : contents;
+  return new TextDecoder('latin1').decode(decodePDFRawStream(stream as PDFRawStream).decode());
+};
+
+const expectReadable = async (bytes: Uint8Array) => {
+  const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+  expect(pdfDoc.isEncrypted).toBe(false);
+  expect(pdfDoc.getTitle()).toBe('絵コンテ 第1話');
+  expect(pdfDoc.getPageCount()).toBe(1);
+  expect(readPageText(pdfDoc)).toContain('Tj');
+  return pdfDoc;
+};
+
+describe('decryptPdfBytes', () => {
+  it('returns unencrypted files untouched', async () => {
+    const bytes = await createPlainPdf();
+
+    await expect(decryptPdfBytes(bytes, '')).resolves.toBe(bytes);
+  });
+
+  it('decrypts 128-bit RC4 with the user or the owner password', async () => {
+    const encrypted = await createEncryptedPdf('rc4');
+
+    await expectReadable(await decryptPdfBytes(encrypted, 'user'));
+    await expectReadable(await decryptPdfBytes(encrypted, 'owner'));
+  });
+
+  it('opens AES-128 files that only restrict permissions with an empty password', async () => {
+    const encrypted = await createEncryptedPdf('aes128', { userPassword: '' });
+
+    await expectReadable(await decryptPdfBytes(encrypted, ''));
+    await expect(hasRestrictedPermissions(encrypted)).resolves.toBe(true);
+    await expect(hasRestrictedPermissions(await createPlainPdf())).resolves.toBe(false);
+  });
+
+  it('decrypts AES-256 files and unpacks their object streams', async () => {
+    const encrypted = await createEncryptedPdf('aes256', {
+      userPassword: 'パスワード',
+      objectStreams: true,
+    });
+
+    const pdfDoc = await expectReadable(await decryptPdfBytes(encrypted, 'パスワード'));
+    expect(pdfDoc.context.trailerInfo.Encrypt).toBeUndefined();
+  });
+
+  it('rejects a wrong password', async () => {
+    const encrypted = await createEncryptedPdf('aes256');
+
+    await expect(decryptPdfBytes(encrypted, 'wrong')).rejects.toBeInstanceOf(PdfPasswordError);
+    await expect(decryptPdfBytes(await createEncryptedPdf('rc4'), '')).rejects.toBeInstanceOf(
+      PdfPasswordError
+    );
+  });
+
+  it('rejects security handlers other than the standard one', async () => {
+    const pdfDoc = await PDFDocument.load(await createPlainPdf(), { updateMetadata: false });
+    pdfDoc.context.trailerInfo.Encrypt = pdfDoc.context.register(
+      pdfDoc.context.obj({ Filter: 'Adobe.PubSec', V: 4, R: 4 })
+    );
+
+    await expect(decryptPdfBytes(await pdfDoc.save(), '')).rejects.toBeInstanceOf(
+      UnsupportedPdfEncryptionError
+    );
+  });
+});
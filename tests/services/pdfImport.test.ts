@@ -0,0 +1,189 @@
+import { PDFDocument } from 'pdf-lib';
+import { describe, expect, it, vi } from 'vitest';
+import { createProjectDocument } from '../../domain/project';
+import { parseProjectDocument } from '../../repositories/projectRepository';
+import {
+  isRewrittenOnImport,
+  mergeSourceFiles,
+  PdfPasswordCancelledError,
+  preparePdfImport,
+  unlockEncryptedPdf,
+} from '../../services/pdfImport';
+import { saveMarkedPdf } from '../../services/pdfService';
+import { createAppSettings, createCut, createTemplate } from '../../test/factories';
+
+// react-pdf needs DOMMatrix, which jsdom lacks; only encrypted files that cannot be decrypted reach pdf.js
+const pdfjsDocumentMocks = vi.hoisted(() => ({
+  openPdfjsDocument: vi.fn(),
+  rememberPdfPassword: vi.fn(),
+}));
+
+vi.mock('../../services/pdfjsDocument', () => ({
+  openPdfjsDocument: pdfjsDocumentMocks.openPdfjsDocument,
+  rememberPdfPassword: pdfjsDocumentMocks.rememberPdfPassword,
+  isPdfjsPasswordError: (error: unknown) => error instanceof Error && error.name === 'PasswordException',
+}));
+
+const createSourcePdf = async () => {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage([400, 600]);
+  const bytes = await pdfDoc.save();
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+};
+
+describe('preparePdfImport', () => {
+  it('returns the original file when there is nothing to strip or restore', async () => {
+    const file = new File([await createSourcePdf()], 'clean.pdf', { type: 'application/pdf' });
+
+    await expect(preparePdfImport(file)).resolves.toEqual({
+      file,
+      strippedPageCount: 0,
+      embeddedProjectFile: null,
+    });
+    expect(isRewrittenOnImport(file)).toBe(false);
+  });
+
+  it('hands back the project embedded by an earlier export', async () => {
+    const project = createProjectDocument({
+      settings: createAppSettings(),
+      template: createTemplate(),
+      name: 'Episode 01',
+      savedAt: '2026-01-02T03:04:05.000Z',
+    });
+    const exported = await saveMarkedPdf(
+      await createSourcePdf(),
+      [createCut({ id: 'cut-1', label: '001' })],
+      createAppSettings(),
+      { project }
+    );
+
+    const prepared = await preparePdfImport(
+      new File([exported], 'marked_storyboard.pdf', { type: 'application/pdf' })
+    );
+
+    expect(prepared.strippedPageCount).toBe(1);
+    expect(prepared.file.name).toBe('marked_storyboard.pdf');
+    expect(isRewrittenOnImport(prepared.file)).toBe(true);
+    expect(prepared.embeddedProjectFile?.name).toBe('Episode 01.cutmark');
+    expect(parseProjectDocument(await prepared.embeddedProjectFile!.text())).toEqual(project);
+  });
+});
+
+// 1x1 pixel PNG without a pHYs chunk, so it is placed at 96 dpi
+const ONE_PIXEL_PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+describe('mergeSourceFiles', () => {
+  const createPdfFile = async (name: string, pageSizes: Array<[number, number]>) => {
+    const pdfDoc = await PDFDocument.create();
+    pageSizes.forEach((size) => pdfDoc.addPage(size));
+    return new File([await pdfDoc.save()], name, { type: 'application/pdf' });
+  };
+
+  it('joins the pages of every source in order and keeps their page counts', async () => {
+    const partA = await createPdfFile('ep01_A.pdf', [[400, 600], [400, 600]]);
+    const partB = await createPdfFile('ep01_B.pdf', [[600, 400]]);
+
+    const merged = await mergeSourceFiles([
+      { kind: 'pdf', file: partA },
+      { kind: 'pdf', file: partB },
+    ]);
+
+    expect(merged.file.name).toBe('ep01_A+ep01_B.pdf');
+    expect(merged.sources).toEqual([
+      { kind: 'pdf' as const, file: partA, pageCount: 2 },
+      { kind: 'pdf' as const, file: partB, pageCount: 1 },
+    ]);
+    const mergedDoc = await PDFDocument.load(await merged.file.arrayBuffer());
+    expect(mergedDoc.getPages().map((page) => page.getWidth())).toEqual([400, 400, 600]);
+  });
+
+  it('puts a scanned replacement in place of its page and lists the PDF around it', async () => {
+    const part = await createPdfFile(
+      'ep01.pdf',
+      Array.from({ length: 14 }, (_, index): [number, number] => [400 + index, 600])
+    );
+    const pngBytes = Uint8Array.from(atob(ONE_PIXEL_PNG_BASE64), (char) => char.charCodeAt(0));
+    const scan = new File([pngBytes], 'ep01_p12.png', { type: 'image/png' });
+
+    const merged = await mergeSourceFiles([
+      { kind: 'pdf', file: part, replacementPages: [{ pageNumber: 12, file: scan }] },
+    ]);
+
+    expect(merged.file.name).toBe('ep01.pdf');
+    expect(merged.sources).toEqual([
+      { kind: 'pdf', file: part, pageCount: 11 },
+      { kind: 'image', file: scan, pageCount: 1, replacedPage: { file: part, pageNumber: 12 } },
+      { kind: 'pdf', file: part, pageCount: 2, firstPage: 13 },
+    ]);
+    const widths = (await PDFDocument.load(await merged.file.arrayBuffer()))
+      .getPages()
+      .map((page) => page.getWidth());
+    expect(widths).toHaveLength(14);
+    expect(widths[10]).toBe(410);
+    expect(widths[11]).toBe(0.75);
+    expect(widths[12]).toBe(412);
+  });
+
+  it('adds a scanned image as one page between the PDF pages', async () => {
+    const part = await createPdfFile('ep01.pdf', [[400, 600]]);
+    const pngBytes = Uint8Array.from(atob(ONE_PIXEL_PNG_BASE64), (char) => char.charCodeAt(0));
+    const scan = new File([pngBytes], 'ep01_p2.png', { type: 'image/png' });
+
+    const merged = await mergeSourceFiles([
+      { kind: 'pdf', file: part },
+      { kind: 'image', file: scan },
+    ]);
+
+    expect(merged.file.name).toBe('ep01+ep01_p2.pdf');
+    expect(merged.sources).toEqual([
+      { kind: 'pdf', file: part, pageCount: 1 },
+      { kind: 'image', file: scan, pageCount: 1 },
+    ]);
+    const mergedDoc = await PDFDocument.load(await merged.file.arrayBuffer());
+    expect(mergedDoc.getPages().map((page) => page.getWidth())).toEqual([400, 0.75]);
+  });
+});
+
+describe('unlockEncryptedPdf', () => {
+  const createCertificateEncryptedPdf = async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage([400, 600]);
+    pdfDoc.context.trailerInfo.Encrypt = pdfDoc.context.register(
+      pdfDoc.context.obj({ Filter: 'Adobe.PubSec', V: 4, R: 4 })
+    );
+    return new File([await pdfDoc.save()], 'locked.pdf', { type: 'application/pdf' });
+  };
+
+  const createLoadingTask = (result: Promise<unknown>) => ({
+    promise: result,
+    destroy: vi.fn().mockResolvedValue(undefined),
+  });
+
+  const createPasswordError = () => Object.assign(new Error('No password given'), { name: 'PasswordException' });
+
+  it('lets pdf.js check the password when the file cannot be decrypted', async () => {
+    const file = await createCertificateEncryptedPdf();
+    pdfjsDocumentMocks.openPdfjsDocument
+      .mockResolvedValueOnce(createLoadingTask(Promise.reject(createPasswordError())))
+      .mockResolvedValueOnce(createLoadingTask(Promise.resolve({ numPages: 1 })));
+    const requestPassword = vi.fn().mockResolvedValue('secret');
+
+    await expect(unlockEncryptedPdf(file, requestPassword)).resolves.toEqual({
+      file,
+      isDecrypted: false,
+    });
+    expect(requestPassword).toHaveBeenCalledWith(false);
+    expect(pdfjsDocumentMocks.openPdfjsDocument).toHaveBeenLastCalledWith(file, 'secret');
+    expect(pdfjsDocumentMocks.rememberPdfPassword).toHaveBeenCalledWith(file, 'secret');
+  });
+
+  it('stops when the password prompt is dismissed', async () => {
+    const file = await createCertificateEncryptedPdf();
+    pdfjsDocumentMocks.openPdfjsDocument.mockResolvedValue(
+      createLoadingTask(Promise.reject(createPasswordError()))
+    );
+
+    await expect(unlockEncryptedPdf(file, async () => null)).rejects.toBeInstanceOf(PdfPasswordCancelledError);
+  });
+});
@@ -0,0 +1,115 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { saveMarkedPdf } from '../../services/pdfService';
+import { createAppSettings, createCut } from '../../test/factories';
+
+const createSourcePdf = async (pageCount: number, useObjectStreams: boolean) => {
+  const pdfDoc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    pdfDoc.addPage([400, 600]);
+  }
+  return pdfDoc.save({ useObjectStreams });
+};
+
+const toArrayBuffer = (bytes: Uint8Array) =>
+  bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+const decode = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+const readLastStartXref = (text: string) => {
+  const matches = [...text.matchAll(/startxref\s+(\d+)/g)];
+  return Number(matches[matches.length - 1][1]);
+};
+
+const exportIncrementally = (source: Uint8Array) =>
+  saveMarkedPdf(
+    toArrayBuffer(source),
+    [createCut({ id: 'cut-1', pageIndex: 1, label: '001' })],
+    createAppSettings(),
+    { writeMode: 'incremental' }
+  );
+
+describe('incremental PDF export', () => {
+  it('appends an update section to the untouched original bytes', async () => {
+    const source = await createSourcePdf(2, false);
+    const saved = await exportIncrementally(source);
+
+    expect(saved.subarray(0, source.length)).toEqual(source);
+
+    const update = decode(saved.subarray(source.length));
+    expect(update).toContain(`/Prev ${readLastStartXref(decode(source))}`);
+
+    // Every entry of the appended table points at the object it names
+    const text = decode(saved);
+    const xrefOffset = readLastStartXref(text);
+    const table = text.slice(xrefOffset, text.indexOf('trailer', xrefOffset));
+    const lines = table.split('\n').slice(1);
+    let objectNumber = 0;
+    let checked = 0;
+    for (const line of lines) {
+      const subsection = /^(\d+) (\d+)$/.exec(line.trim());
+      if (subsection) {
+        objectNumber = Number(subsection[1]);
+        continue;
+      }
+      const entry = /^(\d{10}) (\d{5}) n/.exec(line);
+      if (!entry) continue;
+      expect(text.startsWith(`${objectNumber} 0 obj`, Number(entry[1]))).toBe(true);
+      objectNumber++;
+      checked++;
+    }
+    expect(checked).toBeGreaterThan(0);
+
+    const pdfDoc = await PDFDocument.load(saved);
+    expect(pdfDoc.getPageCount()).toBe(2);
+    expect(pdfDoc.catalog.lookupMaybe(PDFName.of('OCProperties'), PDFDict)).toBeDefined();
+  });
+
+  it('chains a cross-reference stream onto originals that use one', async () => {
+    const source = await createSourcePdf(2, true);
+    const saved = await exportIncrementally(source);
+
+    expect(saved.subarray(0, source.length)).toEqual(source);
+    const update = decode(saved.subarray(source.length));
+    expect(update).toContain('/Type /XRef');
+    expect(update).toContain(`/Prev ${readLastStartXref(decode(source))}`);
+    expect(update).not.toMatch(/^xref$/m);
+  });
+
+  it('does not reuse object numbers of streams pdf-lib unpacked while loading', async () => {
+    const source = await createSourcePdf(2, true);
+    const saved = await exportIncrementally(source);
+
+    const containerNumbers = [...decode(source).matchAll(/(\d+) 0 obj\s*<<[^>]*\/Type \/(?:ObjStm|XRef)/g)]
+      .map((match) => match[1]);
+    const updatedNumbers = [...decode(saved.subarray(source.length)).matchAll(/(\d+) 0 obj/g)]
+      .map((match) => match[1]);
+
+    expect(containerNumbers.length).toBeGreaterThan(0);
+    for (const number of containerNumbers) {
+      expect(updatedNumbers).not.toContain(number);
+    }
+  });
+
+  it('replaces the marks of an earlier incremental export when exporting again', async () => {
+    const source = await createSourcePdf(2, false);
+    const first = await exportIncrementally(source);
+    const second = await exportIncrementally(first);
+
+    expect(second.subarray(0, first.length)).toEqual(first);
+    const pdfDoc = await PDFDocument.load(second);
+    const ocgs = pdfDoc.catalog
+      .lookup(PDFName.of('OCProperties'), PDFDict)
+      .lookup(PDFName.of('OCGs'), PDFArray);
+    expect(ocgs.size()).toBe(1);
+  });
+
+  it('rewrites the whole document when the original has no cross-reference to extend', async () => {
+    const source = await createSourcePdf(1, false);
+    const broken = new Uint8Array([...source, ...new TextEncoder().encode('\n% trailing garbage\n')]);
+    const saved = await exportIncrementally(broken);
+
+    expect(saved.subarray(0, broken.length)).not.toEqual(broken);
+    expect((await PDFDocument.load(saved)).getPageCount()).toBe(1);
+  });
+});
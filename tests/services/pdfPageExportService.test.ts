@@ -0,0 +1,73 @@
+import type { PDFDocumentLoadingTask } from 'pdfjs-dist';
+import { describe, expect, it, vi } from 'vitest';
+import { PdfPageEncodeError, savePdfPagesZip } from '../../services/pdfPageExportService';
+import { createAppSettings } from '../../test/factories';
+
+vi.mock('../../services/labelFont', () => ({
+  loadLabelFontFace: vi.fn(),
+  getLabelCanvasFont: () => 'bold 10px sans-serif',
+}));
+
+const createPdfFile = () => new File(['%PDF'], 'ep01.pdf', { type: 'application/pdf' });
+const pngOptions = { dpi: 150, format: 'png', quality: 0.8, maxLongEdge: null } as const;
+
+const createLoadingTask = (promise: Promise<unknown>) => ({
+  promise,
+  destroy: vi.fn().mockResolvedValue(undefined),
+});
+
+const createPdfDocument = (numPages: number) => ({
+  numPages,
+  getPage: vi.fn(async () => ({
+    getViewport: ({ scale }: { scale: number }) => ({ width: 100 * scale, height: 100 * scale }),
+    render: () => ({ promise: Promise.resolve() }),
+    cleanup: vi.fn(),
+  })),
+});
+
+const readZip = async (response: Response) => {
+  await response.arrayBuffer();
+  return true;
+};
+
+describe('savePdfPagesZip', () => {
+  it('destroys the loading task when the PDF fails to load', async () => {
+    const loadingTask = createLoadingTask(Promise.reject(new Error('Invalid PDF structure')));
+    const saveZip = vi.fn(readZip);
+
+    await expect(
+      savePdfPagesZip(
+        loadingTask as unknown as PDFDocumentLoadingTask,
+        createPdfFile(),
+        [],
+        createAppSettings(),
+        pngOptions,
+        saveZip
+      )
+    ).rejects.toThrow('Invalid PDF structure');
+    expect(loadingTask.destroy).toHaveBeenCalledTimes(1);
+    expect(saveZip).not.toHaveBeenCalled();
+  });
+
+  it('fails with the page number instead of leaving out a page that cannot be encoded', async () => {
+    const loadingTask = createLoadingTask(Promise.resolve(createPdfDocument(2)));
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+      setTransform: vi.fn(),
+      fillRect: vi.fn(),
+    } as unknown as CanvasRenderingContext2D);
+    vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation((callback) => callback(null));
+
+    const exported = savePdfPagesZip(
+      loadingTask as unknown as PDFDocumentLoadingTask,
+      createPdfFile(),
+      [],
+      createAppSettings(),
+      pngOptions,
+      readZip
+    );
+
+    await expect(exported).rejects.toBeInstanceOf(PdfPageEncodeError);
+    await expect(exported).rejects.toThrow('Page 1 could not be encoded as an image');
+    expect(loadingTask.destroy).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,62 @@
+import { degrees, PDFDocument } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import {
+  getPageDisplayGeometry,
+  normalizePageRotation,
+  PdfTransformMatrix,
+} from '../../services/pdfPageGeometry';
+
+const applyTransform = ([a, b, c, d, e, f]: PdfTransformMatrix, x: number, y: number) => ({
+  x: a * x + c * y + e,
+  y: b * x + d * y + f,
+});
+
+const createPage = async (rotation: number) => {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([400, 600]);
+  page.setCropBox(50, 100, 300, 400);
+  page.setRotation(degrees(rotation));
+  return page;
+};
+
+describe('pdfPageGeometry', () => {
+  it('normalizes /Rotate the way pdf.js does', () => {
+    expect(normalizePageRotation(-90)).toBe(270);
+    expect(normalizePageRotation(450)).toBe(90);
+    expect(normalizePageRotation(45)).toBe(0);
+  });
+
+  it('offsets marks by the CropBox on unrotated pages', async () => {
+    const geometry = getPageDisplayGeometry(await createPage(0));
+
+    expect(geometry.width).toBe(300);
+    expect(geometry.height).toBe(400);
+    expect(applyTransform(geometry.transform, 0, 0)).toEqual({ x: 50, y: 100 });
+  });
+
+  it.each([
+    // Display top-left corner of the rotated page, in unrotated user space
+    [90, { x: 50, y: 100 }],
+    [180, { x: 350, y: 100 }],
+    [270, { x: 350, y: 500 }],
+  ])('maps the displayed top-left corner of a %i degree page onto its visible box', async (rotation, topLeft) => {
+    const geometry = getPageDisplayGeometry(await createPage(rotation));
+    const isQuarterTurn = rotation % 180 !== 0;
+
+    expect(geometry.width).toBe(isQuarterTurn ? 400 : 300);
+    expect(geometry.height).toBe(isQuarterTurn ? 300 : 400);
+    expect(applyTransform(geometry.transform, 0, geometry.height)).toEqual(topLeft);
+  });
+
+  it('falls back to the MediaBox when the CropBox lies outside it', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage([400, 600]);
+    page.setCropBox(1000, 1000, 100, 100);
+
+    expect(getPageDisplayGeometry(page)).toEqual({
+      width: 400,
+      height: 600,
+      transform: [1, 0, 0, 1, 0, 0],
+    });
+  });
+});
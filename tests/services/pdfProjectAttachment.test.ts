@@ -0,0 +1,99 @@
+import { decodePDFRawStream, PDFDocument, PDFName, PDFRawStream } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { createProjectDocument } from '../../domain/project';
+import {
+  attachProjectDocument,
+  readProjectAttachmentFile,
+  removeProjectAttachments,
+} from '../../services/pdfProjectAttachment';
+import { encodeLabelFontData } from '../../services/labelFont';
+import { saveImagesAsPdf, saveMarkedPdf } from '../../services/pdfService';
+import { createAppSettings, createTemplate } from '../../test/factories';
+
+const createProject = (name: string) =>
+  createProjectDocument({
+    settings: createAppSettings(),
+    template: createTemplate(),
+    name,
+    savedAt: '2026-01-02T03:04:05.000Z',
+  });
+
+const toArrayBuffer = (bytes: Uint8Array) =>
+  bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+describe('pdfProjectAttachment', () => {
+  it('reads back only valid .cutmark attachments', async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage();
+    await pdfDoc.attach(Uint8Array.from([0x6e, 0x6f]), 'notes.txt', { mimeType: 'text/plain' });
+    await pdfDoc.attach(Uint8Array.from([0x7b, 0x7d]), 'broken.cutmark');
+    expect(readProjectAttachmentFile(pdfDoc)).toBeNull();
+
+    await attachProjectDocument(pdfDoc, createProject('Episode 01'));
+    const reloaded = await PDFDocument.load(await pdfDoc.save());
+
+    const file = readProjectAttachmentFile(reloaded);
+    expect(file?.name).toBe('Episode 01.cutmark');
+    expect(JSON.parse(await file!.text()).meta.name).toBe('Episode 01');
+
+    expect(removeProjectAttachments(reloaded)).toBe(2);
+    expect(readProjectAttachmentFile(reloaded)).toBeNull();
+    expect(reloaded.catalog.toString()).toContain('EmbeddedFiles');
+  });
+
+  it('attaches the label font once beside the project and restores it on read', async () => {
+    const labelFont = {
+      name: 'NotoSansJP-Bold.otf',
+      data: encodeLabelFontData(Uint8Array.from([0x4f, 0x54, 0x54, 0x4f, 0x00, 0x0a, 0x00, 0x80])),
+    };
+    const project = createProject('Episode 01');
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage();
+    await attachProjectDocument(pdfDoc, {
+      ...project,
+      style: { ...project.style, labelFont },
+    });
+    const reloaded = await PDFDocument.load(await pdfDoc.save());
+
+    const embeddedFiles = reloaded.context
+      .enumerateIndirectObjects()
+      .flatMap(([, object]) =>
+        object instanceof PDFRawStream &&
+        object.dict.get(PDFName.of('Type')) === PDFName.of('EmbeddedFile')
+          ? [decodePDFRawStream(object).decode()]
+          : []
+      );
+    expect(embeddedFiles).toHaveLength(2);
+    const attachedProject = embeddedFiles.find((bytes) => bytes[0] === 0x7b)!;
+    expect(JSON.parse(new TextDecoder().decode(attachedProject)).style.labelFont).toBeNull();
+
+    const file = readProjectAttachmentFile(reloaded);
+    expect(JSON.parse(await file!.text()).style.labelFont).toEqual(labelFont);
+
+    expect(removeProjectAttachments(reloaded)).toBe(2);
+    expect(readProjectAttachmentFile(reloaded)).toBeNull();
+  });
+
+  it('replaces the embedded project on re-export instead of adding another', async () => {
+    const firstExport = await saveImagesAsPdf([], [], createAppSettings(), {
+      project: createProject('First'),
+    });
+    const secondExport = await saveMarkedPdf(toArrayBuffer(firstExport), [], createAppSettings(), {
+      project: createProject('Second'),
+    });
+
+    const pdfDoc = await PDFDocument.load(secondExport);
+    const file = readProjectAttachmentFile(pdfDoc);
+    expect(file?.name).toBe('Second.cutmark');
+    expect(removeProjectAttachments(pdfDoc)).toBe(1);
+  });
+
+  it('drops an earlier project when exporting without one', async () => {
+    const firstExport = await saveImagesAsPdf([], [], createAppSettings(), {
+      project: createProject('First'),
+    });
+    const secondExport = await saveMarkedPdf(toArrayBuffer(firstExport), [], createAppSettings());
+
+    expect(readProjectAttachmentFile(await PDFDocument.load(secondExport))).toBeNull();
+  });
+});
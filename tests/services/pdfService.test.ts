@@ -0,0 +1,143 @@
+import {
+  decodePDFRawStream,
+  degrees,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRawStream,
+} from 'pdf-lib';
+import { describe, expect, it, vi } from 'vitest';
+import { CUTMARK_LAYER_NAME } from '../../services/pdfCutMarks';
+import { saveMarkedPdf } from '../../services/pdfService';
+import { createAppSettings, createCut } from '../../test/factories';
+
+const createSourcePdf = async (pageCount: number) => {
+  const pdfDoc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    pdfDoc.addPage([400, 600]);
+  }
+  const bytes = await pdfDoc.save();
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+};
+
+const getLayerNames = (pdfDoc: PDFDocument) => {
+  const ocProperties = pdfDoc.catalog.lookupMaybe(PDFName.of('OCProperties'), PDFDict);
+  const ocgs = ocProperties?.lookupMaybe(PDFName.of('OCGs'), PDFArray);
+  if (!ocgs) return [];
+
+  return ocgs.asArray().map((ref) => {
+    const ocg = pdfDoc.context.lookup(ref, PDFDict);
+    return ocg.lookup(PDFName.of('Name'), PDFHexString).decodeText();
+  });
+};
+
+const getPageLayerProperty = (pdfDoc: PDFDocument, pageIndex: number) => {
+  const resources = pdfDoc.getPage(pageIndex).node.Resources();
+  return resources
+    ?.lookupMaybe(PDFName.of('Properties'), PDFDict)
+    ?.get(PDFName.of('CutMarkLayer'));
+};
+
+const readPageContent = (pdfDoc: PDFDocument, pageIndex: number) => {
+  const contents = pdfDoc.getPage(pageIndex).node.Contents();
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map((ref) => pdfDoc.context.lookup(ref))
+    : [contents];
+  return streams
+    .filter((stream): stream is PDFRawStream => stream instanceof PDFRawStream)
+    .map((stream) => new TextDecoder().decode(decodePDFRawStream(stream).decode()))
+    .join('\n');
+};
+
+describe('pdfService', () => {
+  it('writes marks onto a visible CutMark optional content layer by default', async () => {
+    const source = await createSourcePdf(2);
+    const saved = await saveMarkedPdf(
+      source,
+      [createCut({ id: 'cut-1', pageIndex: 1, label: '001' })],
+      createAppSettings()
+    );
+
+    const pdfDoc = await PDFDocument.load(saved);
+    expect(getLayerNames(pdfDoc)).toEqual([CUTMARK_LAYER_NAME]);
+
+    const ocProperties = pdfDoc.catalog.lookup(PDFName.of('OCProperties'), PDFDict);
+    const layerRef = ocProperties.lookup(PDFName.of('OCGs'), PDFArray).get(0);
+    const defaultConfig = ocProperties.lookup(PDFName.of('D'), PDFDict);
+    expect(defaultConfig.lookup(PDFName.of('ON'), PDFArray).asArray()).toContain(layerRef);
+    expect(getPageLayerProperty(pdfDoc, 0)).toBeUndefined();
+    expect(getPageLayerProperty(pdfDoc, 1)).toBe(layerRef);
+  });
+
+  it('keeps the CutMark layer printable by default', async () => {
+    const source = await createSourcePdf(1);
+    const saved = await saveMarkedPdf(
+      source,
+      [createCut({ id: 'cut-1', pageIndex: 0, label: '001' })],
+      createAppSettings()
+    );
+
+    const pdfDoc = await PDFDocument.load(saved);
+    const ocProperties = pdfDoc.catalog.lookup(PDFName.of('OCProperties'), PDFDict);
+    const layerRef = ocProperties.lookup(PDFName.of('OCGs'), PDFArray).get(0);
+    expect(pdfDoc.context.lookup(layerRef, PDFDict).get(PDFName.of('Usage'))).toBeUndefined();
+    const defaultConfig = ocProperties.lookup(PDFName.of('D'), PDFDict);
+    expect(defaultConfig.get(PDFName.of('AS'))).toBeUndefined();
+    expect(defaultConfig.lookupMaybe(PDFName.of('OFF'), PDFArray)?.asArray() ?? []).not.toContain(layerRef);
+  });
+
+  it('draws plain page content without a layer when flattening', async () => {
+    const source = await createSourcePdf(1);
+    const saved = await saveMarkedPdf(
+      source,
+      [createCut({ id: 'cut-1', pageIndex: 0, label: '001' })],
+      createAppSettings(),
+      { markMode: 'flatten' }
+    );
+
+    const pdfDoc = await PDFDocument.load(saved);
+    expect(getLayerNames(pdfDoc)).toEqual([]);
+    expect(getPageLayerProperty(pdfDoc, 0)).toBeUndefined();
+  });
+
+  it('maps marks through the page rotation and CropBox', async () => {
+    const sourceDoc = await PDFDocument.create();
+    const page = sourceDoc.addPage([400, 600]);
+    page.setCropBox(50, 100, 300, 400);
+    page.setRotation(degrees(90));
+    const sourceBytes = await sourceDoc.save();
+
+    const saved = await saveMarkedPdf(
+      sourceBytes.buffer.slice(sourceBytes.byteOffset, sourceBytes.byteOffset + sourceBytes.byteLength) as ArrayBuffer,
+      [createCut({ id: 'cut-1', pageIndex: 0, x: 0.5, y: 0, label: '001' })],
+      createAppSettings({ fontSize: 20, useWhiteBackground: true, backgroundPadding: 0, textOutlineWidth: 0 })
+    );
+
+    const content = readPageContent(await PDFDocument.load(saved), 0);
+    expect(content).toContain('0 1 -1 0 350 100 cm');
+    // The 20pt box is laid out in the rotated 400 x 300 display space, its top edge at the display top
+    expect(content).toMatch(/1 0 0 1 [\d.]+ 280 cm/);
+  });
+
+  it('reports page progress and stops when the export is aborted', async () => {
+    const source = await createSourcePdf(3);
+    const onProgress = vi.fn();
+    await saveMarkedPdf(source, [], createAppSettings(), { onProgress });
+    expect(onProgress.mock.calls).toEqual([[1, 3], [2, 3], [3, 3]]);
+
+    const controller = new AbortController();
+    const abortingProgress = vi.fn((current: number) => {
+      if (current === 2) controller.abort();
+    });
+
+    await expect(
+      saveMarkedPdf(source, [], createAppSettings(), {
+        onProgress: abortingProgress,
+        signal: controller.signal,
+      })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(abortingProgress).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,234 @@
+import { deflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { decodeTiff, isTiffHeader } from '../../services/tiffDecoder';
+
+interface TiffEntry {
+  tag: number;
+  type: 3 | 4;
+  values: number[];
+}
+
+// Little-endian TIFF with one IFD right after the header and the pixel data after the IFD
+const buildTiff = (entries: TiffEntry[], pixelData: number[], extraData: number[] = []) => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  const ifdSize = 2 + sorted.length * 12 + 4;
+  const extraOffset = 8 + ifdSize;
+  const pixelOffset = extraOffset + extraData.length;
+  const bytes = new Uint8Array(pixelOffset + pixelData.length);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set([0x49, 0x49, 0x2a, 0x00]);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, sorted.length, true);
+  sorted.forEach(({ tag, type, values }, index) => {
+    const entryOffset = 10 + index * 12;
+    view.setUint16(entryOffset, tag, true);
+    view.setUint16(entryOffset + 2, type, true);
+    view.setUint32(entryOffset + 4, values.length, true);
+    const resolved = tag === 273 ? [pixelOffset] : values;
+    if (type === 3 && resolved.length <= 2) {
+      resolved.forEach((value, i) => view.setUint16(entryOffset + 8 + i * 2, value, true));
+    } else if (type === 4 && resolved.length === 1) {
+      view.setUint32(entryOffset + 8, resolved[0], true);
+    } else {
+      view.setUint32(entryOffset + 8, extraOffset, true);
+    }
+  });
+  bytes.set(extraData, extraOffset);
+  bytes.set(pixelData, pixelOffset);
+  return bytes.buffer;
+};
+
+const baseEntries = (
+  width: number,
+  height: number,
+  options: { bits: number; samples: number; photometric: number; compression: number; byteCount: number }
+): TiffEntry[] => [
+  { tag: 256, type: 3, values: [width] },
+  { tag: 257, type: 3, values: [height] },
+  { tag: 258, type: 3, values: [options.bits] },
+  { tag: 259, type: 3, values: [options.compression] },
+  { tag: 262, type: 3, values: [options.photometric] },
+  { tag: 273, type: 4, values: [0] },
+  { tag: 277, type: 3, values: [options.samples] },
+  { tag: 278, type: 3, values: [height] },
+  { tag: 279, type: 4, values: [options.byteCount] },
+];
+
+// Mirrors the libtiff LZW writer: codes start at 9 bits, MSB-first
+const encodeLzw = (input: number[]) => {
+  const codes: Array<{ code: number; width: number }> = [];
+  const table = new Map<string, number>();
+  let nextCode = 258;
+  let width = 9;
+  let current = '';
+  codes.push({ code: 256, width });
+  for (const byte of input) {
+    const candidate = current ? `${current},${byte}` : `${byte}`;
+    if (!current || table.has(candidate)) {
+      current = candidate;
+      continue;
+    }
+    codes.push({ code: current.includes(',') ? table.get(current)! : Number(current), width });
+    table.set(candidate, nextCode++);
+    if (nextCode > (1 << width) - 1) width++;
+    current = `${byte}`;
+  }
+  codes.push({ code: current.includes(',') ? table.get(current)! : Number(current), width });
+  codes.push({ code: 257, width });
+
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bitCount = 0;
+  for (const { code, width: codeWidth } of codes) {
+    buffer = (buffer << codeWidth) | code;
+    bitCount += codeWidth;
+    while (bitCount >= 8) {
+      bytes.push((buffer >> (bitCount - 8)) & 0xff);
+      bitCount -= 8;
+    }
+    buffer &= (1 << bitCount) - 1;
+  }
+  if (bitCount > 0) bytes.push((buffer << (8 - bitCount)) & 0xff);
+  return bytes;
+};
+
+const pixelAt = (data: Uint8ClampedArray, width: number, x: number, y: number) =>
+  Array.from(data.slice((y * width + x) * 4, (y * width + x) * 4 + 4));
+
+describe('tiffDecoder', () => {
+  it('recognises both byte orders', () => {
+    expect(isTiffHeader(Uint8Array.from([0x49, 0x49, 0x2a, 0x00]))).toBe(true);
+    expect(isTiffHeader(Uint8Array.from([0x4d, 0x4d, 0x00, 0x2a]))).toBe(true);
+    expect(isTiffHeader(Uint8Array.from([0x89, 0x50, 0x4e, 0x47]))).toBe(false);
+  });
+
+  it('decodes uncompressed RGB strips', async () => {
+    const pixels = [255, 0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255];
+    const decoded = await decodeTiff(
+      buildTiff(
+        baseEntries(2, 2, { bits: 8, samples: 3, photometric: 2, compression: 1, byteCount: pixels.length }),
+        pixels
+      )
+    );
+
+    expect(decoded.width).toBe(2);
+    expect(decoded.height).toBe(2);
+    expect(pixelAt(decoded.data, 2, 1, 0)).toEqual([0, 255, 0, 255]);
+    expect(pixelAt(decoded.data, 2, 1, 1)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('decodes 1-bit scans where white is zero', async () => {
+    // 10 pixels per row pad each row to two bytes
+    const pixels = [0b10000000, 0b01000000, 0b00000000, 0b00000000];
+    const decoded = await decodeTiff(
+      buildTiff(
+        baseEntries(10, 2, { bits: 1, samples: 1, photometric: 0, compression: 1, byteCount: pixels.length }),
+        pixels
+      )
+    );
+
+    expect(pixelAt(decoded.data, 10, 0, 0)).toEqual([0, 0, 0, 255]);
+    expect(pixelAt(decoded.data, 10, 1, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixelAt(decoded.data, 10, 9, 0)).toEqual([0, 0, 0, 255]);
+    expect(pixelAt(decoded.data, 10, 9, 1)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('decodes PackBits grayscale', async () => {
+    // A run of four 0x80 followed by four literal bytes
+    const packed = [0xfd, 0x80, 0x03, 0x00, 0x40, 0xc0, 0xff];
+    const decoded = await decodeTiff(
+      buildTiff(
+        baseEntries(4, 2, { bits: 8, samples: 1, photometric: 1, compression: 32773, byteCount: packed.length }),
+        packed
+      )
+    );
+
+    expect(pixelAt(decoded.data, 4, 3, 0)).toEqual([128, 128, 128, 255]);
+    expect(pixelAt(decoded.data, 4, 1, 1)).toEqual([64, 64, 64, 255]);
+    expect(pixelAt(decoded.data, 4, 3, 1)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('decodes LZW data with the horizontal predictor', async () => {
+    const width = 40;
+    const height = 20;
+    const rows: number[] = [];
+    for (let y = 0; y < height; y++) {
+      // Differences of 3 per pixel, so each row reads 10, 13, 16, ...
+      rows.push(10 + y, ...new Array<number>(width - 1).fill(3));
+    }
+    const encoded = encodeLzw(rows);
+    const decoded = await decodeTiff(
+      buildTiff(
+        [
+          ...baseEntries(width, height, { bits: 8, samples: 1, photometric: 1, compression: 5, byteCount: encoded.length }),
+          { tag: 317, type: 3, values: [2] },
+        ],
+        encoded
+      )
+    );
+
+    expect(pixelAt(decoded.data, width, 0, 0)).toEqual([10, 10, 10, 255]);
+    expect(pixelAt(decoded.data, width, 2, 0)).toEqual([16, 16, 16, 255]);
+    expect(pixelAt(decoded.data, width, 39, 19)).toEqual([146, 146, 146, 255]);
+  });
+
+  it('decodes LZW data once codes widen past 9 bits', async () => {
+    const size = 48;
+    let seed = 1;
+    const pixels = Array.from({ length: size * size }, () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed >> 23;
+    });
+    const encoded = encodeLzw(pixels);
+    const decoded = await decodeTiff(
+      buildTiff(
+        baseEntries(size, size, { bits: 8, samples: 1, photometric: 1, compression: 5, byteCount: encoded.length }),
+        encoded
+      )
+    );
+
+    const gray = Array.from({ length: size * size }, (_, index) => decoded.data[index * 4]);
+    expect(gray).toEqual(pixels);
+  });
+
+  it('decodes Deflate strips', async () => {
+    const compressed = Array.from(deflateSync(Uint8Array.from([0, 85, 170, 255])));
+    const decoded = await decodeTiff(
+      buildTiff(
+        baseEntries(4, 1, { bits: 8, samples: 1, photometric: 1, compression: 8, byteCount: compressed.length }),
+        compressed
+      )
+    );
+
+    expect(pixelAt(decoded.data, 4, 2, 0)).toEqual([170, 170, 170, 255]);
+  });
+
+  it('looks up palette colours', async () => {
+    const colorMap = new Array<number>(3 * 256).fill(0);
+    colorMap[1] = 0xffff; // red of index 1
+    colorMap[256 + 2] = 0x8000; // green of index 2
+    const extraData = colorMap.flatMap((value) => [value & 0xff, value >> 8]);
+    const decoded = await decodeTiff(
+      buildTiff(
+        [
+          ...baseEntries(2, 1, { bits: 8, samples: 1, photometric: 3, compression: 1, byteCount: 2 }),
+          { tag: 320, type: 3, values: colorMap },
+        ],
+        [1, 2],
+        extraData
+      )
+    );
+
+    expect(pixelAt(decoded.data, 2, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(decoded.data, 2, 1, 0)).toEqual([0, 128, 0, 255]);
+  });
+
+  it('rejects compressions it cannot decode', async () => {
+    await expect(
+      decodeTiff(
+        buildTiff(baseEntries(1, 1, { bits: 8, samples: 3, photometric: 2, compression: 7, byteCount: 3 }), [0, 0, 0])
+      )
+    ).rejects.toThrow('Unsupported TIFF compression: 7');
+  });
+});
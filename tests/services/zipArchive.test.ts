@@ -0,0 +1,116 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { sortFilesNaturally, WorkspaceImportValidationError } from '../../application/workspaceImport';
+import { readZipArchive } from '../../services/zipArchive';
+
+interface ZipFixtureEntry {
+  name: Uint8Array | string;
+  data: Uint8Array;
+  method?: 0 | 8;
+  flags?: number;
+}
+
+const encode = (value: string) => new TextEncoder().encode(value);
+
+// Minimal archive writer: local headers, central directory and end record, without CRCs
+const buildZip = (entries: ZipFixtureEntry[]) => {
+  const locals: number[] = [];
+  const central: number[] = [];
+  const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+  const u32 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+
+  for (const { name, data, method = 0, flags = 0x0800 } of entries) {
+    const nameBytes = typeof name === 'string' ? encode(name) : name;
+    const offset = locals.length;
+    // DOS date 2024-04-01 10:00:00
+    const time = 10 << 11;
+    const date = ((2024 - 1980) << 9) | (4 << 5) | 1;
+    locals.push(
+      ...u32(0x04034b50), ...u16(20), ...u16(flags), ...u16(method), ...u16(time), ...u16(date),
+      ...u32(0), ...u32(data.length), ...u32(data.length), ...u16(nameBytes.length), ...u16(0),
+      ...nameBytes, ...data
+    );
+    central.push(
+      ...u32(0x02014b50), ...u16(20), ...u16(20), ...u16(flags), ...u16(method), ...u16(time), ...u16(date),
+      ...u32(0), ...u32(data.length), ...u32(data.length), ...u16(nameBytes.length), ...u16(0), ...u16(0),
+      ...u16(0), ...u16(0), ...u32(0), ...u32(offset),
+      ...nameBytes
+    );
+  }
+
+  const end = [
+    ...u32(0x06054b50), ...u16(0), ...u16(0), ...u16(entries.length), ...u16(entries.length),
+    ...u32(central.length), ...u32(locals.length), ...u16(0),
+  ];
+  return Uint8Array.from([...locals, ...central, ...end]);
+};
+
+describe('readZipArchive', () => {
+  it('unpacks stored and deflated files in path order without their folders', async () => {
+    const page = encode('page-two');
+    const zip = buildZip([
+      { name: 'ep01/c002.png', data: new Uint8Array(deflateRawSync(page)), method: 8 },
+      { name: 'ep01/', data: new Uint8Array() },
+      { name: 'ep01/c001.png', data: encode('page-one') },
+      { name: 'ep01/c010.png', data: encode('page-ten') },
+    ]);
+
+    const files = await readZipArchive(new File([zip], 'ep01.zip', { type: 'application/zip' }));
+
+    expect(files.map((file) => file.name)).toEqual(['c001.png', 'c002.png', 'c010.png']);
+    await expect(files[1].text()).resolves.toBe('page-two');
+    expect(new Date(files[0].lastModified).getFullYear()).toBe(2024);
+  });
+
+  it('keeps same-named files in folder order when the import sorts them', async () => {
+    const zip = buildZip([
+      { name: 'B/002.png', data: encode('B2') },
+      { name: 'A/001.png', data: encode('A1') },
+      { name: 'B/001.png', data: encode('B1') },
+      { name: 'A/002.png', data: encode('A2') },
+    ]);
+
+    const files = sortFilesNaturally(await readZipArchive(new File([zip], 'ep01.zip')));
+
+    await expect(Promise.all(files.map((file) => file.text()))).resolves.toEqual([
+      'A1',
+      'A2',
+      'B1',
+      'B2',
+    ]);
+  });
+
+  it('skips system files and macOS resource forks', async () => {
+    const zip = buildZip([
+      { name: 'scans/Thumbs.db', data: encode('x') },
+      { name: '__MACOSX/scans/._001.jpg', data: encode('x') },
+      { name: 'scans/.DS_Store', data: encode('x') },
+      { name: 'scans/001.jpg', data: encode('jpg') },
+    ]);
+
+    const files = await readZipArchive(new File([zip], 'scans.zip'));
+
+    expect(files.map((file) => file.name)).toEqual(['001.jpg']);
+  });
+
+  it('decodes Shift_JIS names written without the UTF-8 flag', async () => {
+    // "絵コンテ.pdf" in Shift_JIS
+    const name = Uint8Array.from([0x8a, 0x47, 0x83, 0x52, 0x83, 0x93, 0x83, 0x65, 0x2e, 0x70, 0x64, 0x66]);
+    const zip = buildZip([{ name, data: encode('%PDF'), flags: 0 }]);
+
+    const files = await readZipArchive(new File([zip], 'storyboard.zip'));
+
+    expect(files.map((file) => file.name)).toEqual(['絵コンテ.pdf']);
+  });
+
+  it('rejects password-protected archives and files that are not ZIPs', async () => {
+    const encrypted = buildZip([{ name: '001.jpg', data: encode('x'), flags: 0x0801 }]);
+
+    await expect(readZipArchive(new File([encrypted], 'locked.zip'))).rejects.toThrow(
+      'パスワード付きのZIP'
+    );
+    await expect(readZipArchive(new File(['not a zip'], 'broken.zip'))).rejects.toBeInstanceOf(
+      WorkspaceImportValidationError
+    );
+  });
+});
@@ -1,6 +1,58 @@
 
 export type DocType = 'pdf' | 'images';
 
+// 'layer' puts the marks on a toggleable optional content group, 'flatten' draws them as plain page content
+export type PdfMarkMode = 'layer' | 'flatten';
+
+// 'incremental' appends the marks to the original bytes (keeps signatures), 'rewrite' re-serializes the document
+export type PdfWriteMode = 'incremental' | 'rewrite';
+
+// One of the files merged into the workspace PDF, listed in page order; an image fills one page
+export interface PdfSource {
+  kind: 'pdf' | 'image';
+  file: File;
+  pageCount: number;
+  // A PDF with replaced pages is listed once per run of kept pages; the run starts at this page (1-based)
+  firstPage?: number;
+  // The page a scanned image takes the place of, e.g. page 12 of ep01.pdf for "ep01_p12.png"
+  replacedPage?: { file: File; pageNumber: number };
+}
+
+// A file to merge; a PDF carries the scans that replace some of its pages
+export interface PdfMergeSource extends Pick<PdfSource, 'kind' | 'file'> {
+  replacementPages?: Array<{ pageNumber: number; file: File }>;
+}
+
+// Whether a workspace merged from several files is exported as one PDF or one PDF per source
+export type PdfSourceExportMode = 'combined' | 'per-source';
+
+export type PdfImageFormat = 'png' | 'jpeg' | 'webp';
+
+// How PDF pages are rasterized when exported as numbered images
+export interface PdfImageExportOptions {
+  dpi: number;
+  format: PdfImageFormat;
+  quality: number; // 0-1, used by JPEG and WebP output
+  maxLongEdge: number | null; // Shrinks pages rendered larger than this, null keeps the DPI size
+}
+
+// 'keep' writes each image back in the format it was loaded in
+export type ImageExportFormat = 'keep' | 'png' | 'jpeg' | 'webp';
+
+// How loaded images are re-encoded when exported as numbered images
+export interface ImageExportOptions {
+  format: ImageExportFormat;
+  quality: number; // 0-1, used by JPEG and WebP output
+  maxLongEdge: number | null; // Downscales larger images to this many pixels, null keeps the original size
+}
+
+export interface ExportProgress {
+  current: number; // 1-based page being processed, 0 before the first page
+  total: number;
+  startedAt: number; // Date.now() when the export began
+  isCancelling: boolean;
+}
+
 export interface Cut {
   id: string;
   pageIndex: number; // 0-based index
@@ -8,6 +60,7 @@ export interface Cut {
   y: number; // Percentage 0-1
   label: string;
   isBranch: boolean; // True if it's an A/B/C cut
+  startsScene?: boolean; // True if the cut counter resets to a new scene here
 }
 
 export interface Template {
@@ -18,19 +71,35 @@ export interface Template {
   rowPositions: number[]; // Array of Y percentages 0-1
 }
 
+export interface CutLabelFormat {
+  prefix: string; // Text before the cut number, e.g. 'C'
+  suffix: string; // Text after the cut number
+  scenePrefix: string; // Text before the scene number, e.g. 'S' or '#'
+  sceneMinDigits: number;
+  separator: string; // Between the scene part and the cut part, e.g. '-'
+}
+
+export interface LabelFont {
+  name: string; // Original file name, shown in the style panel
+  data: string; // Base64 encoded TTF/OTF bytes
+}
+
 export interface AppSettings {
   fontSize: number;
+  labelFont: LabelFont | null; // null uses the built-in Helvetica Bold
   useWhiteBackground: boolean;
   backgroundPadding: number;
   nextNumber: number;
   branchChar: string | null; // null if not branching, 'A', 'B' etc if branching
+  sceneNumber: number | null; // null if labels carry no scene part
   autoIncrement: boolean;
   minDigits: number;
+  labelFormat: CutLabelFormat;
   textOutlineWidth: number; // Pixel width for white text outline
   enableClickSnapToRows: boolean; // 基準線付近クリック時の行スナップ
 }
 
-export type NumberingState = Pick<AppSettings, 'nextNumber' | 'branchChar'>;
+export type NumberingState = Pick<AppSettings, 'nextNumber' | 'branchChar' | 'sceneNumber'>;
 
 export interface PDFDimensions {
   width: number;
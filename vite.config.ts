@@ -42,6 +42,10 @@ export default defineConfig({
       ],
     }),
   ],
+  worker: {
+    // The export worker is created as a module worker
+    format: 'es',
+  },
   define: {
     // package.json の version をアプリに注入
     __APP_VERSION__: JSON.stringify(appVersion),